@@ -0,0 +1,23 @@
+using Signalsboard.Hospital.Api.Hubs;
+using Xunit;
+
+namespace Signalsboard.Hospital.Api.Tests.Hubs;
+
+public class VitalsHubGroupsTests
+{
+    [Fact]
+    public void Should_Send_Vital_Update_To_Hospital_Ward_And_Patient()
+    {
+        var groups = VitalsHubGroups.ForVitalUpdate("p1", "w1");
+
+        Assert.Equal(new[] { "hospital", "ward-w1", "patient-p1" }, groups);
+    }
+
+    [Fact]
+    public void Should_Skip_Ward_Group_For_Patient_Without_Bed()
+    {
+        var groups = VitalsHubGroups.ForVitalUpdate("p1", null);
+
+        Assert.Equal(new[] { "hospital", "patient-p1" }, groups);
+    }
+}
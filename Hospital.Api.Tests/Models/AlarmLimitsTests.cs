@@ -0,0 +1,55 @@
+using Signalsboard.Hospital.Api.Domain;
+using Xunit;
+
+namespace Signalsboard.Hospital.Api.Tests.Models;
+
+public class AlarmLimitsTests
+{
+    private static readonly AlarmLimits CopdLimits =
+        AlarmLimits.Default with { SpO2CriticalBelow = 84, SpO2HighBelow = 86, SpO2MediumBelow = 88 };
+
+    [Theory]
+    [InlineData(90, AlertSeverity.Low)]      // Within the 88-92% target
+    [InlineData(87, AlertSeverity.Medium)]
+    [InlineData(85, AlertSeverity.High)]
+    [InlineData(83, AlertSeverity.Critical)]
+    public void Should_Assess_SpO2_Against_Profile_Limits(int spO2, AlertSeverity expectedSeverity)
+    {
+        var vitals = new VitalSigns { SpO2 = spO2 };
+
+        Assert.Equal(expectedSeverity, vitals.AssessSpO2Alert(CopdLimits));
+    }
+
+    [Fact]
+    public void Should_Apply_Patient_Overrides_On_Top_Of_Ward_Profile()
+    {
+        // Paced patient - HR fixed at 60 shouldn't alarm, other limits still come from the ward
+        var ward = new Ward { Id = "w1", Name = "Respiratory", AlarmLimitProfile = AlarmLimitProfile.Create("copd", "COPD", null, CopdLimits) };
+        var patient = new Patient { Id = "p1", Name = "Paced Patient", Mrn = "MRN-1", Bed = new Bed { Id = "b1", Number = "1", WardId = "w1", Ward = ward } };
+        patient.SetAlarmLimitOverrides(new AlarmLimitOverrides(HrCriticalLow: 40, HrMediumLow: 50));
+
+        var limits = patient.GetEffectiveAlarmLimits();
+
+        Assert.Equal(AlertSeverity.Low, new VitalSigns { HeartRate = 52 }.AssessHeartRateAlert(limits));
+        Assert.Equal(86, limits.SpO2HighBelow);
+        Assert.True(patient.HasCustomAlarmLimits());
+    }
+
+    [Fact]
+    public void Should_Use_Default_Limits_Without_Profile_Or_Overrides()
+    {
+        var patient = new Patient { Id = "p1", Name = "John Doe", Mrn = "MRN-1" };
+        patient.SetAlarmLimitOverrides(new AlarmLimitOverrides());
+
+        Assert.Equal(AlarmLimits.Default, patient.GetEffectiveAlarmLimits());
+        Assert.False(patient.HasCustomAlarmLimits());
+    }
+
+    [Fact]
+    public void Should_Reject_Limits_That_Do_Not_Nest()
+    {
+        Assert.True(AlarmLimits.Default.IsValid());
+        Assert.False((AlarmLimits.Default with { HrMediumLow = 40 }).IsValid());
+        Assert.False((AlarmLimits.Default with { SpO2CriticalBelow = 95 }).IsValid());
+    }
+}
@@ -17,6 +17,7 @@ public class HospitalDbContext : DbContext
     public DbSet<VitalSigns> VitalSigns { get; set; } = null!;
     public DbSet<Alert> Alerts { get; set; } = null!;
     public DbSet<Staff> Staff { get; set; } = null!;
+    public DbSet<AlarmLimitProfile> AlarmLimitProfiles { get; set; } = null!;
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -43,6 +44,20 @@ public class HospitalDbContext : DbContext
 
             // Unique constraint on MRN
             entity.HasIndex(p => p.Mrn).IsUnique();
+
+            // Profiles in use can't be deleted out from under a patient
+            entity.HasOne(p => p.AlarmLimitProfile)
+                  .WithMany()
+                  .HasForeignKey(p => p.AlarmLimitProfileId)
+                  .OnDelete(DeleteBehavior.Restrict);
+        });
+
+        modelBuilder.Entity<Ward>(entity =>
+        {
+            entity.HasOne(w => w.AlarmLimitProfile)
+                  .WithMany()
+                  .HasForeignKey(w => w.AlarmLimitProfileId)
+                  .OnDelete(DeleteBehavior.Restrict);
         });
 
         modelBuilder.Entity<VitalSigns>(entity =>
@@ -9,11 +9,46 @@ namespace Signalsboard.Hospital.Api.Data;
 /// </summary>
 public static class SeedData
 {
+    /// <summary>
+    /// Named clinical profiles - paediatric bands follow the usual PEWS age groups.
+    /// </summary>
+    private static AlarmLimitProfile[] CreateAlarmLimitProfiles() => new[]
+    {
+        AlarmLimitProfile.Create("adult", "Adult", "Standard adult limits", AlarmLimits.Default),
+        AlarmLimitProfile.Create("copd", "COPD (SpO₂ 88-92%)", "Prescribed 88-92% SpO₂ target - hypercapnic respiratory failure",
+            AlarmLimits.Default with { SpO2CriticalBelow = 84, SpO2HighBelow = 86, SpO2MediumBelow = 88 }),
+        AlarmLimitProfile.Create("paeds-1-4", "Paediatric 1-4 years", null, new AlarmLimits(
+            HrCriticalLow: 70, HrMediumLow: 80, HrMediumHigh: 150, HrCriticalHigh: 170,
+            SpO2CriticalBelow: 90, SpO2HighBelow: 92, SpO2MediumBelow: 94,
+            BpCriticalSystolic: 130, BpCriticalDiastolic: 90,
+            BpHighSystolic: 120, BpHighDiastolic: 80,
+            BpMediumSystolic: 110, BpMediumDiastolic: 70)),
+        AlarmLimitProfile.Create("paeds-5-11", "Paediatric 5-11 years", null, new AlarmLimits(
+            HrCriticalLow: 60, HrMediumLow: 70, HrMediumHigh: 130, HrCriticalHigh: 150,
+            SpO2CriticalBelow: 90, SpO2HighBelow: 92, SpO2MediumBelow: 94,
+            BpCriticalSystolic: 140, BpCriticalDiastolic: 95,
+            BpHighSystolic: 130, BpHighDiastolic: 85,
+            BpMediumSystolic: 120, BpMediumDiastolic: 78)),
+        AlarmLimitProfile.Create("paeds-12-17", "Paediatric 12-17 years", null, new AlarmLimits(
+            HrCriticalLow: 50, HrMediumLow: 60, HrMediumHigh: 115, HrCriticalHigh: 135,
+            SpO2CriticalBelow: 88, SpO2HighBelow: 92, SpO2MediumBelow: 94,
+            BpCriticalSystolic: 160, BpCriticalDiastolic: 105,
+            BpHighSystolic: 140, BpHighDiastolic: 90,
+            BpMediumSystolic: 130, BpMediumDiastolic: 80)),
+    };
+
     public static void Initialize(HospitalDbContext context)
     {
         // Apply pending migrations
         context.Database.Migrate();
 
+        // Alarm-limit profiles are seeded separately so existing databases get them too
+        if (!context.AlarmLimitProfiles.Any())
+        {
+            context.AlarmLimitProfiles.AddRange(CreateAlarmLimitProfiles());
+            context.SaveChanges();
+        }
+
         // Skip if data already exists
         if (context.Wards.Any())
             return;
@@ -0,0 +1,107 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace Signalsboard.Hospital.Api.Domain;
+
+/// <summary>
+/// Named clinical alarm-limit profile (e.g. adult, COPD, paediatric age bands).
+/// Assigned as a ward default or to individual patients.
+/// </summary>
+[Table("alarm_limit_profiles")]
+public class AlarmLimitProfile
+{
+    [Key]
+    [Column("id")]
+    [MaxLength(50)]
+    public string Id { get; set; } = null!;
+
+    [Column("name")]
+    [MaxLength(100)]
+    [Required]
+    public string Name { get; set; } = null!;
+
+    [Column("description")]
+    [MaxLength(500)]
+    public string? Description { get; set; }
+
+    [Column("hr_critical_low")]
+    public int HrCriticalLow { get; set; }
+
+    [Column("hr_medium_low")]
+    public int HrMediumLow { get; set; }
+
+    [Column("hr_medium_high")]
+    public int HrMediumHigh { get; set; }
+
+    [Column("hr_critical_high")]
+    public int HrCriticalHigh { get; set; }
+
+    [Column("spo2_critical_below")]
+    public int SpO2CriticalBelow { get; set; }
+
+    [Column("spo2_high_below")]
+    public int SpO2HighBelow { get; set; }
+
+    [Column("spo2_medium_below")]
+    public int SpO2MediumBelow { get; set; }
+
+    [Column("bp_critical_systolic")]
+    public int BpCriticalSystolic { get; set; }
+
+    [Column("bp_critical_diastolic")]
+    public int BpCriticalDiastolic { get; set; }
+
+    [Column("bp_high_systolic")]
+    public int BpHighSystolic { get; set; }
+
+    [Column("bp_high_diastolic")]
+    public int BpHighDiastolic { get; set; }
+
+    [Column("bp_medium_systolic")]
+    public int BpMediumSystolic { get; set; }
+
+    [Column("bp_medium_diastolic")]
+    public int BpMediumDiastolic { get; set; }
+
+    // Business Logic Methods
+    public AlarmLimits ToLimits()
+    {
+        return new AlarmLimits(
+            HrCriticalLow,
+            HrMediumLow,
+            HrMediumHigh,
+            HrCriticalHigh,
+            SpO2CriticalBelow,
+            SpO2HighBelow,
+            SpO2MediumBelow,
+            BpCriticalSystolic,
+            BpCriticalDiastolic,
+            BpHighSystolic,
+            BpHighDiastolic,
+            BpMediumSystolic,
+            BpMediumDiastolic);
+    }
+
+    public static AlarmLimitProfile Create(string id, string name, string? description, AlarmLimits limits)
+    {
+        return new AlarmLimitProfile
+        {
+            Id = id,
+            Name = name,
+            Description = description,
+            HrCriticalLow = limits.HrCriticalLow,
+            HrMediumLow = limits.HrMediumLow,
+            HrMediumHigh = limits.HrMediumHigh,
+            HrCriticalHigh = limits.HrCriticalHigh,
+            SpO2CriticalBelow = limits.SpO2CriticalBelow,
+            SpO2HighBelow = limits.SpO2HighBelow,
+            SpO2MediumBelow = limits.SpO2MediumBelow,
+            BpCriticalSystolic = limits.BpCriticalSystolic,
+            BpCriticalDiastolic = limits.BpCriticalDiastolic,
+            BpHighSystolic = limits.BpHighSystolic,
+            BpHighDiastolic = limits.BpHighDiastolic,
+            BpMediumSystolic = limits.BpMediumSystolic,
+            BpMediumDiastolic = limits.BpMediumDiastolic
+        };
+    }
+}
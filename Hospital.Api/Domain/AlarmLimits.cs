@@ -0,0 +1,112 @@
+namespace Signalsboard.Hospital.Api.Domain;
+
+/// <summary>
+/// Alarm thresholds used to assess vital signs.
+/// Default holds the standard adult bands; clinical profiles and per-patient overrides replace individual limits.
+/// </summary>
+public record AlarmLimits(
+    int HrCriticalLow,
+    int HrMediumLow,
+    int HrMediumHigh,
+    int HrCriticalHigh,
+    int SpO2CriticalBelow,
+    int SpO2HighBelow,
+    int SpO2MediumBelow,
+    int BpCriticalSystolic,
+    int BpCriticalDiastolic,
+    int BpHighSystolic,
+    int BpHighDiastolic,
+    int BpMediumSystolic,
+    int BpMediumDiastolic)
+{
+    /// <summary>
+    /// Standard adult limits - used when neither the patient nor their ward has a profile.
+    /// </summary>
+    public static readonly AlarmLimits Default = new(
+        HrCriticalLow: 45,
+        HrMediumLow: 55,
+        HrMediumHigh: 110,
+        HrCriticalHigh: 130,
+        SpO2CriticalBelow: 88,
+        SpO2HighBelow: 92,
+        SpO2MediumBelow: 94,
+        BpCriticalSystolic: 180,
+        BpCriticalDiastolic: 110,
+        BpHighSystolic: 160,
+        BpHighDiastolic: 100,
+        BpMediumSystolic: 140,
+        BpMediumDiastolic: 90);
+
+    /// <summary>
+    /// Replace the limits a patient overrides, keep the rest.
+    /// </summary>
+    public AlarmLimits Apply(AlarmLimitOverrides? overrides)
+    {
+        if (overrides == null) return this;
+
+        return new AlarmLimits(
+            overrides.HrCriticalLow ?? HrCriticalLow,
+            overrides.HrMediumLow ?? HrMediumLow,
+            overrides.HrMediumHigh ?? HrMediumHigh,
+            overrides.HrCriticalHigh ?? HrCriticalHigh,
+            overrides.SpO2CriticalBelow ?? SpO2CriticalBelow,
+            overrides.SpO2HighBelow ?? SpO2HighBelow,
+            overrides.SpO2MediumBelow ?? SpO2MediumBelow,
+            overrides.BpCriticalSystolic ?? BpCriticalSystolic,
+            overrides.BpCriticalDiastolic ?? BpCriticalDiastolic,
+            overrides.BpHighSystolic ?? BpHighSystolic,
+            overrides.BpHighDiastolic ?? BpHighDiastolic,
+            overrides.BpMediumSystolic ?? BpMediumSystolic,
+            overrides.BpMediumDiastolic ?? BpMediumDiastolic);
+    }
+
+    /// <summary>
+    /// Bands must nest - critical outside medium - or a reading could skip a severity.
+    /// </summary>
+    public bool IsValid()
+    {
+        var heartRateOrdered = HrCriticalLow > 0
+            && HrCriticalLow < HrMediumLow
+            && HrMediumLow < HrMediumHigh
+            && HrMediumHigh < HrCriticalHigh
+            && HrCriticalHigh <= 300;
+
+        var spO2Ordered = SpO2CriticalBelow > 0
+            && SpO2CriticalBelow <= SpO2HighBelow
+            && SpO2HighBelow <= SpO2MediumBelow
+            && SpO2MediumBelow <= 100;
+
+        var bloodPressureOrdered = BpMediumSystolic > 0
+            && BpMediumSystolic <= BpHighSystolic
+            && BpHighSystolic <= BpCriticalSystolic
+            && BpMediumDiastolic > 0
+            && BpMediumDiastolic <= BpHighDiastolic
+            && BpHighDiastolic <= BpCriticalDiastolic;
+
+        return heartRateOrdered && spO2Ordered && bloodPressureOrdered;
+    }
+}
+
+/// <summary>
+/// Per-patient alarm limit overrides - a null limit keeps the profile's value.
+/// </summary>
+public record AlarmLimitOverrides(
+    int? HrCriticalLow = null,
+    int? HrMediumLow = null,
+    int? HrMediumHigh = null,
+    int? HrCriticalHigh = null,
+    int? SpO2CriticalBelow = null,
+    int? SpO2HighBelow = null,
+    int? SpO2MediumBelow = null,
+    int? BpCriticalSystolic = null,
+    int? BpCriticalDiastolic = null,
+    int? BpHighSystolic = null,
+    int? BpHighDiastolic = null,
+    int? BpMediumSystolic = null,
+    int? BpMediumDiastolic = null)
+{
+    public bool HasAny()
+    {
+        return this != new AlarmLimitOverrides();
+    }
+}
@@ -1,5 +1,6 @@
 using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Text.Json;
 
 namespace Signalsboard.Hospital.Api.Domain;
 
@@ -47,14 +48,60 @@ public class Patient
     [Column("nurse_attending")]
     public bool NurseAttending { get; set; } = false;
 
+    [Column("alarm_limit_profile_id")]
+    [MaxLength(50)]
+    public string? AlarmLimitProfileId { get; set; } // Null inherits the ward default
+
+    [Column("alarm_limit_overrides", TypeName = "jsonb")]
+    public string? AlarmLimitOverridesJson { get; set; } // Serialized AlarmLimitOverrides
+
     // Navigation properties
     [ForeignKey("BedId")]
     public virtual Bed? Bed { get; set; }
+
+    [ForeignKey("AlarmLimitProfileId")]
+    public virtual AlarmLimitProfile? AlarmLimitProfile { get; set; }
     
     public virtual ICollection<VitalSigns> VitalSigns { get; set; } = new List<VitalSigns>();
     public virtual ICollection<Alert> Alerts { get; set; } = new List<Alert>();
 
+    private static readonly JsonSerializerOptions AlarmLimitJsonOptions = new(JsonSerializerDefaults.Web);
+
     // Business Logic Methods
+    public AlarmLimitOverrides? GetAlarmLimitOverrides()
+    {
+        return string.IsNullOrEmpty(this.AlarmLimitOverridesJson)
+            ? null
+            : JsonSerializer.Deserialize<AlarmLimitOverrides>(this.AlarmLimitOverridesJson, AlarmLimitJsonOptions);
+    }
+
+    public void SetAlarmLimitOverrides(AlarmLimitOverrides? overrides)
+    {
+        this.AlarmLimitOverridesJson = overrides != null && overrides.HasAny()
+            ? JsonSerializer.Serialize(overrides, AlarmLimitJsonOptions)
+            : null;
+    }
+
+    /// <summary>
+    /// Limits this patient is assessed against: their own profile, else the ward default,
+    /// else the adult defaults - with per-patient overrides applied on top.
+    /// Requires AlarmLimitProfile and Bed.Ward.AlarmLimitProfile to be loaded.
+    /// </summary>
+    public AlarmLimits GetEffectiveAlarmLimits()
+    {
+        var profile = this.AlarmLimitProfile ?? this.Bed?.Ward?.AlarmLimitProfile;
+        var limits = profile?.ToLimits() ?? AlarmLimits.Default;
+        return limits.Apply(this.GetAlarmLimitOverrides());
+    }
+
+    /// <summary>
+    /// True when the patient has their own profile or overrides, rather than the ward's limits.
+    /// </summary>
+    public bool HasCustomAlarmLimits()
+    {
+        return this.AlarmLimitProfileId != null || this.AlarmLimitOverridesJson != null;
+    }
+
     public bool IsInCriticalCondition()
     {
         return this.Status.Equals("critical", StringComparison.OrdinalIgnoreCase);
@@ -75,17 +122,19 @@ public class Patient
         if (this.IsInCriticalCondition())
             return AlertSeverity.Critical;
 
-        // Assess each vital sign
+        // Assess each vital sign against this patient's alarm limits
+        var limits = this.GetEffectiveAlarmLimits();
+
         var hrSeverity = latestVitals.HeartRate.HasValue
-            ? latestVitals.AssessHeartRateAlert()
+            ? latestVitals.AssessHeartRateAlert(limits)
             : AlertSeverity.Low;
 
         var spo2Severity = latestVitals.SpO2.HasValue
-            ? latestVitals.AssessSpO2Alert()
+            ? latestVitals.AssessSpO2Alert(limits)
             : AlertSeverity.Low;
 
         var bpSeverity = (latestVitals.BpSystolic.HasValue && latestVitals.BpDiastolic.HasValue)
-            ? latestVitals.AssessBloodPressureAlert()
+            ? latestVitals.AssessBloodPressureAlert(limits)
             : AlertSeverity.Low;
 
         // If any single vital is Critical, patient is at High risk minimum
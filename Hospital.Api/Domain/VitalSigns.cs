@@ -43,47 +43,51 @@ public class VitalSigns
     public virtual Patient Patient { get; set; } = null!;
 
     // Business Logic Methods
-    public AlertSeverity AssessHeartRateAlert()
+    // Assessments use AlarmLimits.Default unless a patient's effective limits are passed
+    public AlertSeverity AssessHeartRateAlert(AlarmLimits? limits = null)
     {
         if (!this.HeartRate.HasValue) return AlertSeverity.Low;
-        
-        return this.HeartRate.Value switch
-        {
-            <= 45 or >= 130 => AlertSeverity.Critical,
-            <= 55 or >= 110 => AlertSeverity.Medium,
-            _ => AlertSeverity.Low
-        };
+        limits ??= AlarmLimits.Default;
+
+        var heartRate = this.HeartRate.Value;
+        if (heartRate <= limits.HrCriticalLow || heartRate >= limits.HrCriticalHigh)
+            return AlertSeverity.Critical;
+
+        if (heartRate <= limits.HrMediumLow || heartRate >= limits.HrMediumHigh)
+            return AlertSeverity.Medium;
+
+        return AlertSeverity.Low;
     }
 
-    public AlertSeverity AssessSpO2Alert()
+    public AlertSeverity AssessSpO2Alert(AlarmLimits? limits = null)
     {
         if (!this.SpO2.HasValue) return AlertSeverity.Low;
-        
-        return this.SpO2.Value switch
-        {
-            < 88 => AlertSeverity.Critical,
-            < 92 => AlertSeverity.High,
-            < 94 => AlertSeverity.Medium,
-            _ => AlertSeverity.Low
-        };
+        limits ??= AlarmLimits.Default;
+
+        var spO2 = this.SpO2.Value;
+        if (spO2 < limits.SpO2CriticalBelow) return AlertSeverity.Critical;
+        if (spO2 < limits.SpO2HighBelow) return AlertSeverity.High;
+        if (spO2 < limits.SpO2MediumBelow) return AlertSeverity.Medium;
+        return AlertSeverity.Low;
     }
 
-    public AlertSeverity AssessBloodPressureAlert()
+    public AlertSeverity AssessBloodPressureAlert(AlarmLimits? limits = null)
     {
         if (!this.BpSystolic.HasValue || !this.BpDiastolic.HasValue) return AlertSeverity.Low;
-        
+        limits ??= AlarmLimits.Default;
+
         // Check for hypertensive crisis
-        if (this.BpSystolic >= 180 || this.BpDiastolic >= 110)
+        if (this.BpSystolic >= limits.BpCriticalSystolic || this.BpDiastolic >= limits.BpCriticalDiastolic)
             return AlertSeverity.Critical;
-            
+
         // Stage 2 hypertension
-        if (this.BpSystolic >= 160 || this.BpDiastolic >= 100)
+        if (this.BpSystolic >= limits.BpHighSystolic || this.BpDiastolic >= limits.BpHighDiastolic)
             return AlertSeverity.High;
-            
+
         // Stage 1 hypertension
-        if (this.BpSystolic >= 140 || this.BpDiastolic >= 90)
+        if (this.BpSystolic >= limits.BpMediumSystolic || this.BpDiastolic >= limits.BpMediumDiastolic)
             return AlertSeverity.Medium;
-            
+
         return AlertSeverity.Low;
     }
 
@@ -113,11 +117,11 @@ public class VitalSigns
         return DateTime.UtcNow - this.RecordedAt > threshold;
     }
 
-    public AlertSeverity CalculateAlertSeverity()
+    public AlertSeverity CalculateAlertSeverity(AlarmLimits? limits = null)
     {
-        var hrAlert = this.AssessHeartRateAlert();
-        var spo2Alert = this.AssessSpO2Alert();
-        var bpAlert = this.AssessBloodPressureAlert();
+        var hrAlert = this.AssessHeartRateAlert(limits);
+        var spo2Alert = this.AssessSpO2Alert(limits);
+        var bpAlert = this.AssessBloodPressureAlert(limits);
 
         // Return the highest severity among all vital signs
         var maxSeverity = new[] { hrAlert, spo2Alert, bpAlert }.Max();
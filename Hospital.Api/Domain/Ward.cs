@@ -23,7 +23,14 @@ public class Ward
     [MaxLength(200)]
     public string? Location { get; set; }
 
+    [Column("alarm_limit_profile_id")]
+    [MaxLength(50)]
+    public string? AlarmLimitProfileId { get; set; } // Ward default - null uses AlarmLimits.Default
+
     // Navigation properties
+    [ForeignKey("AlarmLimitProfileId")]
+    public virtual AlarmLimitProfile? AlarmLimitProfile { get; set; }
+
     public virtual ICollection<Bed> Beds { get; set; } = new List<Bed>();
     public virtual ICollection<Staff> Staff { get; set; } = new List<Staff>();
 }
\ No newline at end of file
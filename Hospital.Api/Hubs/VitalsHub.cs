@@ -6,6 +6,8 @@ namespace Signalsboard.Hospital.Api.Hubs;
 /// <summary>
 /// SignalR Hub for broadcasting real-time vital signs updates to connected clients.
 /// Uses WebSocket with automatic long-polling fallback for maximum compatibility.
+/// Vital updates go only to the scopes a client subscribes to (hospital, ward or patient);
+/// alerts and patient state changes still go to every client.
 /// </summary>
 public class VitalsHub : Hub<IVitalsClient>
 {
@@ -34,6 +36,46 @@ public class VitalsHub : Hub<IVitalsClient>
         await base.OnDisconnectedAsync(exception);
     }
 
+    /// <summary>
+    /// Subscribe client to vital updates for every patient in the hospital.
+    /// </summary>
+    public async Task SubscribeToHospital()
+    {
+        await Groups.AddToGroupAsync(Context.ConnectionId, VitalsHubGroups.Hospital);
+        _logger.LogInformation("Client {ConnectionId} subscribed to the hospital", Context.ConnectionId);
+    }
+
+    /// <summary>
+    /// Unsubscribe client from hospital-wide vital updates.
+    /// </summary>
+    public async Task UnsubscribeFromHospital()
+    {
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, VitalsHubGroups.Hospital);
+        _logger.LogInformation("Client {ConnectionId} unsubscribed from the hospital", Context.ConnectionId);
+    }
+
+    /// <summary>
+    /// Subscribe client to vital updates for the patients in a ward.
+    /// </summary>
+    /// <param name="wardId">Ward ID to subscribe to</param>
+    public async Task SubscribeToWard(string wardId)
+    {
+        await Groups.AddToGroupAsync(Context.ConnectionId, VitalsHubGroups.ForWard(wardId));
+        _logger.LogInformation("Client {ConnectionId} subscribed to ward {WardId}",
+            Context.ConnectionId, wardId);
+    }
+
+    /// <summary>
+    /// Unsubscribe client from ward vital updates.
+    /// </summary>
+    /// <param name="wardId">Ward ID to unsubscribe from</param>
+    public async Task UnsubscribeFromWard(string wardId)
+    {
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, VitalsHubGroups.ForWard(wardId));
+        _logger.LogInformation("Client {ConnectionId} unsubscribed from ward {WardId}",
+            Context.ConnectionId, wardId);
+    }
+
     /// <summary>
     /// Subscribe client to updates for a specific patient.
     /// Clients in the same group receive targeted broadcasts.
@@ -41,7 +83,7 @@ public class VitalsHub : Hub<IVitalsClient>
     /// <param name="patientId">Patient ID to subscribe to</param>
     public async Task SubscribeToPatient(string patientId)
     {
-        await Groups.AddToGroupAsync(Context.ConnectionId, $"patient-{patientId}");
+        await Groups.AddToGroupAsync(Context.ConnectionId, VitalsHubGroups.ForPatient(patientId));
         _logger.LogInformation("Client {ConnectionId} subscribed to patient {PatientId}",
             Context.ConnectionId, patientId);
     }
@@ -52,12 +94,36 @@ public class VitalsHub : Hub<IVitalsClient>
     /// <param name="patientId">Patient ID to unsubscribe from</param>
     public async Task UnsubscribeFromPatient(string patientId)
     {
-        await Groups.RemoveFromGroupAsync(Context.ConnectionId, $"patient-{patientId}");
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, VitalsHubGroups.ForPatient(patientId));
         _logger.LogInformation("Client {ConnectionId} unsubscribed from patient {PatientId}",
             Context.ConnectionId, patientId);
     }
 }
 
+/// <summary>
+/// Group names for scoped broadcasts.
+/// Groups belong to a connection ID - clients must re-join them after reconnecting.
+/// </summary>
+public static class VitalsHubGroups
+{
+    public const string Hospital = "hospital";
+
+    public static string ForWard(string wardId) => $"ward-{wardId}";
+
+    public static string ForPatient(string patientId) => $"patient-{patientId}";
+
+    /// <summary>
+    /// Every scope a patient's vital update belongs to.
+    /// Clients.Groups doesn't de-duplicate - a connection in several of these groups (e.g. while
+    /// switching scope, it joins the new one before leaving the old) receives the update once per
+    /// group, and the dashboard drops the repeats by recordedAt.
+    /// </summary>
+    public static IReadOnlyList<string> ForVitalUpdate(string patientId, string? wardId) =>
+        wardId is null
+            ? [Hospital, ForPatient(patientId)]
+            : [Hospital, ForWard(wardId), ForPatient(patientId)];
+}
+
 /// <summary>
 /// Strongly-typed client interface for SignalR messages.
 /// Ensures type safety when broadcasting from server to clients.
@@ -65,7 +131,7 @@ public class VitalsHub : Hub<IVitalsClient>
 public interface IVitalsClient
 {
     /// <summary>
-    /// Broadcasts vital signs update to all connected clients.
+    /// Sends a vital signs update to the hospital, ward and patient groups the patient belongs to.
     /// </summary>
     Task ReceiveVitalUpdate(VitalSignsUpdate update);
 
@@ -85,6 +151,23 @@ public interface IVitalsClient
     /// Ensures all browsers sync when nurse attends/leaves patient.
     /// </summary>
     Task ReceiveNurseAttendingChange(NurseAttendingChange change);
+
+    /// <summary>
+    /// Broadcasts alert acknowledgement to all connected clients.
+    /// Ensures every dashboard shows the same active/acknowledged alert state.
+    /// </summary>
+    Task ReceiveAlertAcknowledged(AlertAcknowledgement acknowledgement);
+
+    /// <summary>
+    /// Broadcasts a patient's alarm-limit profile or override change to all connected clients.
+    /// Keeps card colouring and filters on every dashboard using the same limits.
+    /// </summary>
+    Task ReceivePatientAlarmLimitsChange(PatientAlarmLimitsChange change);
+
+    /// <summary>
+    /// Broadcasts a ward default alarm-limit profile change to all connected clients.
+    /// </summary>
+    Task ReceiveWardAlarmLimitsChange(WardAlarmLimitsChange change);
 }
 
 /// <summary>
@@ -100,6 +183,7 @@ public record VitalSignsUpdate(
     int? SpO2,
     int? BpSystolic,
     int? BpDiastolic,
+    decimal? Temperature,
     string AlertSeverity,
     DateTime RecordedAt
 );
@@ -138,3 +222,38 @@ public record NurseAttendingChange(
     bool NurseAttending,
     DateTime ChangedAt
 );
+
+/// <summary>
+/// DTO for alert acknowledgements sent via SignalR.
+/// Broadcast to all clients when staff acknowledge an alert.
+/// </summary>
+public record AlertAcknowledgement(
+    string AlertId,
+    string PatientId,
+    string PatientName,
+    string AcknowledgedBy,
+    DateTime AcknowledgedAt
+);
+
+/// <summary>
+/// DTO for per-patient alarm-limit changes sent via SignalR.
+/// Broadcast to all clients when a patient's profile or overrides are edited.
+/// </summary>
+public record PatientAlarmLimitsChange(
+    string PatientId,
+    string PatientName,
+    string? AlarmLimitProfileId,
+    AlarmLimitOverrides? AlarmLimitOverrides,
+    DateTime ChangedAt
+);
+
+/// <summary>
+/// DTO for ward default alarm-limit changes sent via SignalR.
+/// Broadcast to all clients when a ward's default profile changes.
+/// </summary>
+public record WardAlarmLimitsChange(
+    string WardId,
+    string WardName,
+    string? AlarmLimitProfileId,
+    DateTime ChangedAt
+);
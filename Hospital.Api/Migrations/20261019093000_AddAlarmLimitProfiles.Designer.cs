@@ -0,0 +1,489 @@
+﻿// <auto-generated />
+using System;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Microsoft.EntityFrameworkCore.Storage.ValueConversion;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+using Signalsboard.Hospital.Api.Data;
+
+#nullable disable
+
+namespace Signalsboard.Hospital.Api.Migrations
+{
+    [DbContext(typeof(HospitalDbContext))]
+    [Migration("20261019093000_AddAlarmLimitProfiles")]
+    partial class AddAlarmLimitProfiles
+    {
+        /// <inheritdoc />
+        protected override void BuildTargetModel(ModelBuilder modelBuilder)
+        {
+#pragma warning disable 612, 618
+            modelBuilder
+                .HasAnnotation("ProductVersion", "9.0.0")
+                .HasAnnotation("Relational:MaxIdentifierLength", 63);
+
+            NpgsqlModelBuilderExtensions.UseIdentityByDefaultColumns(modelBuilder);
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.AlarmLimitProfile", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<int>("BpCriticalDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_critical_diastolic");
+
+                    b.Property<int>("BpCriticalSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_critical_systolic");
+
+                    b.Property<int>("BpHighDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_high_diastolic");
+
+                    b.Property<int>("BpHighSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_high_systolic");
+
+                    b.Property<int>("BpMediumDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_medium_diastolic");
+
+                    b.Property<int>("BpMediumSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_medium_systolic");
+
+                    b.Property<string>("Description")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)")
+                        .HasColumnName("description");
+
+                    b.Property<int>("HrCriticalHigh")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_critical_high");
+
+                    b.Property<int>("HrCriticalLow")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_critical_low");
+
+                    b.Property<int>("HrMediumHigh")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_medium_high");
+
+                    b.Property<int>("HrMediumLow")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_medium_low");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("name");
+
+                    b.Property<int>("SpO2CriticalBelow")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2_critical_below");
+
+                    b.Property<int>("SpO2HighBelow")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2_high_below");
+
+                    b.Property<int>("SpO2MediumBelow")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2_medium_below");
+
+                    b.HasKey("Id");
+
+                    b.ToTable("alarm_limit_profiles");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Alert", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime?>("AcknowledgedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("acknowledged_at");
+
+                    b.Property<string>("AcknowledgedBy")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("acknowledged_by");
+
+                    b.Property<string>("AlertType")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("alert_type");
+
+                    b.Property<bool>("IsActive")
+                        .HasColumnType("boolean")
+                        .HasColumnName("is_active");
+
+                    b.Property<string>("Message")
+                        .IsRequired()
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)")
+                        .HasColumnName("message");
+
+                    b.Property<string>("PatientId")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("patient_id");
+
+                    b.Property<string>("Severity")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)")
+                        .HasColumnName("severity");
+
+                    b.Property<DateTime>("TriggeredAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("triggered_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("TriggeredAt");
+
+                    b.HasIndex("PatientId", "IsActive");
+
+                    b.ToTable("alerts");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Bed", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<string>("BedType")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)")
+                        .HasColumnName("bed_type");
+
+                    b.Property<string>("Number")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)")
+                        .HasColumnName("number");
+
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)")
+                        .HasColumnName("status");
+
+                    b.Property<string>("WardId")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("ward_id");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("WardId");
+
+                    b.ToTable("beds");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Patient", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime>("AdmittedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("admitted_at");
+
+                    b.Property<string>("AlarmLimitOverridesJson")
+                        .HasColumnType("jsonb")
+                        .HasColumnName("alarm_limit_overrides");
+
+                    b.Property<string>("AlarmLimitProfileId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("alarm_limit_profile_id");
+
+                    b.Property<string>("AttendingPhysician")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("attending_physician");
+
+                    b.Property<string>("BedId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("bed_id");
+
+                    b.Property<bool>("InjectionModeEnabled")
+                        .HasColumnType("boolean")
+                        .HasColumnName("injection_mode_enabled");
+
+                    b.Property<string>("Mrn")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("mrn");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("name");
+
+                    b.Property<bool>("NurseAttending")
+                        .HasColumnType("boolean")
+                        .HasColumnName("nurse_attending");
+
+                    b.Property<string>("PrimaryDiagnosis")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)")
+                        .HasColumnName("primary_diagnosis");
+
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)")
+                        .HasColumnName("status");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("AlarmLimitProfileId");
+
+                    b.HasIndex("BedId")
+                        .IsUnique();
+
+                    b.HasIndex("Mrn")
+                        .IsUnique();
+
+                    b.ToTable("patients");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Staff", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<bool>("IsActive")
+                        .HasColumnType("boolean")
+                        .HasColumnName("is_active");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("name");
+
+                    b.Property<string>("Role")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("role");
+
+                    b.Property<string>("Shift")
+                        .IsRequired()
+                        .HasMaxLength(20)
+                        .HasColumnType("character varying(20)")
+                        .HasColumnName("shift");
+
+                    b.Property<string>("WardId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("ward_id");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("WardId");
+
+                    b.ToTable("staff");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.VitalSigns", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<int?>("BpDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_diastolic");
+
+                    b.Property<int?>("BpSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_systolic");
+
+                    b.Property<int?>("HeartRate")
+                        .HasColumnType("integer")
+                        .HasColumnName("heart_rate");
+
+                    b.Property<string>("PatientId")
+                        .IsRequired()
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("patient_id");
+
+                    b.Property<DateTime>("RecordedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("recorded_at");
+
+                    b.Property<string>("RecordedBy")
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("recorded_by");
+
+                    b.Property<int?>("SpO2")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2");
+
+                    b.Property<decimal?>("Temperature")
+                        .HasColumnType("decimal(4,1)")
+                        .HasColumnName("temperature");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RecordedAt");
+
+                    b.HasIndex("PatientId", "RecordedAt");
+
+                    b.ToTable("vital_signs");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Ward", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<string>("AlarmLimitProfileId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("alarm_limit_profile_id");
+
+                    b.Property<int>("Capacity")
+                        .HasColumnType("integer")
+                        .HasColumnName("capacity");
+
+                    b.Property<string>("Location")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("location");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("name");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("AlarmLimitProfileId");
+
+                    b.ToTable("wards");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Alert", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.Patient", "Patient")
+                        .WithMany("Alerts")
+                        .HasForeignKey("PatientId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Patient");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Bed", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.Ward", "Ward")
+                        .WithMany("Beds")
+                        .HasForeignKey("WardId")
+                        .OnDelete(DeleteBehavior.Restrict)
+                        .IsRequired();
+
+                    b.Navigation("Ward");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Patient", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.AlarmLimitProfile", "AlarmLimitProfile")
+                        .WithMany()
+                        .HasForeignKey("AlarmLimitProfileId")
+                        .OnDelete(DeleteBehavior.Restrict);
+
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.Bed", "Bed")
+                        .WithOne("Patient")
+                        .HasForeignKey("Signalsboard.Hospital.Api.Domain.Patient", "BedId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.Navigation("AlarmLimitProfile");
+
+                    b.Navigation("Bed");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Staff", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.Ward", "Ward")
+                        .WithMany("Staff")
+                        .HasForeignKey("WardId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.Navigation("Ward");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.VitalSigns", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.Patient", "Patient")
+                        .WithMany("VitalSigns")
+                        .HasForeignKey("PatientId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Patient");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Ward", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.AlarmLimitProfile", "AlarmLimitProfile")
+                        .WithMany()
+                        .HasForeignKey("AlarmLimitProfileId")
+                        .OnDelete(DeleteBehavior.Restrict);
+
+                    b.Navigation("AlarmLimitProfile");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Bed", b =>
+                {
+                    b.Navigation("Patient");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Patient", b =>
+                {
+                    b.Navigation("Alerts");
+
+                    b.Navigation("VitalSigns");
+                });
+
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Ward", b =>
+                {
+                    b.Navigation("Beds");
+
+                    b.Navigation("Staff");
+                });
+#pragma warning restore 612, 618
+        }
+    }
+}
@@ -0,0 +1,121 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Signalsboard.Hospital.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddAlarmLimitProfiles : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "alarm_limit_profiles",
+                columns: table => new
+                {
+                    id = table.Column<string>(type: "character varying(50)", maxLength: 50, nullable: false),
+                    name = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    description = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: true),
+                    hr_critical_low = table.Column<int>(type: "integer", nullable: false),
+                    hr_medium_low = table.Column<int>(type: "integer", nullable: false),
+                    hr_medium_high = table.Column<int>(type: "integer", nullable: false),
+                    hr_critical_high = table.Column<int>(type: "integer", nullable: false),
+                    spo2_critical_below = table.Column<int>(type: "integer", nullable: false),
+                    spo2_high_below = table.Column<int>(type: "integer", nullable: false),
+                    spo2_medium_below = table.Column<int>(type: "integer", nullable: false),
+                    bp_critical_systolic = table.Column<int>(type: "integer", nullable: false),
+                    bp_critical_diastolic = table.Column<int>(type: "integer", nullable: false),
+                    bp_high_systolic = table.Column<int>(type: "integer", nullable: false),
+                    bp_high_diastolic = table.Column<int>(type: "integer", nullable: false),
+                    bp_medium_systolic = table.Column<int>(type: "integer", nullable: false),
+                    bp_medium_diastolic = table.Column<int>(type: "integer", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_alarm_limit_profiles", x => x.id);
+                });
+
+            migrationBuilder.AddColumn<string>(
+                name: "alarm_limit_profile_id",
+                table: "wards",
+                type: "character varying(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "alarm_limit_profile_id",
+                table: "patients",
+                type: "character varying(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "alarm_limit_overrides",
+                table: "patients",
+                type: "jsonb",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_wards_alarm_limit_profile_id",
+                table: "wards",
+                column: "alarm_limit_profile_id");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_patients_alarm_limit_profile_id",
+                table: "patients",
+                column: "alarm_limit_profile_id");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_patients_alarm_limit_profiles_alarm_limit_profile_id",
+                table: "patients",
+                column: "alarm_limit_profile_id",
+                principalTable: "alarm_limit_profiles",
+                principalColumn: "id",
+                onDelete: ReferentialAction.Restrict);
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_wards_alarm_limit_profiles_alarm_limit_profile_id",
+                table: "wards",
+                column: "alarm_limit_profile_id",
+                principalTable: "alarm_limit_profiles",
+                principalColumn: "id",
+                onDelete: ReferentialAction.Restrict);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_patients_alarm_limit_profiles_alarm_limit_profile_id",
+                table: "patients");
+
+            migrationBuilder.DropForeignKey(
+                name: "FK_wards_alarm_limit_profiles_alarm_limit_profile_id",
+                table: "wards");
+
+            migrationBuilder.DropTable(
+                name: "alarm_limit_profiles");
+
+            migrationBuilder.DropIndex(
+                name: "IX_wards_alarm_limit_profile_id",
+                table: "wards");
+
+            migrationBuilder.DropIndex(
+                name: "IX_patients_alarm_limit_profile_id",
+                table: "patients");
+
+            migrationBuilder.DropColumn(
+                name: "alarm_limit_profile_id",
+                table: "wards");
+
+            migrationBuilder.DropColumn(
+                name: "alarm_limit_profile_id",
+                table: "patients");
+
+            migrationBuilder.DropColumn(
+                name: "alarm_limit_overrides",
+                table: "patients");
+        }
+    }
+}
@@ -22,6 +22,81 @@ namespace Signalsboard.Hospital.Api.Migrations
 
             NpgsqlModelBuilderExtensions.UseIdentityByDefaultColumns(modelBuilder);
 
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.AlarmLimitProfile", b =>
+                {
+                    b.Property<string>("Id")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("id");
+
+                    b.Property<int>("BpCriticalDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_critical_diastolic");
+
+                    b.Property<int>("BpCriticalSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_critical_systolic");
+
+                    b.Property<int>("BpHighDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_high_diastolic");
+
+                    b.Property<int>("BpHighSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_high_systolic");
+
+                    b.Property<int>("BpMediumDiastolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_medium_diastolic");
+
+                    b.Property<int>("BpMediumSystolic")
+                        .HasColumnType("integer")
+                        .HasColumnName("bp_medium_systolic");
+
+                    b.Property<string>("Description")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)")
+                        .HasColumnName("description");
+
+                    b.Property<int>("HrCriticalHigh")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_critical_high");
+
+                    b.Property<int>("HrCriticalLow")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_critical_low");
+
+                    b.Property<int>("HrMediumHigh")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_medium_high");
+
+                    b.Property<int>("HrMediumLow")
+                        .HasColumnType("integer")
+                        .HasColumnName("hr_medium_low");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("character varying(100)")
+                        .HasColumnName("name");
+
+                    b.Property<int>("SpO2CriticalBelow")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2_critical_below");
+
+                    b.Property<int>("SpO2HighBelow")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2_high_below");
+
+                    b.Property<int>("SpO2MediumBelow")
+                        .HasColumnType("integer")
+                        .HasColumnName("spo2_medium_below");
+
+                    b.HasKey("Id");
+
+                    b.ToTable("alarm_limit_profiles");
+                });
+
             modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Alert", b =>
                 {
                     b.Property<string>("Id")
@@ -128,6 +203,15 @@ namespace Signalsboard.Hospital.Api.Migrations
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("admitted_at");
 
+                    b.Property<string>("AlarmLimitOverridesJson")
+                        .HasColumnType("jsonb")
+                        .HasColumnName("alarm_limit_overrides");
+
+                    b.Property<string>("AlarmLimitProfileId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("alarm_limit_profile_id");
+
                     b.Property<string>("AttendingPhysician")
                         .HasMaxLength(200)
                         .HasColumnType("character varying(200)")
@@ -171,6 +255,8 @@ namespace Signalsboard.Hospital.Api.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("AlarmLimitProfileId");
+
                     b.HasIndex("BedId")
                         .IsUnique();
 
@@ -279,6 +365,11 @@ namespace Signalsboard.Hospital.Api.Migrations
                         .HasColumnType("character varying(50)")
                         .HasColumnName("id");
 
+                    b.Property<string>("AlarmLimitProfileId")
+                        .HasMaxLength(50)
+                        .HasColumnType("character varying(50)")
+                        .HasColumnName("alarm_limit_profile_id");
+
                     b.Property<int>("Capacity")
                         .HasColumnType("integer")
                         .HasColumnName("capacity");
@@ -296,6 +387,8 @@ namespace Signalsboard.Hospital.Api.Migrations
 
                     b.HasKey("Id");
 
+                    b.HasIndex("AlarmLimitProfileId");
+
                     b.ToTable("wards");
                 });
 
@@ -323,11 +416,18 @@ namespace Signalsboard.Hospital.Api.Migrations
 
             modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Patient", b =>
                 {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.AlarmLimitProfile", "AlarmLimitProfile")
+                        .WithMany()
+                        .HasForeignKey("AlarmLimitProfileId")
+                        .OnDelete(DeleteBehavior.Restrict);
+
                     b.HasOne("Signalsboard.Hospital.Api.Domain.Bed", "Bed")
                         .WithOne("Patient")
                         .HasForeignKey("Signalsboard.Hospital.Api.Domain.Patient", "BedId")
                         .OnDelete(DeleteBehavior.SetNull);
 
+                    b.Navigation("AlarmLimitProfile");
+
                     b.Navigation("Bed");
                 });
 
@@ -352,6 +452,16 @@ namespace Signalsboard.Hospital.Api.Migrations
                     b.Navigation("Patient");
                 });
 
+            modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Ward", b =>
+                {
+                    b.HasOne("Signalsboard.Hospital.Api.Domain.AlarmLimitProfile", "AlarmLimitProfile")
+                        .WithMany()
+                        .HasForeignKey("AlarmLimitProfileId")
+                        .OnDelete(DeleteBehavior.Restrict);
+
+                    b.Navigation("AlarmLimitProfile");
+                });
+
             modelBuilder.Entity("Signalsboard.Hospital.Api.Domain.Bed", b =>
                 {
                     b.Navigation("Patient");
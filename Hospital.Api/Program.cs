@@ -6,6 +6,8 @@ using Signalsboard.Hospital.Api.Hubs;
 using Signalsboard.Hospital.Api.Services;
 using static Signalsboard.Hospital.Api.Data.SeedData;
 
+const string CorrelationIdHeader = "X-Correlation-Id";
+
 var builder = WebApplication.CreateBuilder(args);
 
 // Add PostgreSQL Database
@@ -27,10 +29,14 @@ builder.Services.AddCors(options =>
         policy.WithOrigins("http://localhost:5173") // Vite default port
               .AllowAnyHeader()
               .AllowAnyMethod()
+              .WithExposedHeaders(CorrelationIdHeader) // Let the client read it from error responses
               .AllowCredentials(); // Required for SignalR
     });
 });
 
+// RFC 7807 problem details for error responses (parsed by the client's ApiError)
+builder.Services.AddProblemDetails();
+
 // Add SignalR for real-time communication
 builder.Services.AddSignalR();
 
@@ -54,6 +60,23 @@ if (app.Environment.IsDevelopment())
     app.UseSwaggerUI();
 }
 
+// Correlation ID - echo the client's X-Correlation-Id (or generate one) so a failed request
+// shown in the dashboard can be matched to server logs
+app.Use(async (context, next) =>
+{
+    var correlationId = context.Request.Headers[CorrelationIdHeader].FirstOrDefault();
+    if (string.IsNullOrWhiteSpace(correlationId))
+        correlationId = Guid.NewGuid().ToString();
+
+    context.TraceIdentifier = correlationId;
+    context.Response.Headers[CorrelationIdHeader] = correlationId;
+
+    using (app.Logger.BeginScope(new Dictionary<string, object> { ["CorrelationId"] = correlationId }))
+    {
+        await next(context);
+    }
+});
+
 app.UseCors("AllowFrontend");
 app.UseHttpsRedirection();
 
@@ -165,6 +188,15 @@ app.MapGet("/api/patients", async (HospitalDbContext db, string? wardId = null)
                 .ToList()
         );
 
+    // Active alerts per patient so dashboards can seed their alert list on load
+    var activeAlertsByPatient = (await db.Alerts
+        .Where(a => patientIds.Contains(a.PatientId) && a.IsActive)
+        .OrderByDescending(a => a.TriggeredAt)
+        .AsNoTracking()
+        .ToListAsync())
+        .GroupBy(a => a.PatientId)
+        .ToDictionary(g => g.Key, g => g.ToList());
+
     // Project to DTO
     var patientsDto = patients.Select(p => new
     {
@@ -176,6 +208,9 @@ app.MapGet("/api/patients", async (HospitalDbContext db, string? wardId = null)
         p.AttendingPhysician,
         p.PrimaryDiagnosis,
         p.InjectionModeEnabled,
+        p.NurseAttending,
+        p.AlarmLimitProfileId,
+        AlarmLimitOverrides = p.GetAlarmLimitOverrides(),
         Bed = p.Bed != null ? new
         {
             p.Bed.Id,
@@ -188,21 +223,15 @@ app.MapGet("/api/patients", async (HospitalDbContext db, string? wardId = null)
                 p.Bed.Ward.Id,
                 p.Bed.Ward.Name,
                 p.Bed.Ward.Capacity,
-                p.Bed.Ward.Location
+                p.Bed.Ward.Location,
+                p.Bed.Ward.AlarmLimitProfileId
             } : (object?)null
         } : (object?)null,
         VitalSigns = vitalsByPatient.TryGetValue(p.Id, out var vitals)
-            ? vitals.Select(v => new
-            {
-                v.Id,
-                v.PatientId,
-                v.HeartRate,
-                v.SpO2,
-                v.BpSystolic,
-                v.BpDiastolic,
-                v.Temperature,
-                v.RecordedAt
-            }).Cast<object>().ToList()
+            ? vitals.Select(ToVitalSignsDto).ToList()
+            : new List<object>(),
+        Alerts = activeAlertsByPatient.TryGetValue(p.Id, out var alerts)
+            ? alerts.Select(ToAlertDto).Cast<object>().ToList()
             : new List<object>()
     }).ToList();
 
@@ -224,6 +253,39 @@ app.MapGet("/api/patients/{id}/trend", async (HospitalDbContext db, string id, i
 .WithName("GetPatientTrend")
 .WithOpenApi();
 
+// Readings recorded since a point in time with paging (chronological) - dashboards backfill what they missed while disconnected
+app.MapGet("/api/vitals", async (HospitalDbContext db, DateTime since, int page = 1, int pageSize = 500) =>
+{
+    page = Math.Max(page, 1);
+    pageSize = Math.Clamp(pageSize, 1, 1000);
+
+    // Never further back than the 4-hour trend window
+    var earliest = DateTime.UtcNow.AddMinutes(-240);
+    if (since < earliest) since = earliest;
+
+    var query = db.VitalSigns
+        .AsNoTracking()
+        .Where(v => v.RecordedAt > since);
+
+    var totalCount = await query.CountAsync();
+    var readings = await query
+        .OrderBy(v => v.RecordedAt)
+        .ThenBy(v => v.Id) // Stable pages - every patient's reading of a tick shares its timestamp
+        .Skip((page - 1) * pageSize)
+        .Take(pageSize)
+        .ToListAsync();
+
+    return Results.Ok(new
+    {
+        Items = readings.Select(ToVitalSignsDto).ToList(),
+        Page = page,
+        PageSize = pageSize,
+        TotalCount = totalCount
+    });
+})
+.WithName("GetVitalsSince")
+.WithOpenApi();
+
 // Manual vital signs injection endpoint for testing
 app.MapPost("/api/vitals/inject", async (
     HospitalDbContext db,
@@ -235,10 +297,12 @@ app.MapPost("/api/vitals/inject", async (
     var patient = await db.Patients
         .Include(p => p.Bed)
         .ThenInclude(b => b!.Ward)
+        .ThenInclude(w => w!.AlarmLimitProfile)
+        .Include(p => p.AlarmLimitProfile)
         .FirstOrDefaultAsync(p => p.Id == request.PatientId);
 
     if (patient == null)
-        return Results.NotFound($"Patient {request.PatientId} not found");
+        return Results.Problem($"Patient {request.PatientId} not found", statusCode: StatusCodes.Status404NotFound);
 
     var vitals = new VitalSigns
     {
@@ -248,23 +312,25 @@ app.MapPost("/api/vitals/inject", async (
         SpO2 = request.SpO2,
         BpSystolic = request.BpSystolic,
         BpDiastolic = request.BpDiastolic,
+        Temperature = request.Temperature,
         RecordedAt = DateTime.UtcNow
     };
 
     if (!vitals.IsValid())
-        return Results.BadRequest("Invalid vital signs values");
+        return Results.Problem("Invalid vital signs values", statusCode: StatusCodes.Status400BadRequest);
 
     // Record injected vitals so simulator can use as baseline if injection mode is enabled
     simulatorService.RecordInjectedVitals(request.PatientId, vitals);
 
     db.VitalSigns.Add(vitals);
 
-    // Generate and save alerts
-    var alerts = alertService.GenerateAlertsForVitals(vitals);
+    // Generate and save alerts against this patient's alarm limits
+    var limits = patient.GetEffectiveAlarmLimits();
+    var alerts = alertService.GenerateAlertsForVitals(vitals, limits);
     if (alerts.Any())
     {
         db.Alerts.AddRange(alerts);
-        alertService.UpdatePatientStatus(patient, vitals);
+        alertService.UpdatePatientStatus(patient, vitals, limits);
 
         foreach (var alert in alerts)
         {
@@ -292,11 +358,12 @@ app.MapPost("/api/vitals/inject", async (
         vitals.SpO2,
         vitals.BpSystolic,
         vitals.BpDiastolic,
-        vitals.CalculateAlertSeverity().ToString(),
+        vitals.Temperature,
+        vitals.CalculateAlertSeverity(limits).ToString(),
         vitals.RecordedAt
     );
 
-    await hubContext.Clients.All.ReceiveVitalUpdate(update);
+    await hubContext.Clients.Groups(VitalsHubGroups.ForVitalUpdate(patient.Id, patient.Bed?.WardId)).ReceiveVitalUpdate(update);
 
     return Results.Ok(update);
 })
@@ -315,7 +382,7 @@ app.MapPost("/api/simulator/patient/{id}/injection-mode", async (
     // Fetch patient from database
     var patient = await db.Patients.FirstOrDefaultAsync(p => p.Id == id);
     if (patient == null)
-        return Results.NotFound($"Patient {id} not found");
+        return Results.Problem($"Patient {id} not found", statusCode: StatusCodes.Status404NotFound);
 
     // Update database (source of truth)
     patient.InjectionModeEnabled = enabled;
@@ -349,7 +416,7 @@ app.MapPost("/api/patients/{id}/nurse-attending", async (
     // Fetch patient from database
     var patient = await db.Patients.FirstOrDefaultAsync(p => p.Id == id);
     if (patient == null)
-        return Results.NotFound($"Patient {id} not found");
+        return Results.Problem($"Patient {id} not found", statusCode: StatusCodes.Status404NotFound);
 
     // Update database (source of truth)
     patient.NurseAttending = attending;
@@ -370,6 +437,177 @@ app.MapPost("/api/patients/{id}/nurse-attending", async (
 .WithName("ToggleNurseAttending")
 .WithOpenApi();
 
+// Alert history with paging (newest first)
+app.MapGet("/api/alerts", async (
+    HospitalDbContext db,
+    int page = 1,
+    int pageSize = 50,
+    string? patientId = null,
+    bool? activeOnly = null,
+    DateTime? since = null) =>
+{
+    page = Math.Max(page, 1);
+    pageSize = Math.Clamp(pageSize, 1, 200);
+
+    var query = db.Alerts.AsNoTracking().AsQueryable();
+
+    if (!string.IsNullOrEmpty(patientId))
+        query = query.Where(a => a.PatientId == patientId);
+
+    if (activeOnly == true)
+        query = query.Where(a => a.IsActive);
+
+    if (since.HasValue)
+        query = query.Where(a => a.TriggeredAt >= since.Value);
+
+    var totalCount = await query.CountAsync();
+    var alerts = await query
+        .OrderByDescending(a => a.TriggeredAt)
+        .Skip((page - 1) * pageSize)
+        .Take(pageSize)
+        .ToListAsync();
+
+    return Results.Ok(new
+    {
+        Items = alerts.Select(ToAlertDto).ToList(),
+        Page = page,
+        PageSize = pageSize,
+        TotalCount = totalCount
+    });
+})
+.WithName("GetAlerts")
+.WithOpenApi();
+
+// Acknowledge alert - source of truth is database, broadcast keeps dashboards in sync
+app.MapPost("/api/alerts/{id}/acknowledge", async (
+    string id,
+    AlertAcknowledgeRequest request,
+    HospitalDbContext db,
+    IHubContext<VitalsHub, IVitalsClient> hubContext) =>
+{
+    if (string.IsNullOrWhiteSpace(request.AcknowledgedBy))
+        return Results.Problem("AcknowledgedBy is required", statusCode: StatusCodes.Status400BadRequest);
+
+    var alert = await db.Alerts
+        .Include(a => a.Patient)
+        .FirstOrDefaultAsync(a => a.Id == id);
+    if (alert == null)
+        return Results.Problem($"Alert {id} not found", statusCode: StatusCodes.Status404NotFound);
+
+    // Acknowledging twice keeps the original acknowledgement
+    if (alert.IsActive)
+    {
+        alert.IsActive = false;
+        alert.AcknowledgedAt = DateTime.UtcNow;
+        alert.AcknowledgedBy = request.AcknowledgedBy;
+        await db.SaveChangesAsync();
+    }
+
+    var acknowledgement = new AlertAcknowledgement(
+        alert.Id,
+        alert.PatientId,
+        alert.Patient.Name,
+        alert.AcknowledgedBy!,
+        alert.AcknowledgedAt!.Value
+    );
+    await hubContext.Clients.All.ReceiveAlertAcknowledged(acknowledgement);
+
+    return Results.Ok(ToAlertDto(alert));
+})
+.WithName("AcknowledgeAlert")
+.WithOpenApi();
+
+// Named clinical alarm-limit profiles (adult, COPD, paediatric age bands)
+app.MapGet("/api/alarm-profiles", async (HospitalDbContext db) =>
+{
+    var profiles = await db.AlarmLimitProfiles
+        .AsNoTracking()
+        .OrderBy(p => p.Name)
+        .ToListAsync();
+
+    return Results.Ok(profiles.Select(ToAlarmLimitProfileDto).ToList());
+})
+.WithName("GetAlarmLimitProfiles")
+.WithOpenApi();
+
+// Ward default alarm-limit profile - null reverts the ward to the adult defaults
+app.MapPut("/api/wards/{id}/alarm-profile", async (
+    string id,
+    WardAlarmProfileRequest request,
+    HospitalDbContext db,
+    IHubContext<VitalsHub, IVitalsClient> hubContext) =>
+{
+    var ward = await db.Wards.FirstOrDefaultAsync(w => w.Id == id);
+    if (ward == null)
+        return Results.Problem($"Ward {id} not found", statusCode: StatusCodes.Status404NotFound);
+
+    if (request.ProfileId != null && !await db.AlarmLimitProfiles.AnyAsync(p => p.Id == request.ProfileId))
+        return Results.Problem($"Alarm limit profile {request.ProfileId} not found", statusCode: StatusCodes.Status400BadRequest);
+
+    ward.AlarmLimitProfileId = request.ProfileId;
+    await db.SaveChangesAsync();
+
+    var change = new WardAlarmLimitsChange(ward.Id, ward.Name, ward.AlarmLimitProfileId, DateTime.UtcNow);
+    await hubContext.Clients.All.ReceiveWardAlarmLimitsChange(change);
+
+    return Results.Ok(change);
+})
+.WithName("SetWardAlarmProfile")
+.WithOpenApi();
+
+// Per-patient alarm limits - a named profile (null inherits the ward default) plus individual overrides
+app.MapPut("/api/patients/{id}/alarm-limits", async (
+    string id,
+    PatientAlarmLimitsRequest request,
+    HospitalDbContext db,
+    IHubContext<VitalsHub, IVitalsClient> hubContext) =>
+{
+    var patient = await db.Patients
+        .Include(p => p.Bed)
+        .ThenInclude(b => b!.Ward)
+        .ThenInclude(w => w!.AlarmLimitProfile)
+        .FirstOrDefaultAsync(p => p.Id == id);
+    if (patient == null)
+        return Results.Problem($"Patient {id} not found", statusCode: StatusCodes.Status404NotFound);
+
+    AlarmLimitProfile? profile = null;
+    if (request.ProfileId != null)
+    {
+        profile = await db.AlarmLimitProfiles.FirstOrDefaultAsync(p => p.Id == request.ProfileId);
+        if (profile == null)
+            return Results.Problem($"Alarm limit profile {request.ProfileId} not found", statusCode: StatusCodes.Status400BadRequest);
+    }
+
+    patient.AlarmLimitProfileId = profile?.Id;
+    patient.AlarmLimitProfile = profile;
+    patient.SetAlarmLimitOverrides(request.Overrides);
+
+    // Overrides apply on top of the profile, so check the combination
+    var limits = patient.GetEffectiveAlarmLimits();
+    if (!limits.IsValid())
+        return Results.Problem("Alarm limits must nest: critical bands outside medium bands", statusCode: StatusCodes.Status400BadRequest);
+
+    await db.SaveChangesAsync();
+
+    var change = new PatientAlarmLimitsChange(
+        patient.Id,
+        patient.Name,
+        patient.AlarmLimitProfileId,
+        patient.GetAlarmLimitOverrides(),
+        DateTime.UtcNow
+    );
+    await hubContext.Clients.All.ReceivePatientAlarmLimitsChange(change);
+
+    return Results.Ok(change);
+})
+.WithName("SetPatientAlarmLimits")
+.WithOpenApi();
+
+// Server clock - dashboards estimate their clock offset from it, so reading ages aren't skewed by a workstation clock
+app.MapGet("/api/time", () => Results.Ok(new { UtcNow = DateTime.UtcNow }))
+.WithName("GetServerTime")
+.WithOpenApi();
+
 app.MapHealthChecks("/health");
 
 // Map SignalR Hub
@@ -377,6 +615,42 @@ app.MapHub<VitalsHub>("/hubs/vitals");
 
 app.Run();
 
+// Alert projection without the Patient navigation (avoids serialization cycles)
+static object ToAlertDto(Alert a) => new
+{
+    a.Id,
+    a.PatientId,
+    a.AlertType,
+    a.Severity,
+    a.Message,
+    a.TriggeredAt,
+    a.AcknowledgedAt,
+    a.AcknowledgedBy,
+    a.IsActive
+};
+
+// Vital signs projection without the Patient navigation - the shape patient lists carry
+static object ToVitalSignsDto(VitalSigns v) => new
+{
+    v.Id,
+    v.PatientId,
+    v.HeartRate,
+    v.SpO2,
+    v.BpSystolic,
+    v.BpDiastolic,
+    v.Temperature,
+    v.RecordedAt
+};
+
+// Alarm-limit profile projection - limits grouped the same way the client reads them
+static object ToAlarmLimitProfileDto(AlarmLimitProfile p) => new
+{
+    p.Id,
+    p.Name,
+    p.Description,
+    Limits = p.ToLimits()
+};
+
 // Make Program accessible for integration testing
 public partial class Program { }
 
@@ -388,5 +662,21 @@ public record VitalSignsInjectionRequest(
     int? HeartRate,
     int? SpO2,
     int? BpSystolic,
-    int? BpDiastolic
+    int? BpDiastolic,
+    decimal? Temperature = null
 );
+
+/// <summary>
+/// Request DTO for acknowledging an alert
+/// </summary>
+public record AlertAcknowledgeRequest(string AcknowledgedBy);
+
+/// <summary>
+/// Request DTO for setting a ward's default alarm-limit profile
+/// </summary>
+public record WardAlarmProfileRequest(string? ProfileId);
+
+/// <summary>
+/// Request DTO for setting a patient's alarm-limit profile and overrides
+/// </summary>
+public record PatientAlarmLimitsRequest(string? ProfileId, AlarmLimitOverrides? Overrides);
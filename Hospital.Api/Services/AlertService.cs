@@ -13,13 +13,14 @@ public class AlertService
     /// Only creates alerts for Medium severity and above to avoid alert fatigue.
     /// </summary>
     /// <param name="vitals">The vital signs to evaluate</param>
+    /// <param name="limits">The patient's effective alarm limits (defaults when null)</param>
     /// <returns>List of Alert entities to be persisted</returns>
-    public List<Alert> GenerateAlertsForVitals(VitalSigns vitals)
+    public List<Alert> GenerateAlertsForVitals(VitalSigns vitals, AlarmLimits? limits = null)
     {
         var alerts = new List<Alert>();
 
         // Check Heart Rate
-        var hrSeverity = vitals.AssessHeartRateAlert();
+        var hrSeverity = vitals.AssessHeartRateAlert(limits);
         if (hrSeverity >= AlertSeverity.Medium)
         {
             alerts.Add(CreateAlert(
@@ -31,7 +32,7 @@ public class AlertService
         }
 
         // Check SpO2 (Oxygen Saturation)
-        var spo2Severity = vitals.AssessSpO2Alert();
+        var spo2Severity = vitals.AssessSpO2Alert(limits);
         if (spo2Severity >= AlertSeverity.Medium)
         {
             alerts.Add(CreateAlert(
@@ -43,7 +44,7 @@ public class AlertService
         }
 
         // Check Blood Pressure
-        var bpSeverity = vitals.AssessBloodPressureAlert();
+        var bpSeverity = vitals.AssessBloodPressureAlert(limits);
         if (bpSeverity >= AlertSeverity.Medium)
         {
             alerts.Add(CreateAlert(
@@ -61,9 +62,9 @@ public class AlertService
     /// Updates patient status based on their current vital signs and alert severity.
     /// Critical vitals escalate patient to "critical", high severity to "watch".
     /// </summary>
-    public void UpdatePatientStatus(Patient patient, VitalSigns vitals)
+    public void UpdatePatientStatus(Patient patient, VitalSigns vitals, AlarmLimits? limits = null)
     {
-        var overallSeverity = vitals.CalculateAlertSeverity();
+        var overallSeverity = vitals.CalculateAlertSeverity(limits);
 
         patient.Status = overallSeverity switch
         {
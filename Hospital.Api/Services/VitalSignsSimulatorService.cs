@@ -74,6 +74,8 @@ public class VitalSignsSimulatorService : BackgroundService
         var allPatients = await dbContext.Patients
             .Include(p => p.Bed)
             .ThenInclude(b => b!.Ward)
+            .ThenInclude(w => w!.AlarmLimitProfile)
+            .Include(p => p.AlarmLimitProfile)
             .Include(p => p.VitalSigns.OrderByDescending(v => v.RecordedAt).Take(1))
             .ToListAsync(stoppingToken);
 
@@ -97,12 +99,13 @@ public class VitalSignsSimulatorService : BackgroundService
             newVitals.PatientId = patient.Id;
             dbContext.VitalSigns.Add(newVitals);
 
-            // Generate alerts if vitals are abnormal
-            var alerts = alertService.GenerateAlertsForVitals(newVitals);
+            // Generate alerts if vitals are abnormal for this patient's alarm limits
+            var limits = patient.GetEffectiveAlarmLimits();
+            var alerts = alertService.GenerateAlertsForVitals(newVitals, limits);
             if (alerts.Any())
             {
                 dbContext.Alerts.AddRange(alerts);
-                alertService.UpdatePatientStatus(patient, newVitals);
+                alertService.UpdatePatientStatus(patient, newVitals, limits);
 
                 // Broadcast alert notifications
                 foreach (var alert in alerts)
@@ -119,7 +122,7 @@ public class VitalSignsSimulatorService : BackgroundService
                 }
             }
 
-            // Broadcast vital signs update
+            // Send vital signs update to the patient's hospital, ward and patient scopes
             var update = new VitalSignsUpdate(
                 patient.Id,
                 patient.Name,
@@ -129,14 +132,15 @@ public class VitalSignsSimulatorService : BackgroundService
                 newVitals.SpO2,
                 newVitals.BpSystolic,
                 newVitals.BpDiastolic,
-                newVitals.CalculateAlertSeverity().ToString(),
+                newVitals.Temperature,
+                newVitals.CalculateAlertSeverity(limits).ToString(),
                 newVitals.RecordedAt
             );
 
-            await _hubContext.Clients.All.ReceiveVitalUpdate(update);
+            await _hubContext.Clients.Groups(VitalsHubGroups.ForVitalUpdate(patient.Id, patient.Bed?.WardId)).ReceiveVitalUpdate(update);
 
-            _logger.LogInformation("Simulated vitals for patient {PatientId}: HR={HR}, SpO2={SpO2}, BP={BP}/{BPDia}, Severity={Severity}",
-                patient.Id, newVitals.HeartRate, newVitals.SpO2, newVitals.BpSystolic, newVitals.BpDiastolic, update.AlertSeverity);
+            _logger.LogInformation("Simulated vitals for patient {PatientId}: HR={HR}, SpO2={SpO2}, BP={BP}/{BPDia}, Temp={Temp}, Severity={Severity}",
+                patient.Id, newVitals.HeartRate, newVitals.SpO2, newVitals.BpSystolic, newVitals.BpDiastolic, newVitals.Temperature, update.AlertSeverity);
         }
 
         await dbContext.SaveChangesAsync(stoppingToken);
@@ -237,6 +241,29 @@ public class VitalSignsSimulatorService : BackgroundService
                 : Math.Clamp(baseDiastolic + diasDrift, 60, 90);
         }
 
+        // Generate temperature (°C, one decimal place)
+        var baseTemperature = baselinePrevious?.Temperature ?? 37.0m;
+        if (shouldBeCritical)
+        {
+            vitals.Temperature = _random.Next(0, 100) < 50
+                ? _random.Next(340, 351) / 10m
+                : _random.Next(391, 406) / 10m;
+        }
+        else if (shouldBeAbnormal)
+        {
+            vitals.Temperature = _random.Next(381, 391) / 10m;
+        }
+        else
+        {
+            // Gradual drift ±0.2 °C
+            // In injection mode: allow fever/hypothermia to persist with drift
+            // Normal mode: constrain to safe range (36.5-37.5)
+            var tempDrift = _random.Next(-2, 3) / 10m;
+            vitals.Temperature = isInjectionMode
+                ? Math.Clamp(baseTemperature + tempDrift, 30m, 45m)
+                : Math.Clamp(baseTemperature + tempDrift, 36.5m, 37.5m);
+        }
+
         return vitals;
     }
 
@@ -306,12 +333,12 @@ public class VitalSignsSimulatorService : BackgroundService
     /// Public function to compute patient status from vital signs.
     /// Returns: critical, watch, or stable based on alert severity assessment.
     /// </summary>
-    public string ComputePatientStatus(VitalSigns vitals)
+    public string ComputePatientStatus(VitalSigns vitals, AlarmLimits? limits = null)
     {
         if (vitals == null)
             return "stable";
 
-        var severity = vitals.CalculateAlertSeverity();
+        var severity = vitals.CalculateAlertSeverity(limits);
         return severity switch
         {
             AlertSeverity.Critical => "critical",
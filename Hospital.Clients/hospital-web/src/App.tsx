@@ -1,15 +1,32 @@
-import { useEffect, useState } from 'react';
-import { ThemeProvider, createTheme, CssBaseline, Box, AppBar, Toolbar, Typography, Chip, CircularProgress, IconButton, Tooltip, Alert } from '@mui/material';
-import { SignalCellularAlt as SignalIcon, VolumeOff as MuteIcon, VolumeUp as UnmuteIcon, QrCode2 as QRIcon, GitHub as GitHubIcon, NotificationsOff as NotificationsOffIcon, Notifications as NotificationsIcon, Terminal as TerminalIcon } from '@mui/icons-material';
+import { useEffect, useMemo, useState } from 'react';
+import { ThemeProvider, createTheme, CssBaseline, Box, AppBar, Toolbar, Typography, Chip, CircularProgress, IconButton, Tooltip, Alert, Badge, Button } from '@mui/material';
+import { SignalCellularAlt as SignalIcon, VolumeOff as MuteIcon, VolumeUp as UnmuteIcon, QrCode2 as QRIcon, GitHub as GitHubIcon, NotificationsOff as NotificationsOffIcon, Notifications as NotificationsIcon, Terminal as TerminalIcon, NotificationImportant as AlertCenterIcon, GraphicEq as AlarmSoundsIcon } from '@mui/icons-material';
 import { useHospitalSignalR } from './hooks/useHospitalSignalR';
-import { useHospitalStore } from './store/hospitalStore';
-import { useAudioAlert } from './hooks/useAudioAlert';
+import { useHubPollingFallback } from './hooks/useHubPollingFallback';
+import { useSignalLossMonitor } from './hooks/useSignalLossMonitor';
+import { useServerClockSync } from './hooks/useServerClock';
+import { useHospitalStore, selectActiveAlerts } from './store/hospitalStore';
+import { useAlarmManager, useGlobalAudioPause } from './hooks/useAlarmManager';
 import { PatientGrid } from './components/PatientGrid';
 import { VitalInjectorPanel } from './components/VitalInjectorPanel';
 import { DashboardQRModal } from './components/DashboardQRModal';
+import { AlarmSoundsDialog } from './components/AlarmSoundsDialog';
+import { AudioPauseStatus } from './components/AudioPauseStatus';
 import { DemoScenarioSelector } from './components/DemoScenarioSelector';
 import { SignalRTerminal } from './components/SignalRTerminal';
-import { hospitalApi, mockPatients } from './services/hospitalApi';
+import { AlertCenterDrawer } from './components/AlertCenterDrawer';
+import { NoticeSnackbar } from './components/NoticeSnackbar';
+import { DataSourceSwitch } from './components/DataSourceSwitch';
+import { TemperatureUnitSwitch } from './components/TemperatureUnitSwitch';
+import { SignalLossLimitSelect } from './components/SignalLossLimitSelect';
+import { SimulatedDataWatermark } from './components/SimulatedDataWatermark';
+import { WardSelector, WardCensusSummary } from './components/WardSelector';
+import { PatientDetailPage } from './components/PatientDetailPage';
+import { ReconnectBanner } from './components/ReconnectBanner';
+import { usePatients, usePatientsById, useSwitchDataSource, useWards } from './hooks/useHospitalQueries';
+import { useRoute } from './hooks/useRoute';
+import { describeApiError } from './services/apiError';
+import { describeHubScope } from './utils/hubScopes';
 
 // Medical dashboard theme - optimized for TV displays
 const theme = createTheme({
@@ -50,26 +67,41 @@ const theme = createTheme({
 });
 
 function App() {
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [usingMockData, setUsingMockData] = useState(false);
-  const [globalMuted, setGlobalMuted] = useState(true);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [qrModalOpen, setQrModalOpen] = useState(false);
+  const [alarmSoundsOpen, setAlarmSoundsOpen] = useState(false);
+  const [alertCenterOpen, setAlertCenterOpen] = useState(false);
 
   // Pass notificationsEnabled to SignalR hook
-  const { connectionStatus } = useHospitalSignalR(notificationsEnabled);
-  const { patients, setPatients } = useHospitalStore();
-  const { toggleGlobalMute } = useAudioAlert();
+  const { connectionStatus, reconnectNow } = useHospitalSignalR(notificationsEnabled);
+  useHubPollingFallback();
+  useServerClockSync();
+  useSignalLossMonitor();
+  useAlarmManager();
+  const hubPolling = useHospitalStore(state => state.hubPolling);
+  const { isLoading: loading, isError, error: patientsError, refetch } = usePatients();
+  const dataSource = useHospitalStore(state => state.dataSource);
+  const switchDataSource = useSwitchDataSource();
+  const {
+    pause: globalAudioPause,
+    togglePause: toggleGlobalAudioPause,
+    blocked: audioBlocked,
+    enableAudio,
+  } = useGlobalAudioPause();
   const showSignalRPanel = useHospitalStore(state => state.showSignalRPanel);
   const toggleSignalRPanel = useHospitalStore(state => state.toggleSignalRPanel);
+  const activeAlertCount = useHospitalStore(state => selectActiveAlerts(state).length);
+  const route = useRoute();
+  const activeHubScopes = useHospitalStore(state => state.activeHubScopes);
+  const { data: wards = [] } = useWards();
+  const patientsById = usePatientsById();
 
-  // Initialize global mute state from localStorage
-  // Default: true (MUTED) - ensures audio doesn't surprise users on first load
-  useEffect(() => {
-    const stored = localStorage.getItem('hospital:global-mute');
-    setGlobalMuted(stored ? JSON.parse(stored) : true);
-  }, []);
+  // Which vitals this dashboard is receiving - shown on the connection chip
+  const hubScopeSummary = useMemo(() => {
+    const wardNames = new Map(wards.map(w => [w.id, w.name]));
+    const patientNames = new Map(Array.from(patientsById.values(), p => [p.id, p.name]));
+    return activeHubScopes.map(scope => describeHubScope(scope, wardNames, patientNames)).join(', ');
+  }, [activeHubScopes, wards, patientsById]);
 
   // Initialize notifications state from localStorage
   useEffect(() => {
@@ -84,42 +116,6 @@ function App() {
     localStorage.setItem('hospital:notifications-enabled', JSON.stringify(newValue));
   };
 
-  // Load initial patient data
-  useEffect(() => {
-    const loadPatients = async () => {
-      try {
-        setLoading(true);
-        // Try to fetch from API, fallback to mock data
-        const data = await hospitalApi.getPatients().catch(() => {
-          console.warn('API timeout/unavailable - using mock data');
-          setUsingMockData(true);
-          return mockPatients;
-        });
-
-        // Use mock data if API returns empty array
-        if (data.length === 0) {
-          console.warn('API returned no patients - using mock data');
-          setUsingMockData(true);
-          setPatients(mockPatients);
-        } else {
-          setUsingMockData(false);
-          setPatients(data);
-        }
-        setError(null);
-      } catch (err) {
-        console.error('Failed to load patients:', err);
-        setError('Failed to load patient data - showing mock data');
-        setUsingMockData(true);
-        // Use mock data as fallback
-        setPatients(mockPatients);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadPatients();
-  }, [setPatients]);
-
   const getConnectionColor = () => {
     switch (connectionStatus) {
       case 'connected': return 'success';
@@ -131,8 +127,10 @@ function App() {
   };
 
   const getConnectionLabel = () => {
+    // Hub down but REST polling keeps the data near-live
+    if (hubPolling && connectionStatus !== 'connected') return '◔ Polling';
     switch (connectionStatus) {
-      case 'connected': return '● Live';
+      case 'connected': return dataSource === 'simulated' ? '● Simulated' : '● Live';
       case 'connecting': return '◌ Connecting';
       case 'reconnecting': return '⟳ Reconnecting';
       case 'disconnected': return '✕ Offline';
@@ -152,6 +150,18 @@ function App() {
                 Hospital Vital Signs Dashboard
               </Typography>
 
+              {/* Ward Selector - scopes the grid, with a census per ward */}
+              <WardSelector />
+
+              {/* Data Source Switch - live API or in-browser simulated backend */}
+              <DataSourceSwitch />
+
+              {/* Temperature Unit Switch - °C / °F display */}
+              <TemperatureUnitSwitch />
+
+              {/* Signal Lost Alarm Limit - silence before a technical alarm */}
+              <SignalLossLimitSelect />
+
               {/* Demo Scenario Selector */}
               <DemoScenarioSelector />
 
@@ -194,14 +204,35 @@ function App() {
                 </IconButton>
               </Tooltip>
 
-              {/* Global Audio Mute Button */}
+              {/* Alert Center Button - badge shows unacknowledged alerts */}
+              <Tooltip title="Open alert center">
+                <IconButton
+                  onClick={() => setAlertCenterOpen(true)}
+                  sx={{
+                    color: activeAlertCount > 0 ? '#f44336' : 'inherit',
+                    mr: 1,
+                    transition: 'all 0.3s ease',
+                    '&:hover': {
+                      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                      transform: 'scale(1.1)',
+                    },
+                  }}
+                >
+                  <Badge badgeContent={activeAlertCount} color="error" max={99}>
+                    <AlertCenterIcon />
+                  </Badge>
+                </IconButton>
+              </Tooltip>
+
+              {/* Running audio pauses, with the time left on each */}
+              <AudioPauseStatus />
+
+              {/* Global Audio Pause Button - silences every alarm for 2 minutes, then re-arms */}
+              {/* While the browser blocks autoplay it shows that instead, and a click enables audio */}
               <IconButton
-                onClick={() => {
-                  toggleGlobalMute();
-                  setGlobalMuted(!globalMuted);
-                }}
+                onClick={audioBlocked && !globalAudioPause ? enableAudio : toggleGlobalAudioPause}
                 sx={{
-                  color: globalMuted ? '#f44336' : 'inherit',
+                  color: globalAudioPause ? '#f44336' : audioBlocked ? '#ff9800' : 'inherit',
                   mr: 1,
                   transition: 'all 0.3s ease',
                   '&:hover': {
@@ -209,11 +240,30 @@ function App() {
                     transform: 'scale(1.1)',
                   },
                 }}
-                title={globalMuted ? '🔇 Global Mute: ON (all alerts silenced)' : '🔊 Global Mute: OFF (alerts enabled)'}
+                title={globalAudioPause ? '🔕 All alarms paused - click to re-arm now'
+                  : audioBlocked ? '🔇 Audio blocked by the browser - click to enable'
+                  : '🔊 Alarms armed - click to pause all for 2 minutes'}
               >
-                {globalMuted ? <MuteIcon /> : <UnmuteIcon />}
+                {globalAudioPause || audioBlocked ? <MuteIcon /> : <UnmuteIcon />}
               </IconButton>
 
+              {/* Alarm Sounds Settings Button */}
+              <Tooltip title="Alarm sounds: volumes and test tones">
+                <IconButton
+                  onClick={() => setAlarmSoundsOpen(true)}
+                  sx={{
+                    mr: 1,
+                    transition: 'all 0.3s ease',
+                    '&:hover': {
+                      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                      transform: 'scale(1.1)',
+                    },
+                  }}
+                >
+                  <AlarmSoundsIcon />
+                </IconButton>
+              </Tooltip>
+
               {/* Notifications Toggle Button */}
               <IconButton
                 onClick={toggleNotifications}
@@ -249,37 +299,51 @@ function App() {
                 </IconButton>
               </Tooltip>
 
-              <Chip
-                label={getConnectionLabel()}
-                color={getConnectionColor()}
-                size="medium"
-                sx={{ fontWeight: 600 }}
-              />
+              <Tooltip title={hubScopeSummary ? `Receiving vitals for: ${hubScopeSummary}` : 'Not receiving vitals'}>
+                <Chip
+                  label={getConnectionLabel()}
+                  color={getConnectionColor()}
+                  size="medium"
+                  sx={{ fontWeight: 600 }}
+                />
+              </Tooltip>
             </Toolbar>
           </Box>
         </AppBar>
 
-        {/* Mock Data Warning Banner */}
-        {usingMockData && (
-          <Alert severity="warning" sx={{ borderRadius: 0, mb: 2 }}>
-            ⚠️ <strong>Demo Mode:</strong> Using demonstration data. Live patient data currently unavailable (API request timed out).
+        {/* Live API unavailable - never swap in fake data silently, offer the simulator explicitly */}
+        {dataSource === 'live' && isError && (
+          <Alert
+            severity="error"
+            sx={{ borderRadius: 0, mb: 2 }}
+            action={
+              <>
+                <Button color="inherit" size="small" onClick={() => refetch()}>
+                  Retry
+                </Button>
+                <Button color="inherit" size="small" onClick={() => switchDataSource('simulated')}>
+                  Use simulated data
+                </Button>
+              </>
+            }
+          >
+            <strong>Live patient data unavailable.</strong> {describeApiError(patientsError)}
           </Alert>
         )}
 
+        {/* Hub connection down - polling stands in, with a countdown to the next reconnect attempt */}
+        <ReconnectBanner onReconnectNow={reconnectNow} />
+
         <Box sx={{ p: 3, maxWidth: 1400, mx: 'auto', width: '100%' }}>
           {loading ? (
             <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
               <CircularProgress size={60} />
             </Box>
-          ) : error ? (
-            <Typography color="error" variant="h6">
-              {error}
-            </Typography>
+          ) : route.name === 'patient' ? (
+            <PatientDetailPage patientId={route.patientId} />
           ) : (
             <>
-              <Typography variant="h6" gutterBottom>
-                Intensive Care Unit - {patients.size} Patients
-              </Typography>
+              <WardCensusSummary />
               <PatientGrid />
             </>
           )}
@@ -290,6 +354,16 @@ function App() {
 
         {/* Dashboard QR Modal - Opens from toolbar button */}
         <DashboardQRModal open={qrModalOpen} onClose={() => setQrModalOpen(false)} />
+        <AlarmSoundsDialog open={alarmSoundsOpen} onClose={() => setAlarmSoundsOpen(false)} />
+
+        {/* Alert Center - Opens from toolbar button */}
+        <AlertCenterDrawer open={alertCenterOpen} onClose={() => setAlertCenterOpen(false)} />
+
+        {/* App-wide notices (e.g. failed injection-mode / nurse calls) */}
+        <NoticeSnackbar />
+
+        {/* Always-on watermark while the simulated data source is active */}
+        <SimulatedDataWatermark />
 
         {/* SignalR Terminal - Live WebSocket Message Monitor */}
         {showSignalRPanel && <SignalRTerminal />}
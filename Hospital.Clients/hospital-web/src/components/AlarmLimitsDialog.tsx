@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  Stack,
+  MenuItem,
+  Typography,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import {
+  useAlarmProfiles,
+  useAlarmProfilesById,
+  useSetPatientAlarmLimits,
+  useSetWardAlarmProfile,
+} from '../hooks/useHospitalQueries';
+import {
+  ALARM_LIMIT_GROUPS,
+  applyAlarmLimitOverrides,
+  isValidAlarmLimits,
+  resolveAlarmLimitProfile,
+} from '../utils/alarmLimits';
+import { DEFAULT_ALARM_LIMITS } from '../utils/clinicalThresholds';
+import type { AlarmLimitOverrides, AlarmLimits, Patient } from '../types/hospital';
+
+interface AlarmLimitsDialogProps {
+  patient: Patient;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Select value for "no profile of my own" / "no ward default"
+const INHERIT = '';
+
+type OverrideForm = Partial<Record<keyof AlarmLimits, string>>;
+
+function toOverrideForm(overrides?: AlarmLimitOverrides): OverrideForm {
+  return Object.fromEntries(
+    Object.entries(overrides ?? {}).map(([key, value]) => [key, String(value)])
+  );
+}
+
+/**
+ * AlarmLimitsDialog - Edit a patient's alarm-limit profile and overrides, and their ward's default profile
+ * Mount it while open so the form starts from the patient's current limits.
+ */
+export function AlarmLimitsDialog({ patient, open, onClose }: AlarmLimitsDialogProps) {
+  const { data: profiles = [] } = useAlarmProfiles();
+  const profilesById = useAlarmProfilesById();
+  const setPatientAlarmLimits = useSetPatientAlarmLimits();
+  const setWardAlarmProfile = useSetWardAlarmProfile();
+
+  const [profileId, setProfileId] = useState(patient.alarmLimitProfileId ?? INHERIT);
+  const [overrideForm, setOverrideForm] = useState<OverrideForm>(() => toOverrideForm(patient.alarmLimitOverrides));
+
+  const ward = patient.bed?.ward;
+  const wardProfile = ward?.alarmLimitProfileId ? profilesById.get(ward.alarmLimitProfileId) : undefined;
+
+  // What the patient gets without overrides - the selected profile, else the ward default
+  const baseProfile = resolveAlarmLimitProfile({ alarmLimitProfileId: profileId || undefined, bed: patient.bed }, profilesById);
+  const baseLimits = baseProfile?.limits ?? DEFAULT_ALARM_LIMITS;
+
+  const overrides = useMemo(() => {
+    const parsed: AlarmLimitOverrides = {};
+    for (const [key, value] of Object.entries(overrideForm) as [keyof AlarmLimits, string | undefined][]) {
+      if (value !== undefined && value.trim() !== '') parsed[key] = Number(value);
+    }
+    return parsed;
+  }, [overrideForm]);
+
+  const effectiveLimits = applyAlarmLimitOverrides(baseLimits, overrides);
+  const error = Object.values(overrides).some(value => !Number.isInteger(value))
+    ? 'Alarm limits must be whole numbers'
+    : !isValidAlarmLimits(effectiveLimits)
+      ? 'Alarm limits must nest: critical bands outside medium bands'
+      : null;
+
+  const handleOverrideChange = (key: keyof AlarmLimits) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setOverrideForm(prev => ({ ...prev, [key]: event.target.value }));
+  };
+
+  const handleResetToWardDefault = () => {
+    setProfileId(INHERIT);
+    setOverrideForm({});
+  };
+
+  // Optimistic - a rejected change rolls back and surfaces an error notice
+  const handleSave = () => {
+    setPatientAlarmLimits.mutate({
+      patientId: patient.id,
+      limits: {
+        profileId: profileId || null,
+        overrides: Object.keys(overrides).length > 0 ? overrides : null,
+      },
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      onClick={(e) => e.stopPropagation()} // Keep clicks from reaching the card
+      PaperProps={{
+        sx: {
+          borderRadius: 2,
+        },
+      }}
+    >
+      <DialogTitle sx={{ fontWeight: 600, pb: 1, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>🎚️ Alarm Limits: {patient.name}</span>
+        <Button
+          size="small"
+          onClick={onClose}
+          sx={{ minWidth: 'auto', p: 0.5 }}
+        >
+          <CloseIcon />
+        </Button>
+      </DialogTitle>
+
+      <DialogContent sx={{ pt: 2 }}>
+        <Stack spacing={2} sx={{ pt: 1 }}>
+          {/* Patient profile */}
+          <TextField
+            select
+            label="Clinical profile"
+            value={profileId}
+            onChange={(e) => setProfileId(e.target.value)}
+            size="small"
+            fullWidth
+            helperText={profiles.find(p => p.id === profileId)?.description}
+          >
+            <MenuItem value={INHERIT}>Ward default ({wardProfile?.name ?? 'Adult'})</MenuItem>
+            {profiles.map(profile => (
+              <MenuItem key={profile.id} value={profile.id}>{profile.name}</MenuItem>
+            ))}
+          </TextField>
+
+          {/* Per-patient overrides - empty keeps the profile's limit */}
+          {ALARM_LIMIT_GROUPS.map(group => (
+            <Box key={group.label}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+                {group.label} ({group.unit})
+              </Typography>
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 1 }}>
+                {group.fields.map(field => (
+                  <TextField
+                    key={field.key}
+                    label={field.label}
+                    type="number"
+                    value={overrideForm[field.key] ?? ''}
+                    onChange={handleOverrideChange(field.key)}
+                    placeholder={String(baseLimits[field.key])}
+                    InputLabelProps={{ shrink: true }}
+                    size="small"
+                    sx={overrideForm[field.key] ? { '& .MuiOutlinedInput-root': { bgcolor: 'action.selected' } } : undefined}
+                  />
+                ))}
+              </Box>
+            </Box>
+          ))}
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {/* Ward default - applies to every patient in the ward without a profile of their own */}
+          {ward && (
+            <Box sx={{ p: 1.5, borderRadius: 1, border: '1px solid', borderColor: 'divider' }}>
+              <TextField
+                select
+                label={`${ward.name} default profile`}
+                value={ward.alarmLimitProfileId ?? INHERIT}
+                onChange={(e) => setWardAlarmProfile.mutate({ wardId: ward.id, profileId: e.target.value || null })}
+                disabled={setWardAlarmProfile.isPending}
+                size="small"
+                fullWidth
+              >
+                <MenuItem value={INHERIT}>Adult defaults</MenuItem>
+                {profiles.map(profile => (
+                  <MenuItem key={profile.id} value={profile.id}>{profile.name}</MenuItem>
+                ))}
+              </TextField>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                Changes apply immediately to every patient in {ward.name} using the ward default.
+              </Typography>
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions sx={{ p: 2, gap: 1 }}>
+        <Button onClick={handleResetToWardDefault} sx={{ mr: 'auto' }}>
+          Reset to ward default
+        </Button>
+        <Button onClick={onClose} variant="outlined">
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!!error} variant="contained">
+          Save Limits
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
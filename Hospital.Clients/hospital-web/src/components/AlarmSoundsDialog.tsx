@@ -0,0 +1,103 @@
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Stack,
+  Slider,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { GraphicEq as AlarmSoundsIcon, PlayArrow as PlayIcon } from '@mui/icons-material';
+import { useHospitalStore } from '../store/hospitalStore';
+import { useTestAlarmSound } from '../hooks/useAlarmManager';
+import { ALARM_PRIORITIES, ALARM_TONE_LABELS, ALARM_TONES, tonePriority } from '../utils/alarmTones';
+
+interface AlarmSoundsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * AlarmSoundsDialog - Per-priority alarm volumes, test buttons for every tone and the all-clear chime
+ * Settings are remembered per display; test sounds play even while audio is paused.
+ */
+export function AlarmSoundsDialog({ open, onClose }: AlarmSoundsDialogProps) {
+  const alarmVolumes = useHospitalStore(state => state.alarmVolumes);
+  const setAlarmVolume = useHospitalStore(state => state.setAlarmVolume);
+  const allClearChime = useHospitalStore(state => state.allClearChime);
+  const setAllClearChime = useHospitalStore(state => state.setAllClearChime);
+  const globalAudioPause = useHospitalStore(state => state.globalAudioPause);
+  const testAlarmSound = useTestAlarmSound();
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <AlarmSoundsIcon sx={{ color: '#29b6f6' }} />
+        Alarm Sounds
+      </DialogTitle>
+
+      <DialogContent>
+        <Stack spacing={3}>
+          <Typography variant="body2" color="text.secondary">
+            Only the highest-priority active alarm sounds. High priority is a fast 10-pulse burst, medium
+            three pulses, low two; a technical alarm (signal lost) has its own two-pitch melody.
+            {globalAudioPause && ' All alarms are paused - test sounds still play.'}
+          </Typography>
+
+          <Box>
+            <Typography variant="overline" color="text.secondary">Volume</Typography>
+            {ALARM_PRIORITIES.map(priority => (
+              <Box key={priority} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                <Typography variant="body2" sx={{ minWidth: 130 }}>{ALARM_TONE_LABELS[priority]}</Typography>
+                <Slider
+                  value={Math.round(alarmVolumes[priority] * 100)}
+                  onChange={(_, value) => setAlarmVolume(priority, (value as number) / 100)}
+                  min={10}
+                  max={100}
+                  step={10}
+                  size="small"
+                  valueLabelDisplay="auto"
+                  aria-label={`${ALARM_TONE_LABELS[priority]} volume`}
+                />
+              </Box>
+            ))}
+          </Box>
+
+          <Box>
+            <Typography variant="overline" color="text.secondary">Test alarm sounds</Typography>
+            <Stack direction="row" flexWrap="wrap" useFlexGap spacing={1}>
+              {ALARM_TONES.map(tone => (
+                <Button
+                  key={tone}
+                  size="small"
+                  variant="outlined"
+                  startIcon={<PlayIcon />}
+                  onClick={() => testAlarmSound(tone)}
+                  title={`Plays at the ${tonePriority(tone)} priority volume`}
+                >
+                  {ALARM_TONE_LABELS[tone]}
+                </Button>
+              ))}
+              <Button size="small" variant="outlined" startIcon={<PlayIcon />} onClick={() => testAlarmSound('all-clear')}>
+                All clear
+              </Button>
+            </Stack>
+          </Box>
+
+          <FormControlLabel
+            control={<Switch checked={allClearChime} onChange={e => setAllClearChime(e.target.checked)} />}
+            label="Chime when the last critical patient recovers"
+          />
+        </Stack>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+import { useMemo, useState } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Stack,
+  Chip,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Divider,
+  TextField,
+  Alert as MuiAlert,
+  CircularProgress,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+import {
+  Close as CloseIcon,
+  CheckCircle as AckIcon,
+  MyLocation as JumpIcon,
+  LocalHospital as BedIcon,
+} from '@mui/icons-material';
+import { useHospitalStore, selectFilteredPatients } from '../store/hospitalStore';
+import { navigate } from '../hooks/useRoute';
+import { dashboardPath } from '../utils/routes';
+import { useAlarmProfilesById, useAlertHistory, useAcknowledgeAlert, usePatientsById } from '../hooks/useHospitalQueries';
+import { describeApiError } from '../services/apiError';
+import { isTechnicalAlert } from '../utils/signalLoss';
+import { formatTimeAgo } from '../utils/relativeTime';
+import { useServerNow } from '../hooks/useServerClock';
+import type { Alert, AlertSeverity, Patient } from '../types/hospital';
+
+interface AlertCenterDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  Critical: '#f44336',
+  High: '#ff5722',
+  Medium: '#ff9800',
+  Low: '#4caf50',
+};
+
+const SEVERITIES: AlertSeverity[] = ['Critical', 'High', 'Medium', 'Low'];
+
+// Technical alarms (e.g. signal lost) are about the monitoring, not the patient - kept visibly apart
+const TECHNICAL_COLOR = '#29b6f6';
+
+/** Sentinel value for "no filter" in the filter selects */
+const ALL = 'all';
+
+const STAFF_NAME_KEY = 'hospital:staff-name';
+const DEFAULT_STAFF_NAME = 'Ward Station';
+
+interface AlertRowProps {
+  alert: Alert;
+  patient?: Patient;
+  now: number;
+  acknowledging: boolean;
+  onAcknowledge: (alertId: string) => void;
+  onJumpToPatient: (patientId: string) => void;
+}
+
+function AlertRow({ alert, patient, now, acknowledging, onAcknowledge, onJumpToPatient }: AlertRowProps) {
+  const technical = isTechnicalAlert(alert);
+  const color = technical ? TECHNICAL_COLOR : SEVERITY_COLORS[alert.severity];
+
+  return (
+    <Box
+      sx={{
+        p: 1.5,
+        borderLeft: `4px solid ${color}`,
+        borderRadius: 1,
+        bgcolor: alert.isActive ? 'rgba(255,255,255,0.04)' : 'transparent',
+        opacity: alert.isActive ? 1 : 0.6,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ flexWrap: 'wrap', gap: 0.5 }}>
+          <Chip
+            label={technical ? '📡 TECHNICAL' : alert.severity.toUpperCase()}
+            size="small"
+            sx={{ bgcolor: color, color: '#fff', fontWeight: 600 }}
+          />
+          <Typography variant="subtitle2" fontWeight={600}>
+            {patient?.name ?? alert.patientId}
+          </Typography>
+          <Chip
+            icon={<BedIcon />}
+            label={patient?.bed?.number ?? 'No Bed'}
+            size="small"
+            variant="outlined"
+          />
+        </Stack>
+        <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+          {formatTimeAgo(alert.triggeredAt, now)}
+        </Typography>
+      </Box>
+
+      <Typography variant="body2" sx={{ mt: 1 }}>
+        {alert.message}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+        {alert.alertType}
+        {!alert.isActive && alert.acknowledgedAt &&
+          ` · acknowledged ${formatTimeAgo(alert.acknowledgedAt, now)}`}
+        {!alert.isActive && alert.acknowledgedBy && ` by ${alert.acknowledgedBy}`}
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        {alert.isActive && (
+          <Button
+            size="small"
+            variant="outlined"
+            color="success"
+            startIcon={acknowledging ? <CircularProgress size={16} /> : <AckIcon />}
+            onClick={() => onAcknowledge(alert.id)}
+            disabled={acknowledging}
+          >
+            Acknowledge
+          </Button>
+        )}
+        <Button
+          size="small"
+          startIcon={<JumpIcon />}
+          onClick={() => onJumpToPatient(alert.patientId)}
+          disabled={!patient}
+        >
+          Go to patient
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
+
+/**
+ * AlertCenterDrawer - Central list of alerts received via SignalR
+ *
+ * Lists active and acknowledged alerts with severity, patient, bed, type, message and age.
+ * Live alerts from the store are merged with paged history from the backend.
+ * Technical alarms raised by this dashboard (signal lost) are listed alongside, marked apart.
+ * Alerts can be filtered by severity, ward and patient, acknowledged (persisted and
+ * broadcast to every dashboard), or used to jump to the patient's card.
+ */
+export function AlertCenterDrawer({ open, onClose }: AlertCenterDrawerProps) {
+  const alerts = useHospitalStore(state => state.alerts);
+  const patientsMap = usePatientsById();
+  const alarmProfilesById = useAlarmProfilesById();
+  const focusPatient = useHospitalStore(state => state.focusPatient);
+  const setSelectedWard = useHospitalStore(state => state.setSelectedWard);
+  const resetPatientFilters = useHospitalStore(state => state.resetPatientFilters);
+
+  const [severityFilter, setSeverityFilter] = useState<string>(ALL);
+  const [wardFilter, setWardFilter] = useState<string>(ALL);
+  const [patientFilter, setPatientFilter] = useState<string>(ALL);
+  const [staffName, setStaffName] = useState(() => localStorage.getItem(STAFF_NAME_KEY) ?? DEFAULT_STAFF_NAME);
+
+  const history = useAlertHistory(open);
+  const acknowledge = useAcknowledgeAlert();
+
+  // Keep alert ages ticking (on the server clock) while the drawer is open
+  const now = useServerNow(10_000, open);
+
+  const patients = useMemo(() => Array.from(patientsMap.values()), [patientsMap]);
+
+  // Wards are derived from the patients' beds - only wards with patients can have alerts
+  const wards = useMemo(() => {
+    const byId = new Map<string, string>();
+    patients.forEach(p => {
+      if (p.bed) byId.set(p.bed.wardId, p.bed.ward?.name ?? p.bed.wardId);
+    });
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [patients]);
+
+  // Live store state wins over (possibly older) history pages
+  const allAlerts = useMemo(() => {
+    const byId = new Map<string, Alert>();
+    history.data?.pages.forEach(page => page.items.forEach(a => byId.set(a.id, a)));
+    alerts.forEach(a => byId.set(a.id, a));
+    return Array.from(byId.values())
+      .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime());
+  }, [alerts, history.data]);
+
+  const filteredAlerts = useMemo(() => allAlerts.filter(alert => {
+    if (severityFilter !== ALL && alert.severity !== severityFilter) return false;
+    if (patientFilter !== ALL && alert.patientId !== patientFilter) return false;
+    if (wardFilter !== ALL && patientsMap.get(alert.patientId)?.bed?.wardId !== wardFilter) return false;
+    return true;
+  }), [allAlerts, severityFilter, wardFilter, patientFilter, patientsMap]);
+
+  const activeAlerts = filteredAlerts.filter(a => a.isActive);
+  const acknowledgedAlerts = filteredAlerts.filter(a => !a.isActive);
+
+  const handleAcknowledge = (alertId: string) => {
+    acknowledge.mutate({ alertId, acknowledgedBy: staffName.trim() || DEFAULT_STAFF_NAME });
+  };
+
+  const handleStaffNameChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setStaffName(event.target.value);
+    localStorage.setItem(STAFF_NAME_KEY, event.target.value);
+  };
+
+  const handleJumpToPatient = (patientId: string) => {
+    const patient = patientsMap.get(patientId);
+    if (!patient) return;
+
+    // Show the card if the ward selection or the toolbar filters hide it
+    const state = useHospitalStore.getState();
+    if (state.selectedWardId && patient.bed?.wardId !== state.selectedWardId) {
+      setSelectedWard(patient.bed?.wardId);
+    }
+    if (selectFilteredPatients({ ...state, selectedWardId: undefined }, [patient], alarmProfilesById).length === 0) {
+      resetPatientFilters();
+    }
+
+    navigate(dashboardPath()); // The card is on the grid - leave the patient detail page if open
+    focusPatient(patientId);
+    onClose();
+  };
+
+  const handleFilterChange = (setter: (value: string) => void) => (event: SelectChangeEvent) => {
+    setter(event.target.value);
+  };
+
+  const renderAlerts = (list: Alert[], emptyText: string) => (
+    list.length === 0 ? (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+        {emptyText}
+      </Typography>
+    ) : (
+      <Stack spacing={1}>
+        {list.map(alert => (
+          <AlertRow
+            key={alert.id}
+            alert={alert}
+            patient={patientsMap.get(alert.patientId)}
+            now={now}
+            acknowledging={acknowledge.isPending && acknowledge.variables?.alertId === alert.id}
+            onAcknowledge={handleAcknowledge}
+            onJumpToPatient={handleJumpToPatient}
+          />
+        ))}
+      </Stack>
+    )
+  );
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      PaperProps={{
+        sx: {
+          width: { xs: '100%', sm: 480 },
+          borderRadius: 0,
+        },
+      }}
+    >
+      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between', borderBottom: '1px solid #eee' }}>
+        <Typography variant="h6" fontWeight={600}>
+          🚨 Alert Center
+        </Typography>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ px: 2, pt: 2 }}>
+        <TextField
+          label="Acknowledge as"
+          value={staffName}
+          onChange={handleStaffNameChange}
+          size="small"
+          fullWidth
+        />
+      </Box>
+
+      {acknowledge.isError && (
+        <MuiAlert severity="error" sx={{ mx: 2, mt: 2 }} onClose={() => acknowledge.reset()}>
+          Failed to acknowledge alert. {describeApiError(acknowledge.error)}
+        </MuiAlert>
+      )}
+
+      {/* Filters */}
+      <Stack direction="row" spacing={1} sx={{ p: 2 }}>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel>Severity</InputLabel>
+          <Select value={severityFilter} label="Severity" onChange={handleFilterChange(setSeverityFilter)}>
+            <MenuItem value={ALL}>All</MenuItem>
+            {SEVERITIES.map(severity => (
+              <MenuItem key={severity} value={severity}>{severity}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel>Ward</InputLabel>
+          <Select value={wardFilter} label="Ward" onChange={handleFilterChange(setWardFilter)}>
+            <MenuItem value={ALL}>All</MenuItem>
+            {wards.map(ward => (
+              <MenuItem key={ward.id} value={ward.id}>{ward.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ flex: 1 }}>
+          <InputLabel>Patient</InputLabel>
+          <Select value={patientFilter} label="Patient" onChange={handleFilterChange(setPatientFilter)}>
+            <MenuItem value={ALL}>All</MenuItem>
+            {patients.map(patient => (
+              <MenuItem key={patient.id} value={patient.id}>{patient.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Stack>
+
+      <Box sx={{ px: 2, pb: 2, overflow: 'auto' }}>
+        <Typography variant="overline" color="text.secondary">
+          Active ({activeAlerts.length})
+        </Typography>
+        {renderAlerts(activeAlerts, 'No active alerts')}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="overline" color="text.secondary">
+          Acknowledged ({acknowledgedAlerts.length})
+        </Typography>
+        {renderAlerts(acknowledgedAlerts, 'No acknowledged alerts')}
+
+        {history.isError && (
+          <Typography variant="caption" color="error" sx={{ display: 'block', mt: 1 }}>
+            Alert history unavailable. {describeApiError(history.error)}
+          </Typography>
+        )}
+        {history.hasNextPage && (
+          <Button
+            size="small"
+            onClick={() => history.fetchNextPage()}
+            disabled={history.isFetchingNextPage}
+            sx={{ mt: 1 }}
+          >
+            {history.isFetchingNextPage ? 'Loading…' : 'Load older alerts'}
+          </Button>
+        )}
+      </Box>
+    </Drawer>
+  );
+}
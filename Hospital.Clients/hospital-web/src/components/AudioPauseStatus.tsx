@@ -0,0 +1,78 @@
+import { Box, Chip, Tooltip, Typography } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+import { usePatientsById } from '../hooks/useHospitalQueries';
+import { useServerNow } from '../hooks/useServerClock';
+import { formatPauseRemaining, type AudioPause } from '../utils/audioPause';
+
+// AppBar room for patient chips - the rest are summarised in one
+const MAX_PATIENT_CHIPS = 3;
+
+/**
+ * AudioPauseCountdown - "1:42" left on a pause, ticking on the server clock
+ */
+export function AudioPauseCountdown({ pause }: { pause: AudioPause }) {
+  const now = useServerNow();
+
+  return (
+    <Typography component="span" variant="caption" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+      {formatPauseRemaining(pause, now)}
+    </Typography>
+  );
+}
+
+/**
+ * AudioPauseStatus - Every running audio pause in the AppBar, with the time left on each
+ * Deleting a chip re-arms that pause straight away.
+ */
+export function AudioPauseStatus() {
+  const patientAudioPauses = useHospitalStore(state => state.patientAudioPauses);
+  const globalAudioPause = useHospitalStore(state => state.globalAudioPause);
+  const resumePatientAudio = useHospitalStore(state => state.resumePatientAudio);
+  const resumeGlobalAudio = useHospitalStore(state => state.resumeGlobalAudio);
+  const patientsById = usePatientsById();
+
+  if (patientAudioPauses.size === 0 && !globalAudioPause) return null;
+
+  const paused = Array.from(patientAudioPauses)
+    .map(([patientId, pause]) => ({ patientId, pause, name: patientsById.get(patientId)?.name ?? patientId }))
+    .sort((a, b) => a.pause.until - b.pause.until);
+  const shown = paused.slice(0, MAX_PATIENT_CHIPS);
+  const hidden = paused.slice(MAX_PATIENT_CHIPS);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mr: 1 }}>
+      {globalAudioPause && (
+        <Chip
+          size="small"
+          color="warning"
+          label={<>🔕 All alarms <AudioPauseCountdown pause={globalAudioPause} /></>}
+          onDelete={resumeGlobalAudio}
+          title="Every alarm is paused - a higher-priority alarm still sounds"
+        />
+      )}
+      {shown.map(({ patientId, pause, name }) => (
+        <Chip
+          key={patientId}
+          size="small"
+          variant="outlined"
+          label={<>🔕 {name} <AudioPauseCountdown pause={pause} /></>}
+          onDelete={() => resumePatientAudio(patientId)}
+          title={`${name}'s alarms are paused - a higher-priority alarm still sounds`}
+        />
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip
+          title={
+            <>
+              {hidden.map(({ patientId, pause, name }) => (
+                <div key={patientId}>🔕 {name} <AudioPauseCountdown pause={pause} /></div>
+              ))}
+            </>
+          }
+        >
+          <Chip size="small" variant="outlined" label={`+${hidden.length} paused`} />
+        </Tooltip>
+      )}
+    </Box>
+  );
+}
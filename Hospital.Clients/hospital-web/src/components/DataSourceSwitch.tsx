@@ -0,0 +1,45 @@
+import { ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material';
+import { useHospitalStore, type DataSource } from '../store/hospitalStore';
+import { useSwitchDataSource } from '../hooks/useHospitalQueries';
+
+/**
+ * DataSourceSwitch - Explicit choice between the live API and the in-browser simulated backend
+ * The choice is persisted; switching drops all cached patient data so nothing from the other source lingers.
+ */
+export function DataSourceSwitch() {
+  const dataSource = useHospitalStore(state => state.dataSource);
+  const switchDataSource = useSwitchDataSource();
+
+  const handleChange = (_event: React.MouseEvent<HTMLElement>, value: DataSource | null) => {
+    if (!value || value === dataSource) return;
+    switchDataSource(value);
+  };
+
+  return (
+    <ToggleButtonGroup
+      value={dataSource}
+      exclusive
+      onChange={handleChange}
+      size="small"
+      sx={{ mr: 2 }}
+    >
+      <Tooltip title="Live data from the hospital API">
+        <ToggleButton value="live" sx={{ px: 1.5, fontWeight: 600 }}>
+          Live
+        </ToggleButton>
+      </Tooltip>
+      <Tooltip title="Simulated census generated in the browser - no real patient data">
+        <ToggleButton
+          value="simulated"
+          sx={{
+            px: 1.5,
+            fontWeight: 600,
+            '&.Mui-selected': { color: '#ff9800', bgcolor: 'rgba(255, 152, 0, 0.15)' },
+          }}
+        >
+          Simulated
+        </ToggleButton>
+      </Tooltip>
+    </ToggleButtonGroup>
+  );
+}
@@ -14,8 +14,8 @@ import {
   FiberManualRecord as StableIcon,
   Warning as CriticalIcon,
 } from '@mui/icons-material';
-import { useHospitalStore } from '../store/hospitalStore';
 import { hospitalApi } from '../services/hospitalApi';
+import { usePatients, useSetInjectionMode } from '../hooks/useHospitalQueries';
 
 /** Available demo scenarios */
 const DemoScenario = {
@@ -85,7 +85,8 @@ const CRITICAL_VITALS = {
 export function DemoScenarioSelector() {
   const [currentScenario, setCurrentScenario] = useState<DemoScenario>(DemoScenario.Live);
   const [loading, setLoading] = useState(false);
-  const patientsMap = useHospitalStore(state => state.patients);
+  const { data: patients = [] } = usePatients();
+  const setInjectionMode = useSetInjectionMode();
 
   const handleScenarioChange = async (event: SelectChangeEvent<DemoScenario>) => {
     const scenario = event.target.value as DemoScenario;
@@ -99,8 +100,6 @@ export function DemoScenarioSelector() {
 
     setLoading(true);
     try {
-      const patients = Array.from(patientsMap.values());
-
       if (scenario === DemoScenario.AllStable) {
         // Reset all patients to healthy vitals
         for (const patient of patients) {
@@ -136,23 +135,14 @@ export function DemoScenarioSelector() {
     }
   };
 
-  const enableInjectionMode = async (patientId: string) => {
-    const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8080/api';
-    await fetch(`${apiUrl}/simulator/patient/${patientId}/injection-mode?enabled=true`, {
-      method: 'POST',
-    });
-  };
+  const enableInjectionMode = (patientId: string) =>
+    setInjectionMode.mutateAsync({ patientId, enabled: true });
 
   const disableAllInjectionModes = async () => {
     setLoading(true);
     try {
-      const patients = Array.from(patientsMap.values());
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8080/api';
-
       for (const patient of patients) {
-        await fetch(`${apiUrl}/simulator/patient/${patient.id}/injection-mode?enabled=false`, {
-          method: 'POST',
-        });
+        await setInjectionMode.mutateAsync({ patientId: patient.id, enabled: false });
       }
     } catch (error) {
       console.error('Failed to disable injection modes:', error);
@@ -0,0 +1,76 @@
+import { Box, Chip, Tooltip, Typography } from '@mui/material';
+import {
+  NEWS2_PARAMETER_LABELS,
+  NEWS2_RISK_LABELS,
+  formatNews2Score,
+  type News2Parameter,
+  type News2Result,
+  type News2Risk,
+} from '../utils/news2';
+
+const NEWS2_RISK_COLORS: Record<News2Risk, 'success' | 'info' | 'warning' | 'error'> = {
+  low: 'success',
+  'low-medium': 'info',
+  medium: 'warning',
+  high: 'error',
+};
+
+interface News2BadgeProps {
+  news2?: News2Result;
+  size?: 'small' | 'medium';
+}
+
+/**
+ * News2Badge - Aggregate NEWS2 score, risk band and single-parameter trigger
+ * The tooltip breaks the score down and names any parameters that could not be scored.
+ */
+export function News2Badge({ news2, size = 'small' }: News2BadgeProps) {
+  if (!news2) {
+    return (
+      <Tooltip title="No observations to score">
+        <Chip label="NEWS2 --" size={size} variant="outlined" sx={{ color: 'text.secondary' }} />
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Tooltip title={<News2Breakdown news2={news2} />}>
+      <Chip
+        label={`NEWS2 ${formatNews2Score(news2)}${news2.singleParameterTrigger ? ' ⚠' : ''}`}
+        size={size}
+        color={NEWS2_RISK_COLORS[news2.risk]}
+        variant={news2.complete ? 'filled' : 'outlined'}
+        sx={{ fontWeight: 600 }}
+      />
+    </Tooltip>
+  );
+}
+
+/**
+ * Per-parameter scores, trigger and missing parameters
+ */
+export function News2Breakdown({ news2 }: { news2: News2Result }) {
+  const scored = (Object.keys(NEWS2_PARAMETER_LABELS) as News2Parameter[])
+    .filter(parameter => news2.parameterScores[parameter] !== undefined);
+
+  return (
+    <Box>
+      <Typography variant="body2" fontWeight={600}>
+        {NEWS2_RISK_LABELS[news2.risk]} risk - score {formatNews2Score(news2)}
+      </Typography>
+      {news2.singleParameterTrigger && (
+        <Typography variant="body2">⚠ A single parameter scores 3 - urgent review</Typography>
+      )}
+      {scored.map(parameter => (
+        <Typography key={parameter} variant="caption" component="div">
+          {NEWS2_PARAMETER_LABELS[parameter]}: {news2.parameterScores[parameter]}
+        </Typography>
+      ))}
+      {!news2.complete && (
+        <Typography variant="caption" component="div" sx={{ mt: 0.5, fontStyle: 'italic' }}>
+          Not scored: {news2.missing.map(parameter => NEWS2_PARAMETER_LABELS[parameter]).join(', ')} - the true score may be higher
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,35 @@
+import { Snackbar, Alert } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+
+/**
+ * NoticeSnackbar - App-wide toast for transient messages from the store
+ * Errors stay until dismissed so a failed action is never missed.
+ */
+export function NoticeSnackbar() {
+  const notice = useHospitalStore(state => state.notice);
+  const dismissNotice = useHospitalStore(state => state.dismissNotice);
+
+  const handleClose = (_event?: unknown, reason?: string) => {
+    if (reason === 'clickaway') return;
+    dismissNotice();
+  };
+
+  return (
+    <Snackbar
+      key={notice?.id}
+      open={!!notice}
+      onClose={handleClose}
+      autoHideDuration={notice?.severity === 'error' ? null : 5000}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+    >
+      <Alert
+        onClose={handleClose}
+        severity={notice?.severity ?? 'info'}
+        variant="filled"
+        sx={{ width: '100%' }}
+      >
+        {notice?.message}
+      </Alert>
+    </Snackbar>
+  );
+}
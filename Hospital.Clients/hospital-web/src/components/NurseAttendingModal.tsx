@@ -17,9 +17,19 @@ import {
 } from '@mui/material';
 import { Close as CloseIcon } from '@mui/icons-material';
 import { useHospitalStore } from '../store/hospitalStore';
-import { useAudioAlert } from '../hooks/useAudioAlert';
+import { usePatientAudioPause } from '../hooks/useAlarmManager';
 import { hospitalApi } from '../services/hospitalApi';
-import { validateVitalSigns } from '../utils/vitalSignsValidation';
+import { describeApiError } from '../services/apiError';
+import { useSetNurseAttending, useSetInjectionMode } from '../hooks/useHospitalQueries';
+import {
+  validateVitalSigns,
+  emptyVitalSignsForm,
+  normalVitalSignsForm,
+  parseVitalSignsForm,
+  hasAnyVitalSign,
+  type VitalSignsFormData,
+} from '../utils/vitalSignsValidation';
+import { VITAL_DEFINITIONS, formatVitalValue, formatVitalsSummary, type VitalKey } from '../utils/vitalDefinitions';
 import type { Patient, VitalSignsInjectionRequest } from '../types/hospital';
 
 interface NurseAttendingModalProps {
@@ -32,93 +42,71 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
   const [loading, setLoading] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [isNurseAttending, setIsNurseAttending] = useState(false);
-  const [togglingInjectionMode, setTogglingInjectionMode] = useState(false);
 
-  // Store actions for managing nurse attending state
-  const setNurseAttending = useHospitalStore(state => state.setNurseAttending);
-  const storeOriginalMuteState = useHospitalStore(state => state.storeOriginalMuteState);
-  const getOriginalMuteState = useHospitalStore(state => state.getOriginalMuteState);
-  const toggleInjectionModeInStore = useHospitalStore(state => state.toggleInjectionMode);
+  // Nurse attending is persisted on the backend (patient cache is kept in sync by SignalR)
+  const isNurseAttending = patient.nurseAttending ?? false;
+
+  // Optimistic mutations - failures roll back and surface a visible error notice
+  const setNurseAttending = useSetNurseAttending();
+  const setInjectionMode = useSetInjectionMode();
+  const togglingNurseAttending = setNurseAttending.isPending;
+  const togglingInjectionMode = setInjectionMode.isPending;
 
-  // Audio alert hook
-  const { togglePatientMute, isPatientMuted } = useAudioAlert();
+  // Patient audio pause - shared with the card's pause button
+  const { pause: audioPause, togglePause: toggleAudioPause } = usePatientAudioPause(patient.id);
+
+  // Vitals are entered in the display unit and sent to the API in the stored unit
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
+  const display = { temperatureUnit };
 
   // Form state for vital signs injection
-  const [formData, setFormData] = useState({
-    heartRate: '',
-    spO2: '',
-    bpSystolic: '',
-    bpDiastolic: '',
-  });
-
-  const handleInputChange = (field: keyof typeof formData) => (event: React.ChangeEvent<HTMLInputElement>) => {
+  const [formData, setFormData] = useState<VitalSignsFormData>(emptyVitalSignsForm);
+
+  const handleInputChange = (field: VitalKey) => (event: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
       [field]: event.target.value,
     }));
   };
 
+  // Attendance outlives the dialog - it ends when the nurse toggles it off (here or on another dashboard)
   const handleClose = () => {
-    // If nurse was attending, restore original mute state
-    if (isNurseAttending) {
-      const originalMuteState = getOriginalMuteState(patient.id);
-      const currentMuteState = isPatientMuted(patient.id);
-
-      // Only toggle if states differ
-      if (originalMuteState !== undefined && originalMuteState !== currentMuteState) {
-        togglePatientMute(patient.id);
-      }
-
-      // Clear nurse attending state
-      setNurseAttending(undefined);
-    }
-
     setSuccessMessage(null);
     setErrorMessage(null);
-    setFormData({
-      heartRate: '',
-      spO2: '',
-      bpSystolic: '',
-      bpDiastolic: '',
-    });
-    setIsNurseAttending(false);
+    setFormData(emptyVitalSignsForm());
     onClose();
   }
 
-  const handleToggleNurseAttending = () => {
+  const handleToggleNurseAttending = async () => {
     const newAttendingState = !isNurseAttending;
-    setIsNurseAttending(newAttendingState);
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      await setNurseAttending.mutateAsync({ patientId: patient.id, attending: newAttendingState });
+    } catch {
+      return; // Rolled back and reported by the mutation
+    }
 
     if (newAttendingState) {
-      // Starting nurse attending: store original mute state and mute patient
-      const currentMuteState = isPatientMuted(patient.id);
-      storeOriginalMuteState(patient.id, currentMuteState);
-      setNurseAttending(patient.id);
-
-      // Mute the patient while nurse is attending
-      if (!currentMuteState) {
-        // Only mute if not already muted
-        togglePatientMute(patient.id);
+      // Starting nurse attending: pause the patient's audio while the nurse settles them
+      if (!audioPause) {
+        toggleAudioPause();
       }
 
-      setSuccessMessage(`👨‍⚕️ Nurse attending ${patient.name}. Patient audio muted during attendance.`);
+      setSuccessMessage(`👨‍⚕️ Nurse attending ${patient.name}. Patient audio paused for 2 minutes.`);
     } else {
-      // Stopping nurse attending: restore original mute state
-      const originalMuteState = getOriginalMuteState(patient.id);
-      const currentMuteState = isPatientMuted(patient.id);
-
-      if (originalMuteState !== undefined && originalMuteState !== currentMuteState) {
-        togglePatientMute(patient.id);
+      // Stopping nurse attending: re-arm straight away rather than waiting out the pause
+      if (audioPause) {
+        toggleAudioPause();
       }
 
-      setNurseAttending(undefined);
-      setSuccessMessage(`✓ Nurse finished attending. Audio restored to previous state.`);
+      setSuccessMessage(`✓ Nurse finished attending. Patient audio re-armed.`);
     }
   };
 
   const validateForm = () => {
-    const result = validateVitalSigns(formData);
+    const result = validateVitalSigns(formData, true, display);
     if (!result.valid) {
       setErrorMessage(result.error);
       return false;
@@ -126,31 +114,6 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
     return true;
   };
 
-  const handleToggleInjectionMode = async (enabled: boolean) => {
-    setTogglingInjectionMode(true);
-    setErrorMessage(null);
-
-    try {
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8080/api';
-      const response = await fetch(
-        `${apiUrl}/simulator/patient/${patient.id}/injection-mode?enabled=${enabled}`,
-        { method: 'POST' }
-      );
-
-      if (response.ok) {
-        toggleInjectionModeInStore(patient.id, enabled);
-        console.log(`Injection mode ${enabled ? 'ENABLED' : 'DISABLED'} for ${patient.name}`);
-      } else {
-        setErrorMessage('Failed to toggle injection mode');
-      }
-    } catch (error) {
-      console.error('Error toggling injection mode:', error);
-      setErrorMessage('Failed to toggle injection mode');
-    } finally {
-      setTogglingInjectionMode(false);
-    }
-  };
-
   const handleInjectVitals = async () => {
     setErrorMessage(null);
     setSuccessMessage(null);
@@ -162,15 +125,12 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
 
       // Auto-enable injection mode if not already enabled
       if (!patient.injectionModeEnabled) {
-        await handleToggleInjectionMode(true);
+        await setInjectionMode.mutateAsync({ patientId: patient.id, enabled: true });
       }
 
       const request: VitalSignsInjectionRequest = {
         patientId: patient.id,
-        heartRate: formData.heartRate ? parseInt(formData.heartRate, 10) : undefined,
-        spO2: formData.spO2 ? parseInt(formData.spO2, 10) : undefined,
-        bpSystolic: formData.bpSystolic ? parseInt(formData.bpSystolic, 10) : undefined,
-        bpDiastolic: formData.bpDiastolic ? parseInt(formData.bpDiastolic, 10) : undefined,
+        ...parseVitalSignsForm(formData, display),
       };
 
       await hospitalApi.injectVitals(request);
@@ -178,24 +138,16 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
       setSuccessMessage(`✓ Vitals injected for ${patient.name}. Dashboard updating in real-time.`);
 
       // Clear form after successful injection
-      setFormData({
-        heartRate: '',
-        spO2: '',
-        bpSystolic: '',
-        bpDiastolic: '',
-      });
+      setFormData(emptyVitalSignsForm());
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to inject vitals';
-      setErrorMessage(errorMsg);
+      setErrorMessage(`Failed to inject vitals. ${describeApiError(error)}`);
       console.error('Injection error:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const latestVitals = Array.isArray(patient.vitalSigns) && patient.vitalSigns.length > 0
-    ? patient.vitalSigns[0]
-    : null;
+  const latestVitals = patient.vitalSigns[0] ?? null;
 
   return (
     <Dialog
@@ -272,9 +224,7 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
                 Current vitals:
               </Typography>
               <div style={{ fontSize: '0.875rem' }}>
-                HR: {latestVitals.heartRate || '--'} BPM |
-                SpO₂: {latestVitals.spO2 || '--'}% |
-                BP: {latestVitals.bpSystolic || '--'}/{latestVitals.bpDiastolic || '--'} mmHg
+                {formatVitalsSummary(latestVitals, display)}
               </div>
             </Box>
           )}
@@ -286,7 +236,7 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
                 <Switch
                   checked={isNurseAttending}
                   onChange={handleToggleNurseAttending}
-                  disabled={loading}
+                  disabled={loading || togglingNurseAttending}
                   sx={{
                     '& .MuiSwitch-switchBase.Mui-checked': {
                       color: '#1b4d2e',
@@ -299,13 +249,13 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
               }
               label={
                 <Typography variant="body2" sx={{ fontWeight: 600, color: '#000' }}>
-                  {isNurseAttending ? '👨‍⚕️ Nurse Attending (Audio Muted)' : 'Toggle Nurse Attending'}
+                  {isNurseAttending ? '👨‍⚕️ Nurse Attending' : 'Toggle Nurse Attending'}
                 </Typography>
               }
             />
             <Typography variant="caption" sx={{ display: 'block', mt: 1, color: '#1a3a24', fontWeight: 500 }}>
               {isNurseAttending
-                ? 'Patient audio is muted while you attend. It will be restored when you finish.'
+                ? 'Patient audio was paused for 2 minutes when you started and re-arms on its own. A higher-priority alarm still sounds.'
                 : 'Toggle to start attending this patient.'}
             </Typography>
           </Box>
@@ -316,7 +266,7 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
               control={
                 <Switch
                   checked={patient.injectionModeEnabled ?? false}
-                  onChange={(e) => handleToggleInjectionMode(e.target.checked)}
+                  onChange={(e) => setInjectionMode.mutate({ patientId: patient.id, enabled: e.target.checked })}
                   disabled={togglingInjectionMode || loading}
                   sx={{
                     '& .MuiSwitch-switchBase.Mui-checked': {
@@ -351,12 +301,7 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
                 <Button
                   size="small"
                   variant="outlined"
-                  onClick={() => setFormData({
-                    heartRate: '75',
-                    spO2: '98',
-                    bpSystolic: '120',
-                    bpDiastolic: '80',
-                  })}
+                  onClick={() => setFormData(normalVitalSignsForm(display))}
                   sx={{ fontSize: '0.75rem', padding: '4px 8px' }}
                 >
                   Healthy
@@ -364,12 +309,7 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
                 <Button
                   size="small"
                   variant="outlined"
-                  onClick={() => setFormData({
-                    heartRate: '',
-                    spO2: '',
-                    bpSystolic: '',
-                    bpDiastolic: '',
-                  })}
+                  onClick={() => setFormData(emptyVitalSignsForm())}
                   sx={{ fontSize: '0.75rem', padding: '4px 8px' }}
                 >
                   Clear
@@ -377,56 +317,25 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
               </Stack>
             </Box>
 
-            <TextField
-              label="Heart Rate (BPM)"
-              type="number"
-              value={formData.heartRate}
-              onChange={handleInputChange('heartRate')}
-              disabled={loading}
-              placeholder="e.g., 120"
-              inputProps={{ min: 0, max: 200 }}
-              size="small"
-              fullWidth
-              sx={{ mb: 1 }}
-            />
-
-            <TextField
-              label="SpO₂ (%)"
-              type="number"
-              value={formData.spO2}
-              onChange={handleInputChange('spO2')}
-              disabled={loading}
-              placeholder="e.g., 95"
-              inputProps={{ min: 0, max: 100 }}
-              size="small"
-              fullWidth
-              sx={{ mb: 1 }}
-            />
-
-            <TextField
-              label="BP Systolic (mmHg)"
-              type="number"
-              value={formData.bpSystolic}
-              onChange={handleInputChange('bpSystolic')}
-              disabled={loading}
-              placeholder="e.g., 140"
-              inputProps={{ min: 0, max: 250 }}
-              size="small"
-              fullWidth
-              sx={{ mb: 1 }}
-            />
-
-            <TextField
-              label="BP Diastolic (mmHg)"
-              type="number"
-              value={formData.bpDiastolic}
-              onChange={handleInputChange('bpDiastolic')}
-              disabled={loading}
-              placeholder="e.g., 90"
-              inputProps={{ min: 0, max: 150 }}
-              size="small"
-              fullWidth
-            />
+            {VITAL_DEFINITIONS.map((definition, index) => (
+              <TextField
+                key={definition.key}
+                label={`${definition.label} (${definition.displayUnit(display)})`}
+                type="number"
+                value={formData[definition.key] ?? ''}
+                onChange={handleInputChange(definition.key)}
+                disabled={loading}
+                placeholder={`e.g., ${formatVitalValue(definition, definition.exampleValue, display)}`}
+                inputProps={{
+                  min: definition.toDisplay(definition.validRange.min, display),
+                  max: definition.toDisplay(definition.validRange.max, display),
+                  step: 10 ** -definition.decimals,
+                }}
+                size="small"
+                fullWidth
+                sx={{ mb: index < VITAL_DEFINITIONS.length - 1 ? 1 : 0 }}
+              />
+            ))}
           </Box>
 
           {/* Info Text */}
@@ -448,7 +357,7 @@ export function NurseAttendingModal({ patient, open, onClose }: NurseAttendingMo
         </Button>
         <Button
           onClick={handleInjectVitals}
-          disabled={loading || !formData.heartRate && !formData.spO2 && !formData.bpSystolic && !formData.bpDiastolic}
+          disabled={loading || !hasAnyVitalSign(formData)}
           variant="contained"
           color="secondary"
           startIcon={loading ? <CircularProgress size={20} /> : undefined}
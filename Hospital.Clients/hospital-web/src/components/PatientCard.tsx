@@ -1,21 +1,53 @@
-import { useState, memo } from 'react';
-import { Card, CardContent, Typography, Box, Chip, Stack, IconButton } from '@mui/material';
+import { useState, useEffect, useRef, memo } from 'react';
+import { Card, CardContent, Typography, Box, Chip, Stack, IconButton, Tooltip } from '@mui/material';
 import {
-  Favorite as HeartIcon,
-  Air as O2Icon,
-  TrendingUp as BPIcon,
   LocalHospital as BedIcon,
   Speed as SpeedIcon,
   VolumeOff as MuteIcon,
   VolumeUp as UnmuteIcon,
   LocalFlorist as NurseIcon,
+  Tune as AlarmLimitsIcon,
 } from '@mui/icons-material';
 import type { Patient, AlertSeverity } from '../types/hospital';
 import { useHospitalStore } from '../store/hospitalStore';
-import { useAudioAlert } from '../hooks/useAudioAlert';
+import { usePatientAudioPause } from '../hooks/useAlarmManager';
+import { useAlarmProfilesById, useSetInjectionMode } from '../hooks/useHospitalQueries';
 import { NurseAttendingModal } from './NurseAttendingModal';
+import { AlarmLimitsDialog } from './AlarmLimitsDialog';
 import { VitalTrendsChart } from './VitalTrendsChart';
 import { VitalSparkline } from './VitalSparkline';
+import { News2Badge } from './News2Badge';
+import {
+  VITAL_DEFINITIONS,
+  getVitalDefinition,
+  formatVitalValue,
+} from '../utils/vitalDefinitions';
+import { calculatePatientNews2 } from '../utils/news2';
+import { hasCustomAlarmLimits, resolveAlarmLimits } from '../utils/alarmLimits';
+import { formatSilence, type QuietSignal } from '../utils/signalLoss';
+import { useServerNow } from '../hooks/useServerClock';
+import { RelativeTime } from './RelativeTime';
+import { AudioPauseCountdown } from './AudioPauseStatus';
+
+/**
+ * "No data for 47s" while the monitor is quiet - ticks every second on the server clock
+ * The age is from the last reading itself, so it reads true even for a patient that just came into scope.
+ */
+function SignalSilenceChip({ state, lastRecordedAt, suspended }: QuietSignal) {
+  const now = useServerNow();
+  const silence = lastRecordedAt ? formatSilence(now - Date.parse(lastRecordedAt)) : undefined;
+  const lost = state === 'lost';
+
+  return (
+    <Chip
+      label={`📡 ${lost ? 'Signal lost' : 'No data'}${silence ? ` for ${silence}` : ''}${suspended ? ' (not monitored)' : ''}`}
+      size="small"
+      variant={lost ? 'filled' : 'outlined'}
+      color={lost ? 'error' : 'default'}
+      sx={{ fontWeight: 600 }}
+    />
+  );
+}
 
 interface PatientCardProps {
   patient: Patient;
@@ -23,54 +55,65 @@ interface PatientCardProps {
 }
 
 export const PatientCard = memo(function PatientCard({ patient, onClick }: PatientCardProps) {
-  const [togglingInjection, setTogglingInjection] = useState(false);
   const [showTrends, setShowTrends] = useState(false);
   const [showNurseModal, setShowNurseModal] = useState(false);
+  const [showAlarmLimits, setShowAlarmLimits] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
 
-  // Audio alert hook - manages critical event sounds and per-patient mute settings
-  const { togglePatientMute, isPatientMuted } = useAudioAlert();
-  const isMuted = isPatientMuted(patient.id);
+  // Alert center "jump to patient": scroll this card into view and highlight it briefly
+  const isFocused = useHospitalStore(state => state.focusedPatientId === patient.id);
+  const focusPatient = useHospitalStore(state => state.focusPatient);
 
-  // Nurse attending state from store
-  const nurseAttendingPatientId = useHospitalStore(state => state.nurseAttendingPatientId);
-  const isNurseAttending = nurseAttendingPatientId === patient.id;
+  useEffect(() => {
+    if (!isFocused) return;
+    cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => focusPatient(undefined), 3000);
+    return () => clearTimeout(timeout);
+  }, [isFocused, focusPatient]);
+
+  // Timed per-patient audio pause - alarms themselves are played by the app-wide alarm manager
+  const { pause: audioPause, togglePause: toggleAudioPause } = usePatientAudioPause(patient.id);
+  const isPaused = audioPause !== undefined;
+
+  // Nurse attending state from patient object (database persisted)
+  const isNurseAttending = patient.nurseAttending ?? false;
 
   // Read injection mode from patient object (database source of truth)
   // On page load, always trust the DB. Store is only for optimistic updates during toggle.
   // BUG FIX: Previous logic used store's false default instead of DB value on reload
   const injectionModeEnabled = patient.injectionModeEnabled ?? false;
-  const toggleInjectionMode = useHospitalStore(state => state.toggleInjectionMode);
+  const setInjectionMode = useSetInjectionMode();
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
+  const display = { temperatureUnit };
 
-  const vitalsList = Array.isArray(patient.vitalSigns) ? patient.vitalSigns : [];
-  const latestVitals = vitalsList[0];
+  // Decoded newest first (see services/contracts)
+  const latestVitals = patient.vitalSigns[0];
 
-  // Handle injection mode toggle
-  const handleToggleInjection = async (e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent triggering card click
-    setTogglingInjection(true);
+  // Monitor gone quiet (see useSignalLossMonitor) - a newer reading clears it before the next check
+  const quietSignal = useHospitalStore(state => state.patientSignals.get(patient.id));
+  const signal = quietSignal?.lastRecordedAt === latestVitals?.recordedAt ? quietSignal : undefined;
+  const news2 = calculatePatientNews2(patient);
 
-    try {
-      const newState = !injectionModeEnabled;
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8080/api';
+  // Vitals are coloured against this patient's alarm limits (profile, ward default, overrides)
+  const alarmProfilesById = useAlarmProfilesById();
+  const alarmLimits = resolveAlarmLimits(patient, alarmProfilesById);
+  const customAlarmLimits = hasCustomAlarmLimits(patient);
+  const overrideCount = Object.keys(patient.alarmLimitOverrides ?? {}).length;
+  const customAlarmLimitsSummary = [
+    patient.alarmLimitProfileId && `Profile: ${alarmProfilesById.get(patient.alarmLimitProfileId)?.name ?? patient.alarmLimitProfileId}`,
+    overrideCount > 0 && `${overrideCount} individual override${overrideCount === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(' · ');
 
-      // Call backend API
-      const response = await fetch(
-        `${apiUrl}/simulator/patient/${patient.id}/injection-mode?enabled=${newState}`,
-        { method: 'POST' }
-      );
+  // Clicks inside the card's dialogs and drawer bubble up the React tree (portals), not the DOM - ignore them
+  const handleCardClick = (e: React.MouseEvent) => {
+    if (!e.currentTarget.contains(e.target as Node)) return;
+    onClick?.();
+  };
 
-      if (response.ok) {
-        // Update local state
-        toggleInjectionMode(patient.id, newState);
-        console.log(`Injection mode ${newState ? 'ENABLED' : 'DISABLED'} for ${patient.name}`);
-      } else {
-        console.error('Failed to toggle injection mode:', response.statusText);
-      }
-    } catch (error) {
-      console.error('Error toggling injection mode:', error);
-    } finally {
-      setTogglingInjection(false);
-    }
+  // Handle injection mode toggle (optimistic, rolled back with a visible error on failure)
+  const handleToggleInjection = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent triggering card click
+    setInjectionMode.mutate({ patientId: patient.id, enabled: !injectionModeEnabled });
   };
 
   // Use patient.status from API as single source of truth (already computed by backend)
@@ -92,18 +135,24 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
     }
   };
 
-  const getVitalColor = (value: number | undefined, low: number, high: number, critical: number) => {
-    if (!value) return 'text.secondary';
-    if (value < low || value > critical) return 'error.main';
-    if (value > high) return 'warning.main';
-    return 'success.main';
+  // Same four levels as the alerts the backend raises (see utils/clinicalThresholds)
+  const getSeverityColor = (vitalSeverity: AlertSeverity) => {
+    switch (vitalSeverity) {
+      case 'Critical': return 'error.main';
+      case 'High': return 'warning.dark';
+      case 'Medium': return 'warning.main';
+      default: return 'success.main';
+    }
   };
 
   return (
     <>
       <Card
-        onClick={onClick}
+        ref={cardRef}
+        onClick={handleCardClick}
         sx={{
+          outline: isFocused ? '3px solid #2196f3' : 'none',
+          outlineOffset: 2,
           cursor: onClick ? 'pointer' : 'default',
           borderLeft: isNurseAttending ? '6px solid #66bb6a' : `6px solid ${getBorderColor()}`,
           transition: 'all 0.3s ease',
@@ -137,20 +186,25 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
               {patient.name}
             </Typography>
             <Stack direction="row" spacing={0.5}>
-              {/* Audio Mute Button - Visible for all, especially critical patients */}
+              {/* Audio Pause Button - silences this patient for 2 minutes, then re-arms */}
+              {audioPause && (
+                <Box sx={{ display: 'flex', alignItems: 'center', color: 'text.secondary' }}>
+                  <AudioPauseCountdown pause={audioPause} />
+                </Box>
+              )}
               <IconButton
                 size="small"
                 onClick={(e) => {
                   e.stopPropagation();
-                  togglePatientMute(patient.id);
+                  toggleAudioPause();
                 }}
                 sx={{
-                  color: isMuted ? '#666' : 'inherit',
+                  color: isPaused ? '#666' : 'inherit',
                   transition: 'color 0.3s ease',
                   '&:hover': {
-                    color: isMuted ? '#999' : '#f44336',
+                    color: isPaused ? '#999' : '#f44336',
                   },
-                  ...(patient.status === 'critical' && isMuted && {
+                  ...(patient.status === 'critical' && isPaused && {
                     animation: 'pulse-mute 1.5s ease-in-out infinite',
                     '@keyframes pulse-mute': {
                       '0%, 100%': { opacity: 1 },
@@ -158,16 +212,16 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
                     },
                   }),
                 }}
-                title={isMuted ? '🔇 Audio Muted (Critical alert)' : '🔊 Audio Active'}
+                title={isPaused ? '🔕 Audio paused - click to re-arm now' : '🔊 Audio active - click to pause for 2 minutes'}
               >
-                {isMuted ? <MuteIcon /> : <UnmuteIcon />}
+                {isPaused ? <MuteIcon /> : <UnmuteIcon />}
               </IconButton>
 
               {/* Injection Mode Button */}
               <IconButton
                 size="small"
                 onClick={handleToggleInjection}
-                disabled={togglingInjection}
+                disabled={setInjectionMode.isPending}
                 sx={{
                   color: injectionModeEnabled ? '#ff9800' : 'inherit',
                   transition: 'color 0.3s ease',
@@ -198,6 +252,25 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
               >
                 <NurseIcon />
               </IconButton>
+
+              {/* Alarm Limits Button */}
+              <IconButton
+                size="small"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowAlarmLimits(true);
+                }}
+                sx={{
+                  color: customAlarmLimits ? '#8bc34a' : 'inherit',
+                  transition: 'color 0.3s ease',
+                  '&:hover': {
+                    color: '#8bc34a',
+                  },
+                }}
+                title={customAlarmLimits ? '🎚️ Custom Alarm Limits' : '🎚️ Alarm Limits'}
+              >
+                <AlarmLimitsIcon />
+              </IconButton>
             </Stack>
           </Box>
             <Stack
@@ -225,6 +298,22 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
               size="small"
               color={patient.status === 'critical' ? 'error' : patient.status === 'watch' ? 'warning' : 'success'}
             />
+            <News2Badge news2={news2} />
+            {signal && <SignalSilenceChip {...signal} />}
+            {customAlarmLimits && (
+              <Tooltip title={customAlarmLimitsSummary}>
+                <Chip
+                  label="🎚️ Custom limits"
+                  size="small"
+                  variant="outlined"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowAlarmLimits(true);
+                  }}
+                  sx={{ borderColor: '#8bc34a', color: '#8bc34a', fontWeight: 500 }}
+                />
+              </Tooltip>
+            )}
             <Chip
               label={injectionModeEnabled ? '💉 Injection: ON' : '💉 Injection: OFF'}
               size="small"
@@ -240,56 +329,37 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
 
         {/* Vital Signs */}
         {latestVitals ? (
-          <Stack spacing={1.5}>
-            {/* Heart Rate */}
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              <HeartIcon sx={{ color: getVitalColor(latestVitals.heartRate, 50, 100, 130) }} />
-              <Typography variant="body2" color="text.secondary" sx={{ minWidth: 60 }}>
-                HR:
-              </Typography>
-              <Typography
-                variant="h6"
-                fontWeight={600}
-                sx={{ color: getVitalColor(latestVitals.heartRate, 50, 100, 130) }}
-              >
-                {latestVitals.heartRate || '--'} <span style={{ fontSize: '0.8rem' }}>BPM</span>
-              </Typography>
-            </Box>
+          // Dimmed while the monitor is quiet - these values are no longer current
+          <Stack
+            spacing={1.5}
+            sx={{ opacity: signal ? 0.45 : 1, filter: signal ? 'grayscale(1)' : 'none', transition: 'opacity 0.3s ease' }}
+          >
+            {/* Vital rows - one per card entry in the vital definition registry */}
+            {VITAL_DEFINITIONS.filter(definition => definition.card).map(definition => {
+              const { label, icon: Icon, companion } = definition.card!;
+              const companionDefinition = companion ? getVitalDefinition(companion) : undefined;
+              const color = latestVitals[definition.key] === undefined
+                ? 'text.secondary'
+                : getSeverityColor(definition.assess(latestVitals, alarmLimits));
 
-            {/* SpO2 */}
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              <O2Icon sx={{ color: getVitalColor(latestVitals.spO2, 88, 94, 100) }} />
-              <Typography variant="body2" color="text.secondary" sx={{ minWidth: 60 }}>
-                SpO₂:
-              </Typography>
-              <Typography
-                variant="h6"
-                fontWeight={600}
-                sx={{ color: getVitalColor(latestVitals.spO2, 88, 94, 100) }}
-              >
-                {latestVitals.spO2 || '--'} <span style={{ fontSize: '0.8rem' }}>%</span>
-              </Typography>
-            </Box>
-
-            {/* Blood Pressure */}
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              <BPIcon sx={{ color: getVitalColor(latestVitals.bpSystolic, 90, 140, 180) }} />
-              <Typography variant="body2" color="text.secondary" sx={{ minWidth: 60 }}>
-                BP:
-              </Typography>
-              <Typography
-                variant="h6"
-                fontWeight={600}
-                sx={{ color: getVitalColor(latestVitals.bpSystolic, 90, 140, 180) }}
-              >
-                {latestVitals.bpSystolic || '--'}/{latestVitals.bpDiastolic || '--'}
-                <span style={{ fontSize: '0.8rem' }}> mmHg</span>
-              </Typography>
-            </Box>
+              return (
+                <Box key={definition.key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Icon sx={{ color }} />
+                  <Typography variant="body2" color="text.secondary" sx={{ minWidth: 60 }}>
+                    {label}:
+                  </Typography>
+                  <Typography variant="h6" fontWeight={600} sx={{ color }}>
+                    {formatVitalValue(definition, latestVitals[definition.key], display)}
+                    {companionDefinition && `/${formatVitalValue(companionDefinition, latestVitals[companionDefinition.key], display)}`}
+                    <span style={{ fontSize: '0.8rem' }}> {definition.displayUnit(display)}</span>
+                  </Typography>
+                </Box>
+              );
+            })}
 
             {/* Last Updated */}
             <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
-              Updated: {new Date(latestVitals.recordedAt).toLocaleTimeString()}
+              Updated: <RelativeTime timestamp={latestVitals.recordedAt} />
             </Typography>
 
             {/* Sparkline - Click to see full trends */}
@@ -297,7 +367,13 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
               <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
                 Vital Signs Trend (Last 15 readings)
               </Typography>
-              <VitalSparkline patient={patient} onClick={() => setShowTrends(true)} />
+              <VitalSparkline
+                patient={patient}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowTrends(true);
+                }}
+              />
             </Box>
           </Stack>
         ) : (
@@ -309,6 +385,7 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
       <VitalTrendsChart
         patientId={patient.id}
         patientName={patient.name}
+        spO2Scale={patient.spO2Scale}
         open={showTrends}
         onClose={() => setShowTrends(false)}
       />
@@ -319,6 +396,15 @@ export const PatientCard = memo(function PatientCard({ patient, onClick }: Patie
         open={showNurseModal}
         onClose={() => setShowNurseModal(false)}
       />
+
+      {/* Alarm Limits Dialog - mounted while open so it starts from the current limits */}
+      {showAlarmLimits && (
+        <AlarmLimitsDialog
+          patient={patient}
+          open={showAlarmLimits}
+          onClose={() => setShowAlarmLimits(false)}
+        />
+      )}
     </Card>
     </>
   );
@@ -0,0 +1,302 @@
+import { useEffect, useMemo } from 'react';
+import { Alert as MuiAlert, Box, Button, Chip, CircularProgress, Paper, Stack, Typography } from '@mui/material';
+import { ArrowBack as BackIcon, LocalHospital as BedIcon } from '@mui/icons-material';
+import { useHospitalStore } from '../store/hospitalStore';
+import {
+  useAlarmProfilesById,
+  usePatientAlerts,
+  usePatientTrend,
+  usePatients,
+  useWards,
+} from '../hooks/useHospitalQueries';
+import { linkTo } from '../hooks/useRoute';
+import { dashboardPath } from '../utils/routes';
+import { describeApiError } from '../services/apiError';
+import { News2Badge } from './News2Badge';
+import { VitalTrendsPanel } from './VitalTrendsChart';
+import { RelativeTime } from './RelativeTime';
+import { VITAL_DEFINITIONS, formatVitalValue, getVitalDefinition } from '../utils/vitalDefinitions';
+import { calculatePatientNews2 } from '../utils/news2';
+import { resolveAlarmLimitProfile, resolveAlarmLimits } from '../utils/alarmLimits';
+import { deriveStatusHistory } from '../utils/statusHistory';
+import { isTechnicalAlert } from '../utils/signalLoss';
+import type { Alert, AlertSeverity, Patient, PatientStatus } from '../types/hospital';
+
+const STATUS_COLORS: Record<PatientStatus, 'error' | 'warning' | 'success'> = {
+  critical: 'error',
+  watch: 'warning',
+  stable: 'success',
+};
+
+const ALERT_SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  Critical: '#f44336',
+  High: '#ff5722',
+  Medium: '#ff9800',
+  Low: '#4caf50',
+};
+
+// Technical alarms (signal lost) - about the monitoring, not the patient
+const TECHNICAL_ALERT_COLOR = '#29b6f6';
+
+// Same four levels as the alerts the backend raises (see utils/clinicalThresholds)
+const VITAL_SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  Critical: 'error.main',
+  High: 'warning.dark',
+  Medium: 'warning.main',
+  Low: 'success.main',
+};
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString();
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="overline" color="text.secondary">{title}</Typography>
+      {children}
+    </Paper>
+  );
+}
+
+function DetailRow({ label, value }: { label: string; value?: React.ReactNode }) {
+  return (
+    <Box sx={{ display: 'flex', gap: 2, py: 0.5 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ minWidth: 140 }}>{label}</Typography>
+      <Typography variant="body2" fontWeight={500}>{value || '--'}</Typography>
+    </Box>
+  );
+}
+
+/**
+ * Latest reading, coloured against the patient's own alarm limits - like the card
+ */
+function CurrentVitals({ patient }: { patient: Patient }) {
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
+  const alarmProfilesById = useAlarmProfilesById();
+  const display = { temperatureUnit };
+  const latestVitals = patient.vitalSigns[0];
+
+  if (!latestVitals) {
+    return <Typography color="text.secondary">No vital signs recorded</Typography>;
+  }
+
+  const alarmLimits = resolveAlarmLimits(patient, alarmProfilesById);
+
+  return (
+    <Stack spacing={1}>
+      {VITAL_DEFINITIONS.filter(definition => definition.card).map(definition => {
+        const { label, icon: Icon, companion } = definition.card!;
+        const companionDefinition = companion ? getVitalDefinition(companion) : undefined;
+        const color = latestVitals[definition.key] === undefined
+          ? 'text.secondary'
+          : VITAL_SEVERITY_COLORS[definition.assess(latestVitals, alarmLimits)];
+
+        return (
+          <Box key={definition.key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Icon sx={{ color }} />
+            <Typography variant="body2" color="text.secondary" sx={{ minWidth: 60 }}>
+              {label}:
+            </Typography>
+            <Typography variant="h6" fontWeight={600} sx={{ color }}>
+              {formatVitalValue(definition, latestVitals[definition.key], display)}
+              {companionDefinition && `/${formatVitalValue(companionDefinition, latestVitals[companionDefinition.key], display)}`}
+              <span style={{ fontSize: '0.8rem' }}> {definition.displayUnit(display)}</span>
+            </Typography>
+          </Box>
+        );
+      })}
+      <Typography variant="caption" color="text.secondary">
+        Updated: <RelativeTime timestamp={latestVitals.recordedAt} />
+      </Typography>
+    </Stack>
+  );
+}
+
+/**
+ * Recent alerts: history from the backend merged with live ones from SignalR
+ */
+function PatientAlerts({ patientId }: { patientId: string }) {
+  const history = usePatientAlerts(patientId);
+  const liveAlerts = useHospitalStore(state => state.alerts);
+
+  // Live store state wins over the (possibly older) history
+  const alerts = useMemo(() => {
+    const byId = new Map<string, Alert>();
+    history.data?.items.forEach(a => byId.set(a.id, a));
+    liveAlerts.filter(a => a.patientId === patientId).forEach(a => byId.set(a.id, a));
+    return Array.from(byId.values())
+      .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime());
+  }, [history.data, liveAlerts, patientId]);
+
+  if (history.isError) {
+    return (
+      <Typography variant="body2" color="error">
+        Alert history unavailable. {describeApiError(history.error)}
+      </Typography>
+    );
+  }
+
+  if (alerts.length === 0) {
+    return <Typography variant="body2" color="text.secondary">No alerts</Typography>;
+  }
+
+  return (
+    <Stack spacing={1}>
+      {alerts.map(alert => (
+        <Box
+          key={alert.id}
+          sx={{
+            pl: 1.5,
+            borderLeft: `4px solid ${isTechnicalAlert(alert) ? TECHNICAL_ALERT_COLOR : ALERT_SEVERITY_COLORS[alert.severity]}`,
+            opacity: alert.isActive ? 1 : 0.6,
+          }}
+        >
+          <Typography variant="body2">
+            <strong>{isTechnicalAlert(alert) ? '📡 TECHNICAL' : alert.severity.toUpperCase()}</strong> {alert.message}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {formatDateTime(alert.triggeredAt)}
+            {alert.isActive ? ' · active' : ` · acknowledged${alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ''}`}
+          </Typography>
+        </Box>
+      ))}
+    </Stack>
+  );
+}
+
+/**
+ * Status changes over the trend window, reconstructed from the readings (see utils/statusHistory)
+ */
+function StatusHistory({ patient }: { patient: Patient }) {
+  const { data: trend = [] } = usePatientTrend(patient.id, 240);
+  const alarmProfilesById = useAlarmProfilesById();
+
+  const history = useMemo(
+    () => deriveStatusHistory(trend, resolveAlarmLimits(patient, alarmProfilesById)),
+    [trend, patient, alarmProfilesById]
+  );
+
+  if (history.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No status changes in the last 4 hours
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack spacing={1}>
+      {history.map(change => (
+        <Box key={change.reading.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Chip label={change.status.toUpperCase()} size="small" color={STATUS_COLORS[change.status]} />
+          <Typography variant="body2">{formatDateTime(change.changedAt)}</Typography>
+          <Typography variant="caption" color="text.secondary">{change.severity} reading</Typography>
+        </Box>
+      ))}
+    </Stack>
+  );
+}
+
+/**
+ * PatientDetailPage - Everything about one patient at /patients/:id
+ * Joins the patient's hub group while open (see useHospitalSignalR).
+ */
+export function PatientDetailPage({ patientId }: { patientId: string }) {
+  const { data: patients = [], isLoading } = usePatients();
+  const { data: wards = [] } = useWards();
+  const alarmProfilesById = useAlarmProfilesById();
+  const setSubscribedPatient = useHospitalStore(state => state.setSubscribedPatient);
+  const patient = patients.find(p => p.id === patientId);
+
+  useEffect(() => {
+    setSubscribedPatient(patientId);
+    return () => setSubscribedPatient(undefined);
+  }, [patientId, setSubscribedPatient]);
+
+  const backButton = (
+    <Button startIcon={<BackIcon />} {...linkTo(dashboardPath())}>
+      Dashboard
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+        <CircularProgress size={60} />
+      </Box>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <>
+        {backButton}
+        <MuiAlert severity="warning" sx={{ mt: 2 }}>
+          Patient <strong>{patientId}</strong> was not found. They may have been discharged, or belong to the other data source.
+        </MuiAlert>
+      </>
+    );
+  }
+
+  const ward = wards.find(w => w.id === patient.bed?.wardId);
+  const alarmProfile = resolveAlarmLimitProfile(patient, alarmProfilesById);
+
+  return (
+    <>
+      {backButton}
+
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap', my: 2 }}>
+        <Typography variant="h4">{patient.name}</Typography>
+        <Chip label={patient.status.toUpperCase()} color={STATUS_COLORS[patient.status]} sx={{ fontWeight: 600 }} />
+        <News2Badge news2={calculatePatientNews2(patient)} size="medium" />
+        {patient.nurseAttending && <Chip label="👨‍⚕️ Nurse attending" variant="outlined" sx={{ borderColor: '#66bb6a', color: '#66bb6a' }} />}
+        {patient.injectionModeEnabled && <Chip label="💉 Injection: ON" variant="outlined" sx={{ borderColor: '#ff9800', color: '#ff9800' }} />}
+      </Box>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', md: 'minmax(320px, 1fr) 2fr' },
+          gap: 3,
+          alignItems: 'start',
+        }}
+      >
+        <Stack spacing={3}>
+          <Section title="Patient">
+            <DetailRow label="MRN" value={patient.mrn} />
+            <DetailRow label="Admitted" value={formatDateTime(patient.admittedAt)} />
+            <DetailRow
+              label="Bed"
+              value={patient.bed && <Chip icon={<BedIcon />} label={patient.bed.number} size="small" variant="outlined" />}
+            />
+            <DetailRow label="Ward" value={ward?.name ?? patient.bed?.ward?.name} />
+            <DetailRow label="Attending physician" value={patient.attendingPhysician} />
+            <DetailRow label="Primary diagnosis" value={patient.primaryDiagnosis} />
+            <DetailRow
+              label="Alarm limits"
+              value={`${alarmProfile?.name ?? 'Adult defaults'}${Object.keys(patient.alarmLimitOverrides ?? {}).length > 0 ? ' + individual overrides' : ''}`}
+            />
+          </Section>
+
+          <Section title="Current vitals">
+            <CurrentVitals patient={patient} />
+          </Section>
+
+          <Section title="Status history">
+            <StatusHistory patient={patient} />
+          </Section>
+        </Stack>
+
+        <Stack spacing={3}>
+          <Section title="Trends (4 hours)">
+            <VitalTrendsPanel patientId={patient.id} spO2Scale={patient.spO2Scale} />
+          </Section>
+
+          <Section title="Alerts">
+            <PatientAlerts patientId={patient.id} />
+          </Section>
+        </Stack>
+      </Box>
+    </>
+  );
+}
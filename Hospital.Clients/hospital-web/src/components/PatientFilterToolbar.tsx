@@ -0,0 +1,139 @@
+import { Box, Button, Chip, InputAdornment, MenuItem, TextField, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { useShallow } from 'zustand/react/shallow';
+import { useHospitalStore } from '../store/hospitalStore';
+import {
+  PATIENT_SORT_LABELS,
+  PATIENT_STATUSES,
+  hasActivePatientFilters,
+  type PatientFilters,
+  type PatientSort,
+} from '../utils/patientFilters';
+import type { PatientStatus } from '../types/hospital';
+
+// NEWS2 escalation points: any score, 1+, 3 (single-parameter level), 5 (urgent), 7 (emergency)
+const MIN_NEWS2_OPTIONS = [0, 1, 3, 5, 7];
+
+const STATUS_COLORS: Record<PatientStatus, string> = {
+  critical: '#f44336',
+  watch: '#ff9800',
+  stable: '#4caf50',
+};
+
+// On/off filters, shown as toggle chips
+const FLAG_FILTERS: Array<{ key: 'showAlertsOnly' | 'injectionModeOnly' | 'nurseAttendingOnly' | 'mutedOnly'; label: string }> = [
+  { key: 'showAlertsOnly', label: '🚨 Alerting' },
+  { key: 'injectionModeOnly', label: '💉 Injection mode' },
+  { key: 'nurseAttendingOnly', label: '👨‍⚕️ Nurse attending' },
+  { key: 'mutedOnly', label: '🔕 Audio paused' },
+];
+
+interface PatientFilterToolbarProps {
+  shownCount: number;
+  totalCount: number; // Patients in the selected ward before filtering
+}
+
+/**
+ * PatientFilterToolbar - Search, filter and sort the patient grid
+ * Filter state is kept in the URL (see usePatientFilterUrlSync).
+ */
+export function PatientFilterToolbar({ shownCount, totalCount }: PatientFilterToolbarProps) {
+  const filters: PatientFilters = useHospitalStore(useShallow(state => ({
+    searchQuery: state.searchQuery,
+    statusFilter: state.statusFilter,
+    showAlertsOnly: state.showAlertsOnly,
+    injectionModeOnly: state.injectionModeOnly,
+    nurseAttendingOnly: state.nurseAttendingOnly,
+    mutedOnly: state.mutedOnly,
+    minNews2Score: state.minNews2Score,
+    patientSort: state.patientSort,
+  })));
+  const setPatientFilters = useHospitalStore(state => state.setPatientFilters);
+  const resetPatientFilters = useHospitalStore(state => state.resetPatientFilters);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+      <TextField
+        size="small"
+        placeholder="Search name, MRN, bed, diagnosis"
+        value={filters.searchQuery}
+        onChange={(e) => setPatientFilters({ searchQuery: e.target.value })}
+        sx={{ minWidth: 280 }}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon fontSize="small" />
+            </InputAdornment>
+          ),
+        }}
+      />
+
+      {/* Status - none selected shows every status */}
+      <ToggleButtonGroup
+        value={filters.statusFilter}
+        onChange={(_event, value: PatientStatus[]) => setPatientFilters({ statusFilter: value })}
+        size="small"
+      >
+        {PATIENT_STATUSES.map(status => (
+          <ToggleButton
+            key={status}
+            value={status}
+            sx={{ px: 1.5, fontWeight: 600, '&.Mui-selected': { color: STATUS_COLORS[status] } }}
+          >
+            {status.toUpperCase()}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        {FLAG_FILTERS.map(({ key, label }) => (
+          <Chip
+            key={key}
+            label={label}
+            size="small"
+            color={filters[key] ? 'primary' : 'default'}
+            variant={filters[key] ? 'filled' : 'outlined'}
+            onClick={() => setPatientFilters({ [key]: !filters[key] })}
+          />
+        ))}
+      </Box>
+
+      <TextField
+        select
+        size="small"
+        label="NEWS2"
+        value={filters.minNews2Score}
+        onChange={(e) => setPatientFilters({ minNews2Score: Number(e.target.value) })}
+        sx={{ minWidth: 120 }}
+      >
+        {MIN_NEWS2_OPTIONS.map(score => (
+          <MenuItem key={score} value={score}>{score === 0 ? 'Any score' : `≥ ${score}`}</MenuItem>
+        ))}
+      </TextField>
+
+      <TextField
+        select
+        size="small"
+        label="Sort"
+        value={filters.patientSort}
+        onChange={(e) => setPatientFilters({ patientSort: e.target.value as PatientSort })}
+        sx={{ minWidth: 180 }}
+      >
+        {(Object.keys(PATIENT_SORT_LABELS) as PatientSort[]).map(sort => (
+          <MenuItem key={sort} value={sort}>{PATIENT_SORT_LABELS[sort]}</MenuItem>
+        ))}
+      </TextField>
+
+      {hasActivePatientFilters(filters) && (
+        <>
+          <Typography variant="body2" color="text.secondary">
+            Showing {shownCount} of {totalCount}
+          </Typography>
+          <Button size="small" onClick={resetPatientFilters}>
+            Clear filters
+          </Button>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,46 +1,90 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import Grid from '@mui/material/Grid';
-import Box from '@mui/material/Box';
-import { useHospitalStore } from '../store/hospitalStore';
+import { motion, MotionConfig } from 'framer-motion';
+import { useShallow } from 'zustand/react/shallow';
+import { useAcuityRanking } from '../hooks/useAcuityRanking';
+import { useAlarmProfilesById, usePatients } from '../hooks/useHospitalQueries';
+import { usePatientFilterUrlSync } from '../hooks/usePatientFilterUrlSync';
+import { navigate } from '../hooks/useRoute';
+import { useHospitalStore, selectFilteredPatients } from '../store/hospitalStore';
 import { PatientCard } from './PatientCard';
+import { PatientFilterToolbar } from './PatientFilterToolbar';
+import { patientPath } from '../utils/routes';
+
+const CARD_REORDER_TRANSITION = { type: 'spring', stiffness: 300, damping: 35 } as const;
 
 export function PatientGrid() {
-  // Get the Map directly (stable reference)
-  const patientsMap = useHospitalStore((state) => state.patients);
+  // Patient list from the React Query cache (kept live by SignalR)
+  const { data: allPatients = [] } = usePatients();
+  const alarmProfilesById = useAlarmProfilesById();
+  const filters = useHospitalStore(useShallow(state => ({
+    selectedWardId: state.selectedWardId,
+    patientAudioPauses: state.patientAudioPauses,
+    searchQuery: state.searchQuery,
+    statusFilter: state.statusFilter,
+    showAlertsOnly: state.showAlertsOnly,
+    injectionModeOnly: state.injectionModeOnly,
+    nurseAttendingOnly: state.nurseAttendingOnly,
+    mutedOnly: state.mutedOnly,
+    minNews2Score: state.minNews2Score,
+    patientSort: state.patientSort,
+  })));
+  const acuityTiers = useAcuityRanking(allPatients);
+  const focusedPatientId = useHospitalStore(state => state.focusedPatientId);
+  const focusPatient = useHospitalStore(state => state.focusPatient);
+  usePatientFilterUrlSync();
+
+  const patients = useMemo(
+    () => selectFilteredPatients(filters, allPatients, alarmProfilesById, acuityTiers),
+    [filters, allPatients, alarmProfilesById, acuityTiers]
+  );
 
-  // Convert to array only when Map reference changes
-  const patients = useMemo(() => Array.from(patientsMap.values()), [patientsMap]);
+  // No card to take the focus (e.g. discharged meanwhile) - drop it, or a later filter change would scroll to it
+  useEffect(() => {
+    if (focusedPatientId && !patients.some(p => p.id === focusedPatientId)) focusPatient(undefined);
+  }, [focusedPatientId, patients, focusPatient]);
+  // Filters narrow the selected ward - count against the ward, not the whole hospital
+  const wardPatientCount = filters.selectedWardId
+    ? allPatients.filter(p => p.bed?.wardId === filters.selectedWardId).length
+    : allPatients.length;
 
   return (
-    <Grid
-      container
-      spacing={3}
-      sx={{
-        // Responsive grid sizing with controlled max-width
-        // Mobile (xs): 1 column (full width)
-        // Tablet (sm): 2 columns (50% each)
-        // Desktop (md): 3 columns (33.33% each) - optimal for patient cards
-        // Large (lg/xl): cap at 3 columns to prevent stretching
-        display: 'grid',
-        gridTemplateColumns: {
-          xs: '1fr',                    // 1 column on mobile
-          sm: 'repeat(2, 1fr)',         // 2 columns on tablet
-          md: 'repeat(3, 1fr)',         // 3 columns on desktop
-          lg: 'repeat(3, minmax(350px, 1fr))', // 3 cols with min-width
-          xl: 'repeat(3, minmax(350px, 1fr))', // 3 cols with min-width
-        },
-        gap: 3,
-        width: '100%',
-      }}
-    >
-      {patients.map((patient) => (
-        <Box key={patient.id}>
-          <PatientCard
-            patient={patient}
-            onClick={() => console.log('Open trend chart for', patient.id)}
-          />
-        </Box>
-      ))}
-    </Grid>
+    <>
+      <PatientFilterToolbar shownCount={patients.length} totalCount={wardPatientCount} />
+
+      <Grid
+        container
+        spacing={3}
+        sx={{
+          // Responsive grid sizing with controlled max-width
+          // Mobile (xs): 1 column (full width)
+          // Tablet (sm): 2 columns (50% each)
+          // Desktop (md): 3 columns (33.33% each) - optimal for patient cards
+          // Large (lg/xl): cap at 3 columns to prevent stretching
+          display: 'grid',
+          gridTemplateColumns: {
+            xs: '1fr',                    // 1 column on mobile
+            sm: 'repeat(2, 1fr)',         // 2 columns on tablet
+            md: 'repeat(3, 1fr)',         // 3 columns on desktop
+            lg: 'repeat(3, minmax(350px, 1fr))', // 3 cols with min-width
+            xl: 'repeat(3, minmax(350px, 1fr))', // 3 cols with min-width
+          },
+          gap: 3,
+          width: '100%',
+        }}
+      >
+        {/* Cards glide to their new slot when the order changes, so staff can follow a patient as they move up */}
+        <MotionConfig reducedMotion="user">
+          {patients.map((patient) => (
+            <motion.div key={patient.id} layout="position" transition={CARD_REORDER_TRANSITION}>
+              <PatientCard
+                patient={patient}
+                onClick={() => navigate(patientPath(patient.id))}
+              />
+            </motion.div>
+          ))}
+        </MotionConfig>
+      </Grid>
+    </>
   );
 }
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Alert, Button } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+
+/**
+ * ReconnectBanner - Shown while the live hub connection is down
+ * Counts down to the next reconnect attempt and lets staff skip the wait.
+ * Vitals keep coming from REST polling at a reduced rate (see useHubPollingFallback) - the banner
+ * says so, and turns red if polling fails too, rather than leaving the values looking live.
+ */
+export function ReconnectBanner({ onReconnectNow }: { onReconnectNow: () => void }) {
+  const connectionStatus = useHospitalStore(state => state.connectionStatus);
+  const reconnectSchedule = useHospitalStore(state => state.reconnectSchedule);
+  const hubPolling = useHospitalStore(state => state.hubPolling);
+  const dataSource = useHospitalStore(state => state.dataSource);
+  const [now, setNow] = useState(() => Date.now());
+
+  const down = dataSource === 'live' && connectionStatus !== 'connected';
+
+  // Tick the countdown once a second while an attempt is scheduled
+  useEffect(() => {
+    if (!down || !reconnectSchedule) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [down, reconnectSchedule]);
+
+  if (!down || !reconnectSchedule) return null;
+
+  const secondsLeft = Math.ceil((reconnectSchedule.nextAttemptAt - now) / 1000);
+  const retrying = connectionStatus === 'connecting' || secondsLeft <= 0;
+  const pollFailed = !!hubPolling?.error;
+
+  return (
+    <Alert
+      severity={pollFailed ? 'error' : 'warning'}
+      sx={{ borderRadius: 0, mb: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={onReconnectNow} disabled={connectionStatus === 'connecting'}>
+          Reconnect now
+        </Button>
+      }
+    >
+      {pollFailed ? (
+        <>
+          <strong>Live updates interrupted - vitals shown may be out of date.</strong>{' '}
+          Polling failed: {hubPolling.error}{' '}
+        </>
+      ) : (
+        <>
+          <strong>Polling — reduced update rate.</strong>{' '}
+          Live updates interrupted; vitals refresh every {Math.round((hubPolling?.intervalMs ?? 0) / 1000)}s
+          {hubPolling?.lastPolledAt && ` (last at ${new Date(hubPolling.lastPolledAt).toLocaleTimeString()})`}.{' '}
+        </>
+      )}
+      {retrying
+        ? `Reconnecting (attempt ${reconnectSchedule.attempt})...`
+        : `Reconnecting in ${secondsLeft}s (attempt ${reconnectSchedule.attempt}).`}
+    </Alert>
+  );
+}
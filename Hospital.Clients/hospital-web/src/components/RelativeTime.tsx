@@ -0,0 +1,16 @@
+import { Tooltip } from '@mui/material';
+import { useServerNow } from '../hooks/useServerClock';
+import { formatTimeAgo } from '../utils/relativeTime';
+
+/**
+ * RelativeTime - "8s ago" that ticks forward on the server clock, with the wall-clock time on hover
+ */
+export function RelativeTime({ timestamp, intervalMs = 1000 }: { timestamp: string; intervalMs?: number }) {
+  const now = useServerNow(intervalMs);
+
+  return (
+    <Tooltip title={new Date(timestamp).toLocaleString()}>
+      <span>{formatTimeAgo(timestamp, now)}</span>
+    </Tooltip>
+  );
+}
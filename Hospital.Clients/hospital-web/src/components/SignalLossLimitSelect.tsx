@@ -0,0 +1,35 @@
+import { MenuItem, Select, Tooltip } from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+import { SIGNAL_LOSS_ALARM_OPTIONS_MS, formatSilence } from '../utils/signalLoss';
+
+/**
+ * SignalLossLimitSelect - How long a monitor may stay silent before the "signal lost" alarm
+ * Remembered per display.
+ */
+export function SignalLossLimitSelect() {
+  const signalLossAlarmMs = useHospitalStore(state => state.signalLossAlarmMs);
+  const setSignalLossAlarmMs = useHospitalStore(state => state.setSignalLossAlarmMs);
+
+  const handleChange = (event: SelectChangeEvent<number>) => {
+    setSignalLossAlarmMs(Number(event.target.value));
+  };
+
+  return (
+    <Tooltip title="Signal lost alarm after this long without vitals" placement="left">
+      <Select
+        value={signalLossAlarmMs}
+        onChange={handleChange}
+        size="small"
+        renderValue={value => `📡 ${formatSilence(value).replace(' 00s', '')}`}
+        sx={{ mr: 2, minWidth: 96 }}
+      >
+        {SIGNAL_LOSS_ALARM_OPTIONS_MS.map(ms => (
+          <MenuItem key={ms} value={ms}>
+            {formatSilence(ms).replace(' 00s', '')} without data
+          </MenuItem>
+        ))}
+      </Select>
+    </Tooltip>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef, memo } from 'react';
+import { useEffect, useMemo, useRef, memo } from 'react';
 import { Box, Typography, IconButton, Chip, Stack, Paper } from '@mui/material';
 import {
   Terminal as TerminalIcon,
@@ -7,6 +7,7 @@ import {
   Circle as DotIcon,
 } from '@mui/icons-material';
 import { useHospitalStore, type SignalRLogEntry } from '../store/hospitalStore';
+import { formatClockOffset } from '../services/serverClock';
 
 /**
  * Terminal-style SignalR message viewer
@@ -22,17 +23,23 @@ import { useHospitalStore, type SignalRLogEntry } from '../store/hospitalStore';
 const EVENT_COLORS: Record<SignalRLogEntry['eventType'], string> = {
   VitalUpdate: '#4caf50',    // Green - most common
   Alert: '#f44336',          // Red - critical
+  AlertAcknowledged: '#00bcd4', // Cyan - staff acknowledgement
   InjectionMode: '#ff9800',  // Orange - user action
   NurseAttending: '#2196f3', // Blue - staff action
+  AlarmLimits: '#8bc34a',    // Light green - configuration
   Connection: '#9c27b0',     // Purple - system
+  Contract: '#ffeb3b',       // Yellow - payload drift
 };
 
 const EVENT_ICONS: Record<SignalRLogEntry['eventType'], string> = {
   VitalUpdate: '📊',
   Alert: '🚨',
+  AlertAcknowledged: '✅',
   InjectionMode: '💉',
   NurseAttending: '👨‍⚕️',
+  AlarmLimits: '🎚️',
   Connection: '🔌',
+  Contract: '⚠️',
 };
 
 function formatTimestamp(date: Date): string {
@@ -54,23 +61,48 @@ function formatLogEntry(entry: SignalRLogEntry): string {
   let dataStr = '';
   switch (entry.eventType) {
     case 'VitalUpdate':
-      dataStr = `HR:${entry.data.heartRate} SpO2:${entry.data.spO2}% BP:${entry.data.bpSystolic}/${entry.data.bpDiastolic}`;
+      dataStr = `HR:${entry.data.heartRate} SpO2:${entry.data.spO2}% BP:${entry.data.bpSystolic}/${entry.data.bpDiastolic}`
+        + (entry.data.temperature != null ? ` T:${entry.data.temperature}°C` : '');
       break;
     case 'Alert':
       dataStr = `${entry.data.severity}: ${entry.data.message}`;
       break;
+    case 'AlertAcknowledged':
+      dataStr = `ACK by ${entry.data.acknowledgedBy}`;
+      break;
     case 'InjectionMode':
       dataStr = entry.data.enabled ? 'ENABLED' : 'DISABLED';
       break;
     case 'NurseAttending':
       dataStr = entry.data.attending ? 'ATTENDING' : 'LEFT';
       break;
+    case 'AlarmLimits':
+      dataStr = `${entry.data.scope === 'ward' ? `WARD ${entry.data.wardName} ` : ''}${entry.data.profileId ?? 'default'}`
+        + (entry.data.overrides ? ` +${entry.data.overrides} override(s)` : '');
+      break;
     case 'Connection':
       dataStr = String(entry.data.status).toUpperCase();
       break;
+    case 'Contract':
+      dataStr = `${entry.data.source}: ${(entry.data.violations as string[]).join('; ')}`;
+      break;
   }
 
-  return `${time} ${icon} ${entry.eventType.padEnd(14)} ${patient.padEnd(20)} ${dataStr}`;
+  // Delivery latency - measured on the server clock, so a skewed workstation clock doesn't distort it
+  const latency = typeof entry.data.latencyMs === 'number' ? ` (+${Math.max(0, entry.data.latencyMs)}ms)` : '';
+
+  return `${time} ${icon} ${entry.eventType.padEnd(14)} ${patient.padEnd(20)} ${dataStr}${latency}`;
+}
+
+/**
+ * Median delivery latency of the vital updates in the log
+ */
+function medianLatency(logs: SignalRLogEntry[]): number | undefined {
+  const latencies = logs
+    .filter(entry => entry.eventType === 'VitalUpdate' && typeof entry.data.latencyMs === 'number')
+    .map(entry => Math.max(0, entry.data.latencyMs as number))
+    .sort((a, b) => a - b);
+  return latencies.length > 0 ? latencies[Math.floor(latencies.length / 2)] : undefined;
 }
 
 const LogLine = memo(function LogLine({ entry }: { entry: SignalRLogEntry }) {
@@ -103,6 +135,8 @@ export const SignalRTerminal = memo(function SignalRTerminal() {
   const connectionStatus = useHospitalStore(state => state.connectionStatus);
   const togglePanel = useHospitalStore(state => state.toggleSignalRPanel);
   const clearLogs = useHospitalStore(state => state.clearSignalRLogs);
+  const clockOffsetMs = useHospitalStore(state => state.clockOffsetMs);
+  const latency = useMemo(() => medianLatency(logs), [logs]);
 
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -217,6 +251,20 @@ export const SignalRTerminal = memo(function SignalRTerminal() {
         >
           📊 Total: <span style={{ color: '#58a6ff' }}>{stats.totalMessages}</span>
         </Typography>
+        <Typography
+          variant="caption"
+          sx={{ fontFamily: 'monospace', color: '#8b949e' }}
+          title="Median time from recordedAt to arrival, on the server clock"
+        >
+          ⏱ Latency: <span style={{ color: '#58a6ff' }}>{latency === undefined ? '--' : `${latency}ms`}</span>
+        </Typography>
+        <Typography
+          variant="caption"
+          sx={{ fontFamily: 'monospace', color: '#8b949e' }}
+          title="Server clock minus this workstation's clock"
+        >
+          🕒 Offset: <span style={{ color: '#58a6ff' }}>{formatClockOffset(clockOffsetMs)}</span>
+        </Typography>
         <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
           {Object.entries(stats.eventCounts).map(([type, count]) => (
             <Typography
@@ -0,0 +1,45 @@
+import { Box, Typography } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+
+/**
+ * SimulatedDataWatermark - Persistent overlay shown whenever the simulated data source is active
+ * Sits above every dialog and drawer (but ignores clicks) so simulated vitals can never be
+ * mistaken for real patient data.
+ */
+export function SimulatedDataWatermark() {
+  const dataSource = useHospitalStore(state => state.dataSource);
+
+  if (dataSource !== 'simulated') return null;
+
+  return (
+    <Box
+      aria-hidden
+      sx={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: (theme) => theme.zIndex.tooltip + 1,
+        pointerEvents: 'none',
+        overflow: 'hidden',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        // Thin border so the state is visible even when the text is scrolled off a small screen
+        boxShadow: 'inset 0 0 0 4px rgba(255, 152, 0, 0.6)',
+      }}
+    >
+      <Typography
+        sx={{
+          transform: 'rotate(-30deg)',
+          fontSize: 'clamp(3rem, 12vw, 10rem)',
+          fontWeight: 900,
+          letterSpacing: '0.1em',
+          whiteSpace: 'nowrap',
+          color: 'rgba(255, 152, 0, 0.12)',
+          userSelect: 'none',
+        }}
+      >
+        SIMULATED DATA
+      </Typography>
+    </Box>
+  );
+}
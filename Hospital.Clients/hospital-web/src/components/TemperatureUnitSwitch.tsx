@@ -0,0 +1,36 @@
+import { ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+import type { TemperatureUnit } from '../utils/temperature';
+
+/**
+ * TemperatureUnitSwitch - Display temperatures in °C or °F
+ * Display only - vitals are stored, validated and sent to the API in °C.
+ */
+export function TemperatureUnitSwitch() {
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
+  const setTemperatureUnit = useHospitalStore(state => state.setTemperatureUnit);
+
+  const handleChange = (_event: React.MouseEvent<HTMLElement>, value: TemperatureUnit | null) => {
+    if (!value) return;
+    setTemperatureUnit(value);
+  };
+
+  return (
+    <Tooltip title="Temperature display unit">
+      <ToggleButtonGroup
+        value={temperatureUnit}
+        exclusive
+        onChange={handleChange}
+        size="small"
+        sx={{ mr: 2 }}
+      >
+        <ToggleButton value="C" sx={{ px: 1.5, fontWeight: 600 }}>
+          °C
+        </ToggleButton>
+        <ToggleButton value="F" sx={{ px: 1.5, fontWeight: 600 }}>
+          °F
+        </ToggleButton>
+      </ToggleButtonGroup>
+    </Tooltip>
+  );
+}
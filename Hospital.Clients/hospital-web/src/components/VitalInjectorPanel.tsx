@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import {
   Fab,
   Dialog,
@@ -17,9 +17,18 @@ import {
   Stack,
 } from '@mui/material';
 import { Healing as HealingIcon } from '@mui/icons-material';
-import { useHospitalStore } from '../store/hospitalStore';
 import { hospitalApi } from '../services/hospitalApi';
-import { validateVitalSigns } from '../utils/vitalSignsValidation';
+import { describeApiError } from '../services/apiError';
+import { usePatients, useSetInjectionMode } from '../hooks/useHospitalQueries';
+import {
+  validateVitalSigns,
+  emptyVitalSignsForm,
+  parseVitalSignsForm,
+  type VitalSignsFormData,
+} from '../utils/vitalSignsValidation';
+import { VITAL_DEFINITIONS, formatVitalValue, formatVitalsSummary, type VitalKey } from '../utils/vitalDefinitions';
+import { HEART_RATE_THRESHOLDS, SPO2_THRESHOLDS, BLOOD_PRESSURE_THRESHOLDS } from '../utils/clinicalThresholds';
+import { useHospitalStore } from '../store/hospitalStore';
 import type { VitalSignsInjectionRequest } from '../types/hospital';
 
 /**
@@ -27,35 +36,30 @@ import type { VitalSignsInjectionRequest } from '../types/hospital';
  *
  * Allows recruiters to:
  * 1. Select a patient from dropdown
- * 2. Input vital signs values (HR, SpO2, BP)
+ * 2. Input vital signs values (HR, SpO2, BP, Temp)
  * 3. Submit to backend → database → SignalR broadcast → dashboard update
  *
  * Demonstrates full stack integration in real-time
  */
 export function VitalInjectorPanel() {
-  const patientsMap = useHospitalStore(state => state.patients);
-
-  // Memoize the patients array to avoid infinite re-renders
-  // (Array.from creates new reference each time if done in selector)
-  const patients = useMemo(() => Array.from(patientsMap.values()), [patientsMap]);
+  const { data: patients = [] } = usePatients();
 
   const [open, setOpen] = useState(false);
   const [selectedPatientId, setSelectedPatientId] = useState<string>('');
   const [loading, setLoading] = useState(false);
-  const [togglingInjectionMode, setTogglingInjectionMode] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
-  // Store access
-  const toggleInjectionModeInStore = useHospitalStore(state => state.toggleInjectionMode);
+  // Injection mode toggle - optimistic, shows a visible error on failure
+  const setInjectionMode = useSetInjectionMode();
+  const togglingInjectionMode = setInjectionMode.isPending;
+
+  // Vitals are entered in the display unit and sent to the API in the stored unit
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
+  const display = { temperatureUnit };
 
   // Form state
-  const [formData, setFormData] = useState({
-    heartRate: '',
-    spO2: '',
-    bpSystolic: '',
-    bpDiastolic: '',
-  });
+  const [formData, setFormData] = useState<VitalSignsFormData>(emptyVitalSignsForm);
 
   const [criticalMode, setCriticalMode] = useState<'none' | 'hr' | 'spo2' | 'bp'>('none');
 
@@ -69,15 +73,10 @@ export function VitalInjectorPanel() {
 
   const resetForm = () => {
     setSelectedPatientId('');
-    setFormData({
-      heartRate: '',
-      spO2: '',
-      bpSystolic: '',
-      bpDiastolic: '',
-    });
+    setFormData(emptyVitalSignsForm());
   };
 
-  const handleInputChange = (field: keyof typeof formData) => (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (field: VitalKey) => (event: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
       [field]: event.target.value,
@@ -88,36 +87,14 @@ export function VitalInjectorPanel() {
     setSelectedPatientId(event.target.value);
   };
 
-  const handleToggleInjectionMode = async (patientId: string, enabled: boolean) => {
-    setTogglingInjectionMode(true);
-    setErrorMessage(null);
-    try {
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
-      const response = await fetch(
-        `${apiUrl}/simulator/patient/${patientId}/injection-mode?enabled=${enabled}`,
-        { method: 'POST' }
-      );
-      if (response.ok) {
-        toggleInjectionModeInStore(patientId, enabled);
-        console.log(`Injection mode ${enabled ? 'ENABLED' : 'DISABLED'} for patient ${patientId}`);
-      } else {
-        setErrorMessage('Failed to toggle injection mode');
-      }
-    } catch (error) {
-      console.error('Error toggling injection mode:', error);
-      setErrorMessage('Failed to toggle injection mode');
-    } finally {
-      setTogglingInjectionMode(false);
-    }
-  };
-
   const handleMakeCritical = () => {
-    // Auto-fill critical values based on selected category
+    // Auto-fill critical values based on selected category (just past the backend's critical thresholds)
     const criticalValues = {
-      heartRate: '135', // >= 130 is critical
-      spO2: '85',       // < 88 is critical
-      bpSystolic: '185', // >= 180 is critical
-      bpDiastolic: '112', // >= 110 is critical
+      ...emptyVitalSignsForm(),
+      heartRate: String(HEART_RATE_THRESHOLDS.criticalHigh + 5),
+      spO2: String(SPO2_THRESHOLDS.criticalBelow - 3),
+      bpSystolic: String(BLOOD_PRESSURE_THRESHOLDS.critical.systolic + 5),
+      bpDiastolic: String(BLOOD_PRESSURE_THRESHOLDS.critical.diastolic + 2),
     };
 
     switch (criticalMode) {
@@ -143,7 +120,7 @@ export function VitalInjectorPanel() {
       return false;
     }
 
-    const result = validateVitalSigns(formData);
+    const result = validateVitalSigns(formData, true, display);
     if (!result.valid) {
       setErrorMessage(result.error);
       return false;
@@ -163,17 +140,14 @@ export function VitalInjectorPanel() {
 
       // Auto-enable injection mode if not already enabled
       if (selectedPatient && !selectedPatient.injectionModeEnabled) {
-        await handleToggleInjectionMode(selectedPatientId, true);
+        await setInjectionMode.mutateAsync({ patientId: selectedPatientId, enabled: true });
         // Brief delay to ensure API completes
         await new Promise(resolve => setTimeout(resolve, 300));
       }
 
       const request: VitalSignsInjectionRequest = {
         patientId: selectedPatientId,
-        heartRate: formData.heartRate ? parseInt(formData.heartRate, 10) : undefined,
-        spO2: formData.spO2 ? parseInt(formData.spO2, 10) : undefined,
-        bpSystolic: formData.bpSystolic ? parseInt(formData.bpSystolic, 10) : undefined,
-        bpDiastolic: formData.bpDiastolic ? parseInt(formData.bpDiastolic, 10) : undefined,
+        ...parseVitalSignsForm(formData, display),
       };
 
       await hospitalApi.injectVitals(request);
@@ -186,8 +160,7 @@ export function VitalInjectorPanel() {
         handleClose();
       }, 2000);
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to inject vitals';
-      setErrorMessage(errorMsg);
+      setErrorMessage(`Failed to inject vitals. ${describeApiError(error)}`);
       console.error('Injection error:', error);
     } finally {
       setLoading(false);
@@ -283,9 +256,7 @@ export function VitalInjectorPanel() {
                   Current vitals:
                 </div>
                 <div style={{ marginTop: '8px', fontSize: '0.875rem' }}>
-                  HR: {selectedPatient.vitalSigns[0]?.heartRate || '--'} |
-                  SpO₂: {selectedPatient.vitalSigns[0]?.spO2 || '--'}% |
-                  BP: {selectedPatient.vitalSigns[0]?.bpSystolic || '--'}/{selectedPatient.vitalSigns[0]?.bpDiastolic || '--'}
+                  {formatVitalsSummary(selectedPatient.vitalSigns[0], display)}
                 </div>
               </Box>
             )}
@@ -312,7 +283,7 @@ export function VitalInjectorPanel() {
                   {selectedPatient.injectionModeEnabled ? '🟠 ENABLED' : '⚪ DISABLED'}
                 </div>
                 <Button
-                  onClick={() => handleToggleInjectionMode(selectedPatientId, !selectedPatient.injectionModeEnabled)}
+                  onClick={() => setInjectionMode.mutate({ patientId: selectedPatientId, enabled: !selectedPatient.injectionModeEnabled })}
                   disabled={loading || togglingInjectionMode}
                   variant="outlined"
                   size="small"
@@ -343,9 +314,11 @@ export function VitalInjectorPanel() {
                     disabled={loading}
                   >
                     <MenuItem value="none">-- Choose --</MenuItem>
-                    <MenuItem value="hr">Heart Rate (≥130 BPM)</MenuItem>
-                    <MenuItem value="spo2">SpO₂ (&lt;88%)</MenuItem>
-                    <MenuItem value="bp">Blood Pressure (≥180/110)</MenuItem>
+                    <MenuItem value="hr">Heart Rate (≥{HEART_RATE_THRESHOLDS.criticalHigh} BPM)</MenuItem>
+                    <MenuItem value="spo2">SpO₂ (&lt;{SPO2_THRESHOLDS.criticalBelow}%)</MenuItem>
+                    <MenuItem value="bp">
+                      Blood Pressure (≥{BLOOD_PRESSURE_THRESHOLDS.critical.systolic}/{BLOOD_PRESSURE_THRESHOLDS.critical.diastolic})
+                    </MenuItem>
                   </Select>
                 </FormControl>
                 <Button
@@ -368,50 +341,24 @@ export function VitalInjectorPanel() {
               </Stack>
             </Box>
 
-            {/* Vital Signs Input Fields */}
-            <TextField
-              label="Heart Rate (BPM)"
-              type="number"
-              value={formData.heartRate}
-              onChange={handleInputChange('heartRate')}
-              disabled={loading}
-              placeholder="e.g., 120"
-              inputProps={{ min: 0, max: 200 }}
-              size="small"
-            />
-
-            <TextField
-              label="SpO₂ (%)"
-              type="number"
-              value={formData.spO2}
-              onChange={handleInputChange('spO2')}
-              disabled={loading}
-              placeholder="e.g., 95"
-              inputProps={{ min: 0, max: 100 }}
-              size="small"
-            />
-
-            <TextField
-              label="BP Systolic (mmHg)"
-              type="number"
-              value={formData.bpSystolic}
-              onChange={handleInputChange('bpSystolic')}
-              disabled={loading}
-              placeholder="e.g., 140"
-              inputProps={{ min: 0, max: 250 }}
-              size="small"
-            />
-
-            <TextField
-              label="BP Diastolic (mmHg)"
-              type="number"
-              value={formData.bpDiastolic}
-              onChange={handleInputChange('bpDiastolic')}
-              disabled={loading}
-              placeholder="e.g., 90"
-              inputProps={{ min: 0, max: 150 }}
-              size="small"
-            />
+            {/* Vital Signs Input Fields - one per defined vital */}
+            {VITAL_DEFINITIONS.map(definition => (
+              <TextField
+                key={definition.key}
+                label={`${definition.label} (${definition.displayUnit(display)})`}
+                type="number"
+                value={formData[definition.key] ?? ''}
+                onChange={handleInputChange(definition.key)}
+                disabled={loading}
+                placeholder={`e.g., ${formatVitalValue(definition, definition.exampleValue, display)}`}
+                inputProps={{
+                  min: definition.toDisplay(definition.validRange.min, display),
+                  max: definition.toDisplay(definition.validRange.max, display),
+                  step: 10 ** -definition.decimals,
+                }}
+                size="small"
+              />
+            ))}
 
             {/* Info Text */}
             <Box sx={{ p: 1.5, bgcolor: 'info.dark', borderRadius: 1 }}>
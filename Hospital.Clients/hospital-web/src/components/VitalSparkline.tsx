@@ -1,40 +1,36 @@
-import { LineChart, Line, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
 import { Box, Typography } from '@mui/material';
 import type { Patient } from '../types/hospital';
+import { useHospitalStore } from '../store/hospitalStore';
+import { VITAL_DEFINITIONS } from '../utils/vitalDefinitions';
 
 interface VitalSparklineProps {
   patient: Patient;
-  onClick?: () => void;
+  onClick?: (e: React.MouseEvent) => void;
 }
 
 /**
- * VitalSparkline - 4 separate mini-sparklines for each vital
- * Shows HR, SpO2, BP Sys, BP Dia trends in real-time
+ * VitalSparkline - One mini-sparkline per defined vital (see VITAL_DEFINITIONS)
+ * Shows HR, SpO2, BP Sys, BP Dia, Temp trends in real-time
  * Click to open full 4-hour trends chart in drawer
  */
 export function VitalSparkline({ patient, onClick }: VitalSparklineProps) {
-  const vitalsList = Array.isArray(patient.vitalSigns) ? patient.vitalSigns : [];
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
+  const display = { temperatureUnit };
 
-  // Use last 15 vitals for mini sparklines
-  const sparklineData = vitalsList.slice(0, 15).reverse().map((v, idx) => ({
+  // Use last 15 vitals for mini sparklines (vitalSigns is newest first), in the display unit
+  const sparklineData = patient.vitalSigns.slice(0, 15).reverse().map((v, idx) => ({
     time: idx,
-    hr: v.heartRate,
-    spo2: v.spO2,
-    bpSys: v.bpSystolic,
-    bpDia: v.bpDiastolic,
+    ...Object.fromEntries(VITAL_DEFINITIONS.map(definition => {
+      const value = v[definition.key];
+      return [definition.key, value === undefined ? undefined : definition.toDisplay(value, display)];
+    })),
   }));
 
   if (sparklineData.length === 0) {
     return <Typography variant="caption" color="text.secondary">--</Typography>;
   }
 
-  const sparklineConfigs = [
-    { label: 'HR', dataKey: 'hr', stroke: '#f44336', color: 'text.secondary' },
-    { label: 'SpO₂', dataKey: 'spo2', stroke: '#2196f3', color: 'text.secondary' },
-    { label: 'BP Sys', dataKey: 'bpSys', stroke: '#4caf50', color: 'text.secondary' },
-    { label: 'BP Dia', dataKey: 'bpDia', stroke: '#ff9800', color: 'text.secondary' },
-  ];
-
   return (
     <Box
       onClick={onClick}
@@ -49,9 +45,9 @@ export function VitalSparkline({ patient, onClick }: VitalSparklineProps) {
       }}
       title="Click to see full 4-hour trends"
     >
-      {sparklineConfigs.map(({ label, dataKey, stroke }) => (
+      {VITAL_DEFINITIONS.map(({ key, shortLabel, color, chartDomain }) => (
         <Box
-          key={dataKey}
+          key={key}
           sx={{
             display: 'flex',
             flexDirection: 'column',
@@ -60,18 +56,21 @@ export function VitalSparkline({ patient, onClick }: VitalSparklineProps) {
             border: '1px solid #eee',
             borderRadius: 1,
             bg: '#fafafa',
+            // Odd one out spans the full row
+            '&:last-of-type:nth-of-type(odd)': { gridColumn: '1 / -1' },
           }}
         >
-          <Typography variant="caption" sx={{ fontSize: '0.65rem', fontWeight: 500, color: stroke }}>
-            {label}
+          <Typography variant="caption" sx={{ fontSize: '0.65rem', fontWeight: 500, color }}>
+            {shortLabel}
           </Typography>
           <div style={{ width: '100%', height: '25px' }}>
             <ResponsiveContainer width="100%" height="100%">
               <LineChart data={sparklineData} margin={{ top: 2, right: 2, left: 2, bottom: 2 }}>
+                <YAxis hide domain={chartDomain} />
                 <Line
                   type="monotone"
-                  dataKey={dataKey}
-                  stroke={stroke}
+                  dataKey={key}
+                  stroke={color}
                   dot={false}
                   strokeWidth={1.5}
                   isAnimationActive={false}
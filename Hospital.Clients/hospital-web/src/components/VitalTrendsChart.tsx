@@ -19,40 +19,44 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { usePatientTrend } from '../hooks/useHospitalQueries';
+import { News2Badge, News2Breakdown } from './News2Badge';
+import { describeApiError } from '../services/apiError';
+import { useHospitalStore } from '../store/hospitalStore';
+import {
+  VITAL_AXES,
+  VITAL_DEFINITIONS,
+  getVitalAxisLabel,
+  type VitalAxis,
+} from '../utils/vitalDefinitions';
+import { calculateNews2ForVitals, type SpO2Scale } from '../utils/news2';
 
 interface VitalTrendsChartProps {
   patientId: string;
   patientName: string;
+  spO2Scale?: SpO2Scale;
   open: boolean;
   onClose: () => void;
 }
 
+interface VitalTrendsPanelProps {
+  patientId: string;
+  spO2Scale?: SpO2Scale;
+  enabled?: boolean; // Fetch only while visible
+}
+
 /**
  * VitalTrendsChart - 4-hour vital signs history visualization
  *
- * Displays HR, SpO2, BP trends over last 240 minutes
- * Uses Recharts LineChart for multi-axis visualization
+ * Displays HR, SpO2, BP and temperature trends over last 240 minutes, with NEWS2 for each reading
+ * Uses Recharts LineChart for multi-axis visualization - lines and axes come from VITAL_DEFINITIONS
  */
 export function VitalTrendsChart({
   patientId,
   patientName,
+  spO2Scale,
   open,
   onClose,
 }: VitalTrendsChartProps) {
-  const { data: rawData, isLoading, error } = usePatientTrend(patientId, 240, open);
-
-  // Transform timestamps for chart display
-  const chartData = useMemo(() => {
-    if (!rawData) return [];
-    return rawData.map(point => ({
-      ...point,
-      time: new Date(point.recordedAt).toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-      }),
-    }));
-  }, [rawData]);
-
   return (
     <Drawer
       anchor="right"
@@ -74,26 +78,75 @@ export function VitalTrendsChart({
         </IconButton>
       </Box>
 
-      <Box sx={{ p: 2, minHeight: 400 }}>
-        {isLoading && (
-          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: 400 }}>
-            <CircularProgress />
-          </Box>
-        )}
+      <Box sx={{ p: 2 }}>
+        <VitalTrendsPanel patientId={patientId} spO2Scale={spO2Scale} enabled={open} />
+      </Box>
+    </Drawer>
+  );
+}
 
-        {error && (
-          <Alert severity="error" sx={{ mb: 2 }}>
-            {error instanceof Error ? error.message : 'Failed to load trend data'}
-          </Alert>
-        )}
+/**
+ * VitalTrendsPanel - The trend chart and current NEWS2, for the drawer and the patient detail page
+ */
+export function VitalTrendsPanel({ patientId, spO2Scale, enabled = true }: VitalTrendsPanelProps) {
+  const { data: rawData, isLoading, error } = usePatientTrend(patientId, 240, enabled);
+  const temperatureUnit = useHospitalStore(state => state.temperatureUnit);
 
-        {!isLoading && !error && chartData.length === 0 && (
-          <Alert severity="info">
-            No trend data available yet. Check back in a few moments.
-          </Alert>
-        )}
+  const display = useMemo(() => ({ temperatureUnit }), [temperatureUnit]);
+
+  // Transform timestamps and units for chart display
+  const chartData = useMemo(() => {
+    if (!rawData) return [];
+    return rawData.map(point => ({
+      ...point,
+      ...Object.fromEntries(VITAL_DEFINITIONS.map(definition => {
+        const value = point[definition.key];
+        return [definition.key, value === undefined ? undefined : definition.toDisplay(value, display)];
+      })),
+      news2: calculateNews2ForVitals(point, spO2Scale)?.score,
+      time: new Date(point.recordedAt).toLocaleTimeString('en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+      }),
+    }));
+  }, [rawData, display, spO2Scale]);
+
+  // Trend points are chronological - the last one is the current reading
+  const latestNews2 = rawData?.length ? calculateNews2ForVitals(rawData[rawData.length - 1], spO2Scale) : undefined;
+
+  // Only axes that have vitals plotted on them
+  const axes = (Object.keys(VITAL_AXES) as VitalAxis[])
+    .map(axis => ({ axis, definitions: VITAL_DEFINITIONS.filter(definition => definition.axis === axis) }))
+    .filter(({ definitions }) => definitions.length > 0);
+
+  return (
+    <Box sx={{ minHeight: 400 }}>
+      {isLoading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: 400 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Failed to load trend data. {describeApiError(error)}
+        </Alert>
+      )}
+
+      {!isLoading && !error && chartData.length === 0 && (
+        <Alert severity="info">
+          No trend data available yet. Check back in a few moments.
+        </Alert>
+      )}
+
+      {!isLoading && !error && chartData.length > 0 && (
+        <>
+          {/* Current NEWS2 - the card's score, broken down */}
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, mb: 2 }}>
+            <News2Badge news2={latestNews2} size="medium" />
+            {latestNews2 && <News2Breakdown news2={latestNews2} />}
+          </Box>
 
-        {!isLoading && !error && chartData.length > 0 && (
           <ResponsiveContainer width="100%" height={350}>
             <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" />
@@ -102,69 +155,61 @@ export function VitalTrendsChart({
                 tick={{ fontSize: 12 }}
                 interval={Math.floor(chartData.length / 6)}
               />
-              <YAxis yAxisId="left" label={{ value: 'HR (BPM) / SpO₂ (%)', angle: -90, position: 'insideLeft' }} />
-              <YAxis
-                yAxisId="right"
-                orientation="right"
-                label={{ value: 'BP (mmHg)', angle: 90, position: 'insideRight' }}
-              />
+              {axes.map(({ axis, definitions }) => {
+                const { orientation } = VITAL_AXES[axis];
+                const decimals = Math.max(...definitions.map(definition => definition.decimals));
+                return (
+                  <YAxis
+                    key={axis}
+                    yAxisId={axis}
+                    orientation={orientation}
+                    domain={definitions.find(definition => definition.chartDomain)?.chartDomain}
+                    tickFormatter={(value: number) => value.toFixed(decimals)}
+                    label={{
+                      value: getVitalAxisLabel(axis, display),
+                      angle: orientation === 'left' ? -90 : 90,
+                      position: orientation === 'left' ? 'insideLeft' : 'insideRight',
+                    }}
+                  />
+                );
+              })}
+              {/* NEWS2 runs 0-20, drawn against its own hidden scale */}
+              <YAxis yAxisId="news2" hide domain={[0, 20]} />
               <Tooltip
-                formatter={(value) => (typeof value === 'number' ? value.toFixed(1) : '--')}
+                formatter={(value, name) => (typeof value !== 'number' ? '--' : name === 'NEWS2' ? value : value.toFixed(1))}
                 labelFormatter={(label) => `Time: ${label}`}
               />
               <Legend />
 
-              {/* Heart Rate - Red line */}
-              <Line
-                yAxisId="left"
-                type="monotone"
-                dataKey="heartRate"
-                stroke="#f44336"
-                name="HR (BPM)"
-                dot={false}
-                strokeWidth={2}
-                isAnimationActive={false}
-              />
-
-              {/* SpO2 - Blue line */}
-              <Line
-                yAxisId="left"
-                type="monotone"
-                dataKey="spO2"
-                stroke="#2196f3"
-                name="SpO₂ (%)"
-                dot={false}
-                strokeWidth={2}
-                isAnimationActive={false}
-              />
-
-              {/* BP Systolic - Green line */}
+              {/* One line per defined vital, on its axis group */}
+              {VITAL_DEFINITIONS.map(definition => (
+                <Line
+                  key={definition.key}
+                  yAxisId={definition.axis}
+                  type="monotone"
+                  dataKey={definition.key}
+                  stroke={definition.color}
+                  name={`${definition.label} (${definition.displayUnit(display)})`}
+                  dot={false}
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              ))}
               <Line
-                yAxisId="right"
-                type="monotone"
-                dataKey="bpSystolic"
-                stroke="#4caf50"
-                name="BP Systolic (mmHg)"
-                dot={false}
-                strokeWidth={2}
-                isAnimationActive={false}
-              />
-
-              {/* BP Diastolic - Orange line */}
-              <Line
-                yAxisId="right"
-                type="monotone"
-                dataKey="bpDiastolic"
-                stroke="#ff9800"
-                name="BP Diastolic (mmHg)"
+                yAxisId="news2"
+                type="stepAfter"
+                dataKey="news2"
+                stroke="#e0e0e0"
+                strokeDasharray="4 2"
+                name="NEWS2"
                 dot={false}
                 strokeWidth={2}
                 isAnimationActive={false}
               />
             </LineChart>
           </ResponsiveContainer>
-        )}
-      </Box>
-    </Drawer>
+        </>
+      )}
+    </Box>
   );
 }
\ No newline at end of file
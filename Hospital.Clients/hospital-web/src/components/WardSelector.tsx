@@ -0,0 +1,103 @@
+import { useEffect, useMemo } from 'react';
+import { Box, MenuItem, TextField, Typography } from '@mui/material';
+import { useHospitalStore } from '../store/hospitalStore';
+import { usePatients, useWards } from '../hooks/useHospitalQueries';
+import { calculateCensusByWard, calculateHospitalCensus, type WardCensus } from '../utils/wardCensus';
+
+// Select value for the whole hospital
+const ALL_WARDS = '';
+
+/**
+ * Census for every ward and for the whole hospital, from the live patient cache
+ */
+function useWardCensus() {
+  const { data: wards = [], isSuccess: wardsLoaded } = useWards();
+  const { data: patients = [] } = usePatients();
+
+  return useMemo(() => ({
+    wards,
+    wardsLoaded,
+    byWard: calculateCensusByWard(wards, patients),
+    hospital: calculateHospitalCensus(wards, patients),
+  }), [wards, wardsLoaded, patients]);
+}
+
+/**
+ * Occupancy and critical / watch / stable counts, coloured like the card borders
+ */
+function CensusCounts({ census }: { census: WardCensus }) {
+  return (
+    <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 1, fontSize: '0.8rem' }}>
+      <Box component="span" sx={{ color: 'text.secondary' }} title="Occupied beds / capacity">
+        {census.occupied}/{census.capacity} beds
+      </Box>
+      <Box component="span" sx={{ color: '#f44336', fontWeight: 600 }} title="Critical">● {census.critical}</Box>
+      <Box component="span" sx={{ color: '#ff9800', fontWeight: 600 }} title="Watch">● {census.watch}</Box>
+      <Box component="span" sx={{ color: '#4caf50', fontWeight: 600 }} title="Stable">● {census.stable}</Box>
+    </Box>
+  );
+}
+
+/**
+ * WardSelector - Scope the dashboard to one ward, with a census for each
+ * The choice is remembered per display; a remembered ward that no longer exists
+ * (e.g. after switching data source) falls back to all wards.
+ */
+export function WardSelector() {
+  const selectedWardId = useHospitalStore(state => state.selectedWardId);
+  const setSelectedWard = useHospitalStore(state => state.setSelectedWard);
+  const { wards, wardsLoaded, byWard, hospital } = useWardCensus();
+
+  useEffect(() => {
+    if (wardsLoaded && selectedWardId && !wards.some(w => w.id === selectedWardId)) {
+      setSelectedWard(undefined);
+    }
+  }, [wardsLoaded, wards, selectedWardId, setSelectedWard]);
+
+  const value = wards.some(w => w.id === selectedWardId) ? selectedWardId! : ALL_WARDS;
+
+  return (
+    <TextField
+      select
+      size="small"
+      label="Ward"
+      value={value}
+      onChange={(e) => setSelectedWard(e.target.value || undefined)}
+      sx={{ mr: 2, minWidth: 220 }}
+      SelectProps={{
+        renderValue: (selected) => wards.find(w => w.id === selected)?.name ?? 'All wards',
+      }}
+    >
+      <MenuItem value={ALL_WARDS} sx={{ display: 'block' }}>
+        <Typography variant="body2" fontWeight={600}>All wards</Typography>
+        <CensusCounts census={hospital} />
+      </MenuItem>
+      {wards.map(ward => (
+        <MenuItem key={ward.id} value={ward.id} sx={{ display: 'block' }}>
+          <Typography variant="body2" fontWeight={600}>{ward.name}</Typography>
+          <CensusCounts census={byWard.get(ward.id)!} />
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
+
+/**
+ * WardCensusSummary - Heading for the grid: the selected ward (or all wards) and its census
+ */
+export function WardCensusSummary() {
+  const selectedWardId = useHospitalStore(state => state.selectedWardId);
+  const { wards, byWard, hospital } = useWardCensus();
+
+  const ward = wards.find(w => w.id === selectedWardId);
+  const census = ward ? byWard.get(ward.id)! : hospital;
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 2, flexWrap: 'wrap', mb: 1 }}>
+      <Typography variant="h6">
+        {ward?.name ?? 'All wards'} - {census.occupied} {census.occupied === 1 ? 'Patient' : 'Patients'}
+      </Typography>
+      <CensusCounts census={census} />
+    </Box>
+  );
+}
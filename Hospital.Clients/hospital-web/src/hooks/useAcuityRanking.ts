@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { Patient } from '../types/hospital';
+import {
+  calculateAcuityTier,
+  updateAcuityRanks,
+  type AcuityRank,
+  type AcuityTier,
+} from '../utils/acuityRanking';
+
+/**
+ * Acuity tier per patient, with hysteresis across updates
+ * Ranks every patient (not just the filtered ones) so changing a filter doesn't reset
+ * a pending de-escalation. A pending de-escalation settles on the next patient update after
+ * the hold - with live vitals that is at most one tick late.
+ */
+export function useAcuityRanking(patients: Patient[]): ReadonlyMap<string, AcuityTier> {
+  const ranksRef = useRef<ReadonlyMap<string, AcuityRank>>(new Map());
+
+  const ranks = useMemo(() => {
+    const observed = new Map(patients.map(p => [p.id, calculateAcuityTier(p)]));
+    return updateAcuityRanks(ranksRef.current, observed, Date.now());
+  }, [patients]);
+
+  // Commit only rendered rankings - render may run more than once
+  useEffect(() => {
+    ranksRef.current = ranks;
+  }, [ranks]);
+
+  return useMemo(() => new Map(Array.from(ranks, ([patientId, rank]) => [patientId, rank.tier])), [ranks]);
+}
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { usePatients } from './useHospitalQueries';
+import { useHospitalStore } from '../store/hospitalStore';
+import {
+  alarmManager,
+  alarmTone,
+  collectActiveAlarms,
+  isAllClear,
+  resolveSoundingAlarm,
+  type AlarmSound,
+} from '../services/alarmManager';
+import { serverNow } from '../services/serverClock';
+import { tonePriority } from '../utils/alarmTones';
+import { AUDIO_PAUSE_MS, findBrokenPauses, nextPauseExpiry } from '../utils/audioPause';
+
+const AUDIO_PAUSE_MINUTES = AUDIO_PAUSE_MS / 60_000;
+
+/**
+ * Drives the app-wide alarm manager (see services/alarmManager) - mount once, in App
+ * Sounds the highest-priority active alarm in its IEC 60601-1-8 style tone, honouring the timed
+ * audio pauses (re-arming them when they run out, ending them when a higher-priority alarm breaks
+ * through) and the per-priority volumes from the store, and chimes (if enabled) when the last
+ * critical patient recovers. While the browser blocks autoplay, the next click or key press
+ * anywhere retries the pending alarm.
+ */
+export function useAlarmManager() {
+  const { data: patients } = usePatients();
+  const alerts = useHospitalStore(state => state.alerts);
+  const patientSignals = useHospitalStore(state => state.patientSignals);
+  const patientAudioPauses = useHospitalStore(state => state.patientAudioPauses);
+  const globalAudioPause = useHospitalStore(state => state.globalAudioPause);
+  const alarmVolumes = useHospitalStore(state => state.alarmVolumes);
+  const allClearChime = useHospitalStore(state => state.allClearChime);
+  const setActiveAlarms = useHospitalStore(state => state.setActiveAlarms);
+  const resumePatientAudio = useHospitalStore(state => state.resumePatientAudio);
+  const resumeGlobalAudio = useHospitalStore(state => state.resumeGlobalAudio);
+  const expireAudioPauses = useHospitalStore(state => state.expireAudioPauses);
+  const audioBlocked = useHospitalStore(state => state.audioBlocked);
+  const setAudioBlocked = useHospitalStore(state => state.setAudioBlocked);
+  const previousCriticalIdsRef = useRef<string[]>([]);
+
+  const criticalPatientIds = useMemo(
+    () => (patients ?? []).filter(p => p.status === 'critical').map(p => p.id),
+    [patients]
+  );
+
+  const suspendedSignalPatientIds = useMemo(
+    () => new Set(Array.from(patientSignals).filter(([, signal]) => signal.suspended).map(([id]) => id)),
+    [patientSignals]
+  );
+
+  const alarms = useMemo(
+    () => collectActiveAlarms(criticalPatientIds, alerts, suspendedSignalPatientIds),
+    [criticalPatientIds, alerts, suspendedSignalPatientIds]
+  );
+  const pauses = useMemo(
+    () => ({ patients: patientAudioPauses, global: globalAudioPause }),
+    [patientAudioPauses, globalAudioPause]
+  );
+
+  // Pause buttons hold whatever is sounding when pressed
+  useEffect(() => {
+    setActiveAlarms(alarms);
+  }, [alarms, setActiveAlarms]);
+
+  // A new, higher-priority alarm ends the pause it broke through
+  useEffect(() => {
+    const broken = findBrokenPauses(alarms, pauses);
+    broken.patientIds.forEach(patientId => {
+      console.log(`⚠️ Higher-priority alarm broke through the audio pause for patient ${patientId}`);
+      resumePatientAudio(patientId);
+    });
+    if (broken.global) {
+      console.log('⚠️ Higher-priority alarm broke through the global audio pause');
+      resumeGlobalAudio();
+    }
+  }, [alarms, pauses, resumePatientAudio, resumeGlobalAudio]);
+
+  // Re-arm when the next pause runs out
+  useEffect(() => {
+    const expiry = nextPauseExpiry(pauses);
+    if (expiry === undefined) return;
+    const timeout = setTimeout(() => {
+      console.log('🔔 Audio pause over - alarms re-armed');
+      expireAudioPauses(Math.max(serverNow(), expiry));
+    }, Math.max(0, expiry - serverNow()));
+    return () => clearTimeout(timeout);
+  }, [pauses, expireAudioPauses]);
+
+  const sounding = useMemo(() => resolveSoundingAlarm({ alarms, pauses }), [alarms, pauses]);
+  const tone = sounding && alarmTone(sounding);
+  const volume = tone ? alarmVolumes[tonePriority(tone)] : 0;
+
+  useEffect(() => {
+    alarmManager.sync(tone, volume);
+  }, [tone, volume]);
+
+  useEffect(() => alarmManager.onBlockedChange(setAudioBlocked), [setAudioBlocked]);
+
+  // Any user gesture lets the browser play audio
+  useEffect(() => {
+    if (!audioBlocked) return;
+    const retry = () => alarmManager.retry();
+    window.addEventListener('pointerdown', retry);
+    window.addEventListener('keydown', retry);
+    return () => {
+      window.removeEventListener('pointerdown', retry);
+      window.removeEventListener('keydown', retry);
+    };
+  }, [audioBlocked]);
+
+  useEffect(() => {
+    const previousCriticalIds = previousCriticalIdsRef.current;
+    previousCriticalIdsRef.current = criticalPatientIds;
+    if (allClearChime && !globalAudioPause && isAllClear(previousCriticalIds, patients ?? [])) {
+      console.log('✅ All clear - no critical patients');
+      alarmManager.playOnce('all-clear', alarmVolumes.low);
+    }
+  }, [criticalPatientIds, patients, allClearChime, globalAudioPause, alarmVolumes.low]);
+
+  useEffect(() => () => alarmManager.stopAll(), []);
+}
+
+/**
+ * Play one of the alarm sounds once at its configured volume - the "test alarm sounds" buttons
+ * Plays even while audio is paused: it's what staff press to check the speakers.
+ */
+export function useTestAlarmSound() {
+  const alarmVolumes = useHospitalStore(state => state.alarmVolumes);
+
+  return useCallback((sound: AlarmSound) => {
+    alarmManager.playOnce(sound, alarmVolumes[sound === 'all-clear' ? 'low' : tonePriority(sound)]);
+  }, [alarmVolumes]);
+}
+
+/**
+ * A patient's audio pause - the same store state the alarm manager honours
+ */
+export function usePatientAudioPause(patientId: string) {
+  const pause = useHospitalStore(state => state.patientAudioPauses.get(patientId));
+  const pausePatientAudio = useHospitalStore(state => state.pausePatientAudio);
+  const resumePatientAudio = useHospitalStore(state => state.resumePatientAudio);
+
+  const togglePause = useCallback(() => {
+    if (useHospitalStore.getState().patientAudioPauses.has(patientId)) {
+      resumePatientAudio(patientId);
+      console.log(`🔔 Patient ${patientId} audio re-armed`);
+    } else {
+      pausePatientAudio(patientId);
+      console.log(`🔕 Patient ${patientId} audio paused for ${AUDIO_PAUSE_MINUTES} min`);
+    }
+  }, [patientId, pausePatientAudio, resumePatientAudio]);
+
+  return { pause, togglePause };
+}
+
+/**
+ * Global audio pause - the AppBar button
+ * `blocked` is true while the browser blocks an alarm that should be sounding; the button then
+ * enables audio instead of pausing it.
+ */
+export function useGlobalAudioPause() {
+  const pause = useHospitalStore(state => state.globalAudioPause);
+  const blocked = useHospitalStore(state => state.audioBlocked);
+  const pauseGlobalAudio = useHospitalStore(state => state.pauseGlobalAudio);
+  const resumeGlobalAudio = useHospitalStore(state => state.resumeGlobalAudio);
+
+  const togglePause = useCallback(() => {
+    if (useHospitalStore.getState().globalAudioPause) {
+      resumeGlobalAudio();
+      console.log('🔔 Global audio re-armed');
+    } else {
+      pauseGlobalAudio();
+      console.log(`🔕 All alarms paused for ${AUDIO_PAUSE_MINUTES} min`);
+    }
+  }, [pauseGlobalAudio, resumeGlobalAudio]);
+
+  const enableAudio = useCallback(() => alarmManager.retry(), []);
+
+  return { pause, togglePause, blocked, enableAudio };
+}
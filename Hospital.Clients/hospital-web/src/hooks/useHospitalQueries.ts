@@ -1,27 +1,246 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { hospitalApi } from '../services/hospitalApi';
-import type { VitalSignsInjectionRequest } from '../types/hospital';
+import { describeApiError } from '../services/apiError';
+import { shouldRetryRequest, getRetryDelay } from '../services/retryPolicy';
+import { useHospitalStore, type DataSource } from '../store/hospitalStore';
+import {
+  advanceBackfillSince,
+  getBackfillSince,
+  isLatestReading,
+  mergeReadings,
+  selectMissedReadings,
+} from '../utils/vitalsBackfill';
+import { isTechnicalAlert } from '../utils/signalLoss';
+import type {
+  AlarmLimitProfile,
+  Patient,
+  PatientAlarmLimitsRequest,
+  PatientStatus,
+  VitalSigns,
+  VitalSignsInjectionRequest,
+  VitalSignsUpdate,
+  Ward,
+} from '../types/hospital';
+
+const ALERT_HISTORY_PAGE_SIZE = 25;
+
+/** Number of recent readings kept per patient for sparklines */
+const RECENT_VITALS_LIMIT = 20;
+
+/** Patient refresh while the hub only sends one ward's or patient's vitals */
+const OUT_OF_SCOPE_REFRESH_MS = 10_000;
 
 /** Query keys for cache management */
 export const queryKeys = {
   patients: ['patients'] as const,
   patientsByWard: (wardId: string) => ['patients', wardId] as const,
   patientTrend: (patientId: string, minutes: number) => ['patient-trend', patientId, minutes] as const,
+  patientTrends: (patientId: string) => ['patient-trend', patientId] as const,
   wards: ['wards'] as const,
+  alarmProfiles: ['alarm-profiles'] as const,
+  alertHistory: ['alert-history'] as const,
+  // Under alertHistory, so invalidating the history (e.g. on acknowledge) refreshes these too
+  patientAlerts: (patientId: string) => ['alert-history', 'patient', patientId] as const,
 };
 
+/**
+ * Patient cache writers
+ * SignalR events and optimistic mutations write into the React Query cache so every
+ * patient list (all wards or a single ward) and open trend chart stays live.
+ */
+
+function updateCachedPatients(queryClient: QueryClient, patientId: string, update: (patient: Patient) => Patient) {
+  // queryKeys.patients is a prefix of queryKeys.patientsByWard, so this covers both
+  queryClient.setQueriesData<Patient[]>({ queryKey: queryKeys.patients }, (patients) =>
+    patients?.map(p => (p.id === patientId ? update(p) : p))
+  );
+}
+
+/**
+ * Find a patient in any cached patient list
+ */
+export function getCachedPatient(queryClient: QueryClient, patientId: string): Patient | undefined {
+  for (const [, patients] of queryClient.getQueriesData<Patient[]>({ queryKey: queryKeys.patients })) {
+    const patient = patients?.find(p => p.id === patientId);
+    if (patient) return patient;
+  }
+  return undefined;
+}
+
+/**
+ * Merge a partial patient update (e.g. injection mode, nurse attending) into the cache
+ */
+export function patchCachedPatient(queryClient: QueryClient, patientId: string, patch: Partial<Patient>) {
+  updateCachedPatients(queryClient, patientId, patient => ({ ...patient, ...patch }));
+}
+
+/**
+ * Set a ward's default alarm profile on the ward list and on every cached patient in that ward
+ */
+export function applyWardAlarmProfile(queryClient: QueryClient, wardId: string, alarmLimitProfileId: string | undefined) {
+  queryClient.setQueryData<Ward[]>(queryKeys.wards, (wards) =>
+    wards?.map(w => (w.id === wardId ? { ...w, alarmLimitProfileId } : w))
+  );
+  queryClient.setQueriesData<Patient[]>({ queryKey: queryKeys.patients }, (patients) =>
+    patients?.map(p => {
+      const ward = p.bed?.ward;
+      if (!p.bed || ward?.id !== wardId) return p;
+      return { ...p, bed: { ...p.bed, ward: { ...ward, alarmLimitProfileId } } };
+    })
+  );
+}
+
+/**
+ * Apply a ReceiveVitalUpdate event to patient lists and open trend queries
+ * Returns false for a repeat of the patient's latest reading (see isLatestReading), which is ignored.
+ */
+export function applyVitalUpdate(queryClient: QueryClient, update: VitalSignsUpdate): boolean {
+  const isRepeat = queryClient.getQueriesData<Patient[]>({ queryKey: queryKeys.patients })
+    .some(([, list]) => list?.some(p => p.id === update.patientId && isLatestReading(p, update.recordedAt)));
+  if (isRepeat) return false;
+
+  const newVitals: VitalSigns = {
+    id: crypto.randomUUID(),
+    patientId: update.patientId,
+    heartRate: update.heartRate,
+    spO2: update.spO2,
+    bpSystolic: update.bpSystolic,
+    bpDiastolic: update.bpDiastolic,
+    temperature: update.temperature,
+    respiratoryRate: update.respiratoryRate,
+    consciousness: update.consciousness,
+    onSupplementalOxygen: update.onSupplementalOxygen,
+    recordedAt: update.recordedAt,
+  };
+
+  // Map alertSeverity from SignalR to patient status
+  // This ensures CRITICAL/WATCH pills update in real-time across all clients
+  const status: PatientStatus = update.alertSeverity === 'Critical' ? 'critical'
+    : update.alertSeverity === 'High' ? 'watch'
+    : 'stable';
+
+  // vitalSigns is newest first - prepend the live reading
+  updateCachedPatients(queryClient, update.patientId, patient => ({
+    ...patient,
+    vitalSigns: [newVitals, ...patient.vitalSigns].slice(0, RECENT_VITALS_LIMIT),
+    status,
+  }));
+
+  // Trend data is chronological - append to any open trend window for this patient
+  queryClient.setQueriesData<VitalSigns[]>({ queryKey: queryKeys.patientTrends(update.patientId) }, (trend) =>
+    trend ? [...trend, newVitals] : trend
+  );
+  return true;
+}
+
+const BACKFILL_PAGE_SIZE = 1000; // The backend's largest page
+
+// Every page of readings since a point in time - a long outage spans several
+async function fetchVitalsSince(since: string): Promise<VitalSigns[]> {
+  const readings: VitalSigns[] = [];
+  for (let page = 1; ; page++) {
+    const result = await hospitalApi.getVitalsSince(since, page, BACKFILL_PAGE_SIZE);
+    readings.push(...result.items);
+    if (result.items.length === 0 || page * result.pageSize >= result.totalCount) return readings;
+  }
+}
+
+/**
+ * Catch up on what happened while the hub connection was down (see utils/vitalsBackfill)
+ * Missed readings go into patient lists and open trend windows, missed alerts into the store.
+ * Patients are refetched afterwards - status, nurse and injection changes were missed too.
+ * @param fromSince - where a repeated poll continues from (the previous result's `through`);
+ *   by default the oldest of the cached patients' last readings
+ */
+export async function backfillMissedUpdates(
+  queryClient: QueryClient,
+  fromSince?: string,
+): Promise<{ readings: number; alerts: number; through?: string }> {
+  const patients = new Map<string, Patient>();
+  queryClient.getQueriesData<Patient[]>({ queryKey: queryKeys.patients })
+    .forEach(([, list]) => list?.forEach(p => patients.set(p.id, p)));
+
+  const since = fromSince ?? getBackfillSince(Array.from(patients.values()));
+  if (!since) return { readings: 0, alerts: 0 };
+
+  const [readings, alerts] = await Promise.all([
+    fetchVitalsSince(since),
+    hospitalApi.getAlerts({ since, pageSize: 200 }),
+  ]);
+
+  let merged = 0;
+  patients.forEach(patient => {
+    const missed = selectMissedReadings(patient, readings);
+    if (missed.length === 0) return;
+    merged += missed.length;
+
+    updateCachedPatients(queryClient, patient.id, p => ({
+      ...p,
+      vitalSigns: mergeReadings(p.vitalSigns, missed, 'newest-first').slice(0, RECENT_VITALS_LIMIT),
+    }));
+    queryClient.setQueriesData<VitalSigns[]>({ queryKey: queryKeys.patientTrends(patient.id) }, (trend) =>
+      trend ? mergeReadings(trend, missed, 'chronological') : trend
+    );
+  });
+
+  useHospitalStore.getState().upsertAlerts(alerts.items);
+  queryClient.invalidateQueries({ queryKey: queryKeys.alertHistory });
+  queryClient.invalidateQueries({ queryKey: queryKeys.patients });
+
+  return { readings: merged, alerts: alerts.items.length, through: advanceBackfillSince(since, readings, alerts.items) };
+}
+
+/**
+ * Switch between the live API and the simulated backend
+ * Resets every query so no data from the previous source is shown under the new one.
+ */
+export function useSwitchDataSource() {
+  const queryClient = useQueryClient();
+  const setDataSource = useHospitalStore(state => state.setDataSource);
+
+  return useCallback((source: DataSource) => {
+    setDataSource(source);
+    queryClient.resetQueries();
+  }, [queryClient, setDataSource]);
+}
+
 /**
  * Fetch all patients (optionally filtered by ward)
+ * While the hub subscription is narrower than the hospital, the full list is refetched every few
+ * seconds - statuses outside the subscribed scope still drive the critical alarm and the census.
  */
 export function usePatients(wardId?: string) {
+  const narrowed = useHospitalStore(state =>
+    state.connectionStatus === 'connected' && !state.activeHubScopes.some(scope => scope.kind === 'hospital')
+  );
+
   return useQuery({
     queryKey: wardId ? queryKeys.patientsByWard(wardId) : queryKeys.patients,
-    queryFn: () => hospitalApi.getPatients(wardId),
+    queryFn: async () => {
+      const patients = await hospitalApi.getPatients(wardId);
+      // Seed the alert list with active alerts persisted on the backend
+      useHospitalStore.getState().upsertAlerts(
+        patients.flatMap(p => p.alerts.filter(a => a.isActive))
+      );
+      return patients;
+    },
     staleTime: 30_000, // Consider fresh for 30s (SignalR handles real-time)
-    retry: 2,
+    refetchInterval: narrowed && !wardId ? OUT_OF_SCOPE_REFRESH_MS : false,
+    refetchIntervalInBackground: true, // Alarms must stay current on a backgrounded tab
+    retry: shouldRetryRequest,
+    retryDelay: getRetryDelay,
   });
 }
 
+/**
+ * All patients keyed by ID for O(1) lookups
+ */
+export function usePatientsById(): Map<string, Patient> {
+  const { data } = usePatients();
+  return useMemo(() => new Map((data ?? []).map(p => [p.id, p])), [data]);
+}
+
 /**
  * Fetch vital signs trend for a patient
  */
@@ -31,7 +250,8 @@ export function usePatientTrend(patientId: string, minutes: number = 240, enable
     queryFn: () => hospitalApi.getPatientTrend(patientId, minutes),
     enabled: enabled && !!patientId,
     staleTime: 60_000, // Trend data fresh for 1 minute
-    retry: 1,
+    retry: shouldRetryRequest,
+    retryDelay: getRetryDelay,
   });
 }
 
@@ -46,6 +266,27 @@ export function useWards() {
   });
 }
 
+/**
+ * Fetch the named alarm-limit profiles
+ */
+export function useAlarmProfiles() {
+  return useQuery({
+    queryKey: queryKeys.alarmProfiles,
+    queryFn: () => hospitalApi.getAlarmProfiles(),
+    staleTime: 5 * 60_000, // Profiles are reference data, like wards
+    retry: shouldRetryRequest,
+    retryDelay: getRetryDelay,
+  });
+}
+
+/**
+ * Alarm-limit profiles keyed by ID - resolves a patient's or ward's profile
+ */
+export function useAlarmProfilesById(): Map<string, AlarmLimitProfile> {
+  const { data } = useAlarmProfiles();
+  return useMemo(() => new Map((data ?? []).map(p => [p.id, p])), [data]);
+}
+
 /**
  * Inject vital signs mutation
  */
@@ -59,4 +300,190 @@ export function useInjectVitals() {
       queryClient.invalidateQueries({ queryKey: queryKeys.patients });
     },
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Paged alert history (newest first) - fetches the next page on demand
+ */
+export function useAlertHistory(enabled: boolean = true) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.alertHistory,
+    queryFn: ({ pageParam }) => hospitalApi.getAlerts({ page: pageParam, pageSize: ALERT_HISTORY_PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page * lastPage.pageSize < lastPage.totalCount ? lastPage.page + 1 : undefined,
+    enabled,
+    staleTime: 30_000,
+  });
+}
+
+/**
+ * A patient's most recent alerts (newest first), active and acknowledged
+ */
+export function usePatientAlerts(patientId: string) {
+  return useQuery({
+    queryKey: queryKeys.patientAlerts(patientId),
+    queryFn: () => hospitalApi.getAlerts({ patientId, pageSize: ALERT_HISTORY_PAGE_SIZE }),
+    enabled: !!patientId,
+    staleTime: 30_000,
+    retry: shouldRetryRequest,
+    retryDelay: getRetryDelay,
+  });
+}
+
+/**
+ * Acknowledge alert mutation
+ * Optimistically marks the alert acknowledged in the store, rolls back on failure.
+ * Other dashboards are updated through the ReceiveAlertAcknowledged hub event.
+ */
+export function useAcknowledgeAlert() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ alertId, acknowledgedBy }: { alertId: string; acknowledgedBy: string }) => {
+      // Technical alarms are raised by this dashboard - the backend has no record of them
+      const alert = useHospitalStore.getState().alerts.find(a => a.id === alertId);
+      if (alert && isTechnicalAlert(alert)) return alert;
+      return hospitalApi.acknowledgeAlert(alertId, acknowledgedBy);
+    },
+    onMutate: ({ alertId, acknowledgedBy }) => {
+      const previous = useHospitalStore.getState().alerts.find(a => a.id === alertId);
+      useHospitalStore.getState().acknowledgeAlert(alertId, acknowledgedBy);
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        useHospitalStore.getState().upsertAlerts([context.previous]);
+      }
+    },
+    onSuccess: (alert) => {
+      // Server timestamps win over the optimistic ones
+      useHospitalStore.getState().upsertAlerts([alert]);
+      queryClient.invalidateQueries({ queryKey: queryKeys.alertHistory });
+    },
+  });
+}
+
+/**
+ * Toggle injection mode mutation
+ * Optimistically updates the patient cache, rolls back and shows an error notice on failure.
+ */
+export function useSetInjectionMode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ patientId, enabled }: { patientId: string; enabled: boolean }) =>
+      hospitalApi.setInjectionMode(patientId, enabled),
+    onMutate: async ({ patientId, enabled }) => {
+      // Don't let an in-flight refetch overwrite the optimistic value
+      await queryClient.cancelQueries({ queryKey: queryKeys.patients });
+      const previous = getCachedPatient(queryClient, patientId)?.injectionModeEnabled ?? false;
+      patchCachedPatient(queryClient, patientId, { injectionModeEnabled: enabled });
+      return { previous };
+    },
+    onError: (error, { patientId, enabled }, context) => {
+      if (context) {
+        patchCachedPatient(queryClient, patientId, { injectionModeEnabled: context.previous });
+      }
+      useHospitalStore.getState().showNotice('error', describeMutationError(
+        queryClient, `turn injection mode ${enabled ? 'ON' : 'OFF'}`, patientId, error
+      ));
+    },
+  });
+}
+
+/**
+ * Nurse attending mutation
+ * Optimistically updates the patient cache, rolls back and shows an error notice on failure.
+ */
+export function useSetNurseAttending() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ patientId, attending }: { patientId: string; attending: boolean }) =>
+      hospitalApi.setNurseAttending(patientId, attending),
+    onMutate: async ({ patientId, attending }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.patients });
+      const previous = getCachedPatient(queryClient, patientId)?.nurseAttending ?? false;
+      patchCachedPatient(queryClient, patientId, { nurseAttending: attending });
+      return { previous };
+    },
+    onError: (error, { patientId, attending }, context) => {
+      if (context) {
+        patchCachedPatient(queryClient, patientId, { nurseAttending: context.previous });
+      }
+      useHospitalStore.getState().showNotice('error', describeMutationError(
+        queryClient, attending ? 'start nurse attending' : 'end nurse attending', patientId, error
+      ));
+    },
+  });
+}
+
+/**
+ * Patient alarm limits mutation
+ * Optimistically updates the patient cache, rolls back and shows an error notice on failure
+ * (including the server rejecting limits that don't nest).
+ */
+export function useSetPatientAlarmLimits() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ patientId, limits }: { patientId: string; limits: PatientAlarmLimitsRequest }) =>
+      hospitalApi.setPatientAlarmLimits(patientId, limits),
+    onMutate: async ({ patientId, limits }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.patients });
+      const patient = getCachedPatient(queryClient, patientId);
+      const previous = {
+        alarmLimitProfileId: patient?.alarmLimitProfileId,
+        alarmLimitOverrides: patient?.alarmLimitOverrides,
+      };
+      patchCachedPatient(queryClient, patientId, {
+        alarmLimitProfileId: limits.profileId ?? undefined,
+        alarmLimitOverrides: limits.overrides ?? undefined,
+      });
+      return { previous };
+    },
+    onError: (error, { patientId }, context) => {
+      if (context) {
+        patchCachedPatient(queryClient, patientId, context.previous);
+      }
+      useHospitalStore.getState().showNotice('error', describeMutationError(
+        queryClient, 'update alarm limits', patientId, error
+      ));
+    },
+  });
+}
+
+/**
+ * Ward default alarm profile mutation
+ * Optimistically updates the ward and its patients, rolls back and shows an error notice on failure.
+ */
+export function useSetWardAlarmProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ wardId, profileId }: { wardId: string; profileId: string | null }) =>
+      hospitalApi.setWardAlarmProfile(wardId, profileId),
+    onMutate: async ({ wardId, profileId }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.patients });
+      const ward = queryClient.getQueryData<Ward[]>(queryKeys.wards)?.find(w => w.id === wardId);
+      const previous = ward?.alarmLimitProfileId;
+      applyWardAlarmProfile(queryClient, wardId, profileId ?? undefined);
+      return { previous, wardName: ward?.name ?? wardId };
+    },
+    onError: (error, { wardId }, context) => {
+      if (context) {
+        applyWardAlarmProfile(queryClient, wardId, context.previous);
+      }
+      useHospitalStore.getState().showNotice(
+        'error',
+        `Could not update the default alarm profile for ${context?.wardName ?? wardId}. ${describeApiError(error)}`
+      );
+    },
+  });
+}
+
+function describeMutationError(queryClient: QueryClient, action: string, patientId: string, error: unknown): string {
+  const patientName = getCachedPatient(queryClient, patientId)?.name ?? patientId;
+  return `Could not ${action} for ${patientName}. ${describeApiError(error)}`;
+}
@@ -1,152 +1,390 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import * as signalR from '@microsoft/signalr';
+import { useQueryClient } from '@tanstack/react-query';
 import { useHospitalStore } from '../store/hospitalStore';
-import type { VitalSignsUpdate, AlertNotification, NurseAttendingChange, InjectionModeChange } from '../types/hospital';
+import {
+  applyVitalUpdate,
+  applyWardAlarmProfile,
+  backfillMissedUpdates,
+  patchCachedPatient,
+  queryKeys,
+} from './useHospitalQueries';
+import {
+  decodePayload,
+  decodeVitalSignsUpdate,
+  decodeAlertNotification,
+  decodeAlertAcknowledgement,
+  decodeInjectionModeChange,
+  decodeNurseAttendingChange,
+  decodePatientAlarmLimitsChange,
+  decodeWardAlarmLimitsChange,
+} from '../services/contracts';
+import { simulatedBackend, type SimulatedHubEvent } from '../services/simulatedBackend';
+import { getReconnectDelay } from '../services/retryPolicy';
+import { serverNow } from '../services/serverClock';
+import { describeApiError } from '../services/apiError';
+import {
+  diffHubScopes,
+  hubScopeInvocation,
+  hubScopeKey,
+  resolveHubScopes,
+  type HubScope,
+} from '../utils/hubScopes';
 
 const HUB_URL = import.meta.env.VITE_HUB_URL || 'http://localhost:5001/hubs/vitals';
 
 /**
  * Hospital-specific SignalR hook for real-time vital signs and alerts
- * Connects to VitalsHub and manages connection lifecycle
+ * Connects to VitalsHub and manages connection lifecycle.
+ * With the simulated data source, the same handlers subscribe to the in-browser simulated hub instead.
+ * Vitals arrive for the active subscription scopes only (see utils/hubScopes).
+ * Reconnects forever with jittered backoff, and backfills what was missed once back.
  */
 export function useHospitalSignalR(notificationsEnabled: boolean = false) {
   const connectionRef = useRef<signalR.HubConnection | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const maxReconnectAttempts = 5;
+  const reconnectNowRef = useRef<(() => Promise<void>) | undefined>(undefined);
 
-  const updatePatientVitals = useHospitalStore(state => state.updatePatientVitals);
+  const queryClient = useQueryClient();
   const addAlert = useHospitalStore(state => state.addAlert);
   const setConnectionStatus = useHospitalStore(state => state.setConnectionStatus);
+  const setReconnectSchedule = useHospitalStore(state => state.setReconnectSchedule);
   const connectionStatus = useHospitalStore(state => state.connectionStatus);
   const addSignalRLog = useHospitalStore(state => state.addSignalRLog);
+  const dataSource = useHospitalStore(state => state.dataSource);
+  const selectedWardId = useHospitalStore(state => state.selectedWardId);
+  const subscribedPatientId = useHospitalStore(state => state.subscribedPatientId);
+  const setActiveHubScopes = useHospitalStore(state => state.setActiveHubScopes);
+
+  const wantedScopes = useMemo(
+    () => resolveHubScopes({ selectedWardId, patientId: subscribedPatientId }),
+    [selectedWardId, subscribedPatientId]
+  );
+  const wantedScopesRef = useRef<HubScope[]>(wantedScopes);
+  const joinedScopesRef = useRef<HubScope[]>([]);
+  const scopeSyncRef = useRef<Promise<void>>(Promise.resolve());
+
+  /**
+   * Join and leave hub groups until the joined scopes match the wanted ones
+   * Runs one sync at a time - each starts from what the previous one actually joined.
+   * Resolves once this sync is done.
+   */
+  const syncHubScopes = useCallback(() => {
+    scopeSyncRef.current = scopeSyncRef.current.then(async () => {
+      const connection = connectionRef.current;
+      if (connection?.state !== signalR.HubConnectionState.Connected) return;
+
+      const previous = joinedScopesRef.current;
+      const { join, leave } = diffHubScopes(previous, wantedScopesRef.current);
+      if (join.length === 0 && leave.length === 0) return;
+
+      const joined = new Map(previous.map(scope => [hubScopeKey(scope), scope]));
+      const invoke = async (scope: HubScope, action: 'subscribe' | 'unsubscribe') => {
+        try {
+          await connection.invoke(...hubScopeInvocation(scope, action));
+          if (action === 'subscribe') joined.set(hubScopeKey(scope), scope);
+          else joined.delete(hubScopeKey(scope));
+          addSignalRLog({
+            eventType: 'Connection',
+            data: { status: `${action === 'subscribe' ? 'joined' : 'left'} ${hubScopeKey(scope)}` },
+          });
+        } catch (err) {
+          console.error(`❌ Failed to ${action} ${hubScopeKey(scope)}:`, err);
+        }
+      };
+
+      // Join first so a ward -> patient switch never leaves a gap with no vitals
+      for (const scope of join) await invoke(scope, 'subscribe');
+      for (const scope of leave) await invoke(scope, 'unsubscribe');
+
+      // Connection dropped meanwhile - onreconnecting already reset the scopes
+      if (connectionRef.current !== connection || connection.state !== signalR.HubConnectionState.Connected) return;
+
+      joinedScopesRef.current = Array.from(joined.values());
+      setActiveHubScopes(joinedScopesRef.current);
+
+      // Widened from a narrower scope (e.g. back from a patient page) - catch up on what wasn't sent
+      if (previous.length > 0 && join.some(scope => scope.kind !== 'patient')) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.patients });
+      }
+    });
+    return scopeSyncRef.current;
+  }, [queryClient, addSignalRLog, setActiveHubScopes]);
+
+  const resetHubScopes = useCallback((scopes: HubScope[] = []) => {
+    joinedScopesRef.current = [];
+    setActiveHubScopes(scopes);
+  }, [setActiveHubScopes]);
+
+  /**
+   * Fetch the vitals and alerts recorded while disconnected (see backfillMissedUpdates)
+   * Runs after the groups are re-joined, so nothing falls between the backfill and the live stream.
+   */
+  const backfill = useCallback(async () => {
+    try {
+      const { readings, alerts } = await backfillMissedUpdates(queryClient);
+      addSignalRLog({
+        eventType: 'Connection',
+        data: { status: `backfilled ${readings} readings, ${alerts} alerts` },
+      });
+    } catch (err) {
+      console.error('❌ Backfill failed:', err);
+      addSignalRLog({
+        eventType: 'Connection',
+        data: { status: 'backfill failed', error: describeApiError(err) },
+      });
+    }
+  }, [queryClient, addSignalRLog]);
 
   useEffect(() => {
     // Skip if already connected or connecting
-    if (connectionRef.current?.state === signalR.HubConnectionState.Connected ||
-        connectionRef.current?.state === signalR.HubConnectionState.Connecting) {
+    if (dataSource === 'live' &&
+        (connectionRef.current?.state === signalR.HubConnectionState.Connected ||
+         connectionRef.current?.state === signalR.HubConnectionState.Connecting)) {
       return;
     }
 
-    // Define startConnection FIRST before using it
-    const startConnection = async () => {
-      try {
-        // Guard: only start if connection is in disconnected state
-        if (connectionRef.current?.state !== signalR.HubConnectionState.Disconnected) {
-          console.log('⏭️ Connection not ready to start, skipping');
-          return;
-        }
+    // VitalsHub event handlers (shared by the live connection and the simulated hub)
+    // Payloads are decoded at the boundary - malformed messages are reported to the terminal and dropped
+    const handlers: Record<SimulatedHubEvent, (payload: unknown) => void> = {
+      ReceiveVitalUpdate: (payload) => {
+        const update = decodePayload(decodeVitalSignsUpdate, payload, 'ReceiveVitalUpdate');
+        if (!update) return;
+        console.log('📊 Vital update:', update);
+        // Patient data lives in the React Query cache - a repeat from another joined group is dropped
+        if (!applyVitalUpdate(queryClient, update)) return;
 
-        setConnectionStatus('connecting');
-        await connectionRef.current!.start();
-        console.log('✅ Connected to VitalsHub');
-        setConnectionStatus('connected');
-        reconnectAttemptsRef.current = 0;
-      } catch (err) {
-        console.error('❌ Connection failed:', err);
-        setConnectionStatus('disconnected');
+        // Log to terminal panel
+        addSignalRLog({
+          eventType: 'VitalUpdate',
+          patientId: update.patientId,
+          patientName: update.patientName,
+          data: {
+            heartRate: update.heartRate,
+            spO2: update.spO2,
+            bpSystolic: update.bpSystolic,
+            bpDiastolic: update.bpDiastolic,
+            temperature: update.temperature,
+            alertSeverity: update.alertSeverity,
+            latencyMs: serverNow() - Date.parse(update.recordedAt), // Recorded -> received, on the server clock
+          },
+        });
+      },
 
-        // Retry with exponential backoff (only manual retries, SignalR handles auto-reconnect)
-        if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-          const retryDelay = 1000 * Math.pow(2, reconnectAttemptsRef.current);
-          console.log(`🔄 Retrying in ${retryDelay}ms (attempt ${reconnectAttemptsRef.current + 1}/${maxReconnectAttempts})`);
-          reconnectAttemptsRef.current++;
-          setTimeout(() => startConnection(), retryDelay);
-        } else {
-          console.error('❌ Max reconnect attempts reached.');
+      ReceiveAlert: (payload) => {
+        const alert = decodePayload(decodeAlertNotification, payload, 'ReceiveAlert');
+        if (!alert) return;
+        console.log('🚨 Alert:', alert);
+        addAlert(alert);
+
+        // Log to terminal panel
+        addSignalRLog({
+          eventType: 'Alert',
+          patientId: alert.patientId,
+          patientName: alert.patientName,
+          data: {
+            alertType: alert.alertType,
+            severity: alert.severity,
+            message: alert.message,
+            latencyMs: serverNow() - Date.parse(alert.triggeredAt),
+          },
+        });
+
+        // Browser notification for critical alerts (only if user enabled notifications)
+        if (notificationsEnabled && alert.severity === 'Critical' && Notification.permission === 'granted') {
+          new Notification(`Critical: ${alert.patientName}`, {
+            body: alert.message,
+            tag: alert.alertId,
+          });
         }
-      }
+      },
+
+      ReceiveAlertAcknowledged: (payload) => {
+        const acknowledgement = decodePayload(decodeAlertAcknowledgement, payload, 'ReceiveAlertAcknowledged');
+        if (!acknowledgement) return;
+        console.log('✅ Alert acknowledged:', acknowledgement);
+        // Keep alert state identical across dashboards
+        useHospitalStore.getState().applyAlertAcknowledgement(acknowledgement);
+
+        // Log to terminal panel
+        addSignalRLog({
+          eventType: 'AlertAcknowledged',
+          patientId: acknowledgement.patientId,
+          patientName: acknowledgement.patientName,
+          data: {
+            alertId: acknowledgement.alertId,
+            acknowledgedBy: acknowledgement.acknowledgedBy,
+          },
+        });
+      },
+
+      ReceiveInjectionModeChange: (payload) => {
+        const change = decodePayload(decodeInjectionModeChange, payload, 'ReceiveInjectionModeChange');
+        if (!change) return;
+        console.log('💉 Injection mode change:', change);
+        // Update cached patient with new injection mode state
+        patchCachedPatient(queryClient, change.patientId, { injectionModeEnabled: change.injectionModeEnabled });
+
+        // Log to terminal panel
+        addSignalRLog({
+          eventType: 'InjectionMode',
+          patientId: change.patientId,
+          patientName: change.patientName,
+          data: {
+            enabled: change.injectionModeEnabled,
+          },
+        });
+      },
+
+      ReceiveNurseAttendingChange: (payload) => {
+        const change = decodePayload(decodeNurseAttendingChange, payload, 'ReceiveNurseAttendingChange');
+        if (!change) return;
+        console.log('👨‍⚕️ Nurse attending change:', change);
+        // Update cached patient with new nurse attending state
+        patchCachedPatient(queryClient, change.patientId, { nurseAttending: change.nurseAttending });
+
+        // Log to terminal panel
+        addSignalRLog({
+          eventType: 'NurseAttending',
+          patientId: change.patientId,
+          patientName: change.patientName,
+          data: {
+            attending: change.nurseAttending,
+          },
+        });
+      },
+
+      ReceivePatientAlarmLimitsChange: (payload) => {
+        const change = decodePayload(decodePatientAlarmLimitsChange, payload, 'ReceivePatientAlarmLimitsChange');
+        if (!change) return;
+        console.log('🎚️ Alarm limits change:', change);
+        patchCachedPatient(queryClient, change.patientId, {
+          alarmLimitProfileId: change.alarmLimitProfileId,
+          alarmLimitOverrides: change.alarmLimitOverrides,
+        });
+
+        addSignalRLog({
+          eventType: 'AlarmLimits',
+          patientId: change.patientId,
+          patientName: change.patientName,
+          data: {
+            scope: 'patient',
+            profileId: change.alarmLimitProfileId,
+            overrides: Object.keys(change.alarmLimitOverrides ?? {}).length,
+          },
+        });
+      },
+
+      ReceiveWardAlarmLimitsChange: (payload) => {
+        const change = decodePayload(decodeWardAlarmLimitsChange, payload, 'ReceiveWardAlarmLimitsChange');
+        if (!change) return;
+        console.log('🎚️ Ward alarm profile change:', change);
+        applyWardAlarmProfile(queryClient, change.wardId, change.alarmLimitProfileId);
+
+        addSignalRLog({
+          eventType: 'AlarmLimits',
+          data: {
+            scope: 'ward',
+            wardName: change.wardName,
+            profileId: change.alarmLimitProfileId,
+          },
+        });
+      },
     };
 
+    // Simulated data source - no network, the in-browser simulator emits the hub events
+    if (dataSource === 'simulated') {
+      connectionRef.current = null;
+      const unsubscribers = (Object.keys(handlers) as SimulatedHubEvent[])
+        .map(event => simulatedBackend.on(event, handlers[event]));
+      setConnectionStatus('connected');
+      // The simulated hub has no groups - it delivers every patient's vitals
+      resetHubScopes([{ kind: 'hospital' }]);
+      addSignalRLog({
+        eventType: 'Connection',
+        data: { status: 'simulated' },
+      });
+
+      return () => {
+        unsubscribers.forEach(unsubscribe => unsubscribe());
+        resetHubScopes();
+        setConnectionStatus('disconnected');
+      };
+    }
+
     const connection = new signalR.HubConnectionBuilder()
       .withUrl(HUB_URL, {
         transport: signalR.HttpTransportType.WebSockets | signalR.HttpTransportType.LongPolling,
       })
-      .withAutomaticReconnect([0, 1000, 2000, 5000, 10000])
+      // Never gives up - a null delay would close the connection for good
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: ({ previousRetryCount }) => {
+          const delay = getReconnectDelay(previousRetryCount);
+          setReconnectSchedule({ attempt: previousRetryCount + 1, nextAttemptAt: Date.now() + delay });
+          return delay;
+        },
+      })
       .configureLogging(signalR.LogLevel.Information)
       .build();
 
     connectionRef.current = connection;
 
-    // Subscribe to VitalsHub events
-    connection.on('ReceiveVitalUpdate', (update: VitalSignsUpdate) => {
-      console.log('📊 Vital update:', update);
-      updatePatientVitals(update);
+    let disposed = false;      // Effect cleaned up - this connection is finished
+    let restarting = false;    // Reconnect now is stopping an automatic attempt to start afresh
+    let hasConnected = false;  // Later starts are reconnects and need a backfill
+    let retryAttempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
 
-      // Log to terminal panel
-      addSignalRLog({
-        eventType: 'VitalUpdate',
-        patientId: update.patientId,
-        patientName: update.patientName,
-        data: {
-          heartRate: update.heartRate,
-          spO2: update.spO2,
-          bpSystolic: update.bpSystolic,
-          bpDiastolic: update.bpDiastolic,
-          alertSeverity: update.alertSeverity,
-        },
-      });
-    });
-
-    connection.on('ReceiveAlert', (alert: AlertNotification) => {
-      console.log('🚨 Alert:', alert);
-      addAlert(alert);
-
-      // Log to terminal panel
-      addSignalRLog({
-        eventType: 'Alert',
-        patientId: alert.patientId,
-        patientName: alert.patientName,
-        data: {
-          alertType: alert.alertType,
-          severity: alert.severity,
-          message: alert.message,
-        },
-      });
+    // Manual retries cover what automatic reconnect doesn't: a failed first start, or a clean close
+    const scheduleRetry = () => {
+      const delay = getReconnectDelay(retryAttempt++);
+      console.log(`🔄 Retrying in ${delay}ms (attempt ${retryAttempt})`);
+      setReconnectSchedule({ attempt: retryAttempt, nextAttemptAt: Date.now() + delay });
+      clearTimeout(retryTimer);
+      retryTimer = setTimeout(startConnection, delay);
+    };
 
-      // Browser notification for critical alerts (only if user enabled notifications)
-      if (notificationsEnabled && alert.severity === 'Critical' && Notification.permission === 'granted') {
-        new Notification(`Critical: ${alert.patientName}`, {
-          body: alert.message,
-          tag: alert.alertId,
-        });
+    const startConnection = async () => {
+      clearTimeout(retryTimer);
+      // Guard: only start if connection is in disconnected state
+      if (disposed || connection.state !== signalR.HubConnectionState.Disconnected) {
+        console.log('⏭️ Connection not ready to start, skipping');
+        return;
       }
-    });
-
-    connection.on('ReceiveInjectionModeChange', (change: InjectionModeChange) => {
-      console.log('💉 Injection mode change:', change);
-      // Update Zustand store with new injection mode state
-      useHospitalStore.getState().toggleInjectionMode(change.patientId, change.injectionModeEnabled);
 
-      // Log to terminal panel
-      addSignalRLog({
-        eventType: 'InjectionMode',
-        patientId: change.patientId,
-        patientName: change.patientName,
-        data: {
-          enabled: change.injectionModeEnabled,
-        },
-      });
-    });
+      try {
+        setConnectionStatus('connecting');
+        await connection.start();
+        console.log('✅ Connected to VitalsHub');
+        retryAttempt = 0;
+        setConnectionStatus('connected');
+        const synced = syncHubScopes();
+        if (hasConnected) synced.then(backfill);
+        hasConnected = true;
+      } catch (err) {
+        console.error('❌ Connection failed:', err);
+        if (disposed) return;
+        setConnectionStatus('disconnected');
+        scheduleRetry();
+      }
+    };
 
-    connection.on('ReceiveNurseAttendingChange', (change: NurseAttendingChange) => {
-      console.log('👨‍⚕️ Nurse attending change:', change);
-      // Update Zustand store with new nurse attending state
-      useHospitalStore.getState().setNurseAttending(change.nurseAttending ? change.patientId : undefined);
+    reconnectNowRef.current = async () => {
+      console.log('🔌 Reconnecting now');
+      if (connection.state === signalR.HubConnectionState.Reconnecting) {
+        // SignalR can't skip an automatic attempt's wait - stop it and start afresh
+        restarting = true;
+        await connection.stop();
+        restarting = false;
+      }
+      startConnection();
+    };
 
-      // Log to terminal panel
-      addSignalRLog({
-        eventType: 'NurseAttending',
-        patientId: change.patientId,
-        patientName: change.patientName,
-        data: {
-          attending: change.nurseAttending,
-        },
-      });
-    });
+    (Object.keys(handlers) as SimulatedHubEvent[]).forEach(event => connection.on(event, handlers[event]));
 
     // Connection lifecycle events
     connection.onreconnecting(() => {
       console.log('🔄 Reconnecting...');
+      resetHubScopes(); // Groups are lost with the old connection ID
       setConnectionStatus('reconnecting');
       addSignalRLog({
         eventType: 'Connection',
@@ -157,20 +395,25 @@ export function useHospitalSignalR(notificationsEnabled: boolean = false) {
     connection.onreconnected(() => {
       console.log('✅ Reconnected automatically');
       setConnectionStatus('connected');
-      reconnectAttemptsRef.current = 0;
       addSignalRLog({
         eventType: 'Connection',
         data: { status: 'reconnected' },
       });
+      // Re-join the view's groups on the new connection ID, then fill the gap
+      syncHubScopes().then(backfill);
     });
 
     connection.onclose((error) => {
       console.error('❌ Connection closed:', error);
+      // Stopped by cleanup (data source switch, unmount) - a newer connection owns the status now
+      if (disposed || connectionRef.current !== connection) return;
+      resetHubScopes();
       setConnectionStatus('disconnected');
       addSignalRLog({
         eventType: 'Connection',
         data: { status: 'disconnected', error: error?.message },
       });
+      if (!restarting) scheduleRetry();
     });
 
     // Request notification permission
@@ -182,14 +425,34 @@ export function useHospitalSignalR(notificationsEnabled: boolean = false) {
     startConnection();
 
     return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      reconnectNowRef.current = undefined;
+      setReconnectSchedule(undefined);
+      resetHubScopes();
       if (connection.state !== signalR.HubConnectionState.Disconnected) {
         connection.stop();
       }
     };
-  }, [notificationsEnabled, updatePatientVitals, addAlert, setConnectionStatus, addSignalRLog]);
+  }, [dataSource, notificationsEnabled, queryClient, addAlert, setConnectionStatus, setReconnectSchedule, addSignalRLog, resetHubScopes, syncHubScopes, backfill]);
+
+  // Subscription scopes - the hub sends vitals only to the groups this connection has joined.
+  // Declared from the view (selected ward, open patient) and synced whenever they or the connection
+  // change. Groups are per connection ID and don't survive a reconnect, so they are forgotten on
+  // reconnecting and re-joined once onreconnected reports the connection back.
+  useEffect(() => {
+    wantedScopesRef.current = wantedScopes;
+    syncHubScopes();
+  }, [wantedScopes, connectionStatus, syncHubScopes]);
+
+  // Skip the countdown to the next attempt
+  const reconnectNow = useCallback(() => {
+    reconnectNowRef.current?.();
+  }, []);
 
   return {
     connectionStatus,
     connection: connectionRef.current,
+    reconnectNow,
   };
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useHospitalStore } from '../store/hospitalStore';
+import { backfillMissedUpdates } from './useHospitalQueries';
+import { describeApiError } from '../services/apiError';
+
+/** How often REST polling refreshes vitals and alerts while the hub is down */
+export const HUB_POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Degraded mode: poll the REST API while the live hub can't be reached
+ * Starts once a reconnect has been scheduled (the first connect is still in flight until then)
+ * and stops as soon as the hub is back. Each poll is the reconnect backfill - missed readings
+ * into patient lists and trend windows, missed alerts into the store, then a patient refetch.
+ * After the first poll each one continues from the newest data the previous poll received.
+ */
+export function useHubPollingFallback() {
+  const queryClient = useQueryClient();
+  const addSignalRLog = useHospitalStore(state => state.addSignalRLog);
+  const setHubPolling = useHospitalStore(state => state.setHubPolling);
+  const polling = useHospitalStore(state =>
+    state.dataSource === 'live' && state.connectionStatus !== 'connected' && !!state.reconnectSchedule
+  );
+
+  useEffect(() => {
+    if (!polling) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let since: string | undefined; // High-water mark - undefined until a poll succeeds
+
+    const poll = async () => {
+      try {
+        const { through } = await backfillMissedUpdates(queryClient, since);
+        since = through ?? since;
+        if (!stopped) setHubPolling({ intervalMs: HUB_POLL_INTERVAL_MS, lastPolledAt: Date.now() });
+      } catch (err) {
+        console.error('❌ Polling failed:', err);
+        if (!stopped) {
+          const { hubPolling } = useHospitalStore.getState();
+          setHubPolling({ ...hubPolling, intervalMs: HUB_POLL_INTERVAL_MS, error: describeApiError(err) });
+        }
+      } finally {
+        if (!stopped) timer = setTimeout(poll, HUB_POLL_INTERVAL_MS);
+      }
+    };
+
+    console.log('📡 Hub unavailable - polling every', HUB_POLL_INTERVAL_MS, 'ms');
+    setHubPolling({ intervalMs: HUB_POLL_INTERVAL_MS });
+    addSignalRLog({ eventType: 'Connection', data: { status: 'polling started' } });
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      setHubPolling(undefined);
+      addSignalRLog({ eventType: 'Connection', data: { status: 'polling stopped' } });
+    };
+  }, [polling, queryClient, addSignalRLog, setHubPolling]);
+}
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useHospitalStore } from '../store/hospitalStore';
+import {
+  DEFAULT_PATIENT_FILTERS,
+  parsePatientFilterParams,
+  writePatientFilterParams,
+  type PatientFilters,
+} from '../utils/patientFilters';
+import { parseRoute } from '../utils/routes';
+
+const FILTER_KEYS = Object.keys(DEFAULT_PATIENT_FILTERS) as (keyof PatientFilters)[];
+
+function pickPatientFilters(state: PatientFilters): PatientFilters {
+  return Object.fromEntries(FILTER_KEYS.map(key => [key, state[key]])) as unknown as PatientFilters;
+}
+
+/**
+ * Keep the grid filters and the URL query string in step
+ * The store reads the URL on startup; this writes every change back (replaceState - typing
+ * in the search box shouldn't flood the back button) and re-reads it on back/forward.
+ * Returning from another view (e.g. patient detail): a URL with filters (back button) wins,
+ * otherwise the filters kept in the store are written back.
+ */
+export function usePatientFilterUrlSync() {
+  useEffect(() => {
+    const writeUrl = (filters: PatientFilters) => {
+      const search = writePatientFilterParams(filters, window.location.search);
+      if (search !== window.location.search) {
+        window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+      }
+    };
+
+    const applyUrl = () => {
+      // Back/forward to another view - its URL has no filters, keep ours for the return
+      if (parseRoute(window.location.pathname).name !== 'dashboard') return;
+      useHospitalStore.getState().setPatientFilters({
+        ...DEFAULT_PATIENT_FILTERS,
+        ...parsePatientFilterParams(window.location.search),
+      });
+    };
+
+    if (Object.keys(parsePatientFilterParams(window.location.search)).length > 0) {
+      applyUrl();
+    } else {
+      writeUrl(pickPatientFilters(useHospitalStore.getState()));
+    }
+
+    const unsubscribe = useHospitalStore.subscribe((state, previous) => {
+      if (FILTER_KEYS.every(key => state[key] === previous[key])) return;
+      writeUrl(pickPatientFilters(state));
+    });
+
+    window.addEventListener('popstate', applyUrl);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('popstate', applyUrl);
+    };
+  }, []);
+}
@@ -0,0 +1,49 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { parseRoute, type Route } from '../utils/routes';
+
+// Fired after navigate() - pushState doesn't raise popstate
+const NAVIGATE_EVENT = 'hospital:navigate';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+const getPathname = () => window.location.pathname;
+
+/**
+ * Go to a path within the app - a history entry, so back returns to the previous view
+ */
+export function navigate(path: string) {
+  // Already there - keep the view's own query string (e.g. grid filters)
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, '', path);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/**
+ * Props for an in-app link: a real href (copy link, open in new tab) that navigates
+ * without a page load on a plain click
+ */
+export function linkTo(path: string) {
+  return {
+    href: path,
+    onClick: (e: React.MouseEvent) => {
+      if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigate(path);
+    },
+  };
+}
+
+/**
+ * Current route, from the address bar - survives reloads and can be shared
+ */
+export function useRoute(): Route {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  return useMemo(() => parseRoute(pathname), [pathname]);
+}
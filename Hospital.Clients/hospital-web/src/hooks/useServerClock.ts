@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { useHospitalStore } from '../store/hospitalStore';
+import { hospitalApi } from '../services/hospitalApi';
+import { formatClockOffset, serverNow, syncServerClock } from '../services/serverClock';
+
+/** Workstation clocks drift - re-estimate the offset now and then */
+const CLOCK_RESYNC_INTERVAL_MS = 10 * 60_000;
+
+/**
+ * Keep the server clock offset current (see services/serverClock)
+ * Re-syncs when the data source changes - the simulated backend runs on this workstation's clock.
+ */
+export function useServerClockSync() {
+  const dataSource = useHospitalStore(state => state.dataSource);
+  const addSignalRLog = useHospitalStore(state => state.addSignalRLog);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const sync = async () => {
+      try {
+        const offset = await syncServerClock(async () => (await hospitalApi.getServerTime()).utcNow);
+        if (cancelled) return;
+        console.log(`🕒 Server clock offset ${formatClockOffset(offset)}`);
+        addSignalRLog({ eventType: 'Connection', data: { status: `clock offset ${formatClockOffset(offset)}` } });
+      } catch (err) {
+        // Keep the last estimate - a failed sync doesn't make the clock any less right than it was
+        console.warn('⚠️ Server clock sync failed:', err);
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, CLOCK_RESYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [dataSource, addSignalRLog]);
+}
+
+/**
+ * Server time that ticks forward, for ages like "8s ago"
+ * @param intervalMs - How often to re-render
+ * @param enabled - Stop ticking (e.g. while a drawer is closed)
+ */
+export function useServerNow(intervalMs: number = 1000, enabled: boolean = true): number {
+  const [now, setNow] = useState(serverNow);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(serverNow());
+    const interval = setInterval(() => setNow(serverNow()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs, enabled]);
+
+  return now;
+}
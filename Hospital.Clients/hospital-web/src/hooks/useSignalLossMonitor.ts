@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react';
+import { useHospitalStore } from '../store/hospitalStore';
+import { usePatients } from './useHospitalQueries';
+import { hubScopesCover } from '../utils/hubScopes';
+import { serverNow } from '../services/serverClock';
+import {
+  assessSignal,
+  createSignalLossAlert,
+  getSignalSilence,
+  reviewSignalEpisode,
+  type QuietSignal,
+  type SignalLossEpisode,
+} from '../utils/signalLoss';
+
+/** How often silence is re-assessed - cards tick their own "no data for" text */
+const SIGNAL_CHECK_INTERVAL_MS = 5000;
+
+/**
+ * Per-patient signal loss (see utils/signalLoss)
+ * Publishes each quiet patient's state to the store for the cards, raises a technical alarm when
+ * a patient's silence reaches the limit, and resolves it once their monitor reports again.
+ * Only patients the hub is delivering are watched - while the hub itself is down the connection
+ * banner says so, rather than every card alarming at once. An alarm already open stays active
+ * but suspended (not sounded) until a newer reading, live or polled, ends it.
+ * Episodes are tracked here rather than looked up in store.alerts, which keeps only the newest 50.
+ */
+export function useSignalLossMonitor() {
+  const { data: patients } = usePatients();
+  const dataSource = useHospitalStore(state => state.dataSource);
+  const connectionStatus = useHospitalStore(state => state.connectionStatus);
+  const activeHubScopes = useHospitalStore(state => state.activeHubScopes);
+  const signalLossAlarmMs = useHospitalStore(state => state.signalLossAlarmMs);
+  const setPatientSignals = useHospitalStore(state => state.setPatientSignals);
+
+  const patientsRef = useRef(patients);
+  const episodesRef = useRef(new Map<string, SignalLossEpisode>()); // Patient ID -> open signal-lost episode
+
+  useEffect(() => {
+    patientsRef.current = patients;
+  }, [patients]);
+
+  // Episodes belong to the previous source's patients (their alerts were cleared with it)
+  useEffect(() => {
+    episodesRef.current.clear();
+  }, [dataSource]);
+
+  useEffect(() => {
+    const episodes = episodesRef.current;
+    const monitoring = connectionStatus === 'connected' && activeHubScopes.length > 0;
+
+    // Silence is only counted from here - the scope or connection just changed
+    const monitoredSince = serverNow();
+
+    const check = () => {
+      const now = serverNow(); // recordedAt is server time
+      const store = useHospitalStore.getState();
+      const signals = new Map<string, QuietSignal>();
+
+      (patientsRef.current ?? []).forEach(patient => {
+        const lastRecordedAt = patient.vitalSigns[0]?.recordedAt;
+        const monitored = monitoring && hubScopesCover(activeHubScopes, patient);
+        const episode = episodes.get(patient.id);
+        if (!monitored && !episode) return;
+
+        // Unmonitored patients can't start an episode - only end one, if a polled reading arrives
+        const silence = getSignalSilence(lastRecordedAt, monitoredSince, now);
+        const state = monitored ? assessSignal(silence, signalLossAlarmMs) : 'live';
+
+        switch (reviewSignalEpisode(episode, state, lastRecordedAt)) {
+          case 'raise': {
+            const alert = createSignalLossAlert(patient, silence, now);
+            episodes.set(patient.id, { alertId: alert.id, lastRecordedAt });
+            store.upsertAlerts([alert]);
+            console.warn(`📡 Signal lost: ${patient.name}`);
+            break;
+          }
+          case 'resolve': {
+            episodes.delete(patient.id);
+            // Condition over - resolve it unless someone already acknowledged it
+            const alarm = store.alerts.find(a => a.id === episode!.alertId);
+            if (alarm?.isActive) store.acknowledgeAlert(alarm.id, 'Signal restored');
+            console.log(`📡 Signal restored: ${patient.name}`);
+            return;
+          }
+        }
+
+        if (episodes.has(patient.id)) {
+          signals.set(patient.id, { state: 'lost', lastRecordedAt, suspended: !monitored || undefined });
+        } else if (state !== 'live') {
+          signals.set(patient.id, { state, lastRecordedAt });
+        }
+      });
+
+      const previous = useHospitalStore.getState().patientSignals;
+      const changed = signals.size !== previous.size ||
+        Array.from(signals).some(([id, signal]) =>
+          previous.get(id)?.state !== signal.state ||
+          previous.get(id)?.lastRecordedAt !== signal.lastRecordedAt ||
+          previous.get(id)?.suspended !== signal.suspended);
+      if (changed) setPatientSignals(signals);
+    };
+
+    check();
+    const interval = setInterval(check, SIGNAL_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [connectionStatus, activeHubScopes, signalLossAlarmMs, setPatientSignals]);
+}
@@ -2,13 +2,15 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ErrorBoundary } from './components/ErrorBoundary'
+import { shouldRetryRequest, getRetryDelay } from './services/retryPolicy'
 import App from './App.tsx'
 
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       refetchOnWindowFocus: false, // Dashboard stays open, no need to refetch on focus
-      retry: 2,
+      retry: shouldRetryRequest, // Only transient failures (timeouts, network, 5xx) are retried
+      retryDelay: getRetryDelay,
     },
   },
 })
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  alarmTone,
+  collectActiveAlarms,
+  createAlarmManager,
+  isAllClear,
+  resolveSoundingAlarm,
+  type AlarmInputs,
+  type AlarmPlayer,
+  type AlarmSound,
+} from './alarmManager';
+import type { Alert } from '../types/hospital';
+import type { ActiveAlarm } from '../utils/alarmTones';
+
+const alert = (overrides: Partial<Alert>): Alert => ({
+  id: 'a1',
+  patientId: 'p2',
+  alertType: 'hr_abnormal',
+  severity: 'High',
+  message: 'Heart rate abnormal',
+  triggeredAt: '2025-01-01T08:00:00Z',
+  isActive: true,
+  ...overrides,
+});
+
+const high: ActiveAlarm = { patientId: 'p1', category: 'physiological', priority: 'high' };
+const medium: ActiveAlarm = { patientId: 'p2', category: 'physiological', priority: 'medium' };
+const technical: ActiveAlarm = { patientId: 'p3', category: 'technical', priority: 'medium' };
+
+const inputs = (overrides: Partial<AlarmInputs> = {}): AlarmInputs => ({
+  alarms: [technical, medium, high],
+  pauses: { patients: new Map() },
+  ...overrides,
+});
+
+describe('alarmManager', () => {
+  it('collects critical patients and active alerts by priority', () => {
+    const alarms = collectActiveAlarms(['p1'], [
+      alert({ id: 'a1', severity: 'High' }),
+      alert({ id: 'a2', severity: 'Critical', isActive: false }),
+      alert({ id: 'a3', patientId: 'p3', category: 'technical', alertType: 'signal_lost' }),
+    ]);
+
+    expect(alarms).toEqual([high, medium, technical]);
+    expect(alarms.map(alarmTone)).toEqual(['high', 'medium', 'technical']);
+  });
+
+  it('leaves out signal-lost alarms of patients no longer being received', () => {
+    const alarms = collectActiveAlarms([], [
+      alert({ id: 'a3', patientId: 'p3', category: 'technical', alertType: 'signal_lost' }),
+    ], new Set(['p3']));
+
+    expect(alarms).toEqual([]);
+  });
+
+  describe('resolveSoundingAlarm', () => {
+    it('sounds only the highest priority', () => {
+      expect(resolveSoundingAlarm(inputs())).toEqual(high);
+    });
+
+    it('prefers a patient over a monitor at the same priority', () => {
+      expect(resolveSoundingAlarm(inputs({ alarms: [technical, medium] }))).toEqual(medium);
+    });
+
+    it('falls back to the next alarm when a patient is paused', () => {
+      const pauses = { patients: new Map([['p1', { until: Infinity, priority: 'high' as const }]]) };
+      expect(resolveSoundingAlarm(inputs({ pauses }))).toEqual(medium);
+    });
+
+    it('sounds nothing while everything is paused or nothing is active', () => {
+      const pauses = { patients: new Map(), global: { until: Infinity, priority: 'high' as const } };
+      expect(resolveSoundingAlarm(inputs({ pauses }))).toBeUndefined();
+      expect(resolveSoundingAlarm(inputs({ alarms: [] }))).toBeUndefined();
+    });
+  });
+
+  it('is all clear only when a critical patient recovers', () => {
+    expect(isAllClear(['p1'], [{ id: 'p1', status: 'watch' }])).toBe(true);
+    expect(isAllClear(['p1'], [{ id: 'p1', status: 'stable' }, { id: 'p2', status: 'critical' }])).toBe(false);
+    expect(isAllClear(['p1'], [{ id: 'p2', status: 'stable' }])).toBe(false); // Discharged or other data source
+    expect(isAllClear([], [{ id: 'p1', status: 'stable' }])).toBe(false);
+  });
+
+  describe('playback', () => {
+    // Lets the players' play() promises settle
+    const started = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    const setup = (play = () => Promise.resolve()) => {
+      const players: { sound: AlarmSound; loop: boolean; player: { [K in keyof AlarmPlayer]: ReturnType<typeof vi.fn> } }[] = [];
+      const manager = createAlarmManager({
+        createPlayer: (sound, loop) => {
+          const player = { play: vi.fn(play), setVolume: vi.fn(), stop: vi.fn() };
+          players.push({ sound, loop, player });
+          return player;
+        },
+      });
+      return { manager, players };
+    };
+
+    it('plays one looping tone and switches when the top alarm changes', async () => {
+      const { manager, players } = setup();
+
+      manager.sync('medium', 0.8);
+      manager.sync('high', 1);
+      await started();
+
+      expect(manager.getPlaying()).toBe('high');
+      expect(players.map(p => [p.sound, p.loop])).toEqual([['medium', true], ['high', true]]);
+      expect(players[0].player.stop).toHaveBeenCalledTimes(1);
+      expect(players[1].player.play).toHaveBeenCalledWith(1);
+    });
+
+    it('adjusts the volume without restarting the tone', () => {
+      const { manager, players } = setup();
+
+      manager.sync('high', 1);
+      manager.sync('high', 0.5);
+
+      expect(players[0].player.play).toHaveBeenCalledTimes(1);
+      expect(players[0].player.setVolume).toHaveBeenCalledWith(0.5);
+    });
+
+    it('plays test sounds and the chime once, alongside any alarm', async () => {
+      const { manager, players } = setup();
+
+      manager.sync('low', 0.6);
+      manager.playOnce('all-clear', 0.6);
+      await started();
+
+      expect(manager.getPlaying()).toBe('low');
+      expect(players[1]).toMatchObject({ sound: 'all-clear', loop: false });
+    });
+
+    it('keeps a tone the browser blocked pending and retries it on a gesture', async () => {
+      let allowed = false;
+      const { manager, players } = setup(() =>
+        allowed ? Promise.resolve() : Promise.reject(new DOMException('Autoplay blocked', 'NotAllowedError'))
+      );
+      const blockedChanges: boolean[] = [];
+      manager.onBlockedChange(blocked => blockedChanges.push(blocked));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      manager.sync('high', 1);
+      await started();
+      manager.sync('high', 0.5); // A later sync must not pretend it is playing
+
+      expect(manager.getPlaying()).toBeUndefined();
+      expect(manager.isBlocked()).toBe(true);
+      expect(players[0].player.play).toHaveBeenCalledTimes(1);
+
+      allowed = true;
+      manager.retry();
+      await started();
+
+      expect(players[0].player.play).toHaveBeenLastCalledWith(0.5);
+      expect(manager.getPlaying()).toBe('high');
+      expect(blockedChanges).toEqual([true, false]);
+    });
+
+    it('stops everything', () => {
+      const { manager } = setup();
+
+      manager.sync('technical', 0.8);
+      manager.sync(undefined, 0);
+
+      expect(manager.getPlaying()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import type { Alert, PatientStatus } from '../types/hospital';
+import { isTechnicalAlert } from '../utils/signalLoss';
+import {
+  ALARM_PRIORITIES,
+  ALARM_TONE_PATTERNS,
+  ALERT_SEVERITY_PRIORITY,
+  ALL_CLEAR_PATTERN,
+  TECHNICAL_ALARM_PRIORITY,
+  renderTonePattern,
+  type ActiveAlarm,
+  type AlarmTone,
+} from '../utils/alarmTones';
+import { isAlarmPaused, type AudioPauses } from '../utils/audioPause';
+
+/**
+ * Alarm Manager
+ * The one place audio alarms are played. The dashboard collects every active alarm from store
+ * and query state (critical patients, active alerts, audio pauses) and hands the winner to sync() -
+ * only the highest-priority alarm sounds, in its own tone (see utils/alarmTones). Every card, modal
+ * and pause button reads the same store state, so what is shown and what is heard can't drift.
+ * A tone only counts as playing once the browser has started it. Until the page has had a user
+ * gesture, autoplay is blocked: the tone stays pending, the manager reports itself blocked and
+ * retry() - called on the next click or key press - starts it.
+ */
+
+export interface AlarmInputs {
+  alarms: ActiveAlarm[];
+  pauses: AudioPauses;
+}
+
+/** A sound the manager can play - an alarm tone, or the all-clear chime */
+export type AlarmSound = AlarmTone | 'all-clear';
+
+/** One sound, looping while an alarm or once for a test or chime */
+export interface AlarmPlayer {
+  play: (volume: number) => Promise<void>; // Rejects when the browser blocks playback
+  setVolume: (volume: number) => void;
+  stop: () => void;
+}
+
+export interface AlarmManagerOptions {
+  createPlayer?: (sound: AlarmSound, loop: boolean) => AlarmPlayer;
+}
+
+/**
+ * Alarms for critical patients and active, unacknowledged alerts
+ * Signal-lost alarms of patients no longer being received are suspended - listed, not sounded.
+ */
+export function collectActiveAlarms(
+  criticalPatientIds: Iterable<string>,
+  alerts: Alert[],
+  suspendedSignalPatientIds: ReadonlySet<string> = new Set(),
+): ActiveAlarm[] {
+  const alarms: ActiveAlarm[] = Array.from(criticalPatientIds, patientId => ({
+    patientId,
+    category: 'physiological' as const,
+    priority: 'high' as const,
+  }));
+
+  alerts.filter(alert => alert.isActive).forEach(alert => {
+    if (isTechnicalAlert(alert) && suspendedSignalPatientIds.has(alert.patientId)) return;
+    alarms.push(isTechnicalAlert(alert)
+      ? { patientId: alert.patientId, category: 'technical', priority: TECHNICAL_ALARM_PRIORITY }
+      : { patientId: alert.patientId, category: 'physiological', priority: ALERT_SEVERITY_PRIORITY[alert.severity] });
+  });
+  return alarms;
+}
+
+export function alarmTone(alarm: ActiveAlarm): AlarmTone {
+  return alarm.category === 'technical' ? 'technical' : alarm.priority;
+}
+
+/**
+ * The one alarm that should be audible - highest priority, a patient before their monitor on a
+ * tie - skipping alarms held by an audio pause (see utils/audioPause)
+ */
+export function resolveSoundingAlarm({ alarms, pauses }: AlarmInputs): ActiveAlarm | undefined {
+  const rank = (alarm: ActiveAlarm) =>
+    ALARM_PRIORITIES.indexOf(alarm.priority) * 2 + (alarm.category === 'technical' ? 1 : 0);
+
+  return alarms
+    .filter(alarm => !isAlarmPaused(alarm, pauses))
+    .reduce<ActiveAlarm | undefined>((best, alarm) => (!best || rank(alarm) < rank(best) ? alarm : best), undefined);
+}
+
+/**
+ * Whether the last critical patient just recovered - still admitted, no longer critical
+ * (a discharge or a data source switch doesn't count)
+ */
+export function isAllClear(
+  previousCriticalIds: string[],
+  patients: { id: string; status: PatientStatus }[],
+): boolean {
+  if (previousCriticalIds.length === 0) return false;
+  if (patients.some(p => p.status === 'critical')) return false;
+  const previous = new Set(previousCriticalIds);
+  return patients.some(p => previous.has(p.id));
+}
+
+export function createAlarmManager({ createPlayer = createAudioPlayer }: AlarmManagerOptions = {}) {
+  const loopPlayers = new Map<AlarmTone, AlarmPlayer>();
+  const oncePlayers = new Map<AlarmSound, AlarmPlayer>();
+  const blockedListeners = new Set<(blocked: boolean) => void>();
+  let playing: AlarmTone | undefined;
+  let pending: { tone: AlarmTone; volume: number } | undefined; // Started, not yet audible
+  let blocked = false;
+
+  const setBlocked = (value: boolean) => {
+    if (value === blocked) return;
+    blocked = value;
+    blockedListeners.forEach(listener => listener(value));
+  };
+
+  const getPlayer = <K extends AlarmSound>(players: Map<K, AlarmPlayer>, sound: K, loop: boolean) => {
+    let player = players.get(sound);
+    if (!player) {
+      player = createPlayer(sound, loop);
+      players.set(sound, player);
+    }
+    return player;
+  };
+
+  const start = (tone: AlarmTone, volume: number) => {
+    const attempt = { tone, volume };
+    pending = attempt;
+    getPlayer(loopPlayers, tone, true).play(volume).then(
+      () => {
+        if (pending !== attempt) return; // Superseded while starting
+        pending = undefined;
+        playing = tone;
+        setBlocked(false);
+        console.log(`🚨 ${tone} alarm tone playing`);
+      },
+      error => {
+        if (pending !== attempt) return;
+        console.error(`Failed to play ${tone} alarm sound - waiting for a click or key press:`, error);
+        setBlocked(true);
+      }
+    );
+  };
+
+  const stop = () => {
+    if (pending) {
+      loopPlayers.get(pending.tone)?.stop();
+      pending = undefined;
+      setBlocked(false);
+    }
+    if (!playing) return;
+    loopPlayers.get(playing)?.stop();
+    console.log(`⏹️ ${playing} alarm tone stopped`);
+    playing = undefined;
+  };
+
+  return {
+    /**
+     * Sound this tone (or silence) - switching tones stops the previous one
+     */
+    sync(tone: AlarmTone | undefined, volume: number) {
+      if (tone && tone === pending?.tone) {
+        pending.volume = volume;
+        loopPlayers.get(tone)?.setVolume(volume);
+        return;
+      }
+      if (tone === playing && !pending) {
+        if (tone) loopPlayers.get(tone)?.setVolume(volume);
+        return;
+      }
+      stop();
+      if (tone) start(tone, volume);
+    },
+
+    /**
+     * Start the pending tone again - call from a user gesture once playback was blocked
+     */
+    retry() {
+      if (pending && blocked) start(pending.tone, pending.volume);
+    },
+
+    /**
+     * Play a sound once - "test alarm sounds" and the all-clear chime
+     */
+    playOnce(sound: AlarmSound, volume: number) {
+      getPlayer(oncePlayers, sound, false).play(volume).catch(error => {
+        console.error(`Failed to play ${sound} alarm sound:`, error);
+      });
+    },
+
+    stopAll() {
+      stop();
+      oncePlayers.forEach(player => player.stop());
+    },
+
+    /** Tone currently looping */
+    getPlaying(): AlarmTone | undefined {
+      return playing;
+    },
+
+    /** Whether the browser is blocking an alarm that should be sounding */
+    isBlocked(): boolean {
+      return blocked;
+    },
+
+    /** Listen for the blocked state changing - returns the unsubscribe */
+    onBlockedChange(listener: (blocked: boolean) => void): () => void {
+      blockedListeners.add(listener);
+      return () => blockedListeners.delete(listener);
+    },
+  };
+}
+
+export type AlarmManager = ReturnType<typeof createAlarmManager>;
+
+const SAMPLE_RATE = 44100;
+
+// Rendered on first use and shared by the looping and one-shot players
+const soundBlobs = new Map<AlarmSound, Blob>();
+
+function getSoundBlob(sound: AlarmSound): Blob {
+  let blob = soundBlobs.get(sound);
+  if (!blob) {
+    const pattern = sound === 'all-clear' ? ALL_CLEAR_PATTERN : ALARM_TONE_PATTERNS[sound];
+    blob = new Blob([samplesToWav(renderTonePattern(pattern, SAMPLE_RATE), SAMPLE_RATE)], { type: 'audio/wav' });
+    soundBlobs.set(sound, blob);
+  }
+  return blob;
+}
+
+function createAudioPlayer(sound: AlarmSound, loop: boolean): AlarmPlayer {
+  const audioElement = new Audio();
+  audioElement.src = URL.createObjectURL(getSoundBlob(sound));
+  audioElement.loop = loop;
+
+  return {
+    play: (volume) => {
+      audioElement.volume = volume;
+      audioElement.currentTime = 0;
+      return audioElement.play();
+    },
+    setVolume: (volume) => {
+      audioElement.volume = volume;
+    },
+    stop: () => {
+      audioElement.pause();
+      audioElement.currentTime = 0;
+    },
+  };
+}
+
+// Mono 16-bit PCM WAV
+function samplesToWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);              // Block align
+  view.setUint16(34, 16, true);             // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF, true);
+  });
+
+  return view.buffer;
+}
+
+/** The dashboard's alarm manager - driven by useAlarmManager */
+export const alarmManager = createAlarmManager();
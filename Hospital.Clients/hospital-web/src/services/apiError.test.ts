@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError, describeApiError, parseRetryAfter, CORRELATION_ID_HEADER } from './apiError';
+import { shouldRetryRequest, getRetryDelay, API_RETRY_POLICY } from './retryPolicy';
+
+const request = {
+  action: 'fetch patients',
+  method: 'GET',
+  endpoint: '/patients',
+  correlationId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+};
+
+function httpError(status: number, init: { problem?: object; retryAfter?: string } = {}) {
+  return new ApiError({
+    ...request,
+    kind: 'http',
+    status,
+    statusText: 'Status',
+    problem: init.problem,
+    retryAfterMs: parseRetryAfter(init.retryAfter ?? null),
+  });
+}
+
+describe('ApiError', () => {
+  describe('fromResponse', () => {
+    it('parses a problem-details body', async () => {
+      const response = new Response(
+        JSON.stringify({ title: 'Not Found', status: 404, detail: 'Patient p9 not found', traceId: 'abc' }),
+        { status: 404, statusText: 'Not Found', headers: { 'Content-Type': 'application/problem+json' } }
+      );
+
+      const error = await ApiError.fromResponse(response, request);
+
+      expect(error.kind).toBe('http');
+      expect(error.status).toBe(404);
+      expect(error.endpoint).toBe('/patients');
+      expect(error.problem?.detail).toBe('Patient p9 not found');
+      expect(error.message).toBe('Failed to fetch patients: Patient p9 not found');
+    });
+
+    it('treats a JSON string body as the detail', async () => {
+      const response = new Response(JSON.stringify('Invalid vital signs values'), { status: 400, statusText: 'Bad Request' });
+
+      const error = await ApiError.fromResponse(response, request);
+
+      expect(error.problem?.detail).toBe('Invalid vital signs values');
+    });
+
+    it('falls back to the status text for an empty body', async () => {
+      const response = new Response(null, { status: 500, statusText: 'Internal Server Error' });
+
+      const error = await ApiError.fromResponse(response, request);
+
+      expect(error.problem).toBeUndefined();
+      expect(error.message).toBe('Failed to fetch patients: Internal Server Error');
+    });
+
+    it('prefers the correlation ID echoed by the server', async () => {
+      const response = new Response(null, { status: 503, headers: { [CORRELATION_ID_HEADER]: 'server-id' } });
+
+      const error = await ApiError.fromResponse(response, request);
+
+      expect(error.correlationId).toBe('server-id');
+    });
+
+    it('reads Retry-After in seconds', async () => {
+      const response = new Response(null, { status: 429, headers: { 'Retry-After': '5' } });
+
+      const error = await ApiError.fromResponse(response, request);
+
+      expect(error.retryAfterMs).toBe(5000);
+    });
+  });
+
+  describe('fromFetchFailure', () => {
+    it('classifies an abort as a timeout', () => {
+      const error = ApiError.fromFetchFailure(new DOMException('aborted', 'AbortError'), request);
+
+      expect(error.isTimeout).toBe(true);
+      expect(error.isNetwork).toBe(false);
+      expect(error.isRetryable).toBe(true);
+    });
+
+    it('classifies a failed fetch as a network error', () => {
+      const error = ApiError.fromFetchFailure(new TypeError('Failed to fetch'), request);
+
+      expect(error.isNetwork).toBe(true);
+      expect(error.isRetryable).toBe(true);
+    });
+  });
+
+  describe('isRetryable', () => {
+    it.each([408, 429, 500, 502, 503, 504])('retries HTTP %i', (status) => {
+      expect(httpError(status).isRetryable).toBe(true);
+    });
+
+    it.each([400, 401, 404, 409, 422, 501])('does not retry HTTP %i', (status) => {
+      expect(httpError(status).isRetryable).toBe(false);
+    });
+  });
+});
+
+describe('describeApiError', () => {
+  it('explains a timeout as a possible cold start', () => {
+    const error = ApiError.fromFetchFailure(new DOMException('aborted', 'AbortError'), request);
+    expect(describeApiError(error)).toContain('cold start');
+  });
+
+  it('explains a network failure as the server being unreachable', () => {
+    const error = ApiError.fromFetchFailure(new TypeError('Failed to fetch'), request);
+    expect(describeApiError(error)).toContain('unreachable');
+  });
+
+  it('explains a 503 as temporarily unavailable', () => {
+    expect(describeApiError(httpError(503))).toContain('temporarily unavailable');
+  });
+
+  it('includes the problem detail for a rejected request', () => {
+    const message = describeApiError(httpError(404, { problem: { detail: 'Patient p9 not found' } }));
+    expect(message).toContain('rejected the request (404)');
+    expect(message).toContain('Patient p9 not found');
+  });
+
+  it('includes a short correlation reference', () => {
+    expect(describeApiError(httpError(500))).toContain('(ref 0f8fad5b)');
+  });
+
+  it('falls back to the message of a plain error', () => {
+    expect(describeApiError(new Error('boom'))).toBe('boom');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('returns undefined when absent', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10_000);
+  });
+});
+
+describe('retryPolicy', () => {
+  it('never retries a rejected request', () => {
+    expect(shouldRetryRequest(0, httpError(400))).toBe(false);
+  });
+
+  it('retries server errors up to the limit', () => {
+    expect(shouldRetryRequest(API_RETRY_POLICY.maxRetries - 1, httpError(503))).toBe(true);
+    expect(shouldRetryRequest(API_RETRY_POLICY.maxRetries, httpError(503))).toBe(false);
+  });
+
+  it('retries a timeout only once', () => {
+    const error = ApiError.fromFetchFailure(new DOMException('aborted', 'AbortError'), request);
+    expect(shouldRetryRequest(0, error)).toBe(true);
+    expect(shouldRetryRequest(1, error)).toBe(false);
+  });
+
+  it('backs off exponentially up to the cap', () => {
+    expect(getRetryDelay(0)).toBe(1000);
+    expect(getRetryDelay(2)).toBe(4000);
+    expect(getRetryDelay(10)).toBe(API_RETRY_POLICY.maxDelayMs);
+  });
+
+  it('honours Retry-After', () => {
+    expect(getRetryDelay(0, httpError(429, { retryAfter: '3' }))).toBe(3000);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * API Error Model
+ * Every hospitalApi failure is thrown as an ApiError so callers can tell a cold-starting
+ * backend (timeout), an unreachable one (network) and a rejected request (HTTP 4xx/5xx) apart.
+ */
+
+/** RFC 7807 problem details body as returned by ASP.NET Core (`Results.Problem`) */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  traceId?: string;
+  errors?: Record<string, string[]>;
+}
+
+export type ApiErrorKind = 'http' | 'timeout' | 'network';
+
+/** Header used to correlate a client request with backend logs */
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+interface ApiErrorInit {
+  kind: ApiErrorKind;
+  action: string;
+  method: string;
+  endpoint: string;
+  correlationId: string;
+  status?: number;
+  statusText?: string;
+  problem?: ProblemDetails;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly method: string;
+  readonly endpoint: string;
+  readonly correlationId: string;
+  readonly status?: number;
+  readonly problem?: ProblemDetails;
+  readonly retryAfterMs?: number;
+
+  constructor(init: ApiErrorInit) {
+    super(`Failed to ${init.action}: ${reasonFor(init)}`, { cause: init.cause });
+    this.name = 'ApiError';
+    this.kind = init.kind;
+    this.method = init.method;
+    this.endpoint = init.endpoint;
+    this.correlationId = init.correlationId;
+    this.status = init.status;
+    this.problem = init.problem;
+    this.retryAfterMs = init.retryAfterMs;
+  }
+
+  /** Request aborted by the client-side timeout (typically an Azure cold start) */
+  get isTimeout(): boolean {
+    return this.kind === 'timeout';
+  }
+
+  /** No response at all - backend down, DNS/CORS failure or offline */
+  get isNetwork(): boolean {
+    return this.kind === 'network';
+  }
+
+  /** Worth retrying: transient transport failures, throttling and gateway/server errors */
+  get isRetryable(): boolean {
+    if (this.kind !== 'http') return true;
+    const status = this.status ?? 0;
+    return status === 408 || status === 429 || (status >= 500 && status !== 501);
+  }
+
+  /**
+   * Build an ApiError from a non-2xx response, parsing a problem-details (or plain text) body
+   */
+  static async fromResponse(
+    response: Response,
+    request: { action: string; method: string; endpoint: string; correlationId: string }
+  ): Promise<ApiError> {
+    return new ApiError({
+      ...request,
+      kind: 'http',
+      // Prefer the server's echo in case a proxy assigned its own ID
+      correlationId: response.headers.get(CORRELATION_ID_HEADER) ?? request.correlationId,
+      status: response.status,
+      statusText: response.statusText,
+      problem: await readProblemDetails(response),
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+
+  /**
+   * Build an ApiError from a rejected fetch (abort from the timeout, or a network failure)
+   */
+  static fromFetchFailure(
+    error: unknown,
+    request: { action: string; method: string; endpoint: string; correlationId: string }
+  ): ApiError {
+    const isAbort = error instanceof DOMException && (error.name === 'AbortError' || error.name === 'TimeoutError');
+    return new ApiError({ ...request, kind: isAbort ? 'timeout' : 'network', cause: error });
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * User-facing explanation of a failure - says whether the backend is starting up, down, or rejected the request
+ */
+export function describeApiError(error: unknown): string {
+  if (!isApiError(error)) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const ref = ` (ref ${error.correlationId.slice(0, 8)})`;
+
+  if (error.isTimeout) {
+    return `The server did not respond in time - it may be starting up after a cold start. Try again in a moment.${ref}`;
+  }
+  if (error.isNetwork) {
+    return `The server is unreachable - it may be down or you may be offline.${ref}`;
+  }
+
+  const status = error.status ?? 0;
+  const detail = error.problem?.detail ?? error.problem?.title;
+
+  if (status === 502 || status === 503 || status === 504) {
+    return `The server is temporarily unavailable (${status}) - it may be starting up or restarting.${ref}`;
+  }
+  if (status >= 500) {
+    return `The server failed to process the request (${status}).${ref}`;
+  }
+  return `The server rejected the request (${status})${detail ? `: ${detail}` : '.'}${ref}`;
+}
+
+function reasonFor(init: ApiErrorInit): string {
+  if (init.kind === 'timeout') return 'request timed out';
+  if (init.kind === 'network') return 'network error';
+  return init.problem?.detail ?? init.problem?.title ?? init.statusText ?? `HTTP ${init.status}`;
+}
+
+async function readProblemDetails(response: Response): Promise<ProblemDetails | undefined> {
+  let text: string;
+  try {
+    text = await response.text();
+  } catch {
+    return undefined;
+  }
+  if (!text) return undefined;
+
+  try {
+    const body: unknown = JSON.parse(text);
+    if (typeof body === 'string') {
+      // Results.NotFound("...") style bodies are JSON strings
+      return { status: response.status, detail: body };
+    }
+    if (body && typeof body === 'object') {
+      return body as ProblemDetails;
+    }
+  } catch {
+    // Not JSON - fall through to plain text
+  }
+  return { status: response.status, detail: text };
+}
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  decodePayload,
+  decodeList,
+  decodePatient,
+  decodeAlert,
+  decodeVitalSignsUpdate,
+  decodeNurseAttendingChange,
+  decodeAlarmLimitProfile,
+  decodePatientAlarmLimitsChange,
+  type ContractViolation,
+} from './contracts';
+import { useHospitalStore } from '../store/hospitalStore';
+
+function decode<T>(decoder: (raw: unknown, path: string, violations: ContractViolation[]) => T | null, raw: unknown) {
+  const violations: ContractViolation[] = [];
+  const value = decoder(raw, '$', violations);
+  return { value, violations };
+}
+
+const vitals = (recordedAt: string, heartRate: number) => ({
+  id: `v-${heartRate}`,
+  patientId: 'p1',
+  heartRate,
+  spO2: 97,
+  bpSystolic: 120,
+  bpDiastolic: 80,
+  temperature: null,
+  recordedAt,
+});
+
+const patient = {
+  id: 'p1',
+  mrn: 'MRN-001',
+  name: 'John Doe',
+  status: 'stable',
+  admittedAt: '2025-01-01T08:00:00Z',
+  injectionModeEnabled: false,
+  nurseAttending: true,
+  bed: { id: 'b1', number: '101', wardId: 'w1', status: 'occupied', ward: { id: 'w1', name: 'ICU', capacity: 10 } },
+  vitalSigns: [
+    vitals('2025-01-01T10:00:00Z', 70),
+    vitals('2025-01-01T10:00:05Z', 72),
+  ],
+  alerts: [],
+};
+
+describe('contracts', () => {
+  describe('decodePatient', () => {
+    it('decodes a valid patient without violations', () => {
+      const { value, violations } = decode(decodePatient, patient);
+
+      expect(violations).toEqual([]);
+      expect(value?.name).toBe('John Doe');
+      expect(value?.bed?.ward?.name).toBe('ICU');
+      expect(value?.nurseAttending).toBe(true);
+    });
+
+    it('orders vitals newest first', () => {
+      const { value } = decode(decodePatient, patient);
+
+      expect(value?.vitalSigns.map(v => v.heartRate)).toEqual([72, 70]);
+    });
+
+    it('normalises null vitals to undefined', () => {
+      const { value } = decode(decodePatient, patient);
+
+      expect(value?.vitalSigns[0].temperature).toBeUndefined();
+    });
+
+    it('accepts the latestVitals variant', () => {
+      const { value, violations } = decode(decodePatient, {
+        ...patient,
+        vitalSigns: undefined,
+        latestVitals: vitals('2025-01-01T10:00:00Z', 88),
+      });
+
+      expect(violations).toEqual([]);
+      expect(value?.vitalSigns).toHaveLength(1);
+      expect(value?.vitalSigns[0].heartRate).toBe(88);
+    });
+
+    it('defaults missing alerts and vitals to empty lists', () => {
+      const { value } = decode(decodePatient, { id: 'p2', name: 'Jane', status: 'watch' });
+
+      expect(value?.vitalSigns).toEqual([]);
+      expect(value?.alerts).toEqual([]);
+    });
+
+    it('flags an unknown status and shows the patient as watch', () => {
+      const { value, violations } = decode(decodePatient, { ...patient, status: 'deceased' });
+
+      expect(value?.status).toBe('watch');
+      expect(violations).toEqual([{ path: '$.status', message: 'unknown status "deceased"' }]);
+    });
+
+    it('normalises the status case', () => {
+      const { value } = decode(decodePatient, { ...patient, status: 'CRITICAL' });
+
+      expect(value?.status).toBe('critical');
+    });
+
+    it('rejects a patient without an id', () => {
+      const { value, violations } = decode(decodePatient, { ...patient, id: undefined });
+
+      expect(value).toBeNull();
+      expect(violations[0].path).toBe('$.id');
+    });
+
+    it('drops malformed vitals and reports their path', () => {
+      const { value, violations } = decode(decodePatient, {
+        ...patient,
+        vitalSigns: [vitals('2025-01-01T10:00:00Z', 70), { patientId: 'p1', heartRate: 'fast' }],
+      });
+
+      expect(value?.vitalSigns).toHaveLength(1);
+      expect(violations.map(v => v.path)).toEqual(['$.vitalSigns[1].recordedAt']);
+    });
+  });
+
+  describe('decodeAlert', () => {
+    const alert = {
+      id: 'a1',
+      patientId: 'p1',
+      alertType: 'hr_critical',
+      severity: 'Critical',
+      message: 'HR 140',
+      triggeredAt: '2025-01-01T10:00:00Z',
+      isActive: true,
+    };
+
+    it('maps numeric severity from the C# enum', () => {
+      expect(decode(decodeAlert, { ...alert, severity: 3 }).value?.severity).toBe('Critical');
+      expect(decode(decodeAlert, { ...alert, severity: 1 }).value?.severity).toBe('Medium');
+    });
+
+    it('rejects an unknown severity', () => {
+      const { value, violations } = decode(decodeAlert, { ...alert, severity: 'Catastrophic' });
+
+      expect(value).toBeNull();
+      expect(violations[0].path).toBe('$.severity');
+    });
+
+    it('treats a timestamp without offset as UTC', () => {
+      const { value } = decode(decodeAlert, { ...alert, triggeredAt: '2025-01-01T10:00:00.123' });
+
+      expect(value?.triggeredAt).toBe('2025-01-01T10:00:00.123Z');
+    });
+  });
+
+  describe('decodeList', () => {
+    it('reports a non-array as a violation and returns an empty list', () => {
+      const { value, violations } = decode(decodeList(decodePatient), { patients: [] });
+
+      expect(value).toEqual([]);
+      expect(violations).toEqual([{ path: '$', message: 'expected array, got object' }]);
+    });
+  });
+
+  describe('hub payloads', () => {
+    it('decodes a vital update', () => {
+      const { value, violations } = decode(decodeVitalSignsUpdate, {
+        patientId: 'p1',
+        patientName: 'John Doe',
+        bed: null,
+        heartRate: 72,
+        spO2: null,
+        alertSeverity: 'Low',
+        recordedAt: '2025-01-01T10:00:00Z',
+      });
+
+      expect(violations).toEqual([]);
+      expect(value?.bed).toBeUndefined();
+      expect(value?.spO2).toBeUndefined();
+    });
+
+    it('carries temperature on a vital update', () => {
+      const { value } = decode(decodeVitalSignsUpdate, {
+        patientId: 'p1',
+        temperature: 38.6,
+        alertSeverity: 'Low',
+        recordedAt: '2025-01-01T10:00:00Z',
+      });
+
+      expect(value?.temperature).toBe(38.6);
+    });
+
+    it('carries the NEWS2 observations on a vital update', () => {
+      const { value, violations } = decode(decodeVitalSignsUpdate, {
+        patientId: 'p1',
+        respiratoryRate: 22,
+        consciousness: 'v',
+        onSupplementalOxygen: true,
+        alertSeverity: 'Low',
+        recordedAt: '2025-01-01T10:00:00Z',
+      });
+
+      expect(violations).toEqual([]);
+      expect(value?.respiratoryRate).toBe(22);
+      expect(value?.consciousness).toBe('V');
+      expect(value?.onSupplementalOxygen).toBe(true);
+    });
+
+    it('flags an unknown consciousness level and leaves it unscored', () => {
+      const { value, violations } = decode(decodeVitalSignsUpdate, {
+        patientId: 'p1',
+        consciousness: 'drowsy',
+        alertSeverity: 'Low',
+        recordedAt: '2025-01-01T10:00:00Z',
+      });
+
+      expect(value?.consciousness).toBeUndefined();
+      expect(violations[0].path).toBe('$.consciousness');
+    });
+
+    it('rejects a nurse change without the flag', () => {
+      const { value } = decode(decodeNurseAttendingChange, { patientId: 'p1', patientName: 'John Doe' });
+
+      expect(value).toBeNull();
+    });
+  });
+
+  describe('alarm limits', () => {
+    const limits = {
+      hrCriticalLow: 45, hrMediumLow: 55, hrMediumHigh: 110, hrCriticalHigh: 130,
+      spO2CriticalBelow: 84, spO2HighBelow: 86, spO2MediumBelow: 88,
+      bpCriticalSystolic: 180, bpCriticalDiastolic: 110, bpHighSystolic: 160,
+      bpHighDiastolic: 100, bpMediumSystolic: 140, bpMediumDiastolic: 90,
+    };
+
+    it('decodes a profile', () => {
+      const { value, violations } = decode(decodeAlarmLimitProfile, { id: 'copd', name: 'COPD', description: null, limits });
+
+      expect(violations).toEqual([]);
+      expect(value?.limits.spO2HighBelow).toBe(86);
+      expect(value?.description).toBeUndefined();
+    });
+
+    it('rejects a profile with a missing limit instead of defaulting it', () => {
+      const { value, violations } = decode(decodeAlarmLimitProfile, {
+        id: 'copd',
+        name: 'COPD',
+        limits: { ...limits, spO2CriticalBelow: undefined },
+      });
+
+      expect(value).toBeNull();
+      expect(violations[0].message).toContain('spO2CriticalBelow');
+    });
+
+    it('keeps only the overrides that are set', () => {
+      const { value } = decode(decodePatient, {
+        ...patient,
+        alarmLimitProfileId: 'copd',
+        alarmLimitOverrides: { hrCriticalLow: 40, hrMediumLow: null },
+      });
+
+      expect(value?.alarmLimitProfileId).toBe('copd');
+      expect(value?.alarmLimitOverrides).toEqual({ hrCriticalLow: 40 });
+    });
+
+    it('treats empty overrides on a change as none', () => {
+      const { value } = decode(decodePatientAlarmLimitsChange, {
+        patientId: 'p1',
+        alarmLimitProfileId: null,
+        alarmLimitOverrides: {},
+        changedAt: '2025-01-01T10:00:00Z',
+      });
+
+      expect(value?.alarmLimitOverrides).toBeUndefined();
+      expect(value?.alarmLimitProfileId).toBeUndefined();
+    });
+  });
+
+  describe('decodePayload', () => {
+    beforeEach(() => {
+      useHospitalStore.getState().clearSignalRLogs();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('reports violations to the SignalR terminal', () => {
+      decodePayload(decodeAlert, { id: 'a1' }, 'test-source-1');
+
+      const [entry] = useHospitalStore.getState().signalRLogs;
+      expect(entry.eventType).toBe('Contract');
+      expect(entry.data.source).toBe('test-source-1');
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('reports the same violation only once a minute', () => {
+      decodePayload(decodeAlert, { id: 'a1' }, 'test-source-2');
+      decodePayload(decodeAlert, { id: 'a2' }, 'test-source-2');
+
+      expect(useHospitalStore.getState().signalRLogs).toHaveLength(1);
+    });
+
+    it('does not report a valid payload', () => {
+      decodePayload(decodePatient, patient, 'test-source-3');
+
+      expect(useHospitalStore.getState().signalRLogs).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,504 @@
+import { useHospitalStore } from '../store/hospitalStore';
+import type {
+  AlarmLimitOverrides,
+  AlarmLimitProfile,
+  AlarmLimits,
+  Alert,
+  AlertAcknowledgement,
+  AlertNotification,
+  AlertSeverity,
+  Bed,
+  Consciousness,
+  InjectionModeChange,
+  NurseAttendingChange,
+  PagedResult,
+  Patient,
+  PatientAlarmLimitsChange,
+  PatientStatus,
+  ServerTime,
+  VitalSigns,
+  VitalSignsUpdate,
+  Ward,
+  WardAlarmLimitsChange,
+} from '../types/hospital';
+import { DEFAULT_ALARM_LIMITS } from '../utils/clinicalThresholds';
+
+/**
+ * Runtime Contract Decoders
+ * `types/hospital.ts` only mirrors the C# DTOs at compile time. Every REST response and
+ * SignalR payload goes through these decoders at the boundary, which:
+ * - normalise known shape variants (latestVitals vs vitalSigns, numeric enums, nulls, UTC timestamps)
+ * - drop records that are missing identifying fields instead of crashing a card deep in the render tree
+ * - collect contract violations so they can be reported to the SignalR terminal and console
+ */
+
+export interface ContractViolation {
+  path: string;
+  message: string;
+}
+
+/** Decoder: returns the normalised value, or null when the payload is unusable */
+export type Decoder<T> = (raw: unknown, path: string, violations: ContractViolation[]) => T | null;
+
+/** C# enum order - System.Text.Json serialises enums as numbers unless told otherwise */
+const SEVERITIES: AlertSeverity[] = ['Low', 'Medium', 'High', 'Critical'];
+const PATIENT_STATUSES: PatientStatus[] = ['stable', 'watch', 'critical'];
+const CONSCIOUSNESS_LEVELS: Consciousness[] = ['A', 'C', 'V', 'P', 'U'];
+
+// ISO 8601 with a Z or ±hh:mm designator
+const TIMEZONE_SUFFIX = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+type RawObject = Record<string, unknown>;
+
+function isObject(raw: unknown): raw is RawObject {
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+}
+
+function requireObject(raw: unknown, path: string, violations: ContractViolation[]): RawObject | null {
+  if (isObject(raw)) return raw;
+  violations.push({ path, message: `expected object, got ${describeType(raw)}` });
+  return null;
+}
+
+function describeType(raw: unknown): string {
+  if (raw === null) return 'null';
+  if (Array.isArray(raw)) return 'array';
+  return typeof raw;
+}
+
+function requiredString(obj: RawObject, key: string, path: string, violations: ContractViolation[]): string | null {
+  const value = obj[key];
+  if (typeof value === 'string' && value.length > 0) return value;
+  violations.push({ path: `${path}.${key}`, message: `expected non-empty string, got ${describeType(value)}` });
+  return null;
+}
+
+function optionalString(obj: RawObject, key: string, path: string, violations: ContractViolation[]): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return value;
+  violations.push({ path: `${path}.${key}`, message: `expected string, got ${describeType(value)}` });
+  return undefined;
+}
+
+/**
+ * Optional number - C# nullable ints arrive as null, normalised to undefined
+ */
+function optionalNumber(obj: RawObject, key: string, path: string, violations: ContractViolation[]): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  violations.push({ path: `${path}.${key}`, message: `expected number, got ${describeType(value)}` });
+  return undefined;
+}
+
+function optionalBoolean(obj: RawObject, key: string, path: string, violations: ContractViolation[]): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'boolean') return value;
+  violations.push({ path: `${path}.${key}`, message: `expected boolean, got ${describeType(value)}` });
+  return undefined;
+}
+
+function optionalConsciousness(obj: RawObject, key: string, path: string, violations: ContractViolation[]): Consciousness | undefined {
+  const value = optionalString(obj, key, path, violations)?.toUpperCase();
+  if (value === undefined) return undefined;
+  const level = CONSCIOUSNESS_LEVELS.find(c => c === value);
+  if (!level) violations.push({ path: `${path}.${key}`, message: `unknown consciousness level ${JSON.stringify(obj[key])}` });
+  return level;
+}
+
+/**
+ * Timestamp - a DateTime with Kind=Unspecified serialises without an offset; the backend stores UTC,
+ * so treat a missing designator as UTC rather than letting the browser parse it as local time
+ */
+function normaliseTimestamp(value: unknown, path: string, violations: ContractViolation[]): string | null {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    violations.push({ path, message: `expected ISO 8601 timestamp, got ${describeType(value)}` });
+    return null;
+  }
+  return TIMEZONE_SUFFIX.test(value) ? value : `${value}Z`;
+}
+
+function requiredTimestamp(obj: RawObject, key: string, path: string, violations: ContractViolation[]): string | null {
+  return normaliseTimestamp(obj[key], `${path}.${key}`, violations);
+}
+
+function optionalTimestamp(obj: RawObject, key: string, path: string, violations: ContractViolation[]): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  return normaliseTimestamp(value, `${path}.${key}`, violations) ?? undefined;
+}
+
+/**
+ * Severity - accepts the enum name in any case or its numeric value
+ */
+function normaliseSeverity(value: unknown, path: string, violations: ContractViolation[]): AlertSeverity | null {
+  if (typeof value === 'number' && SEVERITIES[value]) return SEVERITIES[value];
+  if (typeof value === 'string') {
+    const match = SEVERITIES.find(s => s.toLowerCase() === value.toLowerCase());
+    if (match) return match;
+  }
+  violations.push({ path, message: `unknown severity ${JSON.stringify(value)}` });
+  return null;
+}
+
+/**
+ * Decode an array, dropping (and reporting) items that fail to decode
+ */
+export function decodeList<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (raw, path, violations) => {
+    if (!Array.isArray(raw)) {
+      violations.push({ path, message: `expected array, got ${describeType(raw)}` });
+      return [];
+    }
+    return raw
+      .map((item, index) => decoder(item, `${path}[${index}]`, violations))
+      .filter((item): item is T => item !== null);
+  };
+}
+
+const ALARM_LIMIT_KEYS = Object.keys(DEFAULT_ALARM_LIMITS) as (keyof AlarmLimits)[];
+
+/**
+ * Overrides - only the limits that are present; null (C# int?) means "keep the profile's value"
+ */
+export const decodeAlarmLimitOverrides: Decoder<AlarmLimitOverrides> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const overrides: AlarmLimitOverrides = {};
+  for (const key of ALARM_LIMIT_KEYS) {
+    const value = optionalNumber(obj, key, path, violations);
+    if (value !== undefined) overrides[key] = value;
+  }
+  return overrides;
+};
+
+/**
+ * Full limit set - a profile missing a limit is unusable rather than silently defaulted
+ */
+export const decodeAlarmLimits: Decoder<AlarmLimits> = (raw, path, violations) => {
+  const overrides = decodeAlarmLimitOverrides(raw, path, violations);
+  if (!overrides) return null;
+  const missing = ALARM_LIMIT_KEYS.filter(key => overrides[key] === undefined);
+  if (missing.length > 0) {
+    violations.push({ path, message: `missing alarm limits ${missing.join(', ')}` });
+    return null;
+  }
+  return { ...DEFAULT_ALARM_LIMITS, ...overrides };
+};
+
+export const decodeAlarmLimitProfile: Decoder<AlarmLimitProfile> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const id = requiredString(obj, 'id', path, violations);
+  const limits = decodeAlarmLimits(obj.limits, `${path}.limits`, violations);
+  if (!id || !limits) return null;
+  return {
+    id,
+    name: optionalString(obj, 'name', path, violations) ?? id,
+    description: optionalString(obj, 'description', path, violations),
+    limits,
+  };
+};
+
+function optionalOverrides(obj: RawObject, key: string, path: string, violations: ContractViolation[]): AlarmLimitOverrides | undefined {
+  if (obj[key] == null) return undefined;
+  const overrides = decodeAlarmLimitOverrides(obj[key], `${path}.${key}`, violations);
+  return overrides && Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+export const decodeWard: Decoder<Ward> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const id = requiredString(obj, 'id', path, violations);
+  if (!id) return null;
+  return {
+    id,
+    name: optionalString(obj, 'name', path, violations) ?? id,
+    capacity: optionalNumber(obj, 'capacity', path, violations) ?? 0,
+    alarmLimitProfileId: optionalString(obj, 'alarmLimitProfileId', path, violations),
+  };
+};
+
+export const decodeBed: Decoder<Bed> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const id = requiredString(obj, 'id', path, violations);
+  if (!id) return null;
+  return {
+    id,
+    number: optionalString(obj, 'number', path, violations) ?? '',
+    wardId: optionalString(obj, 'wardId', path, violations) ?? '',
+    status: optionalString(obj, 'status', path, violations) ?? '',
+    ward: obj.ward == null ? undefined : decodeWard(obj.ward, `${path}.ward`, violations) ?? undefined,
+  };
+};
+
+export const decodeVitalSigns: Decoder<VitalSigns> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const recordedAt = requiredTimestamp(obj, 'recordedAt', path, violations);
+  if (!patientId || !recordedAt) return null;
+  return {
+    id: optionalString(obj, 'id', path, violations) ?? crypto.randomUUID(),
+    patientId,
+    heartRate: optionalNumber(obj, 'heartRate', path, violations),
+    spO2: optionalNumber(obj, 'spO2', path, violations),
+    bpSystolic: optionalNumber(obj, 'bpSystolic', path, violations),
+    bpDiastolic: optionalNumber(obj, 'bpDiastolic', path, violations),
+    temperature: optionalNumber(obj, 'temperature', path, violations),
+    respiratoryRate: optionalNumber(obj, 'respiratoryRate', path, violations),
+    consciousness: optionalConsciousness(obj, 'consciousness', path, violations),
+    onSupplementalOxygen: optionalBoolean(obj, 'onSupplementalOxygen', path, violations),
+    recordedAt,
+    recordedBy: optionalString(obj, 'recordedBy', path, violations),
+  };
+};
+
+export const decodeAlert: Decoder<Alert> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const id = requiredString(obj, 'id', path, violations);
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const severity = normaliseSeverity(obj.severity, `${path}.severity`, violations);
+  const triggeredAt = requiredTimestamp(obj, 'triggeredAt', path, violations);
+  if (!id || !patientId || !severity || !triggeredAt) return null;
+  return {
+    id,
+    patientId,
+    alertType: optionalString(obj, 'alertType', path, violations) ?? 'unknown',
+    severity,
+    message: optionalString(obj, 'message', path, violations) ?? '',
+    triggeredAt,
+    acknowledgedAt: optionalTimestamp(obj, 'acknowledgedAt', path, violations),
+    acknowledgedBy: optionalString(obj, 'acknowledgedBy', path, violations),
+    isActive: optionalBoolean(obj, 'isActive', path, violations) ?? !obj.acknowledgedAt,
+  };
+};
+
+export const decodePatient: Decoder<Patient> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const id = requiredString(obj, 'id', path, violations);
+  if (!id) return null;
+
+  const rawStatus = typeof obj.status === 'string' ? obj.status.toLowerCase() : obj.status;
+  let status = PATIENT_STATUSES.find(s => s === rawStatus);
+  if (!status) {
+    // Keep the patient on screen but flag it for review rather than showing it as stable
+    violations.push({ path: `${path}.status`, message: `unknown status ${JSON.stringify(obj.status)}` });
+    status = 'watch';
+  }
+
+  // Known variant: some responses carry a single `latestVitals` object instead of the `vitalSigns` list
+  const rawVitals = obj.vitalSigns ?? (obj.latestVitals != null ? [obj.latestVitals] : []);
+  const vitalSigns = (decodeList(decodeVitalSigns)(rawVitals, `${path}.vitalSigns`, violations) ?? [])
+    // The API returns readings oldest first (for charts) - the dashboard expects the latest at [0]
+    .sort((a, b) => Date.parse(b.recordedAt) - Date.parse(a.recordedAt));
+
+  return {
+    id,
+    mrn: optionalString(obj, 'mrn', path, violations) ?? '',
+    name: optionalString(obj, 'name', path, violations) ?? id,
+    bedId: optionalString(obj, 'bedId', path, violations),
+    status,
+    admittedAt: optionalTimestamp(obj, 'admittedAt', path, violations) ?? '',
+    attendingPhysician: optionalString(obj, 'attendingPhysician', path, violations),
+    primaryDiagnosis: optionalString(obj, 'primaryDiagnosis', path, violations),
+    injectionModeEnabled: optionalBoolean(obj, 'injectionModeEnabled', path, violations),
+    nurseAttending: optionalBoolean(obj, 'nurseAttending', path, violations),
+    spO2Scale: optionalNumber(obj, 'spO2Scale', path, violations) === 2 ? 2 : undefined,
+    alarmLimitProfileId: optionalString(obj, 'alarmLimitProfileId', path, violations),
+    alarmLimitOverrides: optionalOverrides(obj, 'alarmLimitOverrides', path, violations),
+    bed: obj.bed == null ? undefined : decodeBed(obj.bed, `${path}.bed`, violations) ?? undefined,
+    vitalSigns,
+    alerts: obj.alerts == null ? [] : decodeList(decodeAlert)(obj.alerts, `${path}.alerts`, violations) ?? [],
+  };
+};
+
+export function decodePagedResult<T>(decoder: Decoder<T>): Decoder<PagedResult<T>> {
+  return (raw, path, violations) => {
+    const obj = requireObject(raw, path, violations);
+    if (!obj) return null;
+    const items = decodeList(decoder)(obj.items, `${path}.items`, violations) ?? [];
+    return {
+      items,
+      page: optionalNumber(obj, 'page', path, violations) ?? 1,
+      pageSize: optionalNumber(obj, 'pageSize', path, violations) ?? items.length,
+      totalCount: optionalNumber(obj, 'totalCount', path, violations) ?? items.length,
+    };
+  };
+}
+
+export const decodeServerTime: Decoder<ServerTime> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const utcNow = requiredTimestamp(obj, 'utcNow', path, violations);
+  if (!utcNow) return null;
+  return { utcNow };
+};
+
+/**
+ * SignalR hub payloads
+ */
+
+export const decodeVitalSignsUpdate: Decoder<VitalSignsUpdate> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const recordedAt = requiredTimestamp(obj, 'recordedAt', path, violations);
+  const alertSeverity = normaliseSeverity(obj.alertSeverity, `${path}.alertSeverity`, violations);
+  if (!patientId || !recordedAt || !alertSeverity) return null;
+  return {
+    patientId,
+    patientName: optionalString(obj, 'patientName', path, violations) ?? patientId,
+    bed: optionalString(obj, 'bed', path, violations),
+    ward: optionalString(obj, 'ward', path, violations),
+    heartRate: optionalNumber(obj, 'heartRate', path, violations),
+    spO2: optionalNumber(obj, 'spO2', path, violations),
+    bpSystolic: optionalNumber(obj, 'bpSystolic', path, violations),
+    bpDiastolic: optionalNumber(obj, 'bpDiastolic', path, violations),
+    temperature: optionalNumber(obj, 'temperature', path, violations),
+    respiratoryRate: optionalNumber(obj, 'respiratoryRate', path, violations),
+    consciousness: optionalConsciousness(obj, 'consciousness', path, violations),
+    onSupplementalOxygen: optionalBoolean(obj, 'onSupplementalOxygen', path, violations),
+    alertSeverity,
+    recordedAt,
+  };
+};
+
+export const decodeAlertNotification: Decoder<AlertNotification> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const alertId = requiredString(obj, 'alertId', path, violations);
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const severity = normaliseSeverity(obj.severity, `${path}.severity`, violations);
+  const triggeredAt = requiredTimestamp(obj, 'triggeredAt', path, violations);
+  if (!alertId || !patientId || !severity || !triggeredAt) return null;
+  return {
+    alertId,
+    patientId,
+    patientName: optionalString(obj, 'patientName', path, violations) ?? patientId,
+    alertType: optionalString(obj, 'alertType', path, violations) ?? 'unknown',
+    severity,
+    message: optionalString(obj, 'message', path, violations) ?? '',
+    triggeredAt,
+  };
+};
+
+export const decodeAlertAcknowledgement: Decoder<AlertAcknowledgement> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const alertId = requiredString(obj, 'alertId', path, violations);
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const acknowledgedAt = requiredTimestamp(obj, 'acknowledgedAt', path, violations);
+  if (!alertId || !patientId || !acknowledgedAt) return null;
+  return {
+    alertId,
+    patientId,
+    patientName: optionalString(obj, 'patientName', path, violations) ?? patientId,
+    acknowledgedBy: optionalString(obj, 'acknowledgedBy', path, violations) ?? 'unknown',
+    acknowledgedAt,
+  };
+};
+
+export const decodeInjectionModeChange: Decoder<InjectionModeChange> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const injectionModeEnabled = optionalBoolean(obj, 'injectionModeEnabled', path, violations);
+  if (!patientId || injectionModeEnabled === undefined) return null;
+  return {
+    patientId,
+    patientName: optionalString(obj, 'patientName', path, violations) ?? patientId,
+    injectionModeEnabled,
+    changedAt: optionalTimestamp(obj, 'changedAt', path, violations) ?? new Date().toISOString(),
+  };
+};
+
+export const decodeNurseAttendingChange: Decoder<NurseAttendingChange> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  const nurseAttending = optionalBoolean(obj, 'nurseAttending', path, violations);
+  if (!patientId || nurseAttending === undefined) return null;
+  return {
+    patientId,
+    patientName: optionalString(obj, 'patientName', path, violations) ?? patientId,
+    nurseAttending,
+    changedAt: optionalTimestamp(obj, 'changedAt', path, violations) ?? new Date().toISOString(),
+  };
+};
+
+export const decodePatientAlarmLimitsChange: Decoder<PatientAlarmLimitsChange> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const patientId = requiredString(obj, 'patientId', path, violations);
+  if (!patientId) return null;
+  return {
+    patientId,
+    patientName: optionalString(obj, 'patientName', path, violations) ?? patientId,
+    alarmLimitProfileId: optionalString(obj, 'alarmLimitProfileId', path, violations),
+    alarmLimitOverrides: optionalOverrides(obj, 'alarmLimitOverrides', path, violations),
+    changedAt: optionalTimestamp(obj, 'changedAt', path, violations) ?? new Date().toISOString(),
+  };
+};
+
+export const decodeWardAlarmLimitsChange: Decoder<WardAlarmLimitsChange> = (raw, path, violations) => {
+  const obj = requireObject(raw, path, violations);
+  if (!obj) return null;
+  const wardId = requiredString(obj, 'wardId', path, violations);
+  if (!wardId) return null;
+  return {
+    wardId,
+    wardName: optionalString(obj, 'wardName', path, violations) ?? wardId,
+    alarmLimitProfileId: optionalString(obj, 'alarmLimitProfileId', path, violations),
+    changedAt: optionalTimestamp(obj, 'changedAt', path, violations) ?? new Date().toISOString(),
+  };
+};
+
+/**
+ * Contract violation reporting
+ * Each distinct violation is reported at most once a minute - a drifting field on a 1Hz
+ * vital stream would otherwise flood the terminal.
+ */
+
+const REPORT_INTERVAL_MS = 60_000;
+const lastReported = new Map<string, number>();
+
+export function reportContractViolations(source: string, violations: ContractViolation[]) {
+  const now = Date.now();
+  const fresh = violations.filter(v => {
+    const key = `${source}|${v.path.replace(/\[\d+\]/g, '[]')}|${v.message}`;
+    const last = lastReported.get(key);
+    if (last !== undefined && now - last < REPORT_INTERVAL_MS) return false;
+    lastReported.set(key, now);
+    return true;
+  });
+  if (fresh.length === 0) return;
+
+  console.warn(`⚠️ Contract violation in ${source}:`, fresh);
+  useHospitalStore.getState().addSignalRLog({
+    eventType: 'Contract',
+    data: {
+      source,
+      count: fresh.length,
+      violations: fresh.map(v => `${v.path}: ${v.message}`),
+    },
+  });
+}
+
+/**
+ * Decode a payload at the boundary and report any violations
+ * @param source - Endpoint or hub method, shown in the terminal (e.g. "GET /patients", "ReceiveVitalUpdate")
+ */
+export function decodePayload<T>(decoder: Decoder<T>, raw: unknown, source: string): T | null {
+  const violations: ContractViolation[] = [];
+  const value = decoder(raw, '$', violations);
+  if (violations.length > 0) {
+    reportContractViolations(source, violations);
+  }
+  return value;
+}
@@ -1,4 +1,34 @@
-import type { Patient, VitalSigns, Ward, VitalSignsInjectionRequest } from '../types/hospital';
+import type {
+  Patient,
+  VitalSigns,
+  Ward,
+  VitalSignsInjectionRequest,
+  Alert,
+  AlertHistoryQuery,
+  PagedResult,
+  AlarmLimitProfile,
+  PatientAlarmLimitsChange,
+  PatientAlarmLimitsRequest,
+  ServerTime,
+  WardAlarmLimitsChange,
+} from '../types/hospital';
+import { useHospitalStore } from '../store/hospitalStore';
+import { ApiError, CORRELATION_ID_HEADER } from './apiError';
+import { simulatedBackend } from './simulatedBackend';
+import {
+  decodePayload,
+  decodeList,
+  decodePatient,
+  decodeWard,
+  decodeVitalSigns,
+  decodeAlert,
+  decodePagedResult,
+  decodeAlarmLimitProfile,
+  decodePatientAlarmLimitsChange,
+  decodeWardAlarmLimitsChange,
+  decodeServerTime,
+  type Decoder,
+} from './contracts';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
 const FETCH_TIMEOUT = 30000; // 30 second timeout (Azure cold start can take 10-30s, observed ~19s for actual response)
@@ -19,149 +49,186 @@ function fetchWithTimeout(url: string, options?: RequestInit): Promise<Response>
     .finally(() => clearTimeout(timeoutId));
 }
 
+/**
+ * Send a request and throw a structured ApiError on timeout, network failure or non-2xx status
+ * Routed to the in-browser simulated backend when that data source is selected.
+ * @param action - Human readable action for the error message (e.g. "fetch patients")
+ */
+async function request(action: string, path: string, options: RequestInit = {}): Promise<Response> {
+  const method = options.method ?? 'GET';
+  const correlationId = crypto.randomUUID();
+  const context = { action, method, endpoint: path, correlationId };
+
+  const init = { ...options, headers: { ...options.headers, [CORRELATION_ID_HEADER]: correlationId } };
+
+  let response: Response;
+  try {
+    response = useHospitalStore.getState().dataSource === 'simulated'
+      ? await simulatedBackend.fetch(path, init)
+      : await fetchWithTimeout(`${API_BASE_URL}${path}`, init);
+  } catch (error) {
+    throw ApiError.fromFetchFailure(error, context);
+  }
+
+  if (!response.ok) {
+    throw await ApiError.fromResponse(response, context);
+  }
+  return response;
+}
+
+/**
+ * Read a JSON body through a contract decoder (violations are reported, not thrown)
+ */
+async function readJson<T>(response: Response, decoder: Decoder<T>, source: string): Promise<T> {
+  const value = decodePayload(decoder, await response.json(), source);
+  if (value === null) {
+    throw new Error(`Unexpected response from ${source} - see the SignalR terminal for contract violations`);
+  }
+  return value;
+}
+
 export const hospitalApi = {
   /**
    * Fetch all patients with their latest vital signs
    */
   async getPatients(wardId?: string): Promise<Patient[]> {
-    const url = wardId
-      ? `${API_BASE_URL}/patients?wardId=${wardId}`
-      : `${API_BASE_URL}/patients`;
-
-    const response = await fetchWithTimeout(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch patients: ${response.statusText}`);
-    }
-
-    return await response.json();
+    const path = wardId ? `/patients?wardId=${wardId}` : '/patients';
+    const response = await request('fetch patients', path);
+    return readJson(response, decodeList(decodePatient), 'GET /patients');
   },
 
   /**
    * Fetch all wards
    */
   async getWards(): Promise<Ward[]> {
-    const response = await fetchWithTimeout(`${API_BASE_URL}/wards`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch wards: ${response.statusText}`);
-    }
-
-    return await response.json();
+    const response = await request('fetch wards', '/wards');
+    return readJson(response, decodeList(decodeWard), 'GET /wards');
   },
 
   /**
    * Fetch vital signs trend for a specific patient
    */
   async getPatientTrend(patientId: string, minutes: number = 240): Promise<VitalSigns[]> {
-    const response = await fetchWithTimeout(
-      `${API_BASE_URL}/patients/${patientId}/trend?minutes=${minutes}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch patient trend: ${response.statusText}`);
-    }
+    const response = await request('fetch patient trend', `/patients/${patientId}/trend?minutes=${minutes}`);
+    // Trend stays chronological (oldest first) for the charts
+    return readJson(response, decodeList(decodeVitalSigns), 'GET /patients/{id}/trend');
+  },
 
-    return await response.json();
+  /**
+   * Fetch the readings recorded since a point in time (reconnect backfill), paged
+   * Chronological, like the trend. The backend never goes further back than the 4-hour trend window.
+   */
+  async getVitalsSince(since: string, page = 1, pageSize = 500): Promise<PagedResult<VitalSigns>> {
+    const params = new URLSearchParams({ since, page: String(page), pageSize: String(pageSize) });
+    const response = await request('fetch missed vitals', `/vitals?${params}`);
+    return readJson(response, decodePagedResult(decodeVitalSigns), 'GET /vitals');
   },
 
   /**
    * Manually inject vital signs (for testing tool)
    */
-  async injectVitals(request: VitalSignsInjectionRequest): Promise<void> {
-    const response = await fetchWithTimeout(`${API_BASE_URL}/vitals/inject`, {
+  async injectVitals(vitals: VitalSignsInjectionRequest): Promise<void> {
+    await request('inject vitals', '/vitals/inject', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(request),
+      body: JSON.stringify(vitals),
     });
+  },
 
-    if (!response.ok) {
-      throw new Error(`Failed to inject vitals: ${response.statusText}`);
-    }
+  /**
+   * Toggle simulator injection mode for a patient - persisted and broadcast to all dashboards
+   */
+  async setInjectionMode(patientId: string, enabled: boolean): Promise<void> {
+    await request(
+      'toggle injection mode',
+      `/simulator/patient/${patientId}/injection-mode?enabled=${enabled}`,
+      { method: 'POST' }
+    );
   },
-};
 
-/**
- * Mock data for development/testing when backend is unavailable
- * This mirrors the exact structure returned by the backend API
- */
-export const mockPatients: Patient[] = [
-  {
-    id: 'p1',
-    mrn: 'MRN-001',
-    name: 'John Doe',
-    status: 'stable',
-    admittedAt: new Date().toISOString(),
-    bed: {
-      id: 'b1',
-      number: 'A-101',
-      wardId: 'w1',
-      status: 'occupied',
-      ward: { id: 'w1', name: 'ICU', capacity: 10 },
-    },
-    vitalSigns: [
-      {
-        id: 'v1',
-        patientId: 'p1',
-        heartRate: 75,
-        spO2: 98,
-        bpSystolic: 120,
-        bpDiastolic: 80,
-        recordedAt: new Date().toISOString(),
+  /**
+   * Set nurse attending for a patient - persisted and broadcast to all dashboards
+   */
+  async setNurseAttending(patientId: string, attending: boolean): Promise<void> {
+    await request(
+      'update nurse attending',
+      `/patients/${patientId}/nurse-attending?attending=${attending}`,
+      { method: 'POST' }
+    );
+  },
+
+  /**
+   * Fetch alert history (newest first), paged
+   */
+  async getAlerts(query: AlertHistoryQuery = {}): Promise<PagedResult<Alert>> {
+    const params = new URLSearchParams();
+    if (query.page) params.set('page', String(query.page));
+    if (query.pageSize) params.set('pageSize', String(query.pageSize));
+    if (query.patientId) params.set('patientId', query.patientId);
+    if (query.activeOnly !== undefined) params.set('activeOnly', String(query.activeOnly));
+    if (query.since) params.set('since', query.since);
+
+    const response = await request('fetch alerts', `/alerts?${params}`);
+    return readJson(response, decodePagedResult(decodeAlert), 'GET /alerts');
+  },
+
+  /**
+   * Acknowledge an alert - persisted and broadcast to all dashboards
+   */
+  async acknowledgeAlert(alertId: string, acknowledgedBy: string): Promise<Alert> {
+    const response = await request('acknowledge alert', `/alerts/${alertId}/acknowledge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
       },
-    ],
-    alerts: [],
+      body: JSON.stringify({ acknowledgedBy }),
+    });
+    return readJson(response, decodeAlert, 'POST /alerts/{id}/acknowledge');
+  },
+
+  /**
+   * Fetch the named alarm-limit profiles (adult, COPD, paediatric age bands)
+   */
+  async getAlarmProfiles(): Promise<AlarmLimitProfile[]> {
+    const response = await request('fetch alarm profiles', '/alarm-profiles');
+    return readJson(response, decodeList(decodeAlarmLimitProfile), 'GET /alarm-profiles');
   },
-  {
-    id: 'p2',
-    mrn: 'MRN-002',
-    name: 'Jane Smith',
-    status: 'watch',
-    admittedAt: new Date().toISOString(),
-    bed: {
-      id: 'b2',
-      number: 'A-102',
-      wardId: 'w1',
-      status: 'occupied',
-      ward: { id: 'w1', name: 'ICU', capacity: 10 },
-    },
-    vitalSigns: [
-      {
-        id: 'v2',
-        patientId: 'p2',
-        heartRate: 115,
-        spO2: 93,
-        bpSystolic: 145,
-        bpDiastolic: 92,
-        recordedAt: new Date().toISOString(),
+
+  /**
+   * Set a ward's default alarm-limit profile (null reverts to the adult defaults) - persisted and broadcast
+   */
+  async setWardAlarmProfile(wardId: string, profileId: string | null): Promise<WardAlarmLimitsChange> {
+    const response = await request('update ward alarm profile', `/wards/${wardId}/alarm-profile`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
       },
-    ],
-    alerts: [],
+      body: JSON.stringify({ profileId }),
+    });
+    return readJson(response, decodeWardAlarmLimitsChange, 'PUT /wards/{id}/alarm-profile');
   },
-  {
-    id: 'p3',
-    mrn: 'MRN-003',
-    name: 'Bob Critical',
-    status: 'critical',
-    admittedAt: new Date().toISOString(),
-    bed: {
-      id: 'b3',
-      number: 'A-103',
-      wardId: 'w1',
-      status: 'occupied',
-      ward: { id: 'w1', name: 'ICU', capacity: 10 },
-    },
-    vitalSigns: [
-      {
-        id: 'v3',
-        patientId: 'p3',
-        heartRate: 165,
-        spO2: 86,
-        bpSystolic: 185,
-        bpDiastolic: 110,
-        recordedAt: new Date().toISOString(),
+
+  /**
+   * Set a patient's alarm-limit profile and overrides - validated, persisted and broadcast
+   */
+  async setPatientAlarmLimits(patientId: string, limits: PatientAlarmLimitsRequest): Promise<PatientAlarmLimitsChange> {
+    const response = await request('update alarm limits', `/patients/${patientId}/alarm-limits`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
       },
-    ],
-    alerts: [],
+      body: JSON.stringify(limits),
+    });
+    return readJson(response, decodePatientAlarmLimitsChange, 'PUT /patients/{id}/alarm-limits');
   },
-];
\ No newline at end of file
+
+  /**
+   * Read the server's clock (see services/serverClock)
+   */
+  async getServerTime(): Promise<ServerTime> {
+    const response = await request('fetch server time', '/time');
+    return readJson(response, decodeServerTime, 'GET /time');
+  },
+};
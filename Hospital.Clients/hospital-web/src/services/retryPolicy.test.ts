@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getReconnectDelay, RECONNECT_POLICY } from './retryPolicy';
+
+describe('getReconnectDelay', () => {
+  it('backs off exponentially up to the cap', () => {
+    const noJitter = () => 1;
+    expect([0, 1, 2, 3, 4, 5].map(attempt => getReconnectDelay(attempt, noJitter)))
+      .toEqual([1000, 2000, 4000, 8000, 16000, 30000]);
+    expect(getReconnectDelay(50, noJitter)).toBe(RECONNECT_POLICY.maxDelayMs);
+  });
+
+  it('jitters within the upper half of the delay', () => {
+    expect(getReconnectDelay(3, () => 0)).toBe(4000);
+    expect(getReconnectDelay(3, () => 0.5)).toBe(6000);
+    expect(getReconnectDelay(20, () => 0)).toBe(RECONNECT_POLICY.maxDelayMs / 2);
+  });
+
+  it('keeps returning a delay however many attempts have failed', () => {
+    expect(getReconnectDelay(10_000)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,56 @@
+import { isApiError } from './apiError';
+
+/**
+ * Retry Policy
+ * Single retry/backoff policy for API queries (plugged into React Query's `retry` / `retryDelay`).
+ * Only transient failures are retried - a 4xx will fail the same way every time.
+ */
+
+export const API_RETRY_POLICY = {
+  maxRetries: 3,
+  // Timeouts already waited the full 30s fetch timeout - one more attempt usually catches the warmed-up backend
+  maxTimeoutRetries: 1,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+/**
+ * Decide whether a failed query should be retried
+ * @param failureCount - Number of failures so far (React Query passes 0 for the first failure)
+ */
+export function shouldRetryRequest(failureCount: number, error: Error): boolean {
+  if (!isApiError(error)) {
+    return failureCount < API_RETRY_POLICY.maxRetries;
+  }
+  if (!error.isRetryable) return false;
+  if (error.isTimeout) return failureCount < API_RETRY_POLICY.maxTimeoutRetries;
+  return failureCount < API_RETRY_POLICY.maxRetries;
+}
+
+/**
+ * Exponential backoff (1s, 2s, 4s, ... capped), honouring a server Retry-After hint
+ */
+export function getRetryDelay(attemptIndex: number, error?: Error): number {
+  if (isApiError(error) && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, API_RETRY_POLICY.maxDelayMs);
+  }
+  return Math.min(API_RETRY_POLICY.baseDelayMs * 2 ** attemptIndex, API_RETRY_POLICY.maxDelayMs);
+}
+
+/**
+ * Hub reconnection never gives up - a wall display left "Offline" is worse than a retry every 30s
+ */
+export const RECONNECT_POLICY = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Capped exponential backoff with jitter for hub reconnects (unlimited attempts)
+ * Half the delay is fixed, half random - dashboards dropped by the same outage don't all return at once.
+ * @param attemptIndex - Reconnect attempts already made (0 for the first)
+ */
+export function getReconnectDelay(attemptIndex: number, random: () => number = Math.random): number {
+  const delay = Math.min(RECONNECT_POLICY.baseDelayMs * 2 ** attemptIndex, RECONNECT_POLICY.maxDelayMs);
+  return Math.round(delay / 2 + random() * (delay / 2));
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { estimateClockOffset, formatClockOffset, serverNow, syncServerClock } from './serverClock';
+import { useHospitalStore } from '../store/hospitalStore';
+
+describe('serverClock', () => {
+  beforeEach(() => {
+    useHospitalStore.setState({ clockOffsetMs: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('estimates the offset from the fastest round trip', () => {
+    expect(estimateClockOffset([
+      { sentAt: 1000, serverTime: 61_200, receivedAt: 1800 },  // Slow - 800ms of uncertainty
+      { sentAt: 2000, serverTime: 62_050, receivedAt: 2100 },  // Fast - server read mid-flight at local 2050
+    ])).toBe(60_000);
+    expect(estimateClockOffset([])).toBeUndefined();
+  });
+
+  it('runs serverNow on the corrected clock once synced', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2025-01-01T08:00:00Z'));
+
+    // Server is 90 seconds ahead of this workstation
+    const offset = await syncServerClock(async () => '2025-01-01T08:01:30Z');
+
+    expect(offset).toBe(90_000);
+    expect(useHospitalStore.getState().clockOffsetMs).toBe(90_000);
+    expect(serverNow()).toBe(Date.parse('2025-01-01T08:01:30Z'));
+  });
+
+  it.each([
+    [1234, '+1.2s'],
+    [-350, '-350ms'],
+    [0, '+0ms'],
+  ])('formats %dms as %s', (offset, text) => {
+    expect(formatClockOffset(offset)).toBe(text);
+  });
+});
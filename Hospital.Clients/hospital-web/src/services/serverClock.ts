@@ -0,0 +1,65 @@
+import { useHospitalStore } from '../store/hospitalStore';
+
+/**
+ * Server Clock
+ * recordedAt, triggeredAt and friends are stamped by the server. Measured against a workstation
+ * clock that runs a minute slow, every reading looks a minute old (or arrives from the future),
+ * so ages, staleness and latency are all measured on the server's clock instead:
+ * serverNow() is this workstation's clock plus an offset estimated from GET /time round trips.
+ */
+
+export interface ClockSample {
+  sentAt: number;     // Local epoch ms when the request left
+  serverTime: number; // Server epoch ms in the response
+  receivedAt: number; // Local epoch ms when the response arrived
+}
+
+/** Round trips per sync - the fastest one carries the least uncertainty */
+export const CLOCK_SYNC_SAMPLES = 3;
+
+/**
+ * Offset (server minus local) from the sample with the shortest round trip
+ * Assumes the server read its clock halfway through the round trip, as NTP does.
+ */
+export function estimateClockOffset(samples: ClockSample[]): number | undefined {
+  const best = samples.reduce<ClockSample | undefined>(
+    (fastest, sample) => (!fastest || sample.receivedAt - sample.sentAt < fastest.receivedAt - fastest.sentAt ? sample : fastest),
+    undefined
+  );
+  if (!best) return undefined;
+  return Math.round(best.serverTime - (best.sentAt + best.receivedAt) / 2);
+}
+
+/**
+ * Current time on the server's clock (epoch ms)
+ */
+export function serverNow(): number {
+  return Date.now() + useHospitalStore.getState().clockOffsetMs;
+}
+
+/**
+ * Sample the server clock and store the estimated offset
+ * @param fetchServerTime - Resolves to the server's ISO timestamp
+ * @returns The new offset
+ */
+export async function syncServerClock(fetchServerTime: () => Promise<string>): Promise<number> {
+  const samples: ClockSample[] = [];
+  for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++) {
+    const sentAt = Date.now();
+    const serverTime = Date.parse(await fetchServerTime());
+    samples.push({ sentAt, serverTime, receivedAt: Date.now() });
+  }
+
+  const offset = estimateClockOffset(samples) ?? 0;
+  useHospitalStore.getState().setClockOffset(offset);
+  return offset;
+}
+
+/**
+ * Offset for display, e.g. "+1.2s", "-350ms"
+ */
+export function formatClockOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const magnitude = Math.abs(offsetMs);
+  return magnitude < 1000 ? `${sign}${magnitude}ms` : `${sign}${(magnitude / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createSimulatedBackend, type SimulatedBackend } from './simulatedBackend';
+import {
+  decodeList,
+  decodePatient,
+  decodeAlert,
+  decodePagedResult,
+  decodeAlarmLimitProfile,
+  type ContractViolation,
+} from './contracts';
+
+describe('simulatedBackend', () => {
+  let backend: SimulatedBackend;
+  const unsubscribers: Array<() => void> = [];
+
+  beforeEach(() => {
+    backend = createSimulatedBackend({ latencyMs: 0, updateIntervalMs: 60_000 });
+  });
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+    backend.stop();
+  });
+
+  function listen(event: Parameters<SimulatedBackend['on']>[0]) {
+    const received: unknown[] = [];
+    unsubscribers.push(backend.on(event, payload => received.push(payload)));
+    return received;
+  }
+
+  const post = (path: string, body?: unknown) =>
+    backend.fetch(path, { method: 'POST', body: body === undefined ? undefined : JSON.stringify(body) });
+
+  const put = (path: string, body: unknown) => backend.fetch(path, { method: 'PUT', body: JSON.stringify(body) });
+
+  it('serves a multi-ward census that satisfies the patient contract', async () => {
+    const response = await backend.fetch('/patients');
+    const violations: ContractViolation[] = [];
+    const patients = decodeList(decodePatient)(await response.json(), '$', violations) ?? [];
+
+    expect(response.status).toBe(200);
+    expect(violations).toEqual([]);
+    expect(patients.length).toBeGreaterThan(10);
+    expect(new Set(patients.map(p => p.bed?.wardId)).size).toBe(3);
+    expect(patients[0].vitalSigns).toHaveLength(20);
+  });
+
+  it('seeds full NEWS2 observations, with the COPD patient on SpO₂ scale 2', async () => {
+    const violations: ContractViolation[] = [];
+    const patients = decodeList(decodePatient)(await (await backend.fetch('/patients')).json(), '$', violations) ?? [];
+
+    expect(patients.every(p => p.vitalSigns[0].respiratoryRate !== undefined && p.vitalSigns[0].consciousness === 'A')).toBe(true);
+    expect(patients.filter(p => p.spO2Scale === 2).map(p => p.primaryDiagnosis)).toEqual(['COPD exacerbation']);
+  });
+
+  it('seeds the same census for the same seed', async () => {
+    const other = createSimulatedBackend({ latencyMs: 0, seed: 20240917 });
+    const a = await (await backend.fetch('/patients')).json();
+    const b = await (await other.fetch('/patients')).json();
+
+    expect(a.map((p: { status: string }) => p.status)).toEqual(b.map((p: { status: string }) => p.status));
+  });
+
+  it('filters patients by ward', async () => {
+    const patients = await (await backend.fetch('/patients?wardId=w2')).json();
+
+    expect(patients.length).toBeGreaterThan(0);
+    expect(patients.every((p: { bed: { wardId: string } }) => p.bed.wardId === 'w2')).toBe(true);
+  });
+
+  it('serves a 4-hour trend', async () => {
+    const trend = await (await backend.fetch('/patients/p1/trend?minutes=240')).json();
+
+    expect(trend.length).toBeGreaterThanOrEqual(240);
+  });
+
+  it('serves the readings recorded since a point in time, for reconnect backfill', async () => {
+    const since = new Date().toISOString();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await post('/vitals/inject', { patientId: 'p2', heartRate: 88 });
+
+    const readings = await (await backend.fetch(`/vitals?since=${encodeURIComponent(since)}`)).json();
+
+    expect(readings).toMatchObject({ page: 1, pageSize: 500, totalCount: 1 });
+    expect(readings.items).toEqual([expect.objectContaining({ patientId: 'p2', heartRate: 88 })]);
+  });
+
+  it('pages the readings since a point in time', async () => {
+    const since = new Date(Date.now() - 60 * 60_000).toISOString();
+
+    const first = await (await backend.fetch(`/vitals?since=${encodeURIComponent(since)}&pageSize=10`)).json();
+    const second = await (await backend.fetch(`/vitals?since=${encodeURIComponent(since)}&page=2&pageSize=10`)).json();
+
+    expect(first.items).toHaveLength(10);
+    expect(first.totalCount).toBeGreaterThan(10);
+    expect(Date.parse(second.items[0].recordedAt)).toBeGreaterThanOrEqual(Date.parse(first.items[9].recordedAt));
+  });
+
+  it('raises alerts and broadcasts injected critical vitals', async () => {
+    const alerts = listen('ReceiveAlert');
+    const updates = listen('ReceiveVitalUpdate');
+
+    const response = await post('/vitals/inject', { patientId: 'p1', heartRate: 150, spO2: 98, bpSystolic: 120, bpDiastolic: 80 });
+
+    expect(response.status).toBe(200);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ patientId: 'p1', alertType: 'hr_critical', severity: 'Critical' });
+    expect(updates[0]).toMatchObject({ patientId: 'p1', heartRate: 150, alertSeverity: 'Critical' });
+  });
+
+  it('carries injected temperature through to the broadcast update', async () => {
+    const updates = listen('ReceiveVitalUpdate');
+
+    await post('/vitals/inject', { patientId: 'p1', temperature: 39.4 });
+
+    expect(updates[0]).toMatchObject({ patientId: 'p1', temperature: 39.4 });
+  });
+
+  it('rejects a temperature outside 30-45 °C', async () => {
+    const response = await post('/vitals/inject', { patientId: 'p1', temperature: 46 });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects implausible vitals with a problem-details body', async () => {
+    const response = await post('/vitals/inject', { patientId: 'p1', heartRate: 400 });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ status: 400, detail: 'Invalid vital signs values' });
+  });
+
+  it('returns 404 for an unknown patient', async () => {
+    const response = await post('/patients/p999/nurse-attending?attending=true');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('persists and broadcasts injection mode', async () => {
+    const changes = listen('ReceiveInjectionModeChange');
+
+    await post('/simulator/patient/p2/injection-mode?enabled=true');
+    const patients = await (await backend.fetch('/patients')).json();
+
+    expect(changes[0]).toMatchObject({ patientId: 'p2', injectionModeEnabled: true });
+    expect(patients.find((p: { id: string }) => p.id === 'p2').injectionModeEnabled).toBe(true);
+  });
+
+  it('acknowledges an alert once and pages the history', async () => {
+    const acknowledgements = listen('ReceiveAlertAcknowledged');
+    await post('/vitals/inject', { patientId: 'p1', heartRate: 150 });
+
+    const violations: ContractViolation[] = [];
+    const history = decodePagedResult(decodeAlert)(await (await backend.fetch('/alerts?pageSize=5')).json(), '$', violations);
+    const alertId = history!.items[0].id;
+
+    await post(`/alerts/${alertId}/acknowledge`, { acknowledgedBy: 'Nurse Joy' });
+    const second = await post(`/alerts/${alertId}/acknowledge`, { acknowledgedBy: 'Someone Else' });
+
+    expect(violations).toEqual([]);
+    expect(acknowledgements).toHaveLength(1);
+    expect(await second.json()).toMatchObject({ isActive: false, acknowledgedBy: 'Nurse Joy' });
+  });
+
+  it('drops acknowledged alerts with the readings but keeps active ones', async () => {
+    await post('/vitals/inject', { patientId: 'p1', heartRate: 150 });
+    await post('/vitals/inject', { patientId: 'p2', heartRate: 150 });
+    const { items } = await (await backend.fetch('/alerts?patientId=p1')).json();
+    await post(`/alerts/${items[0].id}/acknowledge`, { acknowledgedBy: 'Nurse Joy' });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(Date.now() + 7 * 60 * 60_000);
+      await post('/vitals/inject', { patientId: 'p3', heartRate: 75, spO2: 98, bpSystolic: 120, bpDiastolic: 80 });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const history = await (await backend.fetch('/alerts?pageSize=200')).json();
+    expect(history.items.map((a: { patientId: string }) => a.patientId)).not.toContain('p1');
+    expect(history.items).toContainEqual(expect.objectContaining({ patientId: 'p2', isActive: true }));
+  });
+
+  it('serves alarm profiles and alarms the COPD patient on their 88-92% target', async () => {
+    const alerts = listen('ReceiveAlert');
+    const violations: ContractViolation[] = [];
+    const profiles = decodeList(decodeAlarmLimitProfile)(await (await backend.fetch('/alarm-profiles')).json(), '$', violations) ?? [];
+    const patients = await (await backend.fetch('/patients')).json();
+    const copdPatient = patients.find((p: { primaryDiagnosis: string }) => p.primaryDiagnosis === 'COPD exacerbation');
+
+    await post('/vitals/inject', { patientId: copdPatient.id, spO2: 89 });
+    await post('/vitals/inject', { patientId: 'p1', spO2: 89 });
+
+    expect(violations).toEqual([]);
+    expect(profiles.map(p => p.id)).toContain('copd');
+    expect(copdPatient.alarmLimitProfileId).toBe('copd');
+    expect(alerts.map(a => (a as { patientId: string }).patientId)).toEqual(['p1']);
+  });
+
+  it('persists and broadcasts patient alarm limits, assessing against the overrides', async () => {
+    const changes = listen('ReceivePatientAlarmLimitsChange');
+    const alerts = listen('ReceiveAlert');
+
+    // Paced patient - HR fixed at 52 shouldn't alarm
+    const response = await put('/patients/p1/alarm-limits', { profileId: null, overrides: { hrCriticalLow: 40, hrMediumLow: 50 } });
+    await post('/vitals/inject', { patientId: 'p1', heartRate: 52 });
+
+    expect(response.status).toBe(200);
+    expect(changes[0]).toMatchObject({ patientId: 'p1', alarmLimitOverrides: { hrCriticalLow: 40, hrMediumLow: 50 } });
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('rejects alarm limits that do not nest', async () => {
+    const response = await put('/patients/p1/alarm-limits', { profileId: null, overrides: { hrMediumLow: 40 } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ detail: 'Alarm limits must nest: critical bands outside medium bands' });
+  });
+
+  it('applies a ward default profile to patients without their own', async () => {
+    const changes = listen('ReceiveWardAlarmLimitsChange');
+    const alerts = listen('ReceiveAlert');
+
+    await put('/wards/w1/alarm-profile', { profileId: 'copd' });
+    await post('/vitals/inject', { patientId: 'p1', spO2: 89 });
+    const unknown = await put('/wards/w1/alarm-profile', { profileId: 'retired' });
+
+    expect(changes[0]).toMatchObject({ wardId: 'w1', alarmLimitProfileId: 'copd' });
+    expect(alerts).toHaveLength(0);
+    expect(unknown.status).toBe(400);
+  });
+
+  it('requires acknowledgedBy', async () => {
+    const response = await post('/alerts/a1/acknowledge', {});
+
+    expect(response.status).toBe(400);
+  });
+
+  it('emits vital updates on each simulator cycle', () => {
+    const updates = listen('ReceiveVitalUpdate');
+
+    backend.tick();
+
+    expect(updates.length).toBeGreaterThanOrEqual(3);
+  });
+});
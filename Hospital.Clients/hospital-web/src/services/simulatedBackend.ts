@@ -0,0 +1,803 @@
+import type {
+  AlarmLimitOverrides,
+  AlarmLimitProfile,
+  AlarmLimits,
+  Alert,
+  AlertAcknowledgement,
+  AlertNotification,
+  AlertSeverity,
+  InjectionModeChange,
+  NurseAttendingChange,
+  PatientAlarmLimitsChange,
+  PatientAlarmLimitsRequest,
+  PatientStatus,
+  VitalSigns,
+  VitalSignsInjectionRequest,
+  VitalSignsUpdate,
+  WardAlarmLimitsChange,
+} from '../types/hospital';
+import { CORRELATION_ID_HEADER } from './apiError';
+import {
+  SEVERITY_ORDER,
+  assessHeartRate,
+  assessSpO2,
+  assessBloodPressure,
+  calculateAlertSeverity,
+  DEFAULT_ALARM_LIMITS,
+} from '../utils/clinicalThresholds';
+import { applyAlarmLimitOverrides, isValidAlarmLimits } from '../utils/alarmLimits';
+
+/**
+ * Simulated Backend
+ * In-browser stand-in for Hospital.Api, used when the data source is switched to "simulated".
+ * - Serves the same REST endpoints as `fetch` Responses, so ApiError and the contract decoders apply unchanged
+ * - Emits the same hub events as VitalsHub
+ * - Drives vitals with a port of VitalSignsSimulatorService and alerts with a port of AlertService
+ */
+
+/** Hub events emitted by the simulator - same names and payloads as IVitalsClient */
+export interface SimulatedHubEvents {
+  ReceiveVitalUpdate: VitalSignsUpdate;
+  ReceiveAlert: AlertNotification;
+  ReceiveAlertAcknowledged: AlertAcknowledgement;
+  ReceiveInjectionModeChange: InjectionModeChange;
+  ReceiveNurseAttendingChange: NurseAttendingChange;
+  ReceivePatientAlarmLimitsChange: PatientAlarmLimitsChange;
+  ReceiveWardAlarmLimitsChange: WardAlarmLimitsChange;
+}
+
+export type SimulatedHubEvent = keyof SimulatedHubEvents;
+
+export interface SimulatedBackendOptions {
+  seed?: number;
+  latencyMs?: number;
+  updateIntervalMs?: number;
+}
+
+interface SimWard {
+  id: string;
+  name: string;
+  capacity: number;
+  location: string;
+  alarmLimitProfileId?: string;
+}
+
+interface SimBed {
+  id: string;
+  number: string;
+  wardId: string;
+  status: string;
+  bedType: string;
+}
+
+interface SimPatient {
+  id: string;
+  mrn: string;
+  name: string;
+  bedId: string;
+  status: PatientStatus;
+  admittedAt: string;
+  attendingPhysician: string;
+  primaryDiagnosis: string;
+  injectionModeEnabled: boolean;
+  nurseAttending: boolean;
+  spO2Scale?: 1 | 2;
+  alarmLimitProfileId?: string;
+  alarmLimitOverrides?: AlarmLimitOverrides;
+}
+
+type Vitals = Pick<VitalSigns,
+  'heartRate' | 'spO2' | 'bpSystolic' | 'bpDiastolic' | 'temperature' | 'respiratoryRate' | 'consciousness' | 'onSupplementalOxygen'>;
+
+// Simulation parameters (mirrors VitalSignsSimulatorService)
+const UPDATE_INTERVAL_MS = 2500;
+const PATIENTS_TO_UPDATE_PER_CYCLE = 3; // Update 3-5 patients per cycle
+const ABNORMAL_VITALS_PROBABILITY = 0.15;
+const CRITICAL_VITALS_PROBABILITY = 0.08;
+
+const DEFAULT_SEED = 20240917;
+const DEFAULT_LATENCY_MS = 150;
+const HISTORY_MINUTES = 240; // Seeded trend history (matches the trend chart window)
+const HISTORY_RETENTION_MS = 6 * 60 * 60_000;
+const RECENT_VITALS_PER_PATIENT = 20; // Same as the GetPatients LATERAL JOIN
+
+const WARDS: Array<SimWard & { bedPrefix: string; beds: number }> = [
+  { id: 'w1', name: 'Intensive Care Unit', capacity: 10, location: 'Floor 3', bedPrefix: 'ICU-1', beds: 8 },
+  { id: 'w2', name: 'Cardiology', capacity: 8, location: 'Floor 2', bedPrefix: 'CAR-2', beds: 6 },
+  { id: 'w3', name: 'Respiratory', capacity: 8, location: 'Floor 2', bedPrefix: 'RES-3', beds: 6 },
+];
+
+// Prescribed 88-92% SpO₂ target - scored on NEWS2 SpO₂ scale 2 and alarmed on the COPD profile
+const SPO2_SCALE_2_DIAGNOSES = new Set(['COPD exacerbation']);
+
+/** Same profiles as SeedData.CreateAlarmLimitProfiles */
+const ALARM_LIMIT_PROFILES: AlarmLimitProfile[] = [
+  { id: 'adult', name: 'Adult', description: 'Standard adult limits', limits: DEFAULT_ALARM_LIMITS },
+  {
+    id: 'copd',
+    name: 'COPD (SpO₂ 88-92%)',
+    description: 'Prescribed 88-92% SpO₂ target - hypercapnic respiratory failure',
+    limits: { ...DEFAULT_ALARM_LIMITS, spO2CriticalBelow: 84, spO2HighBelow: 86, spO2MediumBelow: 88 },
+  },
+  {
+    id: 'paeds-1-4',
+    name: 'Paediatric 1-4 years',
+    limits: {
+      hrCriticalLow: 70, hrMediumLow: 80, hrMediumHigh: 150, hrCriticalHigh: 170,
+      spO2CriticalBelow: 90, spO2HighBelow: 92, spO2MediumBelow: 94,
+      bpCriticalSystolic: 130, bpCriticalDiastolic: 90,
+      bpHighSystolic: 120, bpHighDiastolic: 80,
+      bpMediumSystolic: 110, bpMediumDiastolic: 70,
+    },
+  },
+  {
+    id: 'paeds-5-11',
+    name: 'Paediatric 5-11 years',
+    limits: {
+      hrCriticalLow: 60, hrMediumLow: 70, hrMediumHigh: 130, hrCriticalHigh: 150,
+      spO2CriticalBelow: 90, spO2HighBelow: 92, spO2MediumBelow: 94,
+      bpCriticalSystolic: 140, bpCriticalDiastolic: 95,
+      bpHighSystolic: 130, bpHighDiastolic: 85,
+      bpMediumSystolic: 120, bpMediumDiastolic: 78,
+    },
+  },
+  {
+    id: 'paeds-12-17',
+    name: 'Paediatric 12-17 years',
+    limits: {
+      hrCriticalLow: 50, hrMediumLow: 60, hrMediumHigh: 115, hrCriticalHigh: 135,
+      spO2CriticalBelow: 88, spO2HighBelow: 92, spO2MediumBelow: 94,
+      bpCriticalSystolic: 160, bpCriticalDiastolic: 105,
+      bpHighSystolic: 140, bpHighDiastolic: 90,
+      bpMediumSystolic: 130, bpMediumDiastolic: 80,
+    },
+  },
+];
+
+const ALARM_LIMIT_KEYS = Object.keys(DEFAULT_ALARM_LIMITS) as (keyof AlarmLimits)[];
+
+/** Seeded census: [name, diagnosis, physician, ward, baseline vitals] */
+const CENSUS: Array<[string, string, string, string, Vitals]> = [
+  ['John Doe', 'Post-operative recovery', 'Dr. Smith', 'w1', { heartRate: 75, spO2: 98, bpSystolic: 120, bpDiastolic: 80, temperature: 37.0, respiratoryRate: 14, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Jane Smith', 'Acute respiratory distress', 'Dr. Johnson', 'w1', { heartRate: 115, spO2: 93, bpSystolic: 145, bpDiastolic: 92, temperature: 38.2, respiratoryRate: 23, consciousness: 'A', onSupplementalOxygen: true }],
+  ['Bob Critical', 'Post-surgical monitoring', 'Dr. Williams', 'w1', { heartRate: 78, spO2: 97, bpSystolic: 122, bpDiastolic: 80, temperature: 36.9, respiratoryRate: 15, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Maria Garcia', 'Septic shock', 'Dr. Williams', 'w1', { heartRate: 124, spO2: 91, bpSystolic: 98, bpDiastolic: 60, temperature: 38.9, respiratoryRate: 26, consciousness: 'A', onSupplementalOxygen: true }],
+  ['Ahmad Rahman', 'Traumatic brain injury', 'Dr. Smith', 'w1', { heartRate: 64, spO2: 97, bpSystolic: 150, bpDiastolic: 88, temperature: 37.4, respiratoryRate: 12, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Li Wei', 'Diabetic ketoacidosis', 'Dr. Johnson', 'w1', { heartRate: 102, spO2: 98, bpSystolic: 112, bpDiastolic: 70, temperature: 36.6, respiratoryRate: 22, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Grace Okafor', 'Acute myocardial infarction', 'Dr. Patel', 'w2', { heartRate: 88, spO2: 96, bpSystolic: 138, bpDiastolic: 86, temperature: 37.1, respiratoryRate: 18, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Peter Novak', 'Atrial fibrillation', 'Dr. Patel', 'w2', { heartRate: 108, spO2: 97, bpSystolic: 132, bpDiastolic: 84, temperature: 36.8, respiratoryRate: 17, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Sofia Rossi', 'Heart failure exacerbation', 'Dr. Chen', 'w2', { heartRate: 92, spO2: 94, bpSystolic: 156, bpDiastolic: 96, temperature: 36.7, respiratoryRate: 21, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Kenji Tanaka', 'Hypertensive urgency', 'Dr. Chen', 'w2', { heartRate: 82, spO2: 98, bpSystolic: 168, bpDiastolic: 102, temperature: 37.0, respiratoryRate: 16, consciousness: 'A', onSupplementalOxygen: false }],
+  ['Amara Nwosu', 'Community-acquired pneumonia', 'Dr. Lopez', 'w3', { heartRate: 98, spO2: 92, bpSystolic: 118, bpDiastolic: 74, temperature: 38.4, respiratoryRate: 22, consciousness: 'A', onSupplementalOxygen: true }],
+  ['Henrik Larsen', 'COPD exacerbation', 'Dr. Lopez', 'w3', { heartRate: 94, spO2: 90, bpSystolic: 134, bpDiastolic: 82, temperature: 37.3, respiratoryRate: 20, consciousness: 'A', onSupplementalOxygen: true }],
+  ['Fatima Zahra', 'Asthma attack', 'Dr. Lopez', 'w3', { heartRate: 110, spO2: 94, bpSystolic: 126, bpDiastolic: 78, temperature: 37.2, respiratoryRate: 24, consciousness: 'A', onSupplementalOxygen: true }],
+];
+
+/**
+ * Seeded PRNG (mulberry32) - same seed, same census
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    // Same contract as C# Random.Next(min, max): max is exclusive
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min)),
+  };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+function statusFromSeverity(severity: AlertSeverity): PatientStatus {
+  return severity === 'Critical' ? 'critical' : severity === 'High' ? 'watch' : 'stable';
+}
+
+/**
+ * Vital signs plausibility (mirrors VitalSigns.IsValid)
+ */
+function isValidVitals(v: Vitals): boolean {
+  if (v.heartRate !== undefined && (v.heartRate <= 0 || v.heartRate > 300)) return false;
+  if (v.spO2 !== undefined && (v.spO2 <= 0 || v.spO2 > 100)) return false;
+  if (v.bpSystolic !== undefined && (v.bpSystolic <= 0 || v.bpSystolic > 300)) return false;
+  if (v.bpDiastolic !== undefined && (v.bpDiastolic <= 0 || v.bpDiastolic > 200)) return false;
+  if (v.temperature !== undefined && (v.temperature < 30 || v.temperature > 45)) return false;
+  if (v.respiratoryRate !== undefined && (v.respiratoryRate <= 0 || v.respiratoryRate > 80)) return false;
+  return true;
+}
+
+export function createSimulatedBackend(options: SimulatedBackendOptions = {}) {
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const latencyMs = options.latencyMs ?? DEFAULT_LATENCY_MS;
+  const updateIntervalMs = options.updateIntervalMs ?? UPDATE_INTERVAL_MS;
+
+  const wards: SimWard[] = WARDS.map(({ id, name, capacity, location }) => ({ id, name, capacity, location }));
+  const beds: SimBed[] = [];
+  const patients: SimPatient[] = [];
+  const vitalsByPatient = new Map<string, VitalSigns[]>(); // Chronological, like the database
+  let alerts: Alert[] = [];
+  const lastInjectedVitals = new Map<string, Vitals>();
+
+  const listeners = new Map<SimulatedHubEvent, Set<(payload: unknown) => void>>();
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Seed wards, beds, patients and 4 hours of minute-by-minute vitals
+   */
+  function seed() {
+    const now = Date.now();
+
+    WARDS.forEach(ward => {
+      for (let i = 1; i <= ward.beds; i++) {
+        beds.push({
+          id: `${ward.id}-b${i}`,
+          number: `${ward.bedPrefix}${String(i).padStart(2, '0')}`,
+          wardId: ward.id,
+          status: 'available',
+          bedType: i === 3 ? 'isolation' : 'standard',
+        });
+      }
+    });
+
+    CENSUS.forEach(([name, diagnosis, physician, wardId, baseline], index) => {
+      const bed = beds.find(b => b.wardId === wardId && b.status === 'available')!;
+      bed.status = 'occupied';
+
+      const id = `p${index + 1}`;
+      const history: VitalSigns[] = [];
+      for (let minutesAgo = HISTORY_MINUTES; minutesAgo >= 0; minutesAgo--) {
+        history.push({
+          id: crypto.randomUUID(),
+          patientId: id,
+          // Small noise around the patient's baseline
+          heartRate: baseline.heartRate! + random.int(-4, 5),
+          spO2: clamp(baseline.spO2! + random.int(-1, 2), 0, 100),
+          bpSystolic: baseline.bpSystolic! + random.int(-6, 7),
+          bpDiastolic: baseline.bpDiastolic! + random.int(-4, 5),
+          temperature: roundToTenth(baseline.temperature! + random.int(-2, 3) / 10),
+          respiratoryRate: baseline.respiratoryRate! + random.int(-1, 2),
+          consciousness: baseline.consciousness,
+          onSupplementalOxygen: baseline.onSupplementalOxygen,
+          recordedAt: new Date(now - minutesAgo * 60_000).toISOString(),
+        });
+      }
+      vitalsByPatient.set(id, history);
+
+      const onTargetRange = SPO2_SCALE_2_DIAGNOSES.has(diagnosis);
+      const patient: SimPatient = {
+        id,
+        mrn: `MRN-${String(index + 1).padStart(3, '0')}`,
+        name,
+        bedId: bed.id,
+        status: 'stable',
+        admittedAt: new Date(now - random.int(1, 10) * 24 * 60 * 60_000).toISOString(),
+        attendingPhysician: physician,
+        primaryDiagnosis: diagnosis,
+        injectionModeEnabled: false,
+        nurseAttending: false,
+        spO2Scale: onTargetRange ? 2 : undefined,
+        alarmLimitProfileId: onTargetRange ? 'copd' : undefined,
+      };
+      patient.status = statusFromSeverity(calculateAlertSeverity(history[history.length - 1], alarmLimitsFor(patient)));
+      patients.push(patient);
+    });
+  }
+
+  /**
+   * Limits a patient is assessed against (port of Patient.GetEffectiveAlarmLimits)
+   */
+  function alarmLimitsFor(patient: SimPatient): AlarmLimits {
+    const wardId = beds.find(b => b.id === patient.bedId)?.wardId;
+    const profileId = patient.alarmLimitProfileId ?? wards.find(w => w.id === wardId)?.alarmLimitProfileId;
+    const profile = ALARM_LIMIT_PROFILES.find(p => p.id === profileId);
+    return applyAlarmLimitOverrides(profile?.limits ?? DEFAULT_ALARM_LIMITS, patient.alarmLimitOverrides);
+  }
+
+  /**
+   * Hub
+   */
+
+  function emit<K extends SimulatedHubEvent>(event: K, payload: SimulatedHubEvents[K]) {
+    // Round-trip through JSON so handlers see exactly what the SignalR JSON protocol would deliver
+    const wire = JSON.parse(JSON.stringify(payload));
+    listeners.get(event)?.forEach(handler => handler(wire));
+  }
+
+  function on(event: SimulatedHubEvent, handler: (payload: unknown) => void): () => void {
+    if (!listeners.has(event)) listeners.set(event, new Set());
+    listeners.get(event)!.add(handler);
+    startSimulator();
+
+    return () => {
+      listeners.get(event)?.delete(handler);
+      const hasListeners = Array.from(listeners.values()).some(set => set.size > 0);
+      if (!hasListeners) stopSimulator();
+    };
+  }
+
+  function startSimulator() {
+    if (timer === undefined) {
+      timer = setInterval(simulateCycle, updateIntervalMs);
+    }
+  }
+
+  function stopSimulator() {
+    if (timer !== undefined) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  }
+
+  /**
+   * Simulator (port of VitalSignsSimulatorService)
+   */
+
+  function latestVitals(patientId: string): VitalSigns | undefined {
+    const history = vitalsByPatient.get(patientId);
+    return history?.[history.length - 1];
+  }
+
+  function simulateCycle() {
+    const count = random.int(PATIENTS_TO_UPDATE_PER_CYCLE, PATIENTS_TO_UPDATE_PER_CYCLE + 3);
+    const shuffled = [...patients].sort(() => random.next() - 0.5);
+
+    shuffled.slice(0, count).forEach(patient => {
+      recordVitals(patient, generateRealisticVitals(patient));
+    });
+  }
+
+  function generateRealisticVitals(patient: SimPatient): Vitals {
+    const isInjectionMode = patient.injectionModeEnabled;
+    const baseline = (isInjectionMode ? lastInjectedVitals.get(patient.id) : undefined) ?? latestVitals(patient.id);
+
+    const shouldBeAbnormal = !isInjectionMode && random.next() < ABNORMAL_VITALS_PROBABILITY;
+    const shouldBeCritical = !isInjectionMode && random.next() < CRITICAL_VITALS_PROBABILITY;
+
+    const baseHR = baseline?.heartRate ?? 75;
+    const baseSpO2 = baseline?.spO2 ?? 98;
+    const baseSystolic = baseline?.bpSystolic ?? 120;
+    const baseDiastolic = baseline?.bpDiastolic ?? 80;
+    const baseTemperature = baseline?.temperature ?? 37.0;
+    const baseRespiratoryRate = baseline?.respiratoryRate ?? 16;
+    // Not vitals the monitor drifts - carried over from the last reading
+    const consciousness = baseline?.consciousness ?? 'A';
+    const onSupplementalOxygen = baseline?.onSupplementalOxygen ?? false;
+
+    if (shouldBeCritical) {
+      return {
+        heartRate: random.int(0, 100) < 50 ? random.int(35, 45) : random.int(140, 180),
+        spO2: random.int(82, 88),
+        bpSystolic: random.int(170, 200),
+        bpDiastolic: random.int(105, 120),
+        temperature: random.int(0, 100) < 50 ? random.int(340, 351) / 10 : random.int(391, 406) / 10,
+        respiratoryRate: random.int(0, 100) < 30 ? random.int(5, 9) : random.int(25, 36),
+        consciousness: random.int(0, 100) < 25 ? 'V' : consciousness,
+        onSupplementalOxygen,
+      };
+    }
+    if (shouldBeAbnormal) {
+      return {
+        heartRate: random.int(0, 100) < 50 ? random.int(50, 60) : random.int(110, 130),
+        spO2: random.int(90, 94),
+        bpSystolic: random.int(145, 165),
+        bpDiastolic: random.int(92, 105),
+        temperature: random.int(381, 391) / 10,
+        respiratoryRate: random.int(21, 25),
+        consciousness,
+        onSupplementalOxygen,
+      };
+    }
+
+    // Gradual drift - injection mode lets injected (possibly critical) values persist
+    const hr = baseHR + random.int(-5, 6);
+    const spO2 = baseSpO2 + random.int(-1, 2);
+    const systolic = baseSystolic + random.int(-8, 9);
+    const diastolic = baseDiastolic + random.int(-5, 6);
+    const temperature = roundToTenth(baseTemperature + random.int(-2, 3) / 10);
+    const respiratoryRate = baseRespiratoryRate + random.int(-2, 3);
+
+    return isInjectionMode
+      ? {
+        heartRate: hr,
+        spO2: clamp(spO2, 0, 100),
+        bpSystolic: systolic,
+        bpDiastolic: diastolic,
+        temperature: clamp(temperature, 30, 45),
+        respiratoryRate: clamp(respiratoryRate, 4, 60),
+        consciousness,
+        onSupplementalOxygen,
+      }
+      : {
+        heartRate: clamp(hr, 60, 100),
+        spO2: clamp(spO2, 95, 100),
+        bpSystolic: clamp(systolic, 100, 140),
+        bpDiastolic: clamp(diastolic, 60, 90),
+        temperature: clamp(temperature, 36.5, 37.5),
+        respiratoryRate: clamp(respiratoryRate, 12, 20),
+        consciousness,
+        onSupplementalOxygen,
+      };
+  }
+
+  /**
+   * Store a reading, raise alerts and broadcast - same sequence as the inject endpoint
+   */
+  function recordVitals(patient: SimPatient, reading: Vitals): VitalSignsUpdate {
+    const vitals: VitalSigns = {
+      id: crypto.randomUUID(),
+      patientId: patient.id,
+      ...reading,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const history = vitalsByPatient.get(patient.id) ?? [];
+    history.push(vitals);
+    const cutoff = Date.now() - HISTORY_RETENTION_MS;
+    vitalsByPatient.set(patient.id, history.filter(v => Date.parse(v.recordedAt) >= cutoff));
+    // Acknowledged alerts age out with the readings - active ones stay until someone acknowledges them
+    alerts = alerts.filter(a => a.isActive || Date.parse(a.triggeredAt) >= cutoff);
+
+    // Alerts against this patient's alarm limits
+    const limits = alarmLimitsFor(patient);
+    const newAlerts = generateAlertsForVitals(vitals, limits);
+    if (newAlerts.length > 0) {
+      alerts.push(...newAlerts);
+      updatePatientStatus(patient, vitals, limits);
+
+      newAlerts.forEach(alert => emit('ReceiveAlert', {
+        alertId: alert.id,
+        patientId: patient.id,
+        patientName: patient.name,
+        alertType: alert.alertType,
+        severity: alert.severity,
+        message: alert.message,
+        triggeredAt: alert.triggeredAt,
+      }));
+    }
+
+    const bed = beds.find(b => b.id === patient.bedId);
+    const update: VitalSignsUpdate = {
+      patientId: patient.id,
+      patientName: patient.name,
+      bed: bed?.number,
+      ward: wards.find(w => w.id === bed?.wardId)?.name,
+      ...reading,
+      alertSeverity: calculateAlertSeverity(vitals, limits),
+      recordedAt: vitals.recordedAt,
+    };
+    emit('ReceiveVitalUpdate', update);
+    return update;
+  }
+
+  /**
+   * Alerts (port of AlertService)
+   */
+
+  function generateAlertsForVitals(vitals: VitalSigns, limits: AlarmLimits): Alert[] {
+    const generated: Alert[] = [];
+    const create = (alertType: string, severity: AlertSeverity, message: string) => generated.push({
+      id: crypto.randomUUID(),
+      patientId: vitals.patientId,
+      alertType,
+      severity,
+      message,
+      triggeredAt: new Date().toISOString(),
+      isActive: true,
+    });
+    const prefix = (severity: AlertSeverity) => (severity === 'Critical' ? 'CRITICAL' : 'WARNING');
+    const atLeastMedium = (severity: AlertSeverity) => SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf('Medium');
+
+    const hrSeverity = assessHeartRate(vitals.heartRate, limits);
+    if (atLeastMedium(hrSeverity)) {
+      create(hrSeverity === 'Critical' ? 'hr_critical' : 'hr_abnormal', hrSeverity,
+        `${prefix(hrSeverity)}: Heart Rate ${vitals.heartRate} BPM (Normal: 60-100 BPM)`);
+    }
+
+    const spo2Severity = assessSpO2(vitals.spO2, limits);
+    if (atLeastMedium(spo2Severity)) {
+      create(spo2Severity === 'Critical' ? 'spo2_critical' : 'spo2_low', spo2Severity,
+        `${prefix(spo2Severity)}: Oxygen Saturation ${vitals.spO2}% (Normal: >95%)`);
+    }
+
+    const bpSeverity = assessBloodPressure(vitals.bpSystolic, vitals.bpDiastolic, limits);
+    if (atLeastMedium(bpSeverity)) {
+      create(bpSeverity === 'Critical' ? 'bp_crisis' : 'bp_high', bpSeverity,
+        `${prefix(bpSeverity)}: Blood Pressure ${vitals.bpSystolic}/${vitals.bpDiastolic} mmHg (Normal: <140/90 mmHg)`);
+    }
+
+    return generated;
+  }
+
+  function updatePatientStatus(patient: SimPatient, vitals: VitalSigns, limits: AlarmLimits) {
+    const severity = calculateAlertSeverity(vitals, limits);
+    // Don't downgrade status automatically
+    if (severity === 'Critical' || severity === 'High') {
+      patient.status = statusFromSeverity(severity);
+    }
+  }
+
+  /**
+   * REST endpoints
+   */
+
+  function json(body: unknown, status: number = 200, correlationId?: string | null): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        'Content-Type': status >= 400 ? 'application/problem+json' : 'application/json',
+        ...(correlationId ? { [CORRELATION_ID_HEADER]: correlationId } : {}),
+      },
+    });
+  }
+
+  function problem(status: number, detail: string, correlationId?: string | null): Response {
+    const title = status === 404 ? 'Not Found' : status === 400 ? 'Bad Request' : 'Error';
+    return json({ title, status, detail, traceId: correlationId }, status, correlationId);
+  }
+
+  function toPatientDto(patient: SimPatient) {
+    const bed = beds.find(b => b.id === patient.bedId);
+    const ward = wards.find(w => w.id === bed?.wardId);
+    return {
+      ...patient,
+      bed: bed ? { ...bed, ward: ward ? { ...ward } : null } : null,
+      // Last 20 readings, chronological - same as GetPatients
+      vitalSigns: (vitalsByPatient.get(patient.id) ?? []).slice(-RECENT_VITALS_PER_PATIENT),
+      alerts: alerts
+        .filter(a => a.patientId === patient.id && a.isActive)
+        .sort((a, b) => Date.parse(b.triggeredAt) - Date.parse(a.triggeredAt)),
+    };
+  }
+
+  function route(method: string, url: URL, body: unknown, correlationId: string | null): Response {
+    const path = url.pathname;
+    const params = url.searchParams;
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/wards') {
+      return json([...wards].sort((a, b) => a.name.localeCompare(b.name)), 200, correlationId);
+    }
+
+    if (method === 'GET' && path === '/patients') {
+      const wardId = params.get('wardId');
+      const result = patients
+        .filter(p => !wardId || beds.find(b => b.id === p.bedId)?.wardId === wardId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(toPatientDto);
+      return json(result, 200, correlationId);
+    }
+
+    if (method === 'GET' && (match = path.match(/^\/patients\/([^/]+)\/trend$/))) {
+      const minutes = Number(params.get('minutes') ?? 240);
+      const cutoff = Date.now() - minutes * 60_000;
+      const trend = (vitalsByPatient.get(match[1]) ?? []).filter(v => Date.parse(v.recordedAt) >= cutoff);
+      return json(trend, 200, correlationId);
+    }
+
+    if (method === 'GET' && path === '/time') {
+      return json({ utcNow: new Date().toISOString() }, 200, correlationId);
+    }
+
+    if (method === 'GET' && path === '/vitals') {
+      const since = Math.max(Date.parse(params.get('since') ?? ''), Date.now() - HISTORY_MINUTES * 60_000);
+      if (Number.isNaN(since)) return problem(400, 'since is required', correlationId);
+      const page = Math.max(Number(params.get('page') ?? 1), 1);
+      const pageSize = clamp(Number(params.get('pageSize') ?? 500), 1, 1000);
+      const readings = Array.from(vitalsByPatient.values())
+        .flat()
+        .filter(v => Date.parse(v.recordedAt) > since)
+        .sort((a, b) => Date.parse(a.recordedAt) - Date.parse(b.recordedAt) || a.id.localeCompare(b.id));
+
+      return json({
+        items: readings.slice((page - 1) * pageSize, page * pageSize),
+        page,
+        pageSize,
+        totalCount: readings.length,
+      }, 200, correlationId);
+    }
+
+    if (method === 'POST' && path === '/vitals/inject') {
+      const request = body as VitalSignsInjectionRequest;
+      const patient = patients.find(p => p.id === request?.patientId);
+      if (!patient) return problem(404, `Patient ${request?.patientId} not found`, correlationId);
+
+      const reading: Vitals = {
+        heartRate: request.heartRate,
+        spO2: request.spO2,
+        bpSystolic: request.bpSystolic,
+        bpDiastolic: request.bpDiastolic,
+        temperature: request.temperature,
+      };
+      if (!isValidVitals(reading)) return problem(400, 'Invalid vital signs values', correlationId);
+
+      // Simulator uses injected vitals as baseline while injection mode is enabled
+      lastInjectedVitals.set(patient.id, reading);
+      return json(recordVitals(patient, reading), 200, correlationId);
+    }
+
+    if (method === 'POST' && (match = path.match(/^\/simulator\/patient\/([^/]+)\/injection-mode$/))) {
+      const patientId = match[1];
+      const patient = patients.find(p => p.id === patientId);
+      if (!patient) return problem(404, `Patient ${patientId} not found`, correlationId);
+
+      const enabled = params.get('enabled') === 'true';
+      patient.injectionModeEnabled = enabled;
+      if (!enabled) lastInjectedVitals.delete(patient.id);
+
+      emit('ReceiveInjectionModeChange', {
+        patientId: patient.id,
+        patientName: patient.name,
+        injectionModeEnabled: enabled,
+        changedAt: new Date().toISOString(),
+      });
+      return json({ patientId: patient.id, injectionMode: enabled ? 'ENABLED' : 'DISABLED' }, 200, correlationId);
+    }
+
+    if (method === 'POST' && (match = path.match(/^\/patients\/([^/]+)\/nurse-attending$/))) {
+      const patientId = match[1];
+      const patient = patients.find(p => p.id === patientId);
+      if (!patient) return problem(404, `Patient ${patientId} not found`, correlationId);
+
+      const attending = params.get('attending') === 'true';
+      patient.nurseAttending = attending;
+
+      emit('ReceiveNurseAttendingChange', {
+        patientId: patient.id,
+        patientName: patient.name,
+        nurseAttending: attending,
+        changedAt: new Date().toISOString(),
+      });
+      return json({ patientId: patient.id, nurseAttending: attending ? 'ATTENDING' : 'IDLE' }, 200, correlationId);
+    }
+
+    if (method === 'GET' && path === '/alerts') {
+      const page = Math.max(Number(params.get('page') ?? 1), 1);
+      const pageSize = clamp(Number(params.get('pageSize') ?? 50), 1, 200);
+      const patientId = params.get('patientId');
+      const activeOnly = params.get('activeOnly');
+      const since = params.get('since');
+
+      const filtered = alerts
+        .filter(a => !patientId || a.patientId === patientId)
+        .filter(a => activeOnly === null || a.isActive === (activeOnly === 'true'))
+        .filter(a => !since || Date.parse(a.triggeredAt) >= Date.parse(since))
+        .sort((a, b) => Date.parse(b.triggeredAt) - Date.parse(a.triggeredAt));
+
+      return json({
+        items: filtered.slice((page - 1) * pageSize, page * pageSize),
+        page,
+        pageSize,
+        totalCount: filtered.length,
+      }, 200, correlationId);
+    }
+
+    if (method === 'POST' && (match = path.match(/^\/alerts\/([^/]+)\/acknowledge$/))) {
+      const acknowledgedBy = (body as { acknowledgedBy?: string } | undefined)?.acknowledgedBy?.trim();
+      if (!acknowledgedBy) return problem(400, 'AcknowledgedBy is required', correlationId);
+
+      const alertId = match[1];
+      const alert = alerts.find(a => a.id === alertId);
+      if (!alert) return problem(404, `Alert ${alertId} not found`, correlationId);
+
+      // Idempotent - a second acknowledgement keeps the original one
+      if (alert.isActive) {
+        alert.isActive = false;
+        alert.acknowledgedAt = new Date().toISOString();
+        alert.acknowledgedBy = acknowledgedBy;
+
+        emit('ReceiveAlertAcknowledged', {
+          alertId: alert.id,
+          patientId: alert.patientId,
+          patientName: patients.find(p => p.id === alert.patientId)?.name ?? alert.patientId,
+          acknowledgedBy,
+          acknowledgedAt: alert.acknowledgedAt,
+        });
+      }
+      return json(alert, 200, correlationId);
+    }
+
+    if (method === 'GET' && path === '/alarm-profiles') {
+      return json([...ALARM_LIMIT_PROFILES].sort((a, b) => a.name.localeCompare(b.name)), 200, correlationId);
+    }
+
+    if (method === 'PUT' && (match = path.match(/^\/wards\/([^/]+)\/alarm-profile$/))) {
+      const wardId = match[1];
+      const ward = wards.find(w => w.id === wardId);
+      if (!ward) return problem(404, `Ward ${wardId} not found`, correlationId);
+
+      const profileId = (body as { profileId?: string | null } | undefined)?.profileId ?? undefined;
+      if (profileId && !ALARM_LIMIT_PROFILES.some(p => p.id === profileId)) {
+        return problem(400, `Alarm limit profile ${profileId} not found`, correlationId);
+      }
+      ward.alarmLimitProfileId = profileId;
+
+      const change: WardAlarmLimitsChange = {
+        wardId: ward.id,
+        wardName: ward.name,
+        alarmLimitProfileId: profileId,
+        changedAt: new Date().toISOString(),
+      };
+      emit('ReceiveWardAlarmLimitsChange', change);
+      return json(change, 200, correlationId);
+    }
+
+    if (method === 'PUT' && (match = path.match(/^\/patients\/([^/]+)\/alarm-limits$/))) {
+      const patientId = match[1];
+      const patient = patients.find(p => p.id === patientId);
+      if (!patient) return problem(404, `Patient ${patientId} not found`, correlationId);
+
+      const request = body as Partial<PatientAlarmLimitsRequest> | undefined;
+      const profileId = request?.profileId ?? undefined;
+      if (profileId && !ALARM_LIMIT_PROFILES.some(p => p.id === profileId)) {
+        return problem(400, `Alarm limit profile ${profileId} not found`, correlationId);
+      }
+
+      const overrides: AlarmLimitOverrides = {};
+      for (const key of ALARM_LIMIT_KEYS) {
+        const value = request?.overrides?.[key];
+        if (value === undefined || value === null) continue;
+        if (!Number.isInteger(value)) return problem(400, `Alarm limit ${key} must be a whole number`, correlationId);
+        overrides[key] = value;
+      }
+
+      // Overrides apply on top of the profile, so check the combination
+      const updated: SimPatient = {
+        ...patient,
+        alarmLimitProfileId: profileId,
+        alarmLimitOverrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+      };
+      if (!isValidAlarmLimits(alarmLimitsFor(updated))) {
+        return problem(400, 'Alarm limits must nest: critical bands outside medium bands', correlationId);
+      }
+      patient.alarmLimitProfileId = updated.alarmLimitProfileId;
+      patient.alarmLimitOverrides = updated.alarmLimitOverrides;
+
+      const change: PatientAlarmLimitsChange = {
+        patientId: patient.id,
+        patientName: patient.name,
+        alarmLimitProfileId: patient.alarmLimitProfileId,
+        alarmLimitOverrides: patient.alarmLimitOverrides,
+        changedAt: new Date().toISOString(),
+      };
+      emit('ReceivePatientAlarmLimitsChange', change);
+      return json(change, 200, correlationId);
+    }
+
+    return problem(404, `No simulated endpoint for ${method} ${path}`, correlationId);
+  }
+
+  /**
+   * fetch-compatible entry point
+   * @param path - API path relative to the API base URL (e.g. "/patients?wardId=w1")
+   */
+  async function simulatedFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+
+    const method = (init.method ?? 'GET').toUpperCase();
+    const headers = new Headers(init.headers);
+    const body = typeof init.body === 'string' && init.body.length > 0 ? JSON.parse(init.body) : undefined;
+
+    return route(method, new URL(path, 'http://simulated.local'), body, headers.get(CORRELATION_ID_HEADER));
+  }
+
+  seed();
+
+  return {
+    fetch: simulatedFetch,
+    on,
+    /** Run one simulator cycle immediately (also used by tests) */
+    tick: simulateCycle,
+    stop: stopSimulator,
+  };
+}
+
+export type SimulatedBackend = ReturnType<typeof createSimulatedBackend>;
+
+/** Shared instance - state survives switching data sources back and forth within a session */
+export const simulatedBackend = createSimulatedBackend();
@@ -1,5 +1,27 @@
 import { create } from 'zustand';
-import type { Patient, Alert, ConnectionStatus, VitalSignsUpdate, AlertNotification, PatientStatus } from '../types/hospital';
+import type { Patient, Alert, ConnectionStatus, AlertNotification, AlertAcknowledgement, AlarmLimitProfile } from '../types/hospital';
+import type { TemperatureUnit } from '../utils/temperature';
+import { calculateAlertSeverity } from '../utils/clinicalThresholds';
+import { resolveAlarmLimits } from '../utils/alarmLimits';
+import { calculatePatientNews2, type News2Result } from '../utils/news2';
+import { calculateAcuityTier, type AcuityTier } from '../utils/acuityRanking';
+import type { HubScope } from '../utils/hubScopes';
+import {
+  DEFAULT_SIGNAL_LOSS_ALARM_MS,
+  SIGNAL_LOSS_ALARM_OPTIONS_MS,
+  isTechnicalAlert,
+  type QuietSignal,
+} from '../utils/signalLoss';
+import { DEFAULT_ALARM_VOLUMES, type ActiveAlarm, type AlarmPriority } from '../utils/alarmTones';
+import { createAudioPause, type AudioPause } from '../utils/audioPause';
+import {
+  DEFAULT_PATIENT_FILTERS,
+  matchesPatientSearch,
+  parsePatientFilterParams,
+  type PatientFilters,
+} from '../utils/patientFilters';
+
+export type { PatientSort } from '../utils/patientFilters';
 
 /**
  * SignalR Debug Log Entry
@@ -8,7 +30,7 @@ import type { Patient, Alert, ConnectionStatus, VitalSignsUpdate, AlertNotificat
 export interface SignalRLogEntry {
   id: string;
   timestamp: Date;
-  eventType: 'VitalUpdate' | 'Alert' | 'InjectionMode' | 'NurseAttending' | 'Connection';
+  eventType: 'VitalUpdate' | 'Alert' | 'AlertAcknowledged' | 'InjectionMode' | 'NurseAttending' | 'AlarmLimits' | 'Connection' | 'Contract';
   patientId?: string;
   patientName?: string;
   data: Record<string, unknown>;
@@ -21,20 +43,143 @@ export interface SignalRStats {
   eventCounts: {
     VitalUpdate: number;
     Alert: number;
+    AlertAcknowledged: number;
     InjectionMode: number;
     NurseAttending: number;
+    AlarmLimits: number;
     Connection: number;
+    Contract: number;
   };
 }
 
+/**
+ * Transient user-facing message (e.g. a failed mutation), shown by NoticeSnackbar
+ */
+export interface Notice {
+  id: string;
+  severity: 'success' | 'info' | 'warning' | 'error';
+  message: string;
+}
+
+/**
+ * Pending hub reconnect, shown as a countdown with a "Reconnect now" button
+ */
+export interface ReconnectSchedule {
+  attempt: number;      // 1 for the first retry after the drop
+  nextAttemptAt: number; // Epoch ms
+}
+
+/**
+ * REST polling fallback while the hub is down (see useHubPollingFallback)
+ */
+export interface HubPolling {
+  intervalMs: number;
+  lastPolledAt?: number; // Epoch ms of the last successful poll
+  error?: string;        // Last poll failed
+}
+
+/**
+ * Where patient data comes from: the real API, or the in-browser simulated backend
+ */
+export type DataSource = 'live' | 'simulated';
+
+const DATA_SOURCE_STORAGE_KEY = 'hospital:data-source';
+
+function loadDataSource(): DataSource {
+  try {
+    return localStorage.getItem(DATA_SOURCE_STORAGE_KEY) === 'simulated' ? 'simulated' : 'live';
+  } catch {
+    return 'live';
+  }
+}
+
+const TEMPERATURE_UNIT_STORAGE_KEY = 'hospital:temperature-unit';
+
+function loadTemperatureUnit(): TemperatureUnit {
+  try {
+    return localStorage.getItem(TEMPERATURE_UNIT_STORAGE_KEY) === 'F' ? 'F' : 'C';
+  } catch {
+    return 'C';
+  }
+}
+
+// Remembered per display - a ward TV stays on its ward across reloads
+const SELECTED_WARD_STORAGE_KEY = 'hospital:selected-ward';
+
+function loadSelectedWard(): string | undefined {
+  try {
+    return localStorage.getItem(SELECTED_WARD_STORAGE_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Grid filters start from the URL, so a shared or bookmarked view opens as it was
+ */
+function loadPatientFilters(): PatientFilters {
+  try {
+    return { ...DEFAULT_PATIENT_FILTERS, ...parsePatientFilterParams(window.location.search) };
+  } catch {
+    return DEFAULT_PATIENT_FILTERS;
+  }
+}
+
+// Indefinite mutes from before audio pause - a forgotten one could silence a patient for days
+const LEGACY_MUTE_STORAGE_KEYS = ['hospital:muted-patients', 'hospital:global-mute'];
+
+function clearLegacyMutes() {
+  try {
+    LEGACY_MUTE_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // Storage unavailable - nothing to clear
+  }
+}
+
+const ALARM_VOLUMES_STORAGE_KEY = 'hospital:alarm-volumes';
+
+function loadAlarmVolumes(): Record<AlarmPriority, number> {
+  try {
+    const stored = localStorage.getItem(ALARM_VOLUMES_STORAGE_KEY);
+    return { ...DEFAULT_ALARM_VOLUMES, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_ALARM_VOLUMES;
+  }
+}
+
+const ALL_CLEAR_CHIME_STORAGE_KEY = 'hospital:all-clear-chime';
+
+function loadAllClearChime(): boolean {
+  try {
+    return JSON.parse(localStorage.getItem(ALL_CLEAR_CHIME_STORAGE_KEY) ?? 'false') === true;
+  } catch {
+    return false;
+  }
+}
+
+const SIGNAL_LOSS_ALARM_STORAGE_KEY = 'hospital:signal-loss-alarm-ms';
+
+function loadSignalLossAlarmMs(): number {
+  try {
+    const stored = Number(localStorage.getItem(SIGNAL_LOSS_ALARM_STORAGE_KEY));
+    return SIGNAL_LOSS_ALARM_OPTIONS_MS.includes(stored) ? stored : DEFAULT_SIGNAL_LOSS_ALARM_MS;
+  } catch {
+    return DEFAULT_SIGNAL_LOSS_ALARM_MS;
+  }
+}
+
 /**
  * Hospital Dashboard State Management
- * Uses Zustand for lightweight, performant state management
+ * Uses Zustand for lightweight, performant UI state.
+ * Patient data lives in the React Query cache (see useHospitalQueries).
  */
 
-interface HospitalState {
-  // Patient data (keyed by ID for O(1) updates)
-  patients: Map<string, Patient>;
+interface HospitalState extends PatientFilters {
+  // Data source (persisted) - simulated data is always watermarked
+  dataSource: DataSource;
+
+  // Temperature display unit (persisted) - vitals are always stored in °C
+  temperatureUnit: TemperatureUnit;
 
   // Active alerts across all patients
   alerts: Alert[];
@@ -42,6 +187,9 @@ interface HospitalState {
   // SignalR connection status
   connectionStatus: ConnectionStatus;
   lastHeartbeat?: Date;
+  clockOffsetMs: number; // Server clock minus this workstation's (see services/serverClock)
+  reconnectSchedule?: ReconnectSchedule; // Next hub reconnect attempt while disconnected
+  hubPolling?: HubPolling; // Set while polling stands in for the hub
 
   // SignalR Debug Logging (for recruiter proof)
   signalRLogs: SignalRLogEntry[];
@@ -49,26 +197,53 @@ interface HospitalState {
   showSignalRPanel: boolean;
 
   // UI State
-  selectedWardId?: string;
-  showAlertsOnly: boolean;
+  selectedWardId?: string; // Persisted per display - undefined shows every ward
+  // Grid search, filters and sort - see PatientFilters (mirrored in the URL)
+  activeAlarms: ActiveAlarm[]; // Published by useAlarmManager - a pause holds what is sounding when it starts
+  patientAudioPauses: Map<string, AudioPause>; // Timed per-patient silences (see utils/audioPause)
+  globalAudioPause?: AudioPause; // Timed silence of every alarm
+  audioBlocked: boolean; // The browser is blocking an alarm until the next click or key press
+  alarmVolumes: Record<AlarmPriority, number>; // 0-1 per alarm priority (persisted)
+  allClearChime: boolean; // Chime when the last critical patient recovers (persisted)
+  signalLossAlarmMs: number; // Silence before a "signal lost" technical alarm (persisted)
+  patientSignals: Map<string, QuietSignal>; // Patients whose monitor has gone quiet - live ones are absent
   selectedPatientId?: string; // For trend chart modal
-  injectionModeEnabled: Map<string, boolean>; // Track which patients have injection mode ON
-  nurseAttendingPatientId?: string; // Track which patient has nurse attending
-  patientMutesBeforeNurseAttending: Map<string, boolean>; // Store original mute state for restore
+  focusedPatientId?: string; // Card to scroll to and highlight (alert center "jump to patient")
+  subscribedPatientId?: string; // Patient detail open - narrows the hub subscription to this patient
+  activeHubScopes: HubScope[]; // Hub groups joined on the current connection (see utils/hubScopes)
+  notice?: Notice;
 
   // Actions
-  setPatients: (patients: Patient[]) => void;
-  updatePatientVitals: (update: VitalSignsUpdate) => void;
+  setDataSource: (source: DataSource) => void;
+  setTemperatureUnit: (unit: TemperatureUnit) => void;
   addAlert: (alert: AlertNotification) => void;
+  upsertAlerts: (alerts: Alert[]) => void; // Merge by ID, e.g. active alerts seeded from getPatients
+  applyAlertAcknowledgement: (acknowledgement: AlertAcknowledgement) => void;
   setConnectionStatus: (status: ConnectionStatus) => void;
+  setClockOffset: (offsetMs: number) => void;
+  setReconnectSchedule: (schedule?: ReconnectSchedule) => void;
+  setHubPolling: (polling?: HubPolling) => void;
   setSelectedWard: (wardId?: string) => void;
-  setShowAlertsOnly: (show: boolean) => void;
+  setPatientFilters: (filters: Partial<PatientFilters>) => void;
+  resetPatientFilters: () => void; // Keeps the sort order
+  setActiveAlarms: (alarms: ActiveAlarm[]) => void;
+  pausePatientAudio: (patientId: string) => void;
+  resumePatientAudio: (patientId: string) => void;
+  pauseGlobalAudio: () => void;
+  resumeGlobalAudio: () => void;
+  expireAudioPauses: (now: number) => void; // Re-arms every pause that has run out
+  setAudioBlocked: (blocked: boolean) => void;
+  setAlarmVolume: (priority: AlarmPriority, volume: number) => void;
+  setAllClearChime: (enabled: boolean) => void;
+  setSignalLossAlarmMs: (ms: number) => void;
+  setPatientSignals: (signals: Map<string, QuietSignal>) => void;
   setSelectedPatient: (patientId?: string) => void;
-  acknowledgeAlert: (alertId: string) => void;
-  toggleInjectionMode: (patientId: string, enabled: boolean) => void;
-  setNurseAttending: (patientId?: string) => void;
-  storeOriginalMuteState: (patientId: string, isMuted: boolean) => void;
-  getOriginalMuteState: (patientId: string) => boolean | undefined;
+  focusPatient: (patientId?: string) => void;
+  setSubscribedPatient: (patientId?: string) => void;
+  setActiveHubScopes: (scopes: HubScope[]) => void;
+  acknowledgeAlert: (alertId: string, acknowledgedBy?: string) => void;
+  showNotice: (severity: Notice['severity'], message: string) => void;
+  dismissNotice: () => void;
 
   // SignalR Debug Actions
   addSignalRLog: (entry: Omit<SignalRLogEntry, 'id' | 'timestamp'>) => void;
@@ -76,16 +251,47 @@ interface HospitalState {
   clearSignalRLogs: () => void;
 }
 
+const MAX_ALERTS = 50;
+
+/**
+ * Keep the newest 50 alerts - plus any active technical alarm, which only this dashboard raises
+ * and resolves, so a busy ward can't push an open signal-lost alarm out of the store
+ */
+function capAlerts(alerts: Alert[]): Alert[] {
+  return alerts.filter((alert, index) => index < MAX_ALERTS || (alert.isActive && isTechnicalAlert(alert)));
+}
+
+/**
+ * Merge alerts by ID (incoming wins), newest first, capped (see capAlerts)
+ */
+function mergeAlerts(existing: Alert[], incoming: Alert[]): Alert[] {
+  const byId = new Map(existing.map(a => [a.id, a]));
+  incoming.forEach(a => byId.set(a.id, a));
+  return capAlerts(Array.from(byId.values())
+    .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime()));
+}
+
+clearLegacyMutes();
+
 // Track message timestamps for rate calculation
 let messageTimestamps: number[] = [];
 
-export const useHospitalStore = create<HospitalState>((set, get) => ({
-  patients: new Map(),
+export const useHospitalStore = create<HospitalState>((set) => ({
+  dataSource: loadDataSource(),
+  temperatureUnit: loadTemperatureUnit(),
+  selectedWardId: loadSelectedWard(),
+  ...loadPatientFilters(),
+  activeAlarms: [],
+  patientAudioPauses: new Map(),
+  audioBlocked: false,
+  alarmVolumes: loadAlarmVolumes(),
+  allClearChime: loadAllClearChime(),
+  signalLossAlarmMs: loadSignalLossAlarmMs(),
+  patientSignals: new Map(),
+  activeHubScopes: [],
   alerts: [],
   connectionStatus: 'disconnected',
-  showAlertsOnly: false,
-  injectionModeEnabled: new Map(),
-  patientMutesBeforeNurseAttending: new Map(),
+  clockOffsetMs: 0,
 
   // SignalR Debug State
   signalRLogs: [],
@@ -95,57 +301,29 @@ export const useHospitalStore = create<HospitalState>((set, get) => ({
     eventCounts: {
       VitalUpdate: 0,
       Alert: 0,
+      AlertAcknowledged: 0,
       InjectionMode: 0,
       NurseAttending: 0,
+      AlarmLimits: 0,
       Connection: 0,
+      Contract: 0,
     },
   },
   showSignalRPanel: false,
 
-  setPatients: (patients) => set({
-    patients: new Map(patients.map(p => [p.id, p]))
-  }),
-
-  updatePatientVitals: (update) => set((state) => {
-    const patients = new Map(state.patients);
-    const patient = patients.get(update.patientId);
-
-    if (patient) {
-      // Create new vital signs entry
-      const newVitals = {
-        id: crypto.randomUUID(),
-        patientId: update.patientId,
-        heartRate: update.heartRate,
-        spO2: update.spO2,
-        bpSystolic: update.bpSystolic,
-        bpDiastolic: update.bpDiastolic,
-        recordedAt: update.recordedAt,
-      };
-
-      // Ensure vitalSigns is always an array (API returns latestVitals object initially)
-      const existingVitals = Array.isArray(patient.vitalSigns) ? patient.vitalSigns : [];
-
-      // Map alertSeverity from SignalR to patient status
-      // This ensures CRITICAL/WATCH pills update in real-time across all clients
-      const statusFromSeverity: PatientStatus = update.alertSeverity === 'Critical' ? 'critical'
-        : update.alertSeverity === 'High' ? 'watch'
-        : 'stable';
-
-      // Update patient with new vitals (keep last 20 for sparkline) and status
-      const updatedPatient = {
-        ...patient,
-        vitalSigns: [newVitals, ...existingVitals].slice(0, 20),
-        status: statusFromSeverity, // ← Update status for real-time CRITICAL/WATCH pills
-      };
-
-      patients.set(update.patientId, updatedPatient);
-    }
+  setDataSource: (source) => {
+    localStorage.setItem(DATA_SOURCE_STORAGE_KEY, source);
+    // Alerts and selections belong to the previous source's patients
+    set({ dataSource: source, alerts: [], patientSignals: new Map(), focusedPatientId: undefined, selectedPatientId: undefined });
+  },
 
-    return { patients };
-  }),
+  setTemperatureUnit: (unit) => {
+    localStorage.setItem(TEMPERATURE_UNIT_STORAGE_KEY, unit);
+    set({ temperatureUnit: unit });
+  },
 
   addAlert: (alertNotification) => set((state) => ({
-    alerts: [{
+    alerts: capAlerts([{
       id: alertNotification.alertId,
       patientId: alertNotification.patientId,
       alertType: alertNotification.alertType,
@@ -153,61 +331,129 @@ export const useHospitalStore = create<HospitalState>((set, get) => ({
       message: alertNotification.message,
       triggeredAt: alertNotification.triggeredAt,
       isActive: true,
-    }, ...state.alerts].slice(0, 50) // Keep last 50 alerts
+    }, ...state.alerts])
+  })),
+
+  upsertAlerts: (alerts) => set((state) => ({
+    alerts: mergeAlerts(state.alerts, alerts),
+  })),
+
+  applyAlertAcknowledgement: (acknowledgement) => set((state) => ({
+    alerts: state.alerts.map(alert =>
+      alert.id === acknowledgement.alertId
+        ? {
+          ...alert,
+          isActive: false,
+          acknowledgedAt: acknowledgement.acknowledgedAt,
+          acknowledgedBy: acknowledgement.acknowledgedBy,
+        }
+        : alert
+    )
   })),
 
   setConnectionStatus: (status) => set({
     connectionStatus: status,
-    lastHeartbeat: status === 'connected' ? new Date() : undefined
+    lastHeartbeat: status === 'connected' ? new Date() : undefined,
+    ...(status === 'connected' && { reconnectSchedule: undefined }),
   }),
 
-  setSelectedWard: (wardId) => set({ selectedWardId: wardId }),
+  setReconnectSchedule: (schedule) => set({ reconnectSchedule: schedule }),
 
-  setShowAlertsOnly: (show) => set({ showAlertsOnly: show }),
+  setClockOffset: (offsetMs) => set({ clockOffsetMs: offsetMs }),
 
-  setSelectedPatient: (patientId) => set({ selectedPatientId: patientId }),
+  setHubPolling: (polling) => set({ hubPolling: polling }),
 
-  acknowledgeAlert: (alertId) => set((state) => ({
-    alerts: state.alerts.map(alert =>
-      alert.id === alertId
-        ? { ...alert, isActive: false, acknowledgedAt: new Date().toISOString() }
-        : alert
-    )
-  })),
-
-  toggleInjectionMode: (patientId, enabled) => set((state) => {
-    // Update the injectionModeEnabled map for optimistic updates
-    const injectionModeEnabled = new Map(state.injectionModeEnabled);
-    injectionModeEnabled.set(patientId, enabled);
-
-    // CRITICAL: Also update the patient object so PatientCard reads the correct value
-    // This ensures that both the Map and the Patient object stay in sync
-    const patients = new Map(state.patients);
-    const patient = patients.get(patientId);
-    if (patient) {
-      patients.set(patientId, {
-        ...patient,
-        injectionModeEnabled: enabled,
-      });
+  setSelectedWard: (wardId) => {
+    if (wardId) {
+      localStorage.setItem(SELECTED_WARD_STORAGE_KEY, wardId);
+    } else {
+      localStorage.removeItem(SELECTED_WARD_STORAGE_KEY);
     }
+    set({ selectedWardId: wardId });
+  },
+
+  setPatientFilters: (filters) => set(filters),
+
+  resetPatientFilters: () => set((state) => ({ ...DEFAULT_PATIENT_FILTERS, patientSort: state.patientSort })),
 
-    return { injectionModeEnabled, patients };
+  setActiveAlarms: (alarms) => set({ activeAlarms: alarms }),
+
+  // Pauses run on the server clock, like the alarms they hold
+  pausePatientAudio: (patientId) => set((state) => {
+    const patientAudioPauses = new Map(state.patientAudioPauses);
+    const alarms = state.activeAlarms.filter(alarm => alarm.patientId === patientId);
+    patientAudioPauses.set(patientId, createAudioPause(alarms, Date.now() + state.clockOffsetMs));
+    return { patientAudioPauses };
+  }),
+
+  resumePatientAudio: (patientId) => set((state) => {
+    if (!state.patientAudioPauses.has(patientId)) return {};
+    const patientAudioPauses = new Map(state.patientAudioPauses);
+    patientAudioPauses.delete(patientId);
+    return { patientAudioPauses };
   }),
 
-  setNurseAttending: (patientId) => set({
-    nurseAttendingPatientId: patientId,
+  pauseGlobalAudio: () => set((state) => ({
+    globalAudioPause: createAudioPause(state.activeAlarms, Date.now() + state.clockOffsetMs),
+  })),
+
+  resumeGlobalAudio: () => set({ globalAudioPause: undefined }),
+
+  expireAudioPauses: (now) => set((state) => {
+    const expired = Array.from(state.patientAudioPauses).filter(([, pause]) => pause.until <= now);
+    const globalExpired = state.globalAudioPause !== undefined && state.globalAudioPause.until <= now;
+    if (expired.length === 0 && !globalExpired) return {};
+
+    const patientAudioPauses = new Map(state.patientAudioPauses);
+    expired.forEach(([patientId]) => patientAudioPauses.delete(patientId));
+    return {
+      patientAudioPauses,
+      globalAudioPause: globalExpired ? undefined : state.globalAudioPause,
+    };
   }),
 
-  storeOriginalMuteState: (patientId, isMuted) => set((state) => {
-    const mutesMap = new Map(state.patientMutesBeforeNurseAttending);
-    mutesMap.set(patientId, isMuted);
-    return { patientMutesBeforeNurseAttending: mutesMap };
+  setAudioBlocked: (blocked) => set({ audioBlocked: blocked }),
+
+  setAlarmVolume: (priority, volume) => set((state) => {
+    const alarmVolumes = { ...state.alarmVolumes, [priority]: volume };
+    localStorage.setItem(ALARM_VOLUMES_STORAGE_KEY, JSON.stringify(alarmVolumes));
+    return { alarmVolumes };
   }),
 
-  getOriginalMuteState: (patientId) => {
-    return get().patientMutesBeforeNurseAttending.get(patientId);
+  setAllClearChime: (enabled) => {
+    localStorage.setItem(ALL_CLEAR_CHIME_STORAGE_KEY, JSON.stringify(enabled));
+    set({ allClearChime: enabled });
+  },
+
+  setSignalLossAlarmMs: (ms) => {
+    localStorage.setItem(SIGNAL_LOSS_ALARM_STORAGE_KEY, String(ms));
+    set({ signalLossAlarmMs: ms });
   },
 
+  setPatientSignals: (signals) => set({ patientSignals: signals }),
+
+  setSelectedPatient: (patientId) => set({ selectedPatientId: patientId }),
+
+  focusPatient: (patientId) => set({ focusedPatientId: patientId }),
+
+  setSubscribedPatient: (patientId) => set({ subscribedPatientId: patientId }),
+
+  setActiveHubScopes: (scopes) => set({ activeHubScopes: scopes }),
+
+  acknowledgeAlert: (alertId, acknowledgedBy) => set((state) => ({
+    alerts: state.alerts.map(alert =>
+      alert.id === alertId
+        ? { ...alert, isActive: false, acknowledgedAt: new Date().toISOString(), acknowledgedBy }
+        : alert
+    )
+  })),
+
+  showNotice: (severity, message) => set({
+    notice: { id: crypto.randomUUID(), severity, message },
+  }),
+
+  dismissNotice: () => set({ notice: undefined }),
+
   // SignalR Debug Actions
   addSignalRLog: (entry) => set((state) => {
     const now = Date.now();
@@ -218,7 +464,7 @@ export const useHospitalStore = create<HospitalState>((set, get) => ({
     const newLog: SignalRLogEntry = {
       ...entry,
       id: crypto.randomUUID(),
-      timestamp: new Date(),
+      timestamp: new Date(now + state.clockOffsetMs), // Server time, like the payloads' own timestamps
     };
 
     const newStats = {
@@ -250,9 +496,12 @@ export const useHospitalStore = create<HospitalState>((set, get) => ({
       eventCounts: {
         VitalUpdate: 0,
         Alert: 0,
+        AlertAcknowledged: 0,
         InjectionMode: 0,
         NurseAttending: 0,
+        AlarmLimits: 0,
         Connection: 0,
+        Contract: 0,
       },
     },
   }),
@@ -262,33 +511,100 @@ export const useHospitalStore = create<HospitalState>((set, get) => ({
  * Selectors for derived state
  */
 
-export const selectFilteredPatients = (state: HospitalState): Patient[] => {
-  let patients = Array.from(state.patients.values());
+export type PatientFilterState = PatientFilters & Pick<HospitalState, 'selectedWardId' | 'patientAudioPauses'>;
+
+/**
+ * Highest score first; at equal scores the "3 in one parameter" trigger ranks higher.
+ * Partial scores sort as the lower bound they are, unscorable patients last.
+ */
+function compareNews2(a: News2Result | undefined, b: News2Result | undefined): number {
+  if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+  if (a.score !== b.score) return b.score - a.score;
+  return Number(b.singleParameterTrigger) - Number(a.singleParameterTrigger);
+}
+
+/**
+ * @param profilesById - Alarm-limit profiles, so the alerts-only filter assesses each patient against their own limits
+ * @param acuityTiers - Ranked tiers with hysteresis (see useAcuityRanking) for the acuity order;
+ *                      patients without one are ranked on their current tier
+ */
+export const selectFilteredPatients = (
+  state: PatientFilterState,
+  allPatients: Patient[],
+  profilesById: ReadonlyMap<string, AlarmLimitProfile> = new Map(),
+  acuityTiers: ReadonlyMap<string, AcuityTier> = new Map(),
+): Patient[] => {
+  let patients = [...allPatients];
 
   // Filter by ward
   if (state.selectedWardId) {
     patients = patients.filter(p => p.bed?.wardId === state.selectedWardId);
   }
 
+  // Free-text search and status / flag filters
+  patients = patients.filter(p =>
+    matchesPatientSearch(p, state.searchQuery)
+    && (state.statusFilter.length === 0 || state.statusFilter.includes(p.status))
+    && (!state.injectionModeOnly || !!p.injectionModeEnabled)
+    && (!state.nurseAttendingOnly || !!p.nurseAttending)
+    && (!state.mutedOnly || state.patientAudioPauses.has(p.id))
+  );
+
   // Filter by alerts only
   if (state.showAlertsOnly) {
     patients = patients.filter(p => {
-      const vitalsList = Array.isArray(p.vitalSigns) ? p.vitalSigns : [];
-      const latestVitals = vitalsList[0];
+      const latestVitals = p.vitalSigns[0];
       if (!latestVitals) return false;
 
-      // Consider patient in alert state if any vital is abnormal
-      const hasAbnormalHR = latestVitals.heartRate && (latestVitals.heartRate < 50 || latestVitals.heartRate > 120);
-      const hasLowSpO2 = latestVitals.spO2 && latestVitals.spO2 < 94;
-      const hasHighBP = latestVitals.bpSystolic && latestVitals.bpSystolic > 140;
-
-      return hasAbnormalHR || hasLowSpO2 || hasHighBP;
+      // Consider patient in alert state if the backend would raise any alert (Medium or above)
+      return calculateAlertSeverity(latestVitals, resolveAlarmLimits(p, profilesById)) !== 'Low';
     });
   }
 
-  return patients.sort((a, b) => a.name.localeCompare(b.name));
+  const news2ById = new Map(patients.map(p => [p.id, calculatePatientNews2(p)]));
+
+  // Filter by NEWS2 - a partial score at or above the minimum already qualifies
+  if (state.minNews2Score > 0) {
+    patients = patients.filter(p => (news2ById.get(p.id)?.score ?? -1) >= state.minNews2Score);
+  }
+
+  const acuityOf = (p: Patient) => acuityTiers.get(p.id) ?? calculateAcuityTier(p, news2ById.get(p.id));
+
+  const compare = (a: Patient, b: Patient): number => {
+    switch (state.patientSort) {
+      case 'acuity':
+        return acuityOf(b) - acuityOf(a);
+      case 'news2':
+        return compareNews2(news2ById.get(a.id), news2ById.get(b.id));
+      case 'bed':
+        return compareBedNumbers(a, b);
+      case 'lastUpdate':
+        return lastUpdateTime(b) - lastUpdateTime(a);
+      default:
+        return 0;
+    }
+  };
+
+  // Name breaks ties for every order
+  return patients.sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
 };
 
+/**
+ * Natural bed order (ICU-102 before ICU-110), patients without a bed last
+ */
+function compareBedNumbers(a: Patient, b: Patient): number {
+  const bedA = a.bed?.number;
+  const bedB = b.bed?.number;
+  if (!bedA || !bedB) return (bedA ? 0 : 1) - (bedB ? 0 : 1);
+  return bedA.localeCompare(bedB, undefined, { numeric: true });
+}
+
+/** Latest reading time - patients without vitals sort last */
+function lastUpdateTime(patient: Patient): number {
+  const latestVitals = patient.vitalSigns[0];
+  return latestVitals ? Date.parse(latestVitals.recordedAt) : -Infinity;
+}
+
 export const selectActiveAlerts = (state: HospitalState): Alert[] => {
   return state.alerts.filter(a => a.isActive);
 };
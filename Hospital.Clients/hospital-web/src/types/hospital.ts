@@ -7,10 +7,43 @@ export type AlertSeverity = 'Low' | 'Medium' | 'High' | 'Critical';
 
 export type PatientStatus = 'stable' | 'watch' | 'critical';
 
+/** ACVPU: Alert, new Confusion, responds to Voice, responds to Pain, Unresponsive */
+export type Consciousness = 'A' | 'C' | 'V' | 'P' | 'U';
+
 export interface Ward {
   id: string;
   name: string;
   capacity: number;
+  alarmLimitProfileId?: string; // Ward default - none uses the adult defaults
+}
+
+/**
+ * Alarm thresholds a patient's vitals are assessed against (mirrors the backend AlarmLimits record)
+ */
+export interface AlarmLimits {
+  hrCriticalLow: number;
+  hrMediumLow: number;
+  hrMediumHigh: number;
+  hrCriticalHigh: number;
+  spO2CriticalBelow: number;
+  spO2HighBelow: number;
+  spO2MediumBelow: number;
+  bpCriticalSystolic: number;
+  bpCriticalDiastolic: number;
+  bpHighSystolic: number;
+  bpHighDiastolic: number;
+  bpMediumSystolic: number;
+  bpMediumDiastolic: number;
+}
+
+/** Per-patient overrides - a missing limit keeps the profile's value */
+export type AlarmLimitOverrides = Partial<AlarmLimits>;
+
+export interface AlarmLimitProfile {
+  id: string;
+  name: string;
+  description?: string;
+  limits: AlarmLimits;
 }
 
 export interface Bed {
@@ -29,10 +62,19 @@ export interface VitalSigns {
   bpSystolic?: number;
   bpDiastolic?: number;
   temperature?: number;
+  respiratoryRate?: number; // NEWS2 inputs - optional, not every source records them
+  consciousness?: Consciousness;
+  onSupplementalOxygen?: boolean;
   recordedAt: string; // ISO 8601 timestamp
   recordedBy?: string;
 }
 
+/**
+ * Physiological alarms come from the patient's vitals (raised by the backend);
+ * technical alarms from the monitoring itself, e.g. a monitor that stopped reporting (raised by the dashboard)
+ */
+export type AlertCategory = 'physiological' | 'technical';
+
 export interface Alert {
   id: string;
   patientId: string;
@@ -43,6 +85,7 @@ export interface Alert {
   acknowledgedAt?: string;
   acknowledgedBy?: string;
   isActive: boolean;
+  category?: AlertCategory; // Unset for backend alerts - physiological
 }
 
 export interface Patient {
@@ -56,6 +99,9 @@ export interface Patient {
   primaryDiagnosis?: string;
   injectionModeEnabled?: boolean; // ← Database persisted state
   nurseAttending?: boolean; // ← Database persisted state
+  spO2Scale?: 1 | 2; // NEWS2 SpO₂ scale - 2 for a prescribed 88-92% target
+  alarmLimitProfileId?: string; // None inherits the ward default
+  alarmLimitOverrides?: AlarmLimitOverrides;
 
   // Navigation properties
   bed?: Bed;
@@ -77,6 +123,10 @@ export interface VitalSignsUpdate {
   spO2?: number;
   bpSystolic?: number;
   bpDiastolic?: number;
+  temperature?: number;
+  respiratoryRate?: number;
+  consciousness?: Consciousness;
+  onSupplementalOxygen?: boolean;
   alertSeverity: AlertSeverity;
   recordedAt: string;
 }
@@ -105,16 +155,64 @@ export interface InjectionModeChange {
   changedAt: string;
 }
 
+export interface PatientAlarmLimitsChange {
+  patientId: string;
+  patientName: string;
+  alarmLimitProfileId?: string;
+  alarmLimitOverrides?: AlarmLimitOverrides;
+  changedAt: string;
+}
+
+export interface WardAlarmLimitsChange {
+  wardId: string;
+  wardName: string;
+  alarmLimitProfileId?: string;
+  changedAt: string;
+}
+
+export interface AlertAcknowledgement {
+  alertId: string;
+  patientId: string;
+  patientName: string;
+  acknowledgedBy: string;
+  acknowledgedAt: string;
+}
+
 /**
  * API Request/Response types
  */
 
+export interface PagedResult<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+}
+
+export interface AlertHistoryQuery {
+  page?: number;
+  pageSize?: number;
+  patientId?: string;
+  activeOnly?: boolean;
+  since?: string; // ISO 8601 timestamp
+}
+
 export interface VitalSignsInjectionRequest {
   patientId: string;
   heartRate?: number;
   spO2?: number;
   bpSystolic?: number;
   bpDiastolic?: number;
+  temperature?: number;
+}
+
+export interface ServerTime {
+  utcNow: string; // ISO 8601 - the server's clock, for estimating this workstation's offset
+}
+
+export interface PatientAlarmLimitsRequest {
+  profileId: string | null; // null inherits the ward default
+  overrides: AlarmLimitOverrides | null;
 }
 
 /**
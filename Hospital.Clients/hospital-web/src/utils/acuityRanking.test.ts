@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ACUITY_DEESCALATION_HOLD_MS,
+  calculateAcuityTier,
+  updateAcuityRanks,
+  type AcuityRank,
+  type AcuityTier,
+} from './acuityRanking';
+import type { News2Result } from './news2';
+import type { Patient, PatientStatus } from '../types/hospital';
+
+const patient = (status: PatientStatus): Patient => ({
+  id: 'p1',
+  mrn: 'MRN-p1',
+  name: 'p1',
+  status,
+  admittedAt: '2025-01-01T08:00:00Z',
+  vitalSigns: [],
+  alerts: [],
+});
+
+const news2 = (risk: News2Result['risk']): News2Result => ({
+  score: 0,
+  parameterScores: {},
+  missing: [],
+  complete: true,
+  singleParameterTrigger: false,
+  risk,
+});
+
+const tick = (previous: ReadonlyMap<string, AcuityRank>, tier: AcuityTier, now: number) =>
+  updateAcuityRanks(previous, new Map([['p1', tier]]), now);
+
+describe('acuityRanking', () => {
+  describe('calculateAcuityTier', () => {
+    it.each([
+      ['critical', 'low', 3],
+      ['stable', 'high', 3],
+      ['watch', 'low-medium', 2],
+      ['stable', 'low-medium', 1],
+      ['stable', 'low', 0],
+    ] as const)('%s with %s NEWS2 risk is tier %i', (status, risk, tier) => {
+      expect(calculateAcuityTier(patient(status), news2(risk))).toBe(tier);
+    });
+
+    it('falls back to status without a NEWS2 score', () => {
+      expect(calculateAcuityTier(patient('watch'), undefined)).toBe(2);
+    });
+  });
+
+  describe('updateAcuityRanks', () => {
+    it('escalates immediately', () => {
+      const ranks = tick(tick(new Map(), 0, 0), 3, 2_500);
+
+      expect(ranks.get('p1')).toEqual({ tier: 3 });
+    });
+
+    it('holds a de-escalation until the lower tier has persisted', () => {
+      let ranks = tick(new Map(), 3, 0);
+      ranks = tick(ranks, 1, 2_500);
+      ranks = tick(ranks, 1, 2_500 + ACUITY_DEESCALATION_HOLD_MS - 1);
+
+      expect(ranks.get('p1')?.tier).toBe(3);
+
+      ranks = tick(ranks, 1, 2_500 + ACUITY_DEESCALATION_HOLD_MS);
+
+      expect(ranks.get('p1')).toEqual({ tier: 1 });
+    });
+
+    it('cancels a pending de-escalation when the patient worsens again', () => {
+      let ranks = tick(new Map(), 3, 0);
+      ranks = tick(ranks, 1, 2_500);
+      ranks = tick(ranks, 3, 5_000);
+      ranks = tick(ranks, 1, 7_500);
+      ranks = tick(ranks, 1, 2_500 + ACUITY_DEESCALATION_HOLD_MS);
+
+      expect(ranks.get('p1')?.tier).toBe(3);
+    });
+
+    it('settles at the worst tier seen during the hold', () => {
+      let ranks = tick(new Map(), 3, 0);
+      ranks = tick(ranks, 0, 2_500);
+      ranks = tick(ranks, 2, 5_000);
+      ranks = tick(ranks, 0, 2_500 + ACUITY_DEESCALATION_HOLD_MS);
+
+      expect(ranks.get('p1')?.tier).toBe(2);
+    });
+
+    it('drops patients no longer listed', () => {
+      const ranks = updateAcuityRanks(tick(new Map(), 2, 0), new Map(), 2_500);
+
+      expect(ranks.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Acuity Ranking
+ *
+ * Severity tiers for the "worst first" grid order. A patient's tier is the worse of their
+ * status and their NEWS2 risk band, so coarse that small changes in the vitals don't move
+ * the card; hysteresis then keeps a patient hovering at a boundary from bouncing:
+ * - Escalation takes effect at once - a deteriorating patient must move up immediately
+ * - De-escalation only once the lower tier has held for ACUITY_DEESCALATION_HOLD_MS
+ */
+
+import type { Patient, PatientStatus } from '../types/hospital';
+import { calculatePatientNews2, type News2Risk, type News2Result } from './news2';
+
+/** 3 = emergency, 2 = urgent, 1 = elevated, 0 = routine */
+export type AcuityTier = 0 | 1 | 2 | 3;
+
+const STATUS_TIERS: Record<PatientStatus, AcuityTier> = {
+  critical: 3,
+  watch: 2,
+  stable: 0,
+};
+
+const NEWS2_RISK_TIERS: Record<News2Risk, AcuityTier> = {
+  high: 3,
+  medium: 2,
+  'low-medium': 1,
+  low: 0,
+};
+
+// ~24 simulator ticks - long enough to ride out a single normal reading
+export const ACUITY_DEESCALATION_HOLD_MS = 60_000;
+
+export interface AcuityRank {
+  tier: AcuityTier;       // Tier the grid orders by
+  pendingTier?: AcuityTier; // Lower tier waiting out the hold
+  pendingSince?: number;  // When the pending tier was first observed (ms)
+}
+
+/**
+ * Current tier from status and the latest NEWS2 - without hysteresis
+ */
+export function calculateAcuityTier(patient: Patient, news2: News2Result | undefined = calculatePatientNews2(patient)): AcuityTier {
+  const news2Tier = news2 ? NEWS2_RISK_TIERS[news2.risk] : 0;
+  return Math.max(STATUS_TIERS[patient.status], news2Tier) as AcuityTier;
+}
+
+/**
+ * Apply the latest observed tiers to the previous ranking
+ * Patients no longer in the list are dropped; new patients take their observed tier.
+ */
+export function updateAcuityRanks(
+  previous: ReadonlyMap<string, AcuityRank>,
+  observed: ReadonlyMap<string, AcuityTier>,
+  now: number,
+): Map<string, AcuityRank> {
+  const ranks = new Map<string, AcuityRank>();
+
+  observed.forEach((tier, patientId) => {
+    const rank = previous.get(patientId);
+
+    if (!rank || tier >= rank.tier) {
+      ranks.set(patientId, { tier });
+    } else if (rank.pendingTier === undefined || rank.pendingSince === undefined) {
+      ranks.set(patientId, { tier: rank.tier, pendingTier: tier, pendingSince: now });
+    } else if (now - rank.pendingSince >= ACUITY_DEESCALATION_HOLD_MS) {
+      // Held long enough - settle at the worst tier seen during the hold
+      ranks.set(patientId, { tier: Math.max(tier, rank.pendingTier) as AcuityTier });
+    } else {
+      ranks.set(patientId, { ...rank, pendingTier: Math.max(tier, rank.pendingTier) as AcuityTier });
+    }
+  });
+
+  return ranks;
+}
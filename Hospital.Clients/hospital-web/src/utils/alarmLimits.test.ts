@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyAlarmLimitOverrides,
+  hasCustomAlarmLimits,
+  isValidAlarmLimits,
+  resolveAlarmLimits,
+} from './alarmLimits';
+import { DEFAULT_ALARM_LIMITS, assessHeartRate, assessSpO2 } from './clinicalThresholds';
+import type { AlarmLimitProfile, Bed } from '../types/hospital';
+
+const COPD: AlarmLimitProfile = {
+  id: 'copd',
+  name: 'COPD',
+  limits: { ...DEFAULT_ALARM_LIMITS, spO2CriticalBelow: 84, spO2HighBelow: 86, spO2MediumBelow: 88 },
+};
+const PAEDS: AlarmLimitProfile = {
+  id: 'paeds-1-4',
+  name: 'Paediatric 1-4',
+  limits: { ...DEFAULT_ALARM_LIMITS, hrCriticalLow: 70, hrMediumLow: 80, hrMediumHigh: 150, hrCriticalHigh: 170 },
+};
+const profilesById = new Map([COPD, PAEDS].map(p => [p.id, p]));
+
+const bedInWard = (alarmLimitProfileId?: string): Bed => ({
+  id: 'b1',
+  number: '101',
+  wardId: 'w3',
+  status: 'occupied',
+  ward: { id: 'w3', name: 'Respiratory', capacity: 8, alarmLimitProfileId },
+});
+
+// Mirrors AlarmLimitsTests
+describe('alarmLimits', () => {
+  it('uses the adult defaults without a profile or overrides', () => {
+    expect(resolveAlarmLimits({ bed: bedInWard() }, profilesById)).toEqual(DEFAULT_ALARM_LIMITS);
+    expect(hasCustomAlarmLimits({ alarmLimitOverrides: {} })).toBe(false);
+  });
+
+  it('inherits the ward default profile', () => {
+    const limits = resolveAlarmLimits({ bed: bedInWard('copd') }, profilesById);
+
+    expect(assessSpO2(90, limits)).toBe('Low');
+    expect(assessSpO2(87, limits)).toBe('Medium');
+    expect(assessSpO2(83, limits)).toBe('Critical');
+  });
+
+  it('prefers the patient profile over the ward default', () => {
+    const limits = resolveAlarmLimits({ alarmLimitProfileId: 'paeds-1-4', bed: bedInWard('copd') }, profilesById);
+
+    expect(assessHeartRate(140, limits)).toBe('Low');
+    expect(limits.spO2HighBelow).toBe(DEFAULT_ALARM_LIMITS.spO2HighBelow);
+  });
+
+  it('applies patient overrides on top of the ward profile', () => {
+    // Paced patient - HR fixed at 60 shouldn't alarm, other limits still come from the ward
+    const patient = { bed: bedInWard('copd'), alarmLimitOverrides: { hrCriticalLow: 40, hrMediumLow: 50 } };
+    const limits = resolveAlarmLimits(patient, profilesById);
+
+    expect(assessHeartRate(52, limits)).toBe('Low');
+    expect(limits.spO2HighBelow).toBe(86);
+    expect(hasCustomAlarmLimits(patient)).toBe(true);
+  });
+
+  it('falls back to the ward default when the patient profile is unknown', () => {
+    const limits = resolveAlarmLimits({ alarmLimitProfileId: 'retired', bed: bedInWard('copd') }, profilesById);
+
+    expect(limits).toEqual(COPD.limits);
+  });
+
+  it('ignores undefined overrides', () => {
+    expect(applyAlarmLimitOverrides(DEFAULT_ALARM_LIMITS, { hrMediumHigh: undefined })).toEqual(DEFAULT_ALARM_LIMITS);
+  });
+
+  it('rejects limits that do not nest', () => {
+    expect(isValidAlarmLimits(DEFAULT_ALARM_LIMITS)).toBe(true);
+    expect(isValidAlarmLimits({ ...DEFAULT_ALARM_LIMITS, hrMediumLow: 40 })).toBe(false);
+    expect(isValidAlarmLimits({ ...DEFAULT_ALARM_LIMITS, spO2CriticalBelow: 95 })).toBe(false);
+    expect(isValidAlarmLimits({ ...DEFAULT_ALARM_LIMITS, bpHighDiastolic: 120 })).toBe(false);
+  });
+});
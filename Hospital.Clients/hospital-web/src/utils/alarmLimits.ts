@@ -0,0 +1,125 @@
+/**
+ * Alarm Limits
+ *
+ * Client-side copy of the backend limit resolution (Patient.GetEffectiveAlarmLimits / AlarmLimits.IsValid).
+ * A patient is assessed against their own profile, else their ward's default profile, else the adult
+ * defaults - with any per-patient overrides applied on top.
+ */
+
+import type { AlarmLimitOverrides, AlarmLimitProfile, AlarmLimits, Patient } from '../types/hospital';
+import { DEFAULT_ALARM_LIMITS } from './clinicalThresholds';
+
+export interface AlarmLimitField {
+  key: keyof AlarmLimits;
+  label: string;
+}
+
+export interface AlarmLimitGroup {
+  label: string;
+  unit: string;
+  fields: AlarmLimitField[];
+}
+
+/** Editor layout - one group per assessed vital, in the same order as the card */
+export const ALARM_LIMIT_GROUPS: AlarmLimitGroup[] = [
+  {
+    label: 'Heart rate',
+    unit: 'BPM',
+    fields: [
+      { key: 'hrCriticalLow', label: 'Critical at or below' },
+      { key: 'hrMediumLow', label: 'Warning at or below' },
+      { key: 'hrMediumHigh', label: 'Warning at or above' },
+      { key: 'hrCriticalHigh', label: 'Critical at or above' },
+    ],
+  },
+  {
+    label: 'SpO₂',
+    unit: '%',
+    fields: [
+      { key: 'spO2MediumBelow', label: 'Warning below' },
+      { key: 'spO2HighBelow', label: 'High below' },
+      { key: 'spO2CriticalBelow', label: 'Critical below' },
+    ],
+  },
+  {
+    label: 'Blood pressure',
+    unit: 'mmHg',
+    fields: [
+      { key: 'bpMediumSystolic', label: 'Warning systolic' },
+      { key: 'bpMediumDiastolic', label: 'Warning diastolic' },
+      { key: 'bpHighSystolic', label: 'High systolic' },
+      { key: 'bpHighDiastolic', label: 'High diastolic' },
+      { key: 'bpCriticalSystolic', label: 'Critical systolic' },
+      { key: 'bpCriticalDiastolic', label: 'Critical diastolic' },
+    ],
+  },
+];
+
+/**
+ * Replace the limits a patient overrides, keep the rest - mirrors AlarmLimits.Apply
+ */
+export function applyAlarmLimitOverrides(limits: AlarmLimits, overrides?: AlarmLimitOverrides): AlarmLimits {
+  if (!overrides) return limits;
+  const applied = { ...limits };
+  for (const [key, value] of Object.entries(overrides) as [keyof AlarmLimits, number | undefined][]) {
+    if (value !== undefined) applied[key] = value;
+  }
+  return applied;
+}
+
+/**
+ * Profile a patient is assessed against before overrides - their own, else their ward's default
+ * An ID missing from profilesById (e.g. profiles still loading) falls through to the next level.
+ */
+export function resolveAlarmLimitProfile(
+  patient: Pick<Patient, 'alarmLimitProfileId' | 'bed'>,
+  profilesById: ReadonlyMap<string, AlarmLimitProfile>,
+): AlarmLimitProfile | undefined {
+  const patientProfile = patient.alarmLimitProfileId ? profilesById.get(patient.alarmLimitProfileId) : undefined;
+  if (patientProfile) return patientProfile;
+  const wardProfileId = patient.bed?.ward?.alarmLimitProfileId;
+  return wardProfileId ? profilesById.get(wardProfileId) : undefined;
+}
+
+/**
+ * Limits a patient's vitals are assessed against - mirrors Patient.GetEffectiveAlarmLimits
+ */
+export function resolveAlarmLimits(
+  patient: Pick<Patient, 'alarmLimitProfileId' | 'alarmLimitOverrides' | 'bed'>,
+  profilesById: ReadonlyMap<string, AlarmLimitProfile>,
+): AlarmLimits {
+  const base = resolveAlarmLimitProfile(patient, profilesById)?.limits ?? DEFAULT_ALARM_LIMITS;
+  return applyAlarmLimitOverrides(base, patient.alarmLimitOverrides);
+}
+
+/**
+ * Patient has their own profile or overrides rather than the ward default - mirrors Patient.HasCustomAlarmLimits
+ */
+export function hasCustomAlarmLimits(patient: Pick<Patient, 'alarmLimitProfileId' | 'alarmLimitOverrides'>): boolean {
+  return !!patient.alarmLimitProfileId || Object.keys(patient.alarmLimitOverrides ?? {}).length > 0;
+}
+
+/**
+ * Bands must nest - critical outside medium - or a reading could skip a severity. Mirrors AlarmLimits.IsValid.
+ */
+export function isValidAlarmLimits(limits: AlarmLimits): boolean {
+  const heartRateOrdered = limits.hrCriticalLow > 0
+    && limits.hrCriticalLow < limits.hrMediumLow
+    && limits.hrMediumLow < limits.hrMediumHigh
+    && limits.hrMediumHigh < limits.hrCriticalHigh
+    && limits.hrCriticalHigh <= 300;
+
+  const spO2Ordered = limits.spO2CriticalBelow > 0
+    && limits.spO2CriticalBelow <= limits.spO2HighBelow
+    && limits.spO2HighBelow <= limits.spO2MediumBelow
+    && limits.spO2MediumBelow <= 100;
+
+  const bloodPressureOrdered = limits.bpMediumSystolic > 0
+    && limits.bpMediumSystolic <= limits.bpHighSystolic
+    && limits.bpHighSystolic <= limits.bpCriticalSystolic
+    && limits.bpMediumDiastolic > 0
+    && limits.bpMediumDiastolic <= limits.bpHighDiastolic
+    && limits.bpHighDiastolic <= limits.bpCriticalDiastolic;
+
+  return heartRateOrdered && spO2Ordered && bloodPressureOrdered;
+}
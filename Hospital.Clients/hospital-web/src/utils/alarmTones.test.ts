@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ALARM_TONE_PATTERNS,
+  ALL_CLEAR_PATTERN,
+  renderTonePattern,
+  tonePriority,
+  type TonePattern,
+} from './alarmTones';
+
+const SAMPLE_RATE = 8000;
+
+describe('alarmTones', () => {
+  it('tells priorities apart by pulse count', () => {
+    expect(ALARM_TONE_PATTERNS.high.pulses).toHaveLength(10);
+    expect(ALARM_TONE_PATTERNS.medium.pulses).toHaveLength(3);
+    expect(ALARM_TONE_PATTERNS.low.pulses).toHaveLength(2);
+  });
+
+  it('gives the technical tone the medium rhythm but its own melody', () => {
+    const technical = ALARM_TONE_PATTERNS.technical;
+
+    expect(technical.pulses.map(p => p.startMs)).toEqual(ALARM_TONE_PATTERNS.medium.pulses.map(p => p.startMs));
+    expect(new Set(technical.pulses.map(p => p.frequencyHz)).size).toBe(2);
+    expect(new Set(ALARM_TONE_PATTERNS.medium.pulses.map(p => p.frequencyHz)).size).toBe(1);
+    expect(tonePriority('technical')).toBe('medium');
+  });
+
+  it.each(Object.entries({ ...ALARM_TONE_PATTERNS, 'all-clear': ALL_CLEAR_PATTERN }))(
+    '%s fits its pulses inside the cycle',
+    (_, pattern: TonePattern) => {
+      const last = pattern.pulses[pattern.pulses.length - 1];
+      expect(last.startMs + last.durationMs).toBeLessThan(pattern.cycleMs);
+    }
+  );
+
+  it('renders one cycle, silent between pulses and within the amplitude', () => {
+    const pattern: TonePattern = { pulses: [{ startMs: 0, durationMs: 100, frequencyHz: 500 }], cycleMs: 500 };
+    const samples = renderTonePattern(pattern, SAMPLE_RATE, 0.3);
+
+    expect(samples).toHaveLength(4000);
+    expect(samples.slice(800).every(s => s === 0)).toBe(true);
+    expect(samples.slice(0, 800).some(s => s !== 0)).toBe(true);
+    expect(Math.max(...samples.map(Math.abs))).toBeLessThanOrEqual(0.3);
+  });
+
+  it('fades pulses in rather than clicking', () => {
+    const pattern: TonePattern = { pulses: [{ startMs: 0, durationMs: 100, frequencyHz: 500 }], cycleMs: 200 };
+
+    expect(renderTonePattern(pattern, SAMPLE_RATE)[0]).toBe(0);
+  });
+});
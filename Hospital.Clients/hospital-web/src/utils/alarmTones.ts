@@ -0,0 +1,122 @@
+/**
+ * Alarm Tones
+ *
+ * Auditory alarm signals modelled on IEC 60601-1-8: the priority is heard in the rhythm.
+ * High priority is a fast 10-pulse burst (3 + 2, twice), medium a slower 3-pulse burst and low
+ * two pulses with a long pause. Physiological alarms use the standard's general melody (every
+ * pulse on C5); technical alarms (signal lost) use its equipment-failure melody, C5 C4 C5, so a
+ * monitor problem never sounds like a deteriorating patient.
+ * Pulses are harmonic-rich with soft edges - easier to localise and less shrill than a sine siren.
+ */
+
+import type { AlertCategory, AlertSeverity } from '../types/hospital';
+
+export type AlarmPriority = 'high' | 'medium' | 'low';
+
+/** A priority's physiological tone, or the technical one */
+export type AlarmTone = AlarmPriority | 'technical';
+
+export const ALARM_PRIORITIES: AlarmPriority[] = ['high', 'medium', 'low']; // Highest first
+
+/** An alarm condition that is currently active for a patient */
+export interface ActiveAlarm {
+  patientId: string;
+  category: AlertCategory;
+  priority: AlarmPriority;
+}
+
+export const ALARM_TONES: AlarmTone[] = ['high', 'medium', 'low', 'technical'];
+
+export const ALARM_TONE_LABELS: Record<AlarmTone, string> = {
+  high: 'High priority',
+  medium: 'Medium priority',
+  low: 'Low priority',
+  technical: 'Technical (signal lost)',
+};
+
+/** Priority of an active physiological alert - a critical patient status is always high */
+export const ALERT_SEVERITY_PRIORITY: Record<AlertSeverity, AlarmPriority> = {
+  Critical: 'high',
+  High: 'medium',
+  Medium: 'low',
+  Low: 'low',
+};
+
+/** Signal lost needs prompt attention, not an immediate response */
+export const TECHNICAL_ALARM_PRIORITY: AlarmPriority = 'medium';
+
+/** Lower priorities are never louder than higher ones */
+export const DEFAULT_ALARM_VOLUMES: Record<AlarmPriority, number> = {
+  high: 1,
+  medium: 0.8,
+  low: 0.6,
+};
+
+export interface TonePulse {
+  startMs: number;
+  durationMs: number;
+  frequencyHz: number;
+}
+
+/** One burst and the pause after it - looped while the alarm sounds */
+export interface TonePattern {
+  pulses: TonePulse[];
+  cycleMs: number;
+}
+
+const C4 = 261.63;
+const C5 = 523.25;
+const E5 = 659.25;
+const G5 = 783.99;
+
+const pulsesAt = (startsMs: number[], durationMs: number, frequenciesHz: number[]): TonePulse[] =>
+  startsMs.map((startMs, i) => ({ startMs, durationMs, frequencyHz: frequenciesHz[i % frequenciesHz.length] }));
+
+export const ALARM_TONE_PATTERNS: Record<AlarmTone, TonePattern> = {
+  high: {
+    pulses: pulsesAt([0, 250, 500, 1000, 1250, 2100, 2350, 2600, 3100, 3350], 150, [C5]),
+    cycleMs: 6000,
+  },
+  medium: { pulses: pulsesAt([0, 400, 800], 200, [C5]), cycleMs: 6000 },
+  low: { pulses: pulsesAt([0, 400], 200, [C5]), cycleMs: 16000 },
+  technical: { pulses: pulsesAt([0, 400, 800], 200, [C5, C4, C5]), cycleMs: 6000 },
+};
+
+/** Rising C-E-G, played once when the last critical patient recovers */
+export const ALL_CLEAR_PATTERN: TonePattern = {
+  pulses: pulsesAt([0, 180, 360], 160, [C5, E5, G5]),
+  cycleMs: 1000,
+};
+
+export function tonePriority(tone: AlarmTone): AlarmPriority {
+  return tone === 'technical' ? TECHNICAL_ALARM_PRIORITY : tone;
+}
+
+const HARMONICS = [1, 0.5, 0.33, 0.25, 0.2]; // Fundamental and four harmonics
+const HARMONIC_TOTAL = HARMONICS.reduce((sum, weight) => sum + weight, 0);
+const EDGE_MS = 15; // Rise and fall time of each pulse
+
+/**
+ * Samples for one cycle of a pattern, mono, in [-amplitude, amplitude]
+ */
+export function renderTonePattern(pattern: TonePattern, sampleRate: number, amplitude = 0.3): Float32Array {
+  const samples = new Float32Array(Math.round(pattern.cycleMs * sampleRate / 1000));
+
+  pattern.pulses.forEach(({ startMs, durationMs, frequencyHz }) => {
+    const first = Math.round(startMs * sampleRate / 1000);
+    const count = Math.round(durationMs * sampleRate / 1000);
+    const edge = EDGE_MS * sampleRate / 1000;
+
+    for (let i = 0; i < count && first + i < samples.length; i++) {
+      const t = i / sampleRate;
+      const envelope = Math.min(1, i / edge, (count - i) / edge);
+      const wave = HARMONICS.reduce(
+        (sum, weight, h) => sum + weight * Math.sin(2 * Math.PI * frequencyHz * (h + 1) * t),
+        0
+      );
+      samples[first + i] = amplitude * envelope * wave / HARMONIC_TOTAL;
+    }
+  });
+
+  return samples;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUDIO_PAUSE_MS,
+  createAudioPause,
+  findBrokenPauses,
+  formatPauseRemaining,
+  isAlarmPaused,
+  nextPauseExpiry,
+  type AudioPause,
+} from './audioPause';
+import type { ActiveAlarm } from './alarmTones';
+
+const T0 = Date.parse('2025-01-01T08:00:00Z');
+
+const alarm = (patientId: string, priority: ActiveAlarm['priority']): ActiveAlarm =>
+  ({ patientId, category: 'physiological', priority });
+
+const pause = (priority: AudioPause['priority'], until = T0 + AUDIO_PAUSE_MS): AudioPause => ({ until, priority });
+
+describe('audioPause', () => {
+  it('holds the highest alarm sounding when it starts', () => {
+    expect(createAudioPause([alarm('p1', 'low'), alarm('p2', 'medium')], T0)).toEqual(pause('medium'));
+    expect(createAudioPause([], T0, 60_000)).toEqual(pause('low', T0 + 60_000));
+  });
+
+  it('holds alarms of the paused priority or lower', () => {
+    const pauses = { patients: new Map([['p1', pause('medium')]]) };
+
+    expect(isAlarmPaused(alarm('p1', 'medium'), pauses)).toBe(true);
+    expect(isAlarmPaused(alarm('p1', 'low'), pauses)).toBe(true);
+    expect(isAlarmPaused(alarm('p1', 'high'), pauses)).toBe(false);
+    expect(isAlarmPaused(alarm('p2', 'low'), pauses)).toBe(false);
+  });
+
+  it('lets the global pause hold every patient', () => {
+    expect(isAlarmPaused(alarm('p2', 'medium'), { patients: new Map(), global: pause('high') })).toBe(true);
+  });
+
+  it('finds the pauses a higher-priority alarm broke through', () => {
+    const pauses = { patients: new Map([['p1', pause('low')], ['p2', pause('high')]]), global: pause('medium') };
+
+    expect(findBrokenPauses([alarm('p1', 'medium'), alarm('p2', 'medium')], pauses)).toEqual({ patientIds: ['p1'], global: false });
+    expect(findBrokenPauses([alarm('p2', 'high')], pauses)).toEqual({ patientIds: [], global: true });
+  });
+
+  it('re-arms at the earliest expiry', () => {
+    expect(nextPauseExpiry({ patients: new Map([['p1', pause('low', T0 + 5_000)]]), global: pause('low', T0 + 1_000) })).toBe(T0 + 1_000);
+    expect(nextPauseExpiry({ patients: new Map() })).toBeUndefined();
+  });
+
+  it.each([
+    [AUDIO_PAUSE_MS, '2:00'],
+    [101_500, '1:42'],
+    [-3_000, '0:00'],
+  ])('formats %dms left as %s', (left, text) => {
+    expect(formatPauseRemaining(pause('low', T0 + left), T0)).toBe(text);
+  });
+});
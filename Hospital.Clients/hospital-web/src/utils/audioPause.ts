@@ -0,0 +1,74 @@
+/**
+ * Audio Pause
+ *
+ * Alarms are silenced for a while, never indefinitely: a pause - for one patient or the whole
+ * dashboard - counts down and re-arms itself. It holds the alarms that were sounding when it
+ * started (and anything of the same or lower priority); a new, higher-priority alarm breaks
+ * through and ends the pause. Times are on the server clock (see services/serverClock).
+ */
+
+import { ALARM_PRIORITIES, type ActiveAlarm, type AlarmPriority } from './alarmTones';
+
+export interface AudioPause {
+  until: number;          // Server epoch ms when the pause re-arms
+  priority: AlarmPriority; // Highest priority held - anything above breaks through
+}
+
+export interface AudioPauses {
+  patients: ReadonlyMap<string, AudioPause>;
+  global?: AudioPause;
+}
+
+/** How long one press of a pause button silences alarms */
+export const AUDIO_PAUSE_MS = 120_000;
+
+const rank = (priority: AlarmPriority) => ALARM_PRIORITIES.indexOf(priority);
+
+/**
+ * A pause holding the highest of the given alarms - low when nothing is sounding yet
+ */
+export function createAudioPause(alarms: ActiveAlarm[], now: number, durationMs: number = AUDIO_PAUSE_MS): AudioPause {
+  const priority = alarms.reduce<AlarmPriority>(
+    (highest, alarm) => (rank(alarm.priority) < rank(highest) ? alarm.priority : highest),
+    'low'
+  );
+  return { until: now + durationMs, priority };
+}
+
+export function breaksThrough(alarm: ActiveAlarm, pause: AudioPause): boolean {
+  return rank(alarm.priority) < rank(pause.priority);
+}
+
+/**
+ * Whether a patient's own pause or the global one holds this alarm
+ */
+export function isAlarmPaused(alarm: ActiveAlarm, { patients, global }: AudioPauses): boolean {
+  const holds = (pause?: AudioPause) => pause !== undefined && !breaksThrough(alarm, pause);
+  return holds(patients.get(alarm.patientId)) || holds(global);
+}
+
+/**
+ * Pauses a higher-priority alarm has broken through
+ */
+export function findBrokenPauses(alarms: ActiveAlarm[], { patients, global }: AudioPauses): { patientIds: string[]; global: boolean } {
+  return {
+    patientIds: Array.from(patients)
+      .filter(([patientId, pause]) => alarms.some(alarm => alarm.patientId === patientId && breaksThrough(alarm, pause)))
+      .map(([patientId]) => patientId),
+    global: global !== undefined && alarms.some(alarm => breaksThrough(alarm, global)),
+  };
+}
+
+/** When the next pause re-arms, if any is running */
+export function nextPauseExpiry({ patients, global }: AudioPauses): number | undefined {
+  const untils = [...Array.from(patients.values(), pause => pause.until), ...(global ? [global.until] : [])];
+  return untils.length > 0 ? Math.min(...untils) : undefined;
+}
+
+/**
+ * Time left on a pause for display, e.g. "1:42"
+ */
+export function formatPauseRemaining(pause: AudioPause, now: number): string {
+  const seconds = Math.max(0, Math.ceil((pause.until - now) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import heartRateFeature from '../../../../Hospital.Api.Tests/Features/HeartRateMonitoring.feature?raw';
+import {
+  assessHeartRate,
+  assessSpO2,
+  assessBloodPressure,
+  assessTemperature,
+  calculateAlertSeverity,
+  maxSeverity,
+} from './clinicalThresholds';
+import type { AlertSeverity } from '../types/hospital';
+
+/**
+ * Rows of the feature's Examples table - the same vectors the backend SpecFlow suite runs
+ */
+function parseExamples(feature: string): Array<[number, AlertSeverity]> {
+  return feature
+    .split('\n')
+    .map(line => line.match(/^\s*\|\s*(\d+)\s*\|\s*(\w+)\s*\|\s*$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, heartRate, severity]) => [Number(heartRate), severity as AlertSeverity]);
+}
+
+describe('clinicalThresholds', () => {
+  describe('HeartRateMonitoring.feature', () => {
+    const examples = parseExamples(heartRateFeature);
+
+    it('finds the examples table', () => {
+      expect(examples.length).toBeGreaterThanOrEqual(8);
+    });
+
+    it.each(examples)('assesses HR %s as %s', (heartRate, severity) => {
+      expect(assessHeartRate(heartRate)).toBe(severity);
+    });
+  });
+
+  // Mirrors VitalSignsTests.Should_Correctly_Assess_*_Alerts
+  describe('VitalSignsTests vectors', () => {
+    it.each([
+      [45, 'Critical'],
+      [55, 'Medium'],
+      [75, 'Low'],
+      [110, 'Medium'],
+      [130, 'Critical'],
+    ])('assesses HR %s as %s', (heartRate, severity) => {
+      expect(assessHeartRate(heartRate)).toBe(severity);
+    });
+
+    it.each([
+      [85, 'Critical'],
+      [91, 'High'],
+      [93, 'Medium'],
+      [98, 'Low'],
+    ])('assesses SpO₂ %s as %s', (spO2, severity) => {
+      expect(assessSpO2(spO2)).toBe(severity);
+    });
+
+    it.each([
+      [180, 110, 'Critical'],
+      [165, 100, 'High'],
+      [145, 95, 'Medium'],
+      [120, 80, 'Low'],
+    ])('assesses BP %s/%s as %s', (systolic, diastolic, severity) => {
+      expect(assessBloodPressure(systolic, diastolic)).toBe(severity);
+    });
+  });
+
+  it('treats missing readings as Low, like the backend', () => {
+    expect(assessHeartRate(undefined)).toBe('Low');
+    expect(assessBloodPressure(190, undefined)).toBe('Low');
+  });
+
+  it.each([
+    [35.0, 'High'],
+    [35.1, 'Medium'],
+    [36.1, 'Low'],
+    [38.0, 'Low'],
+    [38.1, 'Medium'],
+    [39.1, 'High'],
+  ])('assesses temperature %s °C as %s', (temperature, severity) => {
+    expect(assessTemperature(temperature)).toBe(severity);
+  });
+
+  it('takes the highest severity, ignoring temperature', () => {
+    expect(maxSeverity('Medium', 'Critical', 'Low')).toBe('Critical');
+    expect(calculateAlertSeverity({ heartRate: 115, spO2: 91 })).toBe('High');
+    expect(calculateAlertSeverity({ heartRate: 75, temperature: 40 })).toBe('Low');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Clinical Thresholds
+ *
+ * Client-side copy of the backend alert assessment (VitalSigns.Assess*Alert / CalculateAlertSeverity).
+ * Card colours, the alerts-only filter, the injector presets and the simulated backend all assess here,
+ * so the dashboard never disagrees with the alerts the API raises.
+ * The constants below are the default adult limits; a patient's profile or overrides are passed as AlarmLimits.
+ * clinicalThresholds.test.ts runs the backend's HeartRateMonitoring.feature examples against this module.
+ */
+
+import type { AlarmLimits, AlertSeverity, VitalSigns } from '../types/hospital';
+
+/** Heart rate (BPM) - inclusive, mirrors AssessHeartRateAlert */
+export const HEART_RATE_THRESHOLDS = {
+  criticalLow: 45,
+  mediumLow: 55,
+  mediumHigh: 110,
+  criticalHigh: 130,
+} as const;
+
+/** SpO₂ (%) - readings below each value, mirrors AssessSpO2Alert */
+export const SPO2_THRESHOLDS = {
+  criticalBelow: 88,
+  highBelow: 92,
+  mediumBelow: 94,
+} as const;
+
+/** Blood pressure (mmHg) - systolic or diastolic at/above, mirrors AssessBloodPressureAlert */
+export const BLOOD_PRESSURE_THRESHOLDS = {
+  critical: { systolic: 180, diastolic: 110 }, // Hypertensive crisis
+  high: { systolic: 160, diastolic: 100 },     // Stage 2 hypertension
+  medium: { systolic: 140, diastolic: 90 },    // Stage 1 hypertension
+} as const;
+
+/**
+ * Temperature (°C) - NEWS2 bands, inclusive
+ * Client only: the backend does not raise temperature alerts, so these never feed calculateAlertSeverity
+ */
+export const TEMPERATURE_THRESHOLDS = {
+  highLow: 35.0,
+  mediumLow: 36.0,
+  mediumHigh: 38.1,
+  highHigh: 39.1,
+} as const;
+
+/** Mirrors AlarmLimits.Default */
+export const DEFAULT_ALARM_LIMITS: AlarmLimits = {
+  hrCriticalLow: HEART_RATE_THRESHOLDS.criticalLow,
+  hrMediumLow: HEART_RATE_THRESHOLDS.mediumLow,
+  hrMediumHigh: HEART_RATE_THRESHOLDS.mediumHigh,
+  hrCriticalHigh: HEART_RATE_THRESHOLDS.criticalHigh,
+  spO2CriticalBelow: SPO2_THRESHOLDS.criticalBelow,
+  spO2HighBelow: SPO2_THRESHOLDS.highBelow,
+  spO2MediumBelow: SPO2_THRESHOLDS.mediumBelow,
+  bpCriticalSystolic: BLOOD_PRESSURE_THRESHOLDS.critical.systolic,
+  bpCriticalDiastolic: BLOOD_PRESSURE_THRESHOLDS.critical.diastolic,
+  bpHighSystolic: BLOOD_PRESSURE_THRESHOLDS.high.systolic,
+  bpHighDiastolic: BLOOD_PRESSURE_THRESHOLDS.high.diastolic,
+  bpMediumSystolic: BLOOD_PRESSURE_THRESHOLDS.medium.systolic,
+  bpMediumDiastolic: BLOOD_PRESSURE_THRESHOLDS.medium.diastolic,
+};
+
+/** Same order as the C# AlertSeverity enum */
+export const SEVERITY_ORDER: readonly AlertSeverity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+export function maxSeverity(...severities: AlertSeverity[]): AlertSeverity {
+  return severities.reduce((max, s) => (SEVERITY_ORDER.indexOf(s) > SEVERITY_ORDER.indexOf(max) ? s : max), 'Low');
+}
+
+export function assessHeartRate(heartRate?: number, limits: AlarmLimits = DEFAULT_ALARM_LIMITS): AlertSeverity {
+  if (heartRate === undefined) return 'Low';
+  if (heartRate <= limits.hrCriticalLow || heartRate >= limits.hrCriticalHigh) return 'Critical';
+  if (heartRate <= limits.hrMediumLow || heartRate >= limits.hrMediumHigh) return 'Medium';
+  return 'Low';
+}
+
+export function assessSpO2(spO2?: number, limits: AlarmLimits = DEFAULT_ALARM_LIMITS): AlertSeverity {
+  if (spO2 === undefined) return 'Low';
+  if (spO2 < limits.spO2CriticalBelow) return 'Critical';
+  if (spO2 < limits.spO2HighBelow) return 'High';
+  if (spO2 < limits.spO2MediumBelow) return 'Medium';
+  return 'Low';
+}
+
+/**
+ * Needs both readings, like the backend - a lone systolic or diastolic assesses as Low
+ */
+export function assessBloodPressure(systolic?: number, diastolic?: number, limits: AlarmLimits = DEFAULT_ALARM_LIMITS): AlertSeverity {
+  if (systolic === undefined || diastolic === undefined) return 'Low';
+  if (systolic >= limits.bpCriticalSystolic || diastolic >= limits.bpCriticalDiastolic) return 'Critical';
+  if (systolic >= limits.bpHighSystolic || diastolic >= limits.bpHighDiastolic) return 'High';
+  if (systolic >= limits.bpMediumSystolic || diastolic >= limits.bpMediumDiastolic) return 'Medium';
+  return 'Low';
+}
+
+export function assessTemperature(temperature?: number): AlertSeverity {
+  if (temperature === undefined) return 'Low';
+  const { highLow, mediumLow, mediumHigh, highHigh } = TEMPERATURE_THRESHOLDS;
+  if (temperature <= highLow || temperature >= highHigh) return 'High';
+  if (temperature <= mediumLow || temperature >= mediumHigh) return 'Medium';
+  return 'Low';
+}
+
+/**
+ * Highest severity among HR, SpO₂ and BP - mirrors VitalSigns.CalculateAlertSeverity
+ */
+export function calculateAlertSeverity(vitals: Partial<VitalSigns>, limits: AlarmLimits = DEFAULT_ALARM_LIMITS): AlertSeverity {
+  return maxSeverity(
+    assessHeartRate(vitals.heartRate, limits),
+    assessSpO2(vitals.spO2, limits),
+    assessBloodPressure(vitals.bpSystolic, vitals.bpDiastolic, limits),
+  );
+}
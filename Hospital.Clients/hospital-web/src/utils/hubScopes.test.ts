@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffHubScopes,
+  hubScopeInvocation,
+  hubScopeKey,
+  hubScopesCover,
+  resolveHubScopes,
+  type HubScope,
+} from './hubScopes';
+
+describe('hubScopes', () => {
+  describe('resolveHubScopes', () => {
+    it.each([
+      [{}, [{ kind: 'hospital' }]],
+      [{ selectedWardId: 'w1' }, [{ kind: 'ward', wardId: 'w1' }]],
+      [{ selectedWardId: 'w1', patientId: 'p1' }, [{ kind: 'patient', patientId: 'p1' }]],
+    ])('scopes %o', (view, scopes) => {
+      expect(resolveHubScopes(view)).toEqual(scopes);
+    });
+  });
+
+  it('keys scopes like the hub group names', () => {
+    expect(hubScopeKey({ kind: 'hospital' })).toBe('hospital');
+    expect(hubScopeKey({ kind: 'ward', wardId: 'w1' })).toBe('ward-w1');
+    expect(hubScopeKey({ kind: 'patient', patientId: 'p1' })).toBe('patient-p1');
+  });
+
+  it('maps scopes to hub methods', () => {
+    expect(hubScopeInvocation({ kind: 'hospital' }, 'subscribe')).toEqual(['SubscribeToHospital']);
+    expect(hubScopeInvocation({ kind: 'ward', wardId: 'w1' }, 'unsubscribe')).toEqual(['UnsubscribeFromWard', 'w1']);
+    expect(hubScopeInvocation({ kind: 'patient', patientId: 'p1' }, 'subscribe')).toEqual(['SubscribeToPatient', 'p1']);
+  });
+
+  it('joins and leaves only what changed', () => {
+    const ward: HubScope = { kind: 'ward', wardId: 'w1' };
+    const patient: HubScope = { kind: 'patient', patientId: 'p1' };
+
+    expect(diffHubScopes([ward], [{ kind: 'ward', wardId: 'w1' }])).toEqual({ join: [], leave: [] });
+    expect(diffHubScopes([ward], [patient])).toEqual({ join: [patient], leave: [ward] });
+    expect(diffHubScopes([], [ward])).toEqual({ join: [ward], leave: [] });
+  });
+
+  it('knows which patients the joined scopes deliver', () => {
+    const patient = { id: 'p1', bed: { wardId: 'w1' } };
+
+    expect(hubScopesCover([{ kind: 'hospital' }], patient)).toBe(true);
+    expect(hubScopesCover([{ kind: 'ward', wardId: 'w1' }], patient)).toBe(true);
+    expect(hubScopesCover([{ kind: 'ward', wardId: 'w2' }], patient)).toBe(false);
+    expect(hubScopesCover([{ kind: 'patient', patientId: 'p2' }], patient)).toBe(false);
+    expect(hubScopesCover([], patient)).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * VitalsHub Subscription Scopes
+ *
+ * The hub sends vital updates only to the groups a connection has joined (see VitalsHubGroups):
+ * the whole hospital, one ward, or one patient. The dashboard declares the scopes its current
+ * view needs and useHospitalSignalR joins and leaves groups to match.
+ * Alerts and patient state changes are not scoped - every dashboard receives them. Statuses of
+ * patients outside the joined scopes come from a periodic patient refetch (see usePatients).
+ */
+
+export type HubScope =
+  | { kind: 'hospital' }
+  | { kind: 'ward'; wardId: string }
+  | { kind: 'patient'; patientId: string };
+
+export interface HubScopeView {
+  selectedWardId?: string;
+  patientId?: string; // Patient detail open
+}
+
+/**
+ * Scopes a view needs: the patient on the detail page, otherwise the selected ward or the hospital
+ */
+export function resolveHubScopes({ selectedWardId, patientId }: HubScopeView): HubScope[] {
+  if (patientId) return [{ kind: 'patient', patientId }];
+  if (selectedWardId) return [{ kind: 'ward', wardId: selectedWardId }];
+  return [{ kind: 'hospital' }];
+}
+
+/** Stable identity for a scope - matches the hub group name */
+export function hubScopeKey(scope: HubScope): string {
+  switch (scope.kind) {
+    case 'hospital': return 'hospital';
+    case 'ward': return `ward-${scope.wardId}`;
+    case 'patient': return `patient-${scope.patientId}`;
+  }
+}
+
+/**
+ * Hub method and arguments to join or leave a scope's group
+ */
+export function hubScopeInvocation(scope: HubScope, action: 'subscribe' | 'unsubscribe'): [string, ...string[]] {
+  const prefix = action === 'subscribe' ? 'SubscribeTo' : 'UnsubscribeFrom';
+  switch (scope.kind) {
+    case 'hospital': return [`${prefix}Hospital`];
+    case 'ward': return [`${prefix}Ward`, scope.wardId];
+    case 'patient': return [`${prefix}Patient`, scope.patientId];
+  }
+}
+
+/**
+ * Groups to join and leave to get from the joined scopes to the wanted ones
+ */
+export function diffHubScopes(joined: HubScope[], wanted: HubScope[]): { join: HubScope[]; leave: HubScope[] } {
+  const joinedKeys = new Set(joined.map(hubScopeKey));
+  const wantedKeys = new Set(wanted.map(hubScopeKey));
+  return {
+    join: wanted.filter(scope => !joinedKeys.has(hubScopeKey(scope))),
+    leave: joined.filter(scope => !wantedKeys.has(hubScopeKey(scope))),
+  };
+}
+
+/**
+ * Whether the joined scopes deliver a patient's vitals
+ */
+export function hubScopesCover(scopes: HubScope[], patient: { id: string; bed?: { wardId: string } }): boolean {
+  return scopes.some(scope => {
+    switch (scope.kind) {
+      case 'hospital': return true;
+      case 'ward': return patient.bed?.wardId === scope.wardId;
+      case 'patient': return patient.id === scope.patientId;
+    }
+  });
+}
+
+/**
+ * Readable scope for the connection status, e.g. "All wards", "Cardiology", "Henrik Larsen"
+ */
+export function describeHubScope(
+  scope: HubScope,
+  wardNames: ReadonlyMap<string, string>,
+  patientNames: ReadonlyMap<string, string>,
+): string {
+  switch (scope.kind) {
+    case 'hospital': return 'All wards';
+    case 'ward': return wardNames.get(scope.wardId) ?? scope.wardId;
+    case 'patient': return patientNames.get(scope.patientId) ?? scope.patientId;
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateNews2,
+  calculatePatientNews2,
+  formatNews2Score,
+  getNews2Risk,
+  type News2Input,
+} from './news2';
+import type { Patient } from '../types/hospital';
+
+// Every parameter present and scoring 0
+const normal: Required<Omit<News2Input, 'spO2Scale'>> = {
+  respiratoryRate: 16,
+  spO2: 97,
+  onSupplementalOxygen: false,
+  systolicBp: 120,
+  heartRate: 75,
+  consciousness: 'A',
+  temperature: 37.0,
+};
+
+const scoreOf = (overrides: Partial<News2Input>) => calculateNews2({ ...normal, ...overrides })!.score;
+
+describe('news2', () => {
+  it('scores a normal complete set as 0, low risk', () => {
+    const result = calculateNews2(normal)!;
+
+    expect(result.score).toBe(0);
+    expect(result.complete).toBe(true);
+    expect(result.missing).toEqual([]);
+    expect(result.risk).toBe('low');
+  });
+
+  // RCP NEWS2 chart band edges
+  it.each([
+    [8, 3], [9, 1], [11, 1], [12, 0], [20, 0], [21, 2], [24, 2], [25, 3],
+  ])('scores respiration rate %s as %s', (respiratoryRate, expected) => {
+    expect(scoreOf({ respiratoryRate })).toBe(expected);
+  });
+
+  it.each([
+    [91, 3], [92, 2], [93, 2], [94, 1], [95, 1], [96, 0],
+  ])('scores SpO₂ %s on scale 1 as %s', (spO2, expected) => {
+    expect(scoreOf({ spO2 })).toBe(expected);
+  });
+
+  it.each([
+    [83, false, 3], [84, false, 2], [86, false, 1], [88, false, 0], [92, false, 0], [97, false, 0],
+    [93, true, 1 + 2], [95, true, 2 + 2], [97, true, 3 + 2],
+  ])('scores SpO₂ %s on scale 2 (oxygen: %s) as %s with the air/oxygen score', (spO2, onSupplementalOxygen, expected) => {
+    expect(scoreOf({ spO2, spO2Scale: 2, onSupplementalOxygen })).toBe(expected);
+  });
+
+  it.each([
+    [90, 3], [91, 2], [100, 2], [101, 1], [110, 1], [111, 0], [219, 0], [220, 3],
+  ])('scores systolic BP %s as %s', (systolicBp, expected) => {
+    expect(scoreOf({ systolicBp })).toBe(expected);
+  });
+
+  it.each([
+    [40, 3], [41, 1], [50, 1], [51, 0], [90, 0], [91, 1], [110, 1], [111, 2], [130, 2], [131, 3],
+  ])('scores pulse %s as %s', (heartRate, expected) => {
+    expect(scoreOf({ heartRate })).toBe(expected);
+  });
+
+  it.each([
+    [35.0, 3], [35.1, 1], [36.0, 1], [36.1, 0], [38.0, 0], [38.1, 1], [39.0, 1], [39.1, 2],
+  ])('scores temperature %s °C as %s', (temperature, expected) => {
+    expect(scoreOf({ temperature })).toBe(expected);
+  });
+
+  it('scores new confusion or any AVPU below Alert as 3', () => {
+    expect(scoreOf({ consciousness: 'C' })).toBe(3);
+    expect(scoreOf({ consciousness: 'U' })).toBe(3);
+  });
+
+  it('scores supplemental oxygen as 2', () => {
+    expect(scoreOf({ onSupplementalOxygen: true })).toBe(2);
+  });
+
+  describe('risk', () => {
+    it.each([
+      [0, false, 'low'],
+      [4, false, 'low'],
+      [3, true, 'low-medium'],
+      [5, false, 'medium'],
+      [6, true, 'medium'],
+      [7, false, 'high'],
+    ] as const)('rates %s (single 3: %s) as %s', (score, trigger, risk) => {
+      expect(getNews2Risk(score, trigger)).toBe(risk);
+    });
+
+    it('flags a single parameter scoring 3', () => {
+      const result = calculateNews2({ ...normal, respiratoryRate: 26 })!;
+
+      expect(result.score).toBe(3);
+      expect(result.singleParameterTrigger).toBe(true);
+      expect(result.risk).toBe('low-medium');
+    });
+  });
+
+  describe('partial data', () => {
+    it('lists missing parameters instead of assuming them normal', () => {
+      const result = calculateNews2({ heartRate: 120, spO2: 93, systolicBp: 120 })!;
+
+      expect(result.score).toBe(4);
+      expect(result.complete).toBe(false);
+      expect(result.missing).toEqual(['respiratoryRate', 'supplementalOxygen', 'consciousness', 'temperature']);
+      expect(formatNews2Score(result)).toBe('≥4');
+    });
+
+    it('leaves scale 2 SpO₂ above 92% unscored when oxygen status is unknown', () => {
+      const result = calculateNews2({ spO2: 96, spO2Scale: 2, heartRate: 75 })!;
+
+      expect(result.parameterScores.spO2).toBeUndefined();
+      expect(result.missing).toContain('spO2');
+    });
+
+    it('returns undefined when nothing can be scored', () => {
+      expect(calculateNews2({})).toBeUndefined();
+    });
+  });
+
+  it('scores a patient on their latest reading and SpO₂ scale', () => {
+    const patient = {
+      id: 'p1',
+      spO2Scale: 2,
+      vitalSigns: [
+        { id: 'v2', patientId: 'p1', spO2: 90, recordedAt: '2025-01-01T10:01:00Z' },
+        { id: 'v1', patientId: 'p1', spO2: 80, recordedAt: '2025-01-01T10:00:00Z' },
+      ],
+    } as Patient;
+
+    expect(calculatePatientNews2(patient)?.parameterScores.spO2).toBe(0);
+    expect(calculatePatientNews2({ ...patient, vitalSigns: [] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * NEWS2 (National Early Warning Score 2)
+ *
+ * Royal College of Physicians, 2017. Scores seven physiological parameters 0-3 and sums them;
+ * escalation follows the aggregate risk band and the "3 in a single parameter" trigger.
+ *
+ * Partial data is scored honestly: missing parameters are listed, never assumed normal,
+ * so an incomplete score is a lower bound rather than a reassurance.
+ */
+
+import type { Consciousness, Patient, VitalSigns } from '../types/hospital';
+
+export type News2Parameter =
+  | 'respiratoryRate'
+  | 'spO2'
+  | 'supplementalOxygen'
+  | 'systolicBp'
+  | 'heartRate'
+  | 'consciousness'
+  | 'temperature';
+
+export const NEWS2_PARAMETER_LABELS: Record<News2Parameter, string> = {
+  respiratoryRate: 'Respiration rate',
+  spO2: 'SpO₂',
+  supplementalOxygen: 'Air or oxygen',
+  systolicBp: 'Systolic BP',
+  heartRate: 'Pulse',
+  consciousness: 'Consciousness',
+  temperature: 'Temperature',
+};
+
+/** SpO₂ scale 2 is for patients with a prescribed 88-92% target (e.g. hypercapnic respiratory failure) */
+export type SpO2Scale = 1 | 2;
+
+/** Clinical risk bands, lowest first */
+export type News2Risk = 'low' | 'low-medium' | 'medium' | 'high';
+
+export const NEWS2_RISK_ORDER: readonly News2Risk[] = ['low', 'low-medium', 'medium', 'high'];
+
+export const NEWS2_RISK_LABELS: Record<News2Risk, string> = {
+  low: 'Low',
+  'low-medium': 'Low-medium',
+  medium: 'Medium',
+  high: 'High',
+};
+
+export interface News2Input {
+  respiratoryRate?: number;
+  spO2?: number;
+  spO2Scale?: SpO2Scale; // Defaults to scale 1
+  onSupplementalOxygen?: boolean;
+  systolicBp?: number;
+  heartRate?: number;
+  consciousness?: Consciousness;
+  temperature?: number; // °C
+}
+
+export interface News2Result {
+  score: number;                                 // Sum of the parameters that could be scored
+  parameterScores: Partial<Record<News2Parameter, number>>;
+  missing: News2Parameter[];                     // Not scored - the real score may be higher
+  complete: boolean;
+  singleParameterTrigger: boolean;               // Any parameter scored 3
+  risk: News2Risk;
+}
+
+function scoreRespiratoryRate(rate: number): number {
+  if (rate <= 8) return 3;
+  if (rate <= 11) return 1;
+  if (rate <= 20) return 0;
+  if (rate <= 24) return 2;
+  return 3;
+}
+
+function scoreSpO2Scale1(spO2: number): number {
+  if (spO2 <= 91) return 3;
+  if (spO2 <= 93) return 2;
+  if (spO2 <= 95) return 1;
+  return 0;
+}
+
+/**
+ * Scale 2 penalises high saturations only on oxygen - undefined when that can't be known
+ */
+function scoreSpO2Scale2(spO2: number, onSupplementalOxygen?: boolean): number | undefined {
+  if (spO2 <= 83) return 3;
+  if (spO2 <= 85) return 2;
+  if (spO2 <= 87) return 1;
+  if (spO2 <= 92) return 0;
+  if (onSupplementalOxygen === undefined) return undefined;
+  if (!onSupplementalOxygen) return 0;
+  if (spO2 <= 94) return 1;
+  if (spO2 <= 96) return 2;
+  return 3;
+}
+
+function scoreSystolicBp(systolic: number): number {
+  if (systolic <= 90) return 3;
+  if (systolic <= 100) return 2;
+  if (systolic <= 110) return 1;
+  if (systolic <= 219) return 0;
+  return 3;
+}
+
+function scoreHeartRate(heartRate: number): number {
+  if (heartRate <= 40) return 3;
+  if (heartRate <= 50) return 1;
+  if (heartRate <= 90) return 0;
+  if (heartRate <= 110) return 1;
+  if (heartRate <= 130) return 2;
+  return 3;
+}
+
+function scoreTemperature(temperature: number): number {
+  if (temperature <= 35.0) return 3;
+  if (temperature <= 36.0) return 1;
+  if (temperature <= 38.0) return 0;
+  if (temperature <= 39.0) return 1;
+  return 2;
+}
+
+export function getNews2Risk(score: number, singleParameterTrigger: boolean): News2Risk {
+  if (score >= 7) return 'high';
+  if (score >= 5) return 'medium';
+  if (singleParameterTrigger) return 'low-medium';
+  return 'low';
+}
+
+/**
+ * Score whatever parameters are present
+ * Returns undefined when nothing at all can be scored
+ */
+export function calculateNews2(input: News2Input): News2Result | undefined {
+  const parameterScores: Partial<Record<News2Parameter, number>> = {};
+
+  if (input.respiratoryRate !== undefined) parameterScores.respiratoryRate = scoreRespiratoryRate(input.respiratoryRate);
+  if (input.spO2 !== undefined) {
+    const spO2Score = input.spO2Scale === 2
+      ? scoreSpO2Scale2(input.spO2, input.onSupplementalOxygen)
+      : scoreSpO2Scale1(input.spO2);
+    if (spO2Score !== undefined) parameterScores.spO2 = spO2Score;
+  }
+  if (input.onSupplementalOxygen !== undefined) parameterScores.supplementalOxygen = input.onSupplementalOxygen ? 2 : 0;
+  if (input.systolicBp !== undefined) parameterScores.systolicBp = scoreSystolicBp(input.systolicBp);
+  if (input.heartRate !== undefined) parameterScores.heartRate = scoreHeartRate(input.heartRate);
+  if (input.consciousness !== undefined) parameterScores.consciousness = input.consciousness === 'A' ? 0 : 3;
+  if (input.temperature !== undefined) parameterScores.temperature = scoreTemperature(input.temperature);
+
+  const scores = Object.values(parameterScores);
+  if (scores.length === 0) return undefined;
+
+  const score = scores.reduce((sum, s) => sum + s, 0);
+  const singleParameterTrigger = scores.some(s => s === 3);
+  const missing = (Object.keys(NEWS2_PARAMETER_LABELS) as News2Parameter[]).filter(p => parameterScores[p] === undefined);
+
+  return {
+    score,
+    parameterScores,
+    missing,
+    complete: missing.length === 0,
+    singleParameterTrigger,
+    risk: getNews2Risk(score, singleParameterTrigger),
+  };
+}
+
+/**
+ * Aggregate score for display - partial scores read as a lower bound, e.g. "≥4"
+ */
+export function formatNews2Score(result: News2Result): string {
+  return result.complete ? String(result.score) : `≥${result.score}`;
+}
+
+/**
+ * NEWS2 for one set of observations
+ */
+export function calculateNews2ForVitals(vitals: VitalSigns, spO2Scale?: SpO2Scale): News2Result | undefined {
+  return calculateNews2({
+    respiratoryRate: vitals.respiratoryRate,
+    spO2: vitals.spO2,
+    spO2Scale,
+    onSupplementalOxygen: vitals.onSupplementalOxygen,
+    systolicBp: vitals.bpSystolic,
+    heartRate: vitals.heartRate,
+    consciousness: vitals.consciousness,
+    temperature: vitals.temperature,
+  });
+}
+
+/**
+ * NEWS2 for a patient's latest observations
+ */
+export function calculatePatientNews2(patient: Patient): News2Result | undefined {
+  const latestVitals = patient.vitalSigns[0];
+  return latestVitals ? calculateNews2ForVitals(latestVitals, patient.spO2Scale) : undefined;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PATIENT_FILTERS,
+  hasActivePatientFilters,
+  matchesPatientSearch,
+  parsePatientFilterParams,
+  writePatientFilterParams,
+  type PatientFilters,
+} from './patientFilters';
+import type { Patient } from '../types/hospital';
+
+const patient: Patient = {
+  id: 'p1',
+  mrn: 'MRN-012',
+  name: 'Henrik Larsen',
+  status: 'watch',
+  admittedAt: '2025-01-01T08:00:00Z',
+  primaryDiagnosis: 'COPD exacerbation',
+  bed: { id: 'b1', number: 'RES-302', wardId: 'w3', status: 'occupied' },
+  vitalSigns: [],
+  alerts: [],
+};
+
+describe('patientFilters', () => {
+  describe('matchesPatientSearch', () => {
+    it.each([
+      ['henrik'],
+      ['MRN-012'],
+      ['res-302'],
+      ['copd'],
+      ['larsen copd'],
+      ['  '],
+    ])('matches "%s"', (query) => {
+      expect(matchesPatientSearch(patient, query)).toBe(true);
+    });
+
+    it('requires every word to match', () => {
+      expect(matchesPatientSearch(patient, 'larsen sepsis')).toBe(false);
+    });
+  });
+
+  describe('URL parameters', () => {
+    const filters: PatientFilters = {
+      searchQuery: 'copd',
+      statusFilter: ['critical', 'watch'],
+      showAlertsOnly: true,
+      injectionModeOnly: false,
+      nurseAttendingOnly: true,
+      mutedOnly: true,
+      minNews2Score: 5,
+      patientSort: 'acuity',
+    };
+
+    it('round-trips every filter', () => {
+      const search = writePatientFilterParams(filters, '');
+
+      expect({ ...DEFAULT_PATIENT_FILTERS, ...parsePatientFilterParams(search) }).toEqual(filters);
+    });
+
+    it('leaves defaults out of the URL', () => {
+      expect(writePatientFilterParams(DEFAULT_PATIENT_FILTERS, '')).toBe('');
+    });
+
+    it('keeps unrelated parameters', () => {
+      const search = writePatientFilterParams({ ...DEFAULT_PATIENT_FILTERS, patientSort: 'bed' }, '?kiosk=1&q=old');
+
+      expect(search).toBe('?kiosk=1&sort=bed');
+    });
+
+    it('ignores unknown values', () => {
+      expect(parsePatientFilterParams('?status=critical,asleep&sort=random&news2=-2&alerts=yes')).toEqual({
+        statusFilter: ['critical'],
+      });
+    });
+  });
+
+  it('does not count the sort order as a filter', () => {
+    expect(hasActivePatientFilters({ ...DEFAULT_PATIENT_FILTERS, patientSort: 'acuity' })).toBe(false);
+    expect(hasActivePatientFilters({ ...DEFAULT_PATIENT_FILTERS, mutedOnly: true })).toBe(true);
+  });
+});
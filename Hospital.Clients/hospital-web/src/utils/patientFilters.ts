@@ -0,0 +1,145 @@
+/**
+ * Patient Grid Filters
+ *
+ * Search, filter and sort options for the patient grid, and their URL representation.
+ * Filters live in the query string so a filtered view can be bookmarked or shared;
+ * options at their default value are left out to keep the URL short.
+ */
+
+import type { Patient, PatientStatus } from '../types/hospital';
+
+/**
+ * Patient grid order
+ * - acuity: worst first - status and NEWS2 risk tier, held steady by hysteresis (see acuityRanking)
+ * - news2: highest NEWS2 first
+ * - bed: bed number, patients without a bed last
+ * - name: alphabetical
+ * - lastUpdate: most recent vitals first
+ */
+export type PatientSort = 'acuity' | 'news2' | 'bed' | 'name' | 'lastUpdate';
+
+export const PATIENT_SORT_LABELS: Record<PatientSort, string> = {
+  acuity: 'Acuity (worst first)',
+  news2: 'NEWS2 (highest first)',
+  bed: 'Bed number',
+  name: 'Name',
+  lastUpdate: 'Last update',
+};
+
+export const PATIENT_STATUSES: PatientStatus[] = ['critical', 'watch', 'stable'];
+
+export interface PatientFilters {
+  searchQuery: string;           // Name, MRN, bed or diagnosis
+  statusFilter: PatientStatus[]; // Empty = every status
+  showAlertsOnly: boolean;       // Latest vitals would raise an alert
+  injectionModeOnly: boolean;
+  nurseAttendingOnly: boolean;
+  mutedOnly: boolean;            // Audio paused - "muted" in the URL, as before pauses
+  minNews2Score: number;         // 0 = no NEWS2 filter
+  patientSort: PatientSort;
+}
+
+export const DEFAULT_PATIENT_FILTERS: PatientFilters = {
+  searchQuery: '',
+  statusFilter: [],
+  showAlertsOnly: false,
+  injectionModeOnly: false,
+  nurseAttendingOnly: false,
+  mutedOnly: false,
+  minNews2Score: 0,
+  patientSort: 'name',
+};
+
+/**
+ * Any filter narrowing the grid - sort order doesn't count
+ */
+export function hasActivePatientFilters(filters: PatientFilters): boolean {
+  return filters.searchQuery.trim() !== ''
+    || filters.statusFilter.length > 0
+    || filters.showAlertsOnly
+    || filters.injectionModeOnly
+    || filters.nurseAttendingOnly
+    || filters.mutedOnly
+    || filters.minNews2Score > 0;
+}
+
+/**
+ * Case-insensitive search over name, MRN, bed number and diagnosis - every word must match
+ */
+export function matchesPatientSearch(patient: Patient, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [patient.name, patient.mrn, patient.bed?.number, patient.primaryDiagnosis]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+/**
+ * URL query parameters
+ */
+
+const PARAM = {
+  search: 'q',
+  status: 'status',
+  alerts: 'alerts',
+  injection: 'injection',
+  nurse: 'nurse',
+  muted: 'muted',
+  news2: 'news2',
+  sort: 'sort',
+} as const;
+
+const isPatientSort = (value: string): value is PatientSort => value in PATIENT_SORT_LABELS;
+
+/**
+ * Read filters from a query string - unknown or malformed values are ignored
+ */
+export function parsePatientFilterParams(search: string): Partial<PatientFilters> {
+  const params = new URLSearchParams(search);
+  const filters: Partial<PatientFilters> = {};
+
+  const query = params.get(PARAM.search);
+  if (query) filters.searchQuery = query;
+
+  const statuses = params.get(PARAM.status)?.split(',').filter((s): s is PatientStatus =>
+    PATIENT_STATUSES.includes(s as PatientStatus));
+  if (statuses?.length) filters.statusFilter = statuses;
+
+  if (params.get(PARAM.alerts) === '1') filters.showAlertsOnly = true;
+  if (params.get(PARAM.injection) === '1') filters.injectionModeOnly = true;
+  if (params.get(PARAM.nurse) === '1') filters.nurseAttendingOnly = true;
+  if (params.get(PARAM.muted) === '1') filters.mutedOnly = true;
+
+  const news2 = Number(params.get(PARAM.news2));
+  if (Number.isInteger(news2) && news2 > 0) filters.minNews2Score = news2;
+
+  const sort = params.get(PARAM.sort);
+  if (sort && isPatientSort(sort)) filters.patientSort = sort;
+
+  return filters;
+}
+
+/**
+ * Write filters into a query string, keeping any unrelated parameters
+ * @returns The new query string, with a leading "?" (or "" when empty)
+ */
+export function writePatientFilterParams(filters: PatientFilters, search: string): string {
+  const params = new URLSearchParams(search);
+  Object.values(PARAM).forEach(key => params.delete(key));
+
+  const query = filters.searchQuery.trim();
+  if (query) params.set(PARAM.search, query);
+  if (filters.statusFilter.length > 0) params.set(PARAM.status, filters.statusFilter.join(','));
+  if (filters.showAlertsOnly) params.set(PARAM.alerts, '1');
+  if (filters.injectionModeOnly) params.set(PARAM.injection, '1');
+  if (filters.nurseAttendingOnly) params.set(PARAM.nurse, '1');
+  if (filters.mutedOnly) params.set(PARAM.muted, '1');
+  if (filters.minNews2Score > 0) params.set(PARAM.news2, String(filters.minNews2Score));
+  if (filters.patientSort !== DEFAULT_PATIENT_FILTERS.patientSort) params.set(PARAM.sort, filters.patientSort);
+
+  const result = params.toString();
+  return result ? `?${result}` : '';
+}
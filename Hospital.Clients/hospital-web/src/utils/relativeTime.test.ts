@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { formatTimeAgo } from './relativeTime';
+
+const T0 = '2025-01-01T08:00:00Z';
+const after = (ms: number) => Date.parse(T0) + ms;
+
+describe('formatTimeAgo', () => {
+  it.each([
+    [8_000, '8s ago'],
+    [59_999, '59s ago'],
+    [12 * 60_000, '12m ago'],
+    [3 * 3_600_000, '3h ago'],
+    [50 * 3_600_000, '2d ago'],
+  ])('formats %dms as %s', (ms, text) => {
+    expect(formatTimeAgo(T0, after(ms))).toBe(text);
+  });
+
+  it('never shows a timestamp slightly ahead of the clock as in the future', () => {
+    expect(formatTimeAgo(T0, after(-400))).toBe('0s ago');
+  });
+});
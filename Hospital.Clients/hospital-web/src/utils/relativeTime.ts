@@ -0,0 +1,15 @@
+/**
+ * Relative Time
+ * How long ago something happened, e.g. "8s ago", "12m ago", "3h ago", "2d ago".
+ * `now` should come from the server clock (services/serverClock) - the timestamps do.
+ */
+export function formatTimeAgo(timestamp: string, now: number): string {
+  // A reading can land a moment "ahead" of an offset estimated to the nearest few ms
+  const seconds = Math.max(0, Math.floor((now - Date.parse(timestamp)) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoute, patientPath } from './routes';
+
+describe('routes', () => {
+  it.each([
+    ['/', { name: 'dashboard' }],
+    ['/patients/p1', { name: 'patient', patientId: 'p1' }],
+    ['/patients/p1/', { name: 'patient', patientId: 'p1' }],
+    ['/patients/', { name: 'dashboard' }],
+    ['/patients/p1/trends', { name: 'dashboard' }],
+    ['/patients/%E0%A4%A', { name: 'dashboard' }],
+    ['/wards', { name: 'dashboard' }],
+  ])('parses %s', (pathname, route) => {
+    expect(parseRoute(pathname)).toEqual(route);
+  });
+
+  it('round-trips patient IDs that need escaping', () => {
+    expect(parseRoute(patientPath('bed 3/a'))).toEqual({ name: 'patient', patientId: 'bed 3/a' });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Client-side Routes
+ *
+ * The dashboard is a single page with a small set of deep-linkable views:
+ * - /                 Patient grid (filters in the query string, see patientFilters)
+ * - /patients/:id     Patient detail
+ * Unknown paths fall back to the dashboard.
+ */
+
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'patient'; patientId: string };
+
+const PATIENT_PATH = /^\/patients\/([^/]+)\/?$/;
+
+export function parseRoute(pathname: string): Route {
+  const match = pathname.match(PATIENT_PATH);
+  if (match) {
+    try {
+      return { name: 'patient', patientId: decodeURIComponent(match[1]) };
+    } catch {
+      // Malformed escape - treat like any other unknown path
+    }
+  }
+  return { name: 'dashboard' };
+}
+
+export function dashboardPath(): string {
+  return '/';
+}
+
+export function patientPath(patientId: string): string {
+  return `/patients/${encodeURIComponent(patientId)}`;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessSignal,
+  createSignalLossAlert,
+  formatSilence,
+  getSignalSilence,
+  hasNewerReading,
+  isTechnicalAlert,
+  reviewSignalEpisode,
+  SIGNAL_STALE_AFTER_MS,
+} from './signalLoss';
+
+const T0 = Date.parse('2025-01-01T08:00:00Z');
+
+describe('signalLoss', () => {
+  it('counts silence from the last reading', () => {
+    expect(getSignalSilence('2025-01-01T08:00:00Z', 0, T0 + 47_000)).toBe(47_000);
+  });
+
+  it('counts silence from when monitoring started if the reading is older', () => {
+    expect(getSignalSilence('2025-01-01T07:00:00Z', T0, T0 + 5_000)).toBe(5_000);
+    expect(getSignalSilence(undefined, T0, T0 + 5_000)).toBe(5_000);
+  });
+
+  it('dims after the stale threshold and alarms at the limit', () => {
+    expect(assessSignal(SIGNAL_STALE_AFTER_MS - 1, 120_000)).toBe('live');
+    expect(assessSignal(SIGNAL_STALE_AFTER_MS, 120_000)).toBe('stale');
+    expect(assessSignal(120_000, 120_000)).toBe('lost');
+  });
+
+  it.each([
+    [47_000, '47s'],
+    [125_000, '2m 05s'],
+    [4_320_000, '1h 12m'],
+  ])('formats %dms as %s', (ms, text) => {
+    expect(formatSilence(ms)).toBe(text);
+  });
+
+  it('raises a technical alarm, distinct from physiological ones', () => {
+    const alert = createSignalLossAlert({ id: 'p1', name: 'Henrik Larsen' }, 120_000, T0);
+
+    expect(alert).toMatchObject({
+      patientId: 'p1',
+      alertType: 'signal_lost',
+      category: 'technical',
+      isActive: true,
+      triggeredAt: '2025-01-01T08:00:00.000Z',
+    });
+    expect(alert.message).toContain('2m 00s');
+    expect(isTechnicalAlert(alert)).toBe(true);
+    expect(isTechnicalAlert({ ...alert, category: undefined })).toBe(false);
+  });
+
+  describe('episodes', () => {
+    const episode = { alertId: 'signal_lost-p1-1', lastRecordedAt: '2025-01-01T08:00:00Z' };
+
+    it('raises an alarm once the signal is lost', () => {
+      expect(reviewSignalEpisode(undefined, 'lost', episode.lastRecordedAt)).toBe('raise');
+      expect(reviewSignalEpisode(undefined, 'stale', episode.lastRecordedAt)).toBe('none');
+    });
+
+    it('keeps the alarm active when the scope or connection changes without a new reading', () => {
+      // Monitoring restarts after a reconnect or scope switch, so the same silent patient now assesses live
+      const monitoredSince = T0 + 600_000;
+      const state = assessSignal(getSignalSilence(episode.lastRecordedAt, monitoredSince, monitoredSince + 5_000), 120_000);
+
+      expect(state).toBe('live');
+      expect(reviewSignalEpisode(episode, state, episode.lastRecordedAt)).toBe('hold');
+    });
+
+    it('resolves only on a reading newer than the one the alarm was raised on', () => {
+      expect(reviewSignalEpisode(episode, 'live', '2025-01-01T08:03:00Z')).toBe('resolve');
+      expect(hasNewerReading('2025-01-01T07:59:00Z', episode)).toBe(false);
+      expect(hasNewerReading(undefined, episode)).toBe(false);
+      expect(hasNewerReading('2025-01-01T08:00:00Z', { alertId: 'a' })).toBe(true);
+    });
+  });
+});
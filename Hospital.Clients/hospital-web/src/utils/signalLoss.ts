@@ -0,0 +1,112 @@
+/**
+ * Signal Loss Detection
+ *
+ * Client-side counterpart of VitalSigns.IsStale: a patient whose monitor stops reporting keeps
+ * showing its last values, so silence is tracked per patient. After SIGNAL_STALE_AFTER_MS the card
+ * dims; after the configurable alarm limit the dashboard raises a technical "signal lost" alarm,
+ * kept apart from the physiological alarms the backend raises.
+ *
+ * Silence only counts while the dashboard is actually receiving that patient's vitals - from the
+ * later of the last reading and when monitoring started (connected, or the hub scope changed), so
+ * a patient that just came into scope isn't instantly "lost".
+ *
+ * An alarm, once raised, belongs to an episode that only a newer reading ends. Reconnecting,
+ * switching scope or losing sight of the patient never resolves it: while the patient isn't being
+ * received the alarm stays active but suspended - listed, not sounded.
+ */
+
+import type { Alert } from '../types/hospital';
+
+export type SignalState = 'live' | 'stale' | 'lost';
+
+/** A patient whose monitor has gone quiet, as of their last reading */
+export interface QuietSignal {
+  state: Exclude<SignalState, 'live'>;
+  lastRecordedAt?: string;
+  suspended?: boolean; // Alarm open, but the patient's vitals aren't being received - kept, not sounded
+}
+
+/** An open signal-lost alarm and the reading it was raised on */
+export interface SignalLossEpisode {
+  alertId: string;
+  lastRecordedAt?: string;
+}
+
+export type SignalEpisodeAction = 'raise' | 'resolve' | 'hold' | 'none';
+
+/** Silence before a card dims - monitors report every few seconds, with the odd longer gap */
+export const SIGNAL_STALE_AFTER_MS = 30_000;
+
+/** Silence before the signal-lost alarm (configurable per display) */
+export const DEFAULT_SIGNAL_LOSS_ALARM_MS = 120_000;
+export const SIGNAL_LOSS_ALARM_OPTIONS_MS = [60_000, 120_000, 300_000, 600_000];
+
+export const SIGNAL_LOST_ALERT_TYPE = 'signal_lost';
+
+/**
+ * How long a patient has been silent, counted from the later of their last reading and monitoredSince
+ */
+export function getSignalSilence(lastRecordedAt: string | undefined, monitoredSince: number, now: number): number {
+  const lastHeard = Math.max(lastRecordedAt ? Date.parse(lastRecordedAt) : 0, monitoredSince);
+  return Math.max(0, now - lastHeard);
+}
+
+export function assessSignal(silenceMs: number, alarmAfterMs: number): SignalState {
+  if (silenceMs >= alarmAfterMs) return 'lost';
+  if (silenceMs >= SIGNAL_STALE_AFTER_MS) return 'stale';
+  return 'live';
+}
+
+/**
+ * Whether a reading arrived after the one an episode was raised on
+ */
+export function hasNewerReading(lastRecordedAt: string | undefined, episode: SignalLossEpisode): boolean {
+  if (!lastRecordedAt) return false;
+  return !episode.lastRecordedAt || Date.parse(lastRecordedAt) > Date.parse(episode.lastRecordedAt);
+}
+
+/**
+ * What to do with a patient's signal-lost alarm: an open episode holds until a newer reading
+ * arrives - however the silence assesses after a reconnect or scope change - and a new one is
+ * raised only once the signal is lost
+ */
+export function reviewSignalEpisode(
+  episode: SignalLossEpisode | undefined,
+  state: SignalState,
+  lastRecordedAt: string | undefined,
+): SignalEpisodeAction {
+  if (episode) return hasNewerReading(lastRecordedAt, episode) ? 'resolve' : 'hold';
+  return state === 'lost' ? 'raise' : 'none';
+}
+
+/**
+ * Silence for display, e.g. "47s", "2m 05s", "1h 12m"
+ */
+export function formatSilence(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+export function isTechnicalAlert(alert: Alert): boolean {
+  return alert.category === 'technical';
+}
+
+/**
+ * The technical alarm for a patient whose monitor went silent
+ * One per episode - the ID carries when the silence was detected.
+ */
+export function createSignalLossAlert(patient: { id: string; name: string }, silenceMs: number, now: number): Alert {
+  return {
+    id: `${SIGNAL_LOST_ALERT_TYPE}-${patient.id}-${now}`,
+    patientId: patient.id,
+    alertType: SIGNAL_LOST_ALERT_TYPE,
+    category: 'technical',
+    severity: 'High',
+    message: `Signal lost - no vitals from ${patient.name}'s monitor for ${formatSilence(silenceMs)}`,
+    triggeredAt: new Date(now).toISOString(),
+    isActive: true,
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { deriveStatusHistory } from './statusHistory';
+import { DEFAULT_ALARM_LIMITS } from './clinicalThresholds';
+import type { VitalSigns } from '../types/hospital';
+
+const reading = (minute: number, spO2: number): VitalSigns => ({
+  id: `v${minute}`,
+  patientId: 'p1',
+  heartRate: 75,
+  spO2,
+  bpSystolic: 120,
+  bpDiastolic: 80,
+  recordedAt: `2025-01-01T08:${String(minute).padStart(2, '0')}:00Z`,
+});
+
+describe('deriveStatusHistory', () => {
+  it('records each change, newest first', () => {
+    const history = deriveStatusHistory([
+      reading(0, 97),
+      reading(1, 90),  // High
+      reading(2, 89),  // Still watch - no new entry
+      reading(3, 85),  // Critical
+      reading(4, 90),  // High again - back to watch
+    ], DEFAULT_ALARM_LIMITS);
+
+    expect(history.map(c => [c.status, c.changedAt])).toEqual([
+      ['watch', '2025-01-01T08:04:00Z'],
+      ['critical', '2025-01-01T08:03:00Z'],
+      ['watch', '2025-01-01T08:01:00Z'],
+    ]);
+  });
+
+  it('never downgrades to stable', () => {
+    const history = deriveStatusHistory([reading(0, 85), reading(1, 97)], DEFAULT_ALARM_LIMITS);
+
+    expect(history.map(c => c.status)).toEqual(['critical']);
+  });
+
+  it('has no entries when nothing reached High', () => {
+    expect(deriveStatusHistory([reading(0, 97), reading(1, 93)], DEFAULT_ALARM_LIMITS)).toEqual([]);
+  });
+
+  it('assesses readings against the patient limits', () => {
+    const history = deriveStatusHistory([reading(0, 90)], { ...DEFAULT_ALARM_LIMITS, spO2CriticalBelow: 84, spO2HighBelow: 86, spO2MediumBelow: 88 });
+
+    expect(history).toEqual([]);
+  });
+});
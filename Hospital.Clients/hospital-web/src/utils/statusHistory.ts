@@ -0,0 +1,48 @@
+/**
+ * Patient Status History
+ *
+ * The backend keeps only the current status, so the history is reconstructed from the recorded
+ * readings with the same rule AlertService.UpdatePatientStatus applies to each one:
+ * a Critical reading makes the patient critical, a High reading puts them on watch, anything
+ * lower leaves the status as it was (status is never downgraded to stable automatically).
+ *
+ * Only changes inside the readings' time window are known - the status before the first
+ * qualifying reading is not, so no entry is invented for it.
+ */
+
+import type { AlarmLimits, AlertSeverity, PatientStatus, VitalSigns } from '../types/hospital';
+import { calculateAlertSeverity } from './clinicalThresholds';
+
+export interface StatusChange {
+  status: PatientStatus;
+  changedAt: string;          // recordedAt of the reading that caused it
+  severity: AlertSeverity;    // That reading's severity
+  reading: VitalSigns;
+}
+
+function statusForSeverity(severity: AlertSeverity): PatientStatus | undefined {
+  if (severity === 'Critical') return 'critical';
+  if (severity === 'High') return 'watch';
+  return undefined;
+}
+
+/**
+ * Status changes in a series of readings, newest first
+ * @param readings - Chronological, as returned by the trend endpoint
+ * @param limits - The patient's resolved alarm limits
+ */
+export function deriveStatusHistory(readings: VitalSigns[], limits: AlarmLimits): StatusChange[] {
+  const changes: StatusChange[] = [];
+  let status: PatientStatus | undefined;
+
+  readings.forEach(reading => {
+    const severity = calculateAlertSeverity(reading, limits);
+    const next = statusForSeverity(severity);
+    if (!next || next === status) return;
+
+    status = next;
+    changes.push({ status, changedAt: reading.recordedAt, severity, reading });
+  });
+
+  return changes.reverse();
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import {
+  celsiusToFahrenheit,
+  fahrenheitToCelsius,
+  toCelsius,
+} from './temperature';
+
+describe('temperature', () => {
+  describe('conversion', () => {
+    it('converts between °C and °F', () => {
+      expect(celsiusToFahrenheit(37)).toBeCloseTo(98.6);
+      expect(celsiusToFahrenheit(-40)).toBe(-40);
+      expect(fahrenheitToCelsius(212)).toBe(100);
+    });
+
+    it('rounds entered values to one decimal °C', () => {
+      expect(toCelsius(98.6, 'F')).toBe(37);
+      expect(toCelsius(101.3, 'F')).toBe(38.5);
+      expect(toCelsius(37.25, 'C')).toBe(37.3);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Temperature Utility
+ *
+ * Vitals carry temperature in °C (the backend stores and validates Celsius).
+ * Conversion to °F happens only at the display and input edges.
+ */
+
+export type TemperatureUnit = 'C' | 'F';
+
+export function celsiusToFahrenheit(celsius: number): number {
+  return celsius * 9 / 5 + 32;
+}
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return (fahrenheit - 32) * 5 / 9;
+}
+
+/** Convert a °C reading to the display unit */
+export function toDisplayTemperature(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? celsiusToFahrenheit(celsius) : celsius;
+}
+
+/** Convert a value entered in the display unit back to °C, rounded to one decimal place */
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  const celsius = unit === 'F' ? fahrenheitToCelsius(value) : value;
+  return Math.round(celsius * 10) / 10;
+}
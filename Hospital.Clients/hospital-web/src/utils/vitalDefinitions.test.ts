@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  VITAL_DEFINITIONS,
+  getVitalDefinition,
+  formatVitalValue,
+  formatVitalsSummary,
+  getVitalAxisLabel,
+} from './vitalDefinitions';
+import type { VitalSigns } from '../types/hospital';
+
+const celsius = { temperatureUnit: 'C' } as const;
+const fahrenheit = { temperatureUnit: 'F' } as const;
+
+describe('vitalDefinitions', () => {
+  it('defines each vital once, with a sane range and example', () => {
+    const keys = VITAL_DEFINITIONS.map(d => d.key);
+    expect(new Set(keys).size).toBe(keys.length);
+
+    VITAL_DEFINITIONS.forEach(definition => {
+      expect(definition.validRange.min).toBeLessThan(definition.validRange.max);
+      expect(definition.normalValue).toBeGreaterThanOrEqual(definition.validRange.min);
+      expect(definition.normalValue).toBeLessThanOrEqual(definition.validRange.max);
+    });
+  });
+
+  it('assesses the normal preset as Low', () => {
+    const normal = Object.fromEntries(VITAL_DEFINITIONS.map(d => [d.key, d.normalValue]));
+
+    VITAL_DEFINITIONS.forEach(definition => {
+      expect(definition.assess(normal)).toBe('Low');
+    });
+  });
+
+  it('assesses BP rows from both readings', () => {
+    const vitals = { bpSystolic: 120, bpDiastolic: 112 };
+
+    expect(getVitalDefinition('bpSystolic').assess(vitals)).toBe('Critical');
+    expect(getVitalDefinition('bpDiastolic').assess(vitals)).toBe('Critical');
+  });
+
+  it('formats in the display unit', () => {
+    expect(formatVitalValue(getVitalDefinition('temperature'), 37, fahrenheit)).toBe('98.6');
+    expect(formatVitalValue(getVitalDefinition('heartRate'), 72, celsius)).toBe('72');
+    expect(formatVitalValue(getVitalDefinition('heartRate'), undefined, celsius)).toBe('--');
+  });
+
+  it('summarises the card rows', () => {
+    const vitals: VitalSigns = {
+      id: 'v1', patientId: 'p1', heartRate: 75, spO2: 98, bpSystolic: 120, bpDiastolic: 80, temperature: 37.2,
+      recordedAt: '2025-01-01T10:00:00Z',
+    };
+
+    expect(formatVitalsSummary(vitals, celsius)).toBe('HR: 75 BPM | SpO₂: 98 % | BP: 120/80 mmHg | Temp: 37.2 °C');
+  });
+
+  it('labels chart axes from the vitals plotted on them', () => {
+    expect(getVitalAxisLabel('rate', celsius)).toBe('HR (BPM) / SpO₂ (%)');
+    expect(getVitalAxisLabel('pressure', celsius)).toBe('BP Sys / BP Dia (mmHg)');
+    expect(getVitalAxisLabel('temperature', fahrenheit)).toBe('Temp (°F)');
+  });
+});
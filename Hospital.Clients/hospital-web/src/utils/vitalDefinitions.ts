@@ -0,0 +1,199 @@
+/**
+ * Vital Sign Definitions
+ *
+ * One registry of the vitals the dashboard shows, charts, validates and injects.
+ * PatientCard, VitalSparkline, VitalTrendsChart, the injector forms and
+ * validateVitalSigns all iterate VITAL_DEFINITIONS - adding a parameter means adding an entry here.
+ */
+
+import type { SvgIcon } from '@mui/material';
+import {
+  Favorite as HeartIcon,
+  Air as O2Icon,
+  TrendingUp as BPIcon,
+  Thermostat as TempIcon,
+} from '@mui/icons-material';
+import type { AlarmLimits, AlertSeverity, VitalSigns } from '../types/hospital';
+import { toDisplayTemperature, toCelsius, type TemperatureUnit } from './temperature';
+import {
+  assessHeartRate,
+  assessSpO2,
+  assessBloodPressure,
+  assessTemperature,
+} from './clinicalThresholds';
+
+/** Numeric VitalSigns fields that have a definition */
+export type VitalKey = keyof Pick<VitalSigns, 'heartRate' | 'spO2' | 'bpSystolic' | 'bpDiastolic' | 'temperature'>;
+
+/** Trend chart Y axes - vitals sharing an axis share a scale */
+export type VitalAxis = 'rate' | 'pressure' | 'temperature';
+
+export const VITAL_AXES: Record<VitalAxis, { orientation: 'left' | 'right' }> = {
+  rate: { orientation: 'left' },
+  pressure: { orientation: 'right' },
+  temperature: { orientation: 'right' },
+};
+
+/** Display preferences - change how a vital is shown and entered, never how it is stored */
+export interface VitalDisplayContext {
+  temperatureUnit: TemperatureUnit;
+}
+
+export interface VitalDefinition {
+  key: VitalKey;
+  label: string;       // Forms, validation messages, chart legend
+  shortLabel: string;  // Sparklines and axis labels
+  unit: string;        // Unit the API stores and validates
+  validRange: { min: number; max: number }; // Accepted input, in the stored unit
+  assess: (vitals: Partial<VitalSigns>, limits?: AlarmLimits) => AlertSeverity; // See clinicalThresholds
+  color: string;       // Chart stroke
+  axis: VitalAxis;
+  decimals: number;    // 0 = whole numbers only
+  normalValue: number; // "Healthy" preset
+  exampleValue: number; // Input placeholder
+  chartDomain?: [string, string]; // Recharts domain - for vitals that move in small steps
+  card?: {
+    label: string;
+    icon: typeof SvgIcon;
+    companion?: VitalKey; // Shown on the same row, e.g. BP systolic/diastolic
+  };
+  displayUnit: (display: VitalDisplayContext) => string;
+  toDisplay: (value: number, display: VitalDisplayContext) => number;
+  fromDisplay: (value: number, display: VitalDisplayContext) => number;
+}
+
+type VitalDefinitionInput = Omit<VitalDefinition, 'displayUnit' | 'toDisplay' | 'fromDisplay'>
+  & Partial<Pick<VitalDefinition, 'displayUnit' | 'toDisplay' | 'fromDisplay'>>;
+
+/**
+ * Fill in display conversions for vitals shown in their stored unit
+ */
+function defineVital(definition: VitalDefinitionInput): VitalDefinition {
+  return {
+    displayUnit: () => definition.unit,
+    toDisplay: (value) => value,
+    fromDisplay: (value) => value,
+    ...definition,
+  };
+}
+
+export const VITAL_DEFINITIONS: readonly VitalDefinition[] = [
+  defineVital({
+    key: 'heartRate',
+    label: 'Heart Rate',
+    shortLabel: 'HR',
+    unit: 'BPM',
+    validRange: { min: 30, max: 200 },
+    assess: (vitals, limits) => assessHeartRate(vitals.heartRate, limits),
+    color: '#f44336',
+    axis: 'rate',
+    decimals: 0,
+    normalValue: 75,
+    exampleValue: 120,
+    card: { label: 'HR', icon: HeartIcon },
+  }),
+  defineVital({
+    key: 'spO2',
+    label: 'SpO₂',
+    shortLabel: 'SpO₂',
+    unit: '%',
+    validRange: { min: 0, max: 100 },
+    assess: (vitals, limits) => assessSpO2(vitals.spO2, limits),
+    color: '#2196f3',
+    axis: 'rate',
+    decimals: 0,
+    normalValue: 98,
+    exampleValue: 95,
+    card: { label: 'SpO₂', icon: O2Icon },
+  }),
+  defineVital({
+    key: 'bpSystolic',
+    label: 'BP Systolic',
+    shortLabel: 'BP Sys',
+    unit: 'mmHg',
+    validRange: { min: 50, max: 250 },
+    assess: (vitals, limits) => assessBloodPressure(vitals.bpSystolic, vitals.bpDiastolic, limits),
+    color: '#4caf50',
+    axis: 'pressure',
+    decimals: 0,
+    normalValue: 120,
+    exampleValue: 140,
+    card: { label: 'BP', icon: BPIcon, companion: 'bpDiastolic' },
+  }),
+  defineVital({
+    key: 'bpDiastolic',
+    label: 'BP Diastolic',
+    shortLabel: 'BP Dia',
+    unit: 'mmHg',
+    validRange: { min: 30, max: 150 },
+    assess: (vitals, limits) => assessBloodPressure(vitals.bpSystolic, vitals.bpDiastolic, limits),
+    color: '#ff9800',
+    axis: 'pressure',
+    decimals: 0,
+    normalValue: 80,
+    exampleValue: 90,
+  }),
+  defineVital({
+    key: 'temperature',
+    label: 'Temperature',
+    shortLabel: 'Temp',
+    unit: '°C', // Matches backend VitalSigns.IsValid
+    validRange: { min: 30, max: 45 },
+    assess: (vitals) => assessTemperature(vitals.temperature),
+    color: '#9c27b0',
+    axis: 'temperature',
+    decimals: 1,
+    normalValue: 37.0,
+    exampleValue: 38.5,
+    chartDomain: ['dataMin - 0.5', 'dataMax + 0.5'],
+    card: { label: 'Temp', icon: TempIcon },
+    displayUnit: (display) => `°${display.temperatureUnit}`,
+    toDisplay: (value, display) => toDisplayTemperature(value, display.temperatureUnit),
+    fromDisplay: (value, display) => toCelsius(value, display.temperatureUnit),
+  }),
+];
+
+const DEFINITIONS_BY_KEY = new Map(VITAL_DEFINITIONS.map(definition => [definition.key, definition]));
+
+export function getVitalDefinition(key: VitalKey): VitalDefinition {
+  return DEFINITIONS_BY_KEY.get(key)!;
+}
+
+/**
+ * Format a reading (stored unit) for display, without the unit - "--" when missing
+ */
+export function formatVitalValue(definition: VitalDefinition, value: number | undefined, display: VitalDisplayContext): string {
+  if (value === undefined) return '--';
+  return definition.toDisplay(value, display).toFixed(definition.decimals);
+}
+
+/**
+ * One-line summary of the card rows, e.g. "HR: 75 BPM | SpO₂: 98 % | BP: 120/80 mmHg | Temp: 37.0 °C"
+ */
+export function formatVitalsSummary(vitals: VitalSigns | undefined, display: VitalDisplayContext): string {
+  return VITAL_DEFINITIONS
+    .filter(definition => definition.card)
+    .map(definition => {
+      const { label, companion } = definition.card!;
+      const value = formatVitalValue(definition, vitals?.[definition.key], display);
+      const companionValue = companion
+        ? `/${formatVitalValue(getVitalDefinition(companion), vitals?.[companion], display)}`
+        : '';
+      return `${label}: ${value}${companionValue} ${definition.displayUnit(display)}`;
+    })
+    .join(' | ');
+}
+
+/**
+ * Trend chart axis label built from the vitals plotted on it, e.g. "HR (BPM) / SpO₂ (%)"
+ */
+export function getVitalAxisLabel(axis: VitalAxis, display: VitalDisplayContext): string {
+  const labelsByUnit = new Map<string, string[]>();
+  VITAL_DEFINITIONS
+    .filter(definition => definition.axis === axis)
+    .forEach(definition => {
+      const unit = definition.displayUnit(display);
+      labelsByUnit.set(unit, [...(labelsByUnit.get(unit) ?? []), definition.shortLabel]);
+    });
+  return Array.from(labelsByUnit, ([unit, labels]) => `${labels.join(' / ')} (${unit})`).join(' / ');
+}
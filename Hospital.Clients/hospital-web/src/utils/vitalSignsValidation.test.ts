@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateVitalSigns, VITAL_RANGES } from './vitalSignsValidation';
+import { validateVitalSigns, parseVitalSignsForm, VITAL_RANGES } from './vitalSignsValidation';
 
 describe('vitalSignsValidation', () => {
   describe('validateVitalSigns', () => {
@@ -147,6 +147,45 @@ describe('vitalSignsValidation', () => {
         expect(result.valid).toBe(false);
       });
     });
+
+    describe('temperature validation', () => {
+      const empty = { heartRate: '', spO2: '', bpSystolic: '', bpDiastolic: '' };
+
+      it('accepts temperature as the only vital', () => {
+        expect(validateVitalSigns({ ...empty, temperature: '37.4' }).valid).toBe(true);
+      });
+
+      it('rejects temperature outside the °C range', () => {
+        const result = validateVitalSigns({ ...empty, temperature: '46' });
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toContain('30-45 °C');
+        }
+      });
+
+      it('validates °F input against the converted range', () => {
+        expect(validateVitalSigns({ ...empty, temperature: '101.3' }, true, { temperatureUnit: 'F' }).valid).toBe(true);
+        const result = validateVitalSigns({ ...empty, temperature: '37' }, true, { temperatureUnit: 'F' });
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toContain('86-113 °F');
+        }
+      });
+
+      it('rejects non-numeric temperature', () => {
+        expect(validateVitalSigns({ ...empty, temperature: 'warm' }).valid).toBe(false);
+      });
+    });
+  });
+
+  describe('parseVitalSignsForm', () => {
+    it('omits empty fields and converts to the stored unit', () => {
+      const values = parseVitalSignsForm(
+        { heartRate: '120', spO2: '', bpSystolic: '', bpDiastolic: '', temperature: '101.3' },
+        { temperatureUnit: 'F' }
+      );
+      expect(values).toEqual({ heartRate: 120, temperature: 38.5 });
+    });
   });
 
   describe('VITAL_RANGES', () => {
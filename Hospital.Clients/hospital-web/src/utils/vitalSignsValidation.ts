@@ -3,49 +3,77 @@
  *
  * Centralized validation for vital signs input across the application.
  * Used by VitalInjectorPanel and NurseAttendingModal.
+ * Fields, ranges and units come from the vital definition registry.
  */
 
-/** Valid ranges for vital signs based on medical standards */
-export const VITAL_RANGES = {
-  heartRate: { min: 30, max: 200, unit: 'BPM' },
-  spO2: { min: 0, max: 100, unit: '%' },
-  bpSystolic: { min: 50, max: 250, unit: 'mmHg' },
-  bpDiastolic: { min: 30, max: 150, unit: 'mmHg' },
-} as const;
-
-/** Form data structure for vital signs input */
-export interface VitalSignsFormData {
-  heartRate: string;
-  spO2: string;
-  bpSystolic: string;
-  bpDiastolic: string;
-}
+import {
+  VITAL_DEFINITIONS,
+  type VitalDefinition,
+  type VitalDisplayContext,
+  type VitalKey,
+} from './vitalDefinitions';
+
+/** Valid ranges for vital signs in the stored unit (see VITAL_DEFINITIONS) */
+export const VITAL_RANGES = Object.fromEntries(
+  VITAL_DEFINITIONS.map(({ key, validRange, unit }) => [key, { ...validRange, unit }])
+) as Record<VitalKey, { min: number; max: number; unit: string }>;
+
+/** Form data structure for vital signs input - values are entered in the display unit */
+export type VitalSignsFormData = Partial<Record<VitalKey, string>>;
 
 /** Result of validation - either success or error with message */
 export type ValidationResult =
   | { valid: true }
   | { valid: false; error: string };
 
+const DEFAULT_DISPLAY: VitalDisplayContext = { temperatureUnit: 'C' };
+
+/**
+ * Empty form with a field for every defined vital
+ */
+export function emptyVitalSignsForm(): VitalSignsFormData {
+  return Object.fromEntries(VITAL_DEFINITIONS.map(({ key }) => [key, '']));
+}
+
 /**
- * Validates a single numeric vital sign field
+ * Form pre-filled with each vital's normal value, in the display unit
+ */
+export function normalVitalSignsForm(display: VitalDisplayContext = DEFAULT_DISPLAY): VitalSignsFormData {
+  return Object.fromEntries(VITAL_DEFINITIONS.map(definition => [
+    definition.key,
+    definition.toDisplay(definition.normalValue, display).toFixed(definition.decimals),
+  ]));
+}
+
+export function hasAnyVitalSign(formData: VitalSignsFormData): boolean {
+  return VITAL_DEFINITIONS.some(({ key }) => !!formData[key]);
+}
+
+function parseInput(definition: VitalDefinition, value: string): number {
+  return definition.decimals === 0 ? parseInt(value, 10) : parseFloat(value);
+}
+
+/**
+ * Validates a single numeric vital sign field against its range in the display unit
  */
 function validateField(
-  value: string,
-  fieldName: string,
-  min: number,
-  max: number,
-  unit: string
+  definition: VitalDefinition,
+  value: string | undefined,
+  display: VitalDisplayContext
 ): ValidationResult {
   if (!value) return { valid: true };
 
-  const numValue = parseInt(value, 10);
+  const numValue = parseInput(definition, value);
 
   if (isNaN(numValue)) {
-    return { valid: false, error: `${fieldName} must be a valid number` };
+    return { valid: false, error: `${definition.label} must be a valid number` };
   }
 
+  const min = definition.toDisplay(definition.validRange.min, display);
+  const max = definition.toDisplay(definition.validRange.max, display);
+
   if (numValue < min || numValue > max) {
-    return { valid: false, error: `❌ ${fieldName} must be between ${min}-${max} ${unit}` };
+    return { valid: false, error: `❌ ${definition.label} must be between ${min}-${max} ${definition.displayUnit(display)}` };
   }
 
   return { valid: true };
@@ -56,36 +84,27 @@ function validateField(
  *
  * @param formData - Form values to validate
  * @param requireAtLeastOne - Whether at least one field must be filled
+ * @param display - Units the values were entered in
  * @returns ValidationResult with error message if invalid
  */
 export function validateVitalSigns(
   formData: VitalSignsFormData,
-  requireAtLeastOne: boolean = true
+  requireAtLeastOne: boolean = true,
+  display: VitalDisplayContext = DEFAULT_DISPLAY
 ): ValidationResult {
-  const { heartRate, spO2, bpSystolic, bpDiastolic } = formData;
-
   // Check if at least one vital is provided
-  if (requireAtLeastOne) {
-    const hasData = heartRate || spO2 || bpSystolic || bpDiastolic;
-    if (!hasData) {
-      return { valid: false, error: 'Please enter at least one vital sign' };
-    }
+  if (requireAtLeastOne && !hasAnyVitalSign(formData)) {
+    return { valid: false, error: 'Please enter at least one vital sign' };
   }
 
   // Validate each field
-  const hrResult = validateField(heartRate, 'Heart Rate', VITAL_RANGES.heartRate.min, VITAL_RANGES.heartRate.max, VITAL_RANGES.heartRate.unit);
-  if (!hrResult.valid) return hrResult;
-
-  const spo2Result = validateField(spO2, 'SpO₂', VITAL_RANGES.spO2.min, VITAL_RANGES.spO2.max, VITAL_RANGES.spO2.unit);
-  if (!spo2Result.valid) return spo2Result;
-
-  const bpSysResult = validateField(bpSystolic, 'BP Systolic', VITAL_RANGES.bpSystolic.min, VITAL_RANGES.bpSystolic.max, VITAL_RANGES.bpSystolic.unit);
-  if (!bpSysResult.valid) return bpSysResult;
-
-  const bpDiaResult = validateField(bpDiastolic, 'BP Diastolic', VITAL_RANGES.bpDiastolic.min, VITAL_RANGES.bpDiastolic.max, VITAL_RANGES.bpDiastolic.unit);
-  if (!bpDiaResult.valid) return bpDiaResult;
+  for (const definition of VITAL_DEFINITIONS) {
+    const result = validateField(definition, formData[definition.key], display);
+    if (!result.valid) return result;
+  }
 
   // Validate BP relationship: Systolic >= Diastolic
+  const { bpSystolic, bpDiastolic } = formData;
   if (bpSystolic && bpDiastolic) {
     const sys = parseInt(bpSystolic, 10);
     const dia = parseInt(bpDiastolic, 10);
@@ -95,4 +114,20 @@ export function validateVitalSigns(
   }
 
   return { valid: true };
-}
\ No newline at end of file
+}
+
+/**
+ * Convert validated form data to API values in the stored unit (empty fields are omitted)
+ */
+export function parseVitalSignsForm(
+  formData: VitalSignsFormData,
+  display: VitalDisplayContext = DEFAULT_DISPLAY
+): Partial<Record<VitalKey, number>> {
+  const values: Partial<Record<VitalKey, number>> = {};
+  VITAL_DEFINITIONS.forEach(definition => {
+    const value = formData[definition.key];
+    if (!value) return;
+    values[definition.key] = definition.fromDisplay(parseInput(definition, value), display);
+  });
+  return values;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { advanceBackfillSince, getBackfillSince, isLatestReading, mergeReadings, selectMissedReadings } from './vitalsBackfill';
+import type { Patient, VitalSigns } from '../types/hospital';
+
+const reading = (patientId: string, minute: number, id = `${patientId}-${minute}`): VitalSigns => ({
+  id,
+  patientId,
+  heartRate: 75,
+  spO2: 97,
+  recordedAt: `2025-01-01T08:${String(minute).padStart(2, '0')}:00Z`,
+});
+
+const patient = (id: string, minutes: number[]): Patient => ({
+  id,
+  mrn: `MRN-${id}`,
+  name: id,
+  status: 'stable',
+  admittedAt: '2025-01-01T00:00:00Z',
+  injectionModeEnabled: false,
+  nurseAttending: false,
+  vitalSigns: minutes.map(m => reading(id, m)), // Newest first
+  alerts: [],
+});
+
+describe('vitalsBackfill', () => {
+  it('starts from the oldest last reading, ignoring patients without readings', () => {
+    expect(getBackfillSince([patient('p1', [10, 9]), patient('p2', [7, 6]), patient('p3', [])]))
+      .toBe('2025-01-01T08:07:00Z');
+    expect(getBackfillSince([patient('p3', [])])).toBeUndefined();
+  });
+
+  it('moves polling past a stale patient once newer data has been received', () => {
+    // p2's monitor went silent at 08:01 - every recomputed start would reach back to it
+    const patients = [patient('p1', [30, 29]), patient('p2', [1])];
+    const since = getBackfillSince(patients)!;
+    expect(since).toBe('2025-01-01T08:01:00Z');
+
+    const next = advanceBackfillSince(since, [reading('p1', 31), reading('p1', 32)], [{ triggeredAt: '2025-01-01T08:31:30Z' }]);
+    expect(next).toBe('2025-01-01T08:32:00Z');
+
+    // Nothing new - the next poll asks from the same point rather than falling back
+    expect(advanceBackfillSince(next, [])).toBe(next);
+  });
+
+  it('recognises a repeat of the latest reading', () => {
+    expect(isLatestReading(patient('p1', [10, 9]), '2025-01-01T08:10:00.000Z')).toBe(true);
+    expect(isLatestReading(patient('p1', [10, 9]), '2025-01-01T08:11:00Z')).toBe(false);
+    expect(isLatestReading(patient('p1', []), '2025-01-01T08:10:00Z')).toBe(false);
+  });
+
+  it("selects only the patient's own readings newer than their last one", () => {
+    const missed = selectMissedReadings(patient('p1', [10, 9]), [
+      reading('p1', 12),
+      reading('p2', 11),
+      reading('p1', 10),  // Already known
+      reading('p1', 11),
+    ]);
+
+    expect(missed.map(r => r.recordedAt)).toEqual(['2025-01-01T08:11:00Z', '2025-01-01T08:12:00Z']);
+  });
+
+  it('merges in either order without duplicating a reading that arrived live', () => {
+    const live = reading('p1', 12, 'client-generated-id');
+
+    expect(mergeReadings([live, reading('p1', 10)], [reading('p1', 11), reading('p1', 12)], 'newest-first')
+      .map(r => r.id)).toEqual(['client-generated-id', 'p1-11', 'p1-10']);
+    expect(mergeReadings([reading('p1', 10)], [reading('p1', 11)], 'chronological')
+      .map(r => r.id)).toEqual(['p1-10', 'p1-11']);
+  });
+
+  it('keeps the series when nothing is new', () => {
+    const series = [reading('p1', 10)];
+    expect(mergeReadings(series, [reading('p1', 10)], 'chronological')).toBe(series);
+  });
+});
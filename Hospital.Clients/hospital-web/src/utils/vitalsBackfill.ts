@@ -0,0 +1,81 @@
+/**
+ * Reconnect Backfill
+ *
+ * Readings recorded while the hub connection was down never arrive as ReceiveVitalUpdate events.
+ * After a reconnect the dashboard fetches everything since the oldest of its patients' last
+ * readings, and each patient takes only what is newer than its own last reading.
+ * Live readings have client-side IDs, so readings are matched by recordedAt - a patient never has
+ * two readings at the same instant.
+ * Repeated polls don't recompute the start: one silent monitor would pin it hours back and every
+ * poll would re-download the whole window. Each poll continues from the newest timestamp the
+ * previous one received (advanceBackfillSince).
+ */
+
+import type { Patient, VitalSigns } from '../types/hospital';
+
+const time = (reading: VitalSigns) => Date.parse(reading.recordedAt);
+
+/**
+ * Where a backfill starts: the oldest of the patients' last readings
+ * Patients with no readings yet have nothing to fill and don't pull the window back.
+ */
+export function getBackfillSince(patients: Patient[]): string | undefined {
+  let since: VitalSigns | undefined;
+  patients.forEach(patient => {
+    const latest = patient.vitalSigns[0]; // Newest first
+    if (latest && (!since || time(latest) < time(since))) since = latest;
+  });
+  return since?.recordedAt;
+}
+
+/**
+ * Where the next poll starts: the newest reading or alert received, or the same start if nothing came
+ */
+export function advanceBackfillSince(
+  since: string,
+  readings: VitalSigns[],
+  alerts: { triggeredAt: string }[] = [],
+): string {
+  let latest = since;
+  [...readings.map(r => r.recordedAt), ...alerts.map(a => a.triggeredAt)].forEach(timestamp => {
+    if (Date.parse(timestamp) > Date.parse(latest)) latest = timestamp;
+  });
+  return latest;
+}
+
+/**
+ * Whether a live update repeats the patient's latest reading - a connection that is in several of
+ * the update's hub groups (hospital, ward, patient) receives it once per group
+ */
+export function isLatestReading(patient: Patient, recordedAt: string): boolean {
+  const latest = patient.vitalSigns[0];
+  return !!latest && time(latest) === Date.parse(recordedAt);
+}
+
+/**
+ * The readings a patient missed: theirs, newer than their last known reading, chronological
+ */
+export function selectMissedReadings(patient: Patient, readings: VitalSigns[]): VitalSigns[] {
+  const latest = patient.vitalSigns[0];
+  return readings
+    .filter(r => r.patientId === patient.id && (!latest || time(r) > time(latest)))
+    .sort((a, b) => time(a) - time(b));
+}
+
+/**
+ * Merge missed readings into a series without duplicating any already there
+ * Returns the series unchanged (same reference) when nothing is new.
+ * @param order - 'newest-first' for patient.vitalSigns, 'chronological' for trend windows
+ */
+export function mergeReadings(
+  series: VitalSigns[],
+  missed: VitalSigns[],
+  order: 'newest-first' | 'chronological',
+): VitalSigns[] {
+  const known = new Set(series.map(time));
+  const added = missed.filter(r => !known.has(time(r)));
+  if (added.length === 0) return series;
+
+  const direction = order === 'chronological' ? 1 : -1;
+  return [...series, ...added].sort((a, b) => direction * (time(a) - time(b)));
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCensusByWard, calculateHospitalCensus } from './wardCensus';
+import type { Patient, PatientStatus, Ward } from '../types/hospital';
+
+const wards: Ward[] = [
+  { id: 'w1', name: 'Intensive Care Unit', capacity: 10 },
+  { id: 'w2', name: 'Cardiology', capacity: 8 },
+];
+
+const patient = (id: string, wardId: string | undefined, status: PatientStatus): Patient => ({
+  id,
+  mrn: `MRN-${id}`,
+  name: id,
+  status,
+  admittedAt: '2025-01-01T08:00:00Z',
+  bed: wardId ? { id: `b-${id}`, number: '1', wardId, status: 'occupied' } : undefined,
+  vitalSigns: [],
+  alerts: [],
+});
+
+describe('wardCensus', () => {
+  const patients = [
+    patient('p1', 'w1', 'critical'),
+    patient('p2', 'w1', 'watch'),
+    patient('p3', 'w1', 'stable'),
+    patient('p4', 'w2', 'stable'),
+    patient('p5', undefined, 'watch'),
+  ];
+
+  it('counts occupancy and status per ward', () => {
+    const census = calculateCensusByWard(wards, patients);
+
+    expect(census.get('w1')).toEqual({ occupied: 3, capacity: 10, critical: 1, watch: 1, stable: 1 });
+    expect(census.get('w2')).toEqual({ occupied: 1, capacity: 8, critical: 0, watch: 0, stable: 1 });
+  });
+
+  it('counts an empty ward', () => {
+    const census = calculateCensusByWard([...wards, { id: 'w3', name: 'Respiratory', capacity: 6 }], patients);
+
+    expect(census.get('w3')).toEqual({ occupied: 0, capacity: 6, critical: 0, watch: 0, stable: 0 });
+  });
+
+  it('totals every patient against the combined capacity', () => {
+    expect(calculateHospitalCensus(wards, patients)).toEqual({ occupied: 5, capacity: 18, critical: 1, watch: 2, stable: 2 });
+  });
+});
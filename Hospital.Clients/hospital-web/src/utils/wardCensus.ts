@@ -0,0 +1,42 @@
+/**
+ * Ward Census
+ *
+ * Bed occupancy and patient status counts per ward. Status is the patient's own status -
+ * the same one the card border shows - so the census always agrees with the grid.
+ */
+
+import type { Patient, PatientStatus, Ward } from '../types/hospital';
+
+export interface WardCensus {
+  occupied: number;
+  capacity: number;
+  critical: number;
+  watch: number;
+  stable: number;
+}
+
+/**
+ * Census for a set of patients against a bed capacity
+ */
+export function calculateCensus(patients: Patient[], capacity: number): WardCensus {
+  const counts: Record<PatientStatus, number> = { critical: 0, watch: 0, stable: 0 };
+  patients.forEach(p => counts[p.status]++);
+  return { occupied: patients.length, capacity, ...counts };
+}
+
+/**
+ * Census per ward, keyed by ward ID - patients without a bed in a known ward are not counted
+ */
+export function calculateCensusByWard(wards: Ward[], patients: Patient[]): Map<string, WardCensus> {
+  return new Map(wards.map(ward => [
+    ward.id,
+    calculateCensus(patients.filter(p => p.bed?.wardId === ward.id), ward.capacity),
+  ]));
+}
+
+/**
+ * Whole-hospital census - every patient, against the combined capacity of all wards
+ */
+export function calculateHospitalCensus(wards: Ward[], patients: Patient[]): WardCensus {
+  return calculateCensus(patients, wards.reduce((sum, ward) => sum + ward.capacity, 0));
+}